@@ -45,15 +45,6 @@ try {
 
     // SQL schema from data-model.md
     $schema = <<<'SQL'
-CREATE TABLE IF NOT EXISTS terrain_types (
-    id INT AUTO_INCREMENT PRIMARY KEY,
-    name VARCHAR(100) NOT NULL UNIQUE,
-    description TEXT,
-    emoji VARCHAR(10),
-    sort_order INT NOT NULL DEFAULT 0,
-    INDEX idx_sort_order (sort_order)
-) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
-
 CREATE TABLE IF NOT EXISTS tournaments (
     id INT AUTO_INCREMENT PRIMARY KEY,
     name VARCHAR(255) NOT NULL,
@@ -66,9 +57,26 @@ CREATE TABLE IF NOT EXISTS tournaments (
     table_count INT NOT NULL,
     last_updated DATETIME DEFAULT NULL,
     admin_token CHAR(16) NOT NULL UNIQUE,
+    terrain_family_weight INT NOT NULL DEFAULT 50,
     INDEX idx_admin_token (admin_token)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
 
+-- tournament_id NULL: built-in type available to every tournament
+-- family NULL: the type is a family of its own
+CREATE TABLE IF NOT EXISTS terrain_types (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tournament_id INT DEFAULT NULL,
+    name VARCHAR(100) NOT NULL,
+    family VARCHAR(100) DEFAULT NULL,
+    description TEXT,
+    emoji VARCHAR(10),
+    sort_order INT NOT NULL DEFAULT 0,
+    is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+    UNIQUE INDEX idx_tournament_name (tournament_id, name),
+    INDEX idx_sort_order (sort_order),
+    FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
 CREATE TABLE IF NOT EXISTS tables (
     id INT AUTO_INCREMENT PRIMARY KEY,
     tournament_id INT NOT NULL,
@@ -121,6 +129,45 @@ CREATE TABLE IF NOT EXISTS allocations (
     FOREIGN KEY (player1_id) REFERENCES players(id) ON DELETE CASCADE,
     FOREIGN KEY (player2_id) REFERENCES players(id) ON DELETE CASCADE
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS allocation_edits (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    round_id INT NOT NULL,
+    action VARCHAR(20) NOT NULL,
+    changes JSON NOT NULL,
+    edited_by VARCHAR(100) DEFAULT NULL,
+    is_undone BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at DATETIME NOT NULL,
+    INDEX idx_round_undone (round_id, is_undone),
+    FOREIGN KEY (round_id) REFERENCES rounds(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+CREATE TABLE IF NOT EXISTS table_constraints (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tournament_id INT NOT NULL,
+    player_id INT NOT NULL,
+    round_number INT DEFAULT NULL,
+    constraint_type VARCHAR(20) NOT NULL,
+    table_ids JSON NOT NULL,
+    note VARCHAR(255) DEFAULT NULL,
+    INDEX idx_tournament_round (tournament_id, round_number),
+    FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON DELETE CASCADE,
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+
+-- A table's terrain in one round, overriding tables.terrain_type_id
+CREATE TABLE IF NOT EXISTS round_terrain (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tournament_id INT NOT NULL,
+    table_id INT NOT NULL,
+    round_number INT NOT NULL,
+    terrain_type_id INT DEFAULT NULL,
+    UNIQUE INDEX idx_table_round (table_id, round_number),
+    INDEX idx_tournament_round (tournament_id, round_number),
+    FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES tables(id) ON DELETE CASCADE,
+    FOREIGN KEY (terrain_type_id) REFERENCES terrain_types(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
 SQL;
 
     // Execute each statement
@@ -151,6 +198,27 @@ SQL;
             'column' => 'emoji',
             'sql' => 'ALTER TABLE terrain_types ADD COLUMN emoji VARCHAR(10) AFTER description'
         ],
+        [
+            'table' => 'terrain_types',
+            'column' => 'tournament_id',
+            'sql' => 'ALTER TABLE terrain_types ADD COLUMN tournament_id INT DEFAULT NULL AFTER id,
+                      ADD FOREIGN KEY (tournament_id) REFERENCES tournaments(id) ON DELETE CASCADE'
+        ],
+        [
+            'table' => 'terrain_types',
+            'column' => 'is_archived',
+            'sql' => 'ALTER TABLE terrain_types ADD COLUMN is_archived BOOLEAN NOT NULL DEFAULT FALSE AFTER sort_order'
+        ],
+        [
+            'table' => 'terrain_types',
+            'column' => 'family',
+            'sql' => 'ALTER TABLE terrain_types ADD COLUMN family VARCHAR(100) DEFAULT NULL AFTER name'
+        ],
+        [
+            'table' => 'tournaments',
+            'column' => 'terrain_family_weight',
+            'sql' => 'ALTER TABLE tournaments ADD COLUMN terrain_family_weight INT NOT NULL DEFAULT 50'
+        ],
         [
             'table' => 'allocations',
             'column' => 'bcp_table_number',
@@ -176,6 +244,21 @@ SQL;
             'column' => 'optional',
             'sql' => 'ALTER TABLE tables ADD COLUMN optional BOOLEAN NOT NULL DEFAULT FALSE'
         ],
+        [
+            'table' => 'tables',
+            'column' => 'map_zone',
+            'sql' => 'ALTER TABLE tables ADD COLUMN map_zone VARCHAR(50) DEFAULT NULL'
+        ],
+        [
+            'table' => 'tables',
+            'column' => 'map_x',
+            'sql' => 'ALTER TABLE tables ADD COLUMN map_x DECIMAL(5,2) DEFAULT NULL'
+        ],
+        [
+            'table' => 'tables',
+            'column' => 'map_y',
+            'sql' => 'ALTER TABLE tables ADD COLUMN map_y DECIMAL(5,2) DEFAULT NULL'
+        ],
         [
             'table' => 'tournaments',
             'column' => 'last_updated',
@@ -247,6 +330,19 @@ SQL;
         }
     }
 
+    // Terrain type names are unique per tournament catalog, no longer globally
+    $stmt = $pdo->prepare(
+        "SELECT COUNT(*) FROM information_schema.STATISTICS
+         WHERE TABLE_SCHEMA = :db AND TABLE_NAME = 'terrain_types' AND INDEX_NAME = 'name'"
+    );
+    $stmt->execute(['db' => $dbName]);
+    if ((int) $stmt->fetchColumn() > 0) {
+        $pdo->exec(
+            'ALTER TABLE terrain_types DROP INDEX name, ADD UNIQUE INDEX idx_tournament_name (tournament_id, name)'
+        );
+        echo "Scoped terrain type names to tournaments.\n";
+    }
+
     echo "Schema upgrade complete.\n";
 
 } catch (PDOException $e) {
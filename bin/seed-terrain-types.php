@@ -38,27 +38,38 @@ try {
     echo "Connected to database.\n";
 
     // Terrain types from data-model.md#initial-data
+    // Variants of the same terrain share a family (null: a family of its own)
     $terrainTypes = [
-        ['Volkus', 'Forge world industrial terrain', '🏢', 1],
-        ['Tomb World', 'Necron tomb complex', '🪦', 2],
-        ['Into the Dark', 'Generic space hulk terrain', '🚀', 3],
-        ['Octarius', 'War-torn Ork-infested ruins', '🛖', 4],
-        ['Bheta-Decima', 'Imperial hive city ruins', '🏗️', 5],
-        ['Volkus+Tyranid', 'Volkus with Tyranid infestation', '👾', 6],
-        ['Descent', 'Two half-boards of Volkus and Tomb World', '🕳️', 7]
+        ['Volkus', 'Volkus', 'Forge world industrial terrain', '🏢', 1],
+        ['Tomb World', null, 'Necron tomb complex', '🪦', 2],
+        ['Into the Dark', null, 'Generic space hulk terrain', '🚀', 3],
+        ['Octarius', null, 'War-torn Ork-infested ruins', '🛖', 4],
+        ['Bheta-Decima', null, 'Imperial hive city ruins', '🏗️', 5],
+        ['Volkus+Tyranid', 'Volkus', 'Volkus with Tyranid infestation', '👾', 6],
+        ['Descent', null, 'Two half-boards of Volkus and Tomb World', '🕳️', 7]
     ];
 
-    // Use INSERT IGNORE to avoid duplicates on re-run
+    // Skip built-in types that already exist so re-runs add nothing (names are
+    // only unique per tournament, so INSERT IGNORE can't detect duplicates)
     $stmt = $pdo->prepare(
-        'INSERT IGNORE INTO terrain_types (name, description, emoji, sort_order) VALUES (?, ?, ?, ?)'
+        'INSERT INTO terrain_types (name, family, description, emoji, sort_order)
+         SELECT ?, ?, ?, ?, ? FROM DUAL
+         WHERE NOT EXISTS (SELECT 1 FROM terrain_types WHERE tournament_id IS NULL AND name = ?)'
+    );
+
+    // Types seeded before families existed get theirs
+    $familyStmt = $pdo->prepare(
+        'UPDATE terrain_types SET family = ? WHERE tournament_id IS NULL AND name = ? AND family IS NULL'
     );
 
     $inserted = 0;
     foreach ($terrainTypes as $terrain) {
-        $stmt->execute($terrain);
+        $stmt->execute([...$terrain, $terrain[0]]);
         if ($stmt->rowCount() > 0) {
             $inserted++;
             echo "  Added: {$terrain[0]}\n";
+        } elseif ($terrain[1] !== null) {
+            $familyStmt->execute([$terrain[1], $terrain[0]]);
         }
     }
 
@@ -9,16 +9,23 @@ declare(strict_types=1);
 require_once __DIR__ . '/../vendor/autoload.php';
 
 use TournamentTables\Controllers\BaseController;
+use TournamentTables\Controllers\ErrorCode;
 use TournamentTables\Controllers\TournamentController;
 use TournamentTables\Controllers\TerrainTypeController;
+use TournamentTables\Controllers\TableConstraintController;
 use TournamentTables\Controllers\AuthController;
 use TournamentTables\Controllers\RoundController;
+use TournamentTables\Controllers\RoundTerrainController;
 use TournamentTables\Controllers\AllocationController;
+use TournamentTables\Controllers\ExportController;
+use TournamentTables\Controllers\BackupController;
+use TournamentTables\Controllers\FloorMapController;
 use TournamentTables\Controllers\PublicController;
 use TournamentTables\Controllers\ViewController;
 use TournamentTables\Controllers\HomeController;
 use TournamentTables\Controllers\MockBcpController;
 use TournamentTables\Middleware\AdminAuthMiddleware;
+use TournamentTables\Database\Connection;
 
 // Error handling
 error_reporting(E_ALL);
@@ -37,7 +44,21 @@ function respondJson(array $payload): void
     try {
         echo json_encode($payload, JSON_THROW_ON_ERROR);
     } catch (\JsonException $e) {
-        echo '{"error":"serialization_error","message":"Failed to encode JSON response"}';
+        echo '{"error":"serialization_error","code":"INTERNAL_ERROR","message":"Failed to encode JSON response"}';
+    }
+}
+
+// E2E test workers each use their own database (tests/E2E/helpers/worker-database.ts)
+if (getenv('APP_ENV') === 'testing' && isset($_SERVER['HTTP_X_TEST_DATABASE'])) {
+    if (!Connection::useTestDatabase((string) $_SERVER['HTTP_X_TEST_DATABASE'])) {
+        http_response_code(400);
+        header('Content-Type: application/json');
+        respondJson([
+            'error' => 'invalid_test_database',
+            'code' => ErrorCode::VALIDATION_ERROR,
+            'message' => 'X-Test-Database must name a worker database',
+        ]);
+        exit;
     }
 }
 
@@ -52,21 +73,49 @@ $routes = [
     // API Routes
     'POST /api/tournaments' => ['TournamentController', 'create'],
     'GET /api/tournaments/{id}' => ['TournamentController', 'show', 'admin'],
+    'PATCH /api/tournaments/{id}' => ['TournamentController', 'update', 'admin'],
     'DELETE /api/tournaments/{id}' => ['TournamentController', 'delete', 'admin'],
     'PUT /api/tournaments/{id}/tables' => ['TournamentController', 'updateTables', 'admin'],
     'POST /api/tournaments/{id}/tables/add' => ['TournamentController', 'addTable', 'admin'],
     'POST /api/tournaments/{id}/tables/remove' => ['TournamentController', 'removeTable', 'admin'],
     'PUT /api/tournaments/{id}/tables/count' => ['TournamentController', 'setTableCount', 'admin'],
+    'GET /api/tournaments/{id}/constraints' => ['TableConstraintController', 'index', 'admin'],
+    'POST /api/tournaments/{id}/constraints' => ['TableConstraintController', 'create', 'admin'],
+    'DELETE /api/tournaments/{id}/constraints/{constraint}' => ['TableConstraintController', 'delete', 'admin'],
     'GET /api/terrain-types' => ['TerrainTypeController', 'index'],
+    'GET /api/tournaments/{id}/terrain-types' => ['TerrainTypeController', 'tournamentIndex', 'admin'],
+    'POST /api/tournaments/{id}/terrain-types' => ['TerrainTypeController', 'create', 'admin'],
+    'PATCH /api/tournaments/{id}/terrain-types/{terrain}' => ['TerrainTypeController', 'update', 'admin'],
+    'POST /api/tournaments/{id}/terrain-types/{terrain}/archive' => ['TerrainTypeController', 'archive', 'admin'],
+    'POST /api/tournaments/{id}/terrain-types/{terrain}/restore' => ['TerrainTypeController', 'restore', 'admin'],
     'POST /api/auth' => ['AuthController', 'authenticate'],
     'POST /api/tournaments/{id}/rounds/{n}/import' => ['RoundController', 'import', 'admin'],
     'POST /api/tournaments/{id}/rounds/{n}/generate' => ['RoundController', 'generate', 'admin'],
     'POST /api/tournaments/{id}/rounds/{n}/publish' => ['RoundController', 'publish', 'admin'],
     'GET /api/tournaments/{id}/rounds/{n}' => ['RoundController', 'show', 'admin'],
+    'GET /api/tournaments/{id}/rounds/{n}/terrain' => ['RoundTerrainController', 'show', 'admin'],
+    'PUT /api/tournaments/{id}/rounds/{n}/terrain' => ['RoundTerrainController', 'update', 'admin'],
+    'DELETE /api/tournaments/{id}/rounds/{n}/terrain' => ['RoundTerrainController', 'clear', 'admin'],
+    'POST /api/tournaments/{id}/rounds/{n}/terrain/copy-previous' => ['RoundTerrainController', 'copyPrevious', 'admin'],
     'PATCH /api/allocations/{id}' => ['AllocationController', 'update', 'admin'],
     'POST /api/allocations/swap' => ['AllocationController', 'swap', 'admin'],
+    'POST /api/tournaments/{id}/rounds/{n}/allocations/batch' => ['AllocationController', 'batch', 'admin'],
+    'GET /api/tournaments/{id}/rounds/{n}/history' => ['AllocationController', 'history', 'admin'],
+    'POST /api/tournaments/{id}/rounds/{n}/history/undo' => ['AllocationController', 'undo', 'admin'],
+    'POST /api/tournaments/{id}/rounds/{n}/history/redo' => ['AllocationController', 'redo', 'admin'],
+    'POST /api/tournaments/{id}/rounds/{n}/history/revert' => ['AllocationController', 'revert', 'admin'],
+    'GET /api/tournaments/{id}/export' => ['ExportController', 'export', 'admin'],
+    'GET /api/tournaments/{id}/backup' => ['BackupController', 'backup', 'admin'],
+    'POST /api/tournaments/restore' => ['BackupController', 'restore'],
+    'GET /api/tournaments/{id}/floor-map' => ['FloorMapController', 'show', 'admin'],
+    'PUT /api/tournaments/{id}/floor-map' => ['FloorMapController', 'update', 'admin'],
     'GET /api/public/tournaments/{id}' => ['PublicController', 'showTournament'],
     'GET /api/public/tournaments/{id}/rounds/{n}' => ['PublicController', 'showRound'],
+    'GET /api/public/tournaments/{id}/events' => ['PublicController', 'events'],
+    'GET /api/public/tournaments/{id}/players' => ['PublicController', 'searchPlayers'],
+    'GET /api/public/tournaments/{id}/players/{player}' => ['PublicController', 'showPlayer'],
+    'GET /api/public/tournaments/{id}/export' => ['ExportController', 'publicExport'],
+    'GET /api/public/tournaments/{id}/floor-map' => ['FloorMapController', 'publicShow'],
 
     // Admin View Routes (HTML) - must come before public catch-all routes
     'GET /admin' => ['HomeController', 'index'],
@@ -74,6 +123,8 @@ $routes = [
     'GET /admin/tournament/create' => ['ViewController', 'createTournament'],
     'GET /admin/tournament/{id}' => ['ViewController', 'showTournament', 'admin'],
     'GET /admin/tournament/{id}/round/{n}' => ['ViewController', 'showRound', 'admin'],
+    'GET /admin/tournament/{id}/round/{n}/print' => ['ViewController', 'printRound', 'admin'],
+    'GET /admin/tournament/{id}/floor-map' => ['ViewController', 'floorMap', 'admin'],
 
     // Public View Routes (HTML) - catch-all routes last
     'GET /' => ['ViewController', 'publicIndex'],
@@ -118,7 +169,7 @@ foreach ($routes as $pattern => $handler) {
 if ($matchedRoute === null) {
     http_response_code(404);
     if (str_starts_with($uri, '/api/')) {
-        respondJson(['error' => 'not_found', 'message' => 'Route not found']);
+        respondJson(['error' => 'not_found', 'code' => ErrorCode::ROUTE_NOT_FOUND, 'message' => 'Route not found']);
     } else {
         echo '<!DOCTYPE html><html><head><title>404 Not Found</title></head><body><h1>404 Not Found</h1></body></html>';
     }
@@ -132,7 +183,13 @@ if ($requiresAuth) {
     if ($authResult !== true) {
         http_response_code(401);
         if (str_starts_with($uri, '/api/')) {
-            respondJson(['error' => 'unauthorized', 'message' => $authResult]);
+            respondJson([
+                'error' => 'unauthorized',
+                'code' => AdminAuthMiddleware::getToken() === null
+                    ? ErrorCode::MISSING_TOKEN
+                    : ErrorCode::INVALID_TOKEN,
+                'message' => $authResult,
+            ]);
         } else {
             header('Location: /admin/login');
         }
@@ -144,9 +201,14 @@ if ($requiresAuth) {
 $controllers = [
     'TournamentController' => TournamentController::class,
     'TerrainTypeController' => TerrainTypeController::class,
+    'TableConstraintController' => TableConstraintController::class,
     'AuthController' => AuthController::class,
     'RoundController' => RoundController::class,
+    'RoundTerrainController' => RoundTerrainController::class,
     'AllocationController' => AllocationController::class,
+    'ExportController' => ExportController::class,
+    'BackupController' => BackupController::class,
+    'FloorMapController' => FloorMapController::class,
     'PublicController' => PublicController::class,
     'ViewController' => ViewController::class,
     'HomeController' => HomeController::class,
@@ -162,7 +224,7 @@ $action = $matchedRoute[1];
 
 if (!isset($controllers[$controllerName])) {
     http_response_code(500);
-    respondJson(['error' => 'internal_error', 'message' => 'Controller not found']);
+    respondJson(['error' => 'internal_error', 'code' => ErrorCode::INTERNAL_ERROR, 'message' => 'Controller not found']);
     exit;
 }
 
@@ -183,7 +245,11 @@ try {
                     $body = json_decode($rawBody, true, 512, JSON_THROW_ON_ERROR);
                 } catch (\JsonException $e) {
                     http_response_code(400);
-                    respondJson(['error' => 'invalid_json', 'message' => 'Invalid JSON in request body']);
+                    respondJson([
+                        'error' => 'invalid_json',
+                        'code' => ErrorCode::INVALID_JSON,
+                        'message' => 'Invalid JSON in request body',
+                    ]);
                     exit;
                 }
             }
@@ -215,6 +281,7 @@ try {
     if (str_starts_with($uri, '/api/')) {
         respondJson([
             'error' => 'internal_error',
+            'code' => ErrorCode::INTERNAL_ERROR,
             'message' => 'An unexpected error occurred',
             // Only show details in development
             'debug' => getenv('APP_ENV') === 'development' ? $e->getMessage() : null,
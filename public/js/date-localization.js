@@ -90,6 +90,9 @@
         });
     }
 
+    // Pages that swap in server-rendered content localize it again
+    window.localizeDateRanges = localizeDateRanges;
+
     if (document.readyState === 'loading') {
         document.addEventListener('DOMContentLoaded', localizeDateRanges);
         return;
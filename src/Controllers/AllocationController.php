@@ -9,6 +9,7 @@ use TournamentTables\Models\Round;
 use TournamentTables\Models\Table;
 use TournamentTables\Database\Connection;
 use TournamentTables\Services\AllocationEditService;
+use TournamentTables\Services\AllocationHistoryService;
 use TournamentTables\Services\CostCalculator;
 
 /**
@@ -21,10 +22,14 @@ class AllocationController extends BaseController
     /** @var AllocationEditService */
     private $editService;
 
+    /** @var AllocationHistoryService */
+    private $historyService;
+
     public function __construct()
     {
         $db = Connection::getInstance();
         $this->editService = new AllocationEditService($db, new CostCalculator());
+        $this->historyService = new AllocationHistoryService($db, $this->editService);
     }
     /**
      * PATCH /api/allocations/{id} - Edit table assignment.
@@ -37,14 +42,14 @@ class AllocationController extends BaseController
 
         $allocation = Allocation::find($allocationId);
         if ($allocation === null) {
-            $this->notFound('Allocation');
+            $this->notFound('Allocation', ['allocationId' => $allocationId]);
             return;
         }
 
         // Get the round to verify tournament ownership
         $round = Round::find($allocation->roundId);
         if ($round === null) {
-            $this->notFound('Round');
+            $this->notFound('Round', ['roundId' => $allocation->roundId]);
             return;
         }
 
@@ -62,19 +67,32 @@ class AllocationController extends BaseController
         $newTable = Table::find($newTableId);
 
         if ($newTable === null) {
-            $this->notFound('Table');
+            $this->notFound('Table', ['tableId' => $newTableId]);
             return;
         }
 
         if ($newTable->tournamentId !== $round->tournamentId) {
-            $this->error('validation_error', 'Table does not belong to this tournament', 400);
+            $this->error(
+                'validation_error',
+                'Table does not belong to this tournament',
+                400,
+                [],
+                ErrorCode::TABLE_NOT_IN_TOURNAMENT,
+                ['tableId' => $newTableId, 'tournamentId' => $round->tournamentId]
+            );
             return;
         }
 
         // Update the allocation using the edit service (includes conflict recalculation per FR-010)
         // Note: Duplicate table assignments are allowed but will be flagged as conflicts
         try {
-            $result = $this->editService->editTableAssignment($allocation->id, $newTableId);
+            $result = Connection::executeInTransaction(function () use ($allocation, $newTableId, $body) {
+                $result = $this->editService->editTableAssignment($allocation->id, $newTableId);
+                $this->historyService->record($allocation->roundId, AllocationHistoryService::ACTION_MOVE, [
+                    ['allocationId' => $allocation->id, 'fromTableId' => $allocation->tableId, 'toTableId' => $newTableId],
+                ], $this->editedBy($body));
+                return $result;
+            });
 
             // Reload allocation to get updated data
             $allocation = Allocation::find($allocationId);
@@ -89,7 +107,7 @@ class AllocationController extends BaseController
                 'conflicts' => $result['conflicts'],
             ]);
         } catch (\RuntimeException $e) {
-            $this->error('conflict', $e->getMessage(), 400);
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::EDIT_REJECTED);
         }
     }
 
@@ -112,27 +130,29 @@ class AllocationController extends BaseController
         $allocationId2 = (int) $body['allocationId2'];
 
         if ($allocationId1 === $allocationId2) {
-            $this->error('validation_error', 'Cannot swap allocation with itself', 400);
+            $this->error('validation_error', 'Cannot swap allocation with itself', 400, [], ErrorCode::INVALID_SWAP);
             return;
         }
 
         $allocation1 = Allocation::find($allocationId1);
         $allocation2 = Allocation::find($allocationId2);
         if ($allocation1 === null || $allocation2 === null) {
-            $this->error('internal_error', 'Allocation was deleted during swap', 500);
+            $this->notFound('Allocation', [
+                'allocationId' => $allocation1 === null ? $allocationId1 : $allocationId2,
+            ]);
             return;
         }
 
         // Verify both allocations are in the same round
         if ($allocation1->roundId !== $allocation2->roundId) {
-            $this->error('validation_error', 'Allocations must be in the same round', 400);
+            $this->error('validation_error', 'Allocations must be in the same round', 400, [], ErrorCode::INVALID_SWAP);
             return;
         }
 
         // Get the round to verify tournament ownership
         $round = Round::find($allocation1->roundId);
         if ($round === null) {
-            $this->notFound('Round');
+            $this->notFound('Round', ['roundId' => $allocation1->roundId]);
             return;
         }
 
@@ -143,7 +163,14 @@ class AllocationController extends BaseController
 
         // Swap tables using the edit service (includes conflict recalculation per FR-010)
         try {
-            $result = $this->editService->swapTables($allocationId1, $allocationId2);
+            $result = Connection::executeInTransaction(function () use ($allocation1, $allocation2, $body) {
+                $result = $this->editService->swapTables($allocation1->id, $allocation2->id);
+                $this->historyService->record($allocation1->roundId, AllocationHistoryService::ACTION_SWAP, [
+                    ['allocationId' => $allocation1->id, 'fromTableId' => $allocation1->tableId, 'toTableId' => $allocation2->tableId],
+                    ['allocationId' => $allocation2->id, 'fromTableId' => $allocation2->tableId, 'toTableId' => $allocation1->tableId],
+                ], $this->editedBy($body));
+                return $result;
+            });
 
             // Reload allocations to get updated data
             $allocation1 = Allocation::find($allocationId1);
@@ -167,9 +194,176 @@ class AllocationController extends BaseController
                 ],
             ]);
         } catch (\RuntimeException $e) {
-            $this->error('conflict', $e->getMessage(), 400);
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::EDIT_REJECTED);
         } catch (\Exception $e) {
             $this->error('internal_error', 'Failed to swap tables', 500);
         }
     }
+
+    /**
+     * POST /api/tournaments/{id}/rounds/{n}/allocations/batch - Apply several edits at once.
+     *
+     * Moves and swaps are applied in order and validated as a whole, in one
+     * transaction; the response is the resulting round.
+     */
+    public function batch(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $roundNumber = (int) ($params['n'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return;
+        }
+
+        if (!isset($body['operations']) || !is_array($body['operations'])) {
+            $this->validationError(['operations' => ['A list of move and swap operations is required']]);
+            return;
+        }
+
+        $round = Round::findByTournamentAndNumber($tournamentId, $roundNumber);
+        if ($round === null) {
+            $this->roundNotImported($tournamentId, $roundNumber);
+            return;
+        }
+
+        try {
+            $result = Connection::executeInTransaction(function () use ($round, $body) {
+                $result = $this->editService->applyBatch($round->id, $body['operations']);
+                $changes = [];
+                foreach ($result['changed'] as $allocationId => $tableId) {
+                    $changes[] = [
+                        'allocationId' => $allocationId,
+                        'fromTableId' => $result['previous'][$allocationId],
+                        'toTableId' => $tableId,
+                    ];
+                }
+                $this->historyService->record($round->id, AllocationHistoryService::ACTION_BATCH, $changes, $this->editedBy($body));
+                return $result;
+            });
+        } catch (\InvalidArgumentException $e) {
+            $this->validationError(['operations' => [$e->getMessage()]]);
+            return;
+        } catch (\RuntimeException $e) {
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::EDIT_REJECTED);
+            return;
+        }
+
+        $allocations = $round->getAllocations();
+        $conflicts = [];
+        foreach ($allocations as $allocation) {
+            foreach ($allocation->getConflicts() as $conflict) {
+                $conflicts[] = $conflict;
+            }
+        }
+
+        $this->success([
+            'roundNumber' => $round->roundNumber,
+            'isPublished' => $round->isPublished,
+            'allocations' => $this->toArrayMap($allocations),
+            'conflicts' => $conflicts,
+            'changedAllocationIds' => array_keys($result['changed']),
+        ]);
+    }
+
+    /**
+     * GET /api/tournaments/{id}/rounds/{n}/history - Edit history of a round.
+     */
+    public function history(array $params, ?array $body): void
+    {
+        $round = $this->findAuthorizedRound($params);
+        if ($round === null) {
+            return;
+        }
+
+        $this->respondWithHistory($round);
+    }
+
+    /**
+     * POST /api/tournaments/{id}/rounds/{n}/history/undo - Undo the latest edit.
+     */
+    public function undo(array $params, ?array $body): void
+    {
+        $this->changeHistory($params, function (Round $round) {
+            $this->historyService->undo($round->id);
+        });
+    }
+
+    /**
+     * POST /api/tournaments/{id}/rounds/{n}/history/redo - Redo the latest undone edit.
+     */
+    public function redo(array $params, ?array $body): void
+    {
+        $this->changeHistory($params, function (Round $round) {
+            $this->historyService->redo($round->id);
+        });
+    }
+
+    /**
+     * POST /api/tournaments/{id}/rounds/{n}/history/revert - Put every pairing back on its generated table.
+     */
+    public function revert(array $params, ?array $body): void
+    {
+        $this->changeHistory($params, function (Round $round) use ($body) {
+            $this->historyService->revertToGenerated($round->id, $this->editedBy($body));
+        });
+    }
+
+    /**
+     * Run an undo/redo/revert and respond with the updated history.
+     */
+    private function changeHistory(array $params, callable $change): void
+    {
+        $round = $this->findAuthorizedRound($params);
+        if ($round === null) {
+            return;
+        }
+
+        try {
+            $change($round);
+        } catch (\RuntimeException $e) {
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::EDIT_REJECTED);
+            return;
+        }
+
+        $this->respondWithHistory($round);
+    }
+
+    private function respondWithHistory(Round $round): void
+    {
+        $this->success(array_merge(
+            ['roundNumber' => $round->roundNumber],
+            $this->historyService->getHistory($round->id)
+        ));
+    }
+
+    /**
+     * Resolve the round of a /rounds/{n}/... route, responding with an error if
+     * the caller is not authorized or the round was not imported.
+     */
+    private function findAuthorizedRound(array $params): ?Round
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $roundNumber = (int) ($params['n'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return null;
+        }
+
+        $round = Round::findByTournamentAndNumber($tournamentId, $roundNumber);
+        if ($round === null) {
+            $this->roundNotImported($tournamentId, $roundNumber);
+            return null;
+        }
+
+        return $round;
+    }
+
+    /**
+     * Organizer name for the edit history (optional "editedBy" in the body).
+     */
+    private function editedBy(?array $body): ?string
+    {
+        $name = isset($body['editedBy']) && is_string($body['editedBy']) ? trim($body['editedBy']) : '';
+        return $name === '' ? null : mb_substr($name, 0, 100);
+    }
 }
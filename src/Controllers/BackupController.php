@@ -0,0 +1,74 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Controllers;
+
+use InvalidArgumentException;
+use PDOException;
+use RuntimeException;
+use TournamentTables\Services\TournamentBackupService;
+
+/**
+ * Backup controller.
+ *
+ * Full tournament backups for moving a tournament to another instance.
+ */
+class BackupController extends BaseController
+{
+    /** @var TournamentBackupService */
+    private $service;
+
+    public function __construct(?TournamentBackupService $service = null)
+    {
+        $this->service = $service ?? new TournamentBackupService();
+    }
+
+    /**
+     * GET /api/tournaments/{id}/backup - Back up the complete tournament state.
+     */
+    public function backup(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        $tournament = $this->getTournamentOrFail($tournamentId);
+        if ($tournament === null) {
+            return;
+        }
+
+        header('Content-Disposition: attachment; filename="tournament-' . $tournament->id . '-backup.json"');
+        $this->success($this->service->backup($tournament));
+    }
+
+    /**
+     * POST /api/tournaments/restore - Restore a backup as a new tournament.
+     *
+     * Like creating a tournament, this needs no admin token: the restored
+     * tournament gets a new one, returned once in the response.
+     */
+    public function restore(array $params, ?array $body): void
+    {
+        if (empty($body)) {
+            $this->validationError(['backup' => ['Backup document is required']]);
+            return;
+        }
+
+        try {
+            $result = $this->service->restore($body);
+        } catch (InvalidArgumentException $e) {
+            $this->validationError(['backup' => [$e->getMessage()]]);
+            return;
+        } catch (PDOException $e) {
+            $this->error('internal_error', 'Failed to restore tournament', 500);
+            return;
+        } catch (RuntimeException $e) {
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::TOURNAMENT_EXISTS);
+            return;
+        }
+
+        $this->success([
+            'tournament' => $result['tournament']->toArray(),
+            'adminToken' => $result['adminToken'],
+        ], 201);
+    }
+}
@@ -25,7 +25,7 @@ abstract class BaseController
             echo json_encode($data, JSON_THROW_ON_ERROR);
         } catch (JsonException $e) {
             http_response_code(500);
-            echo '{"error":"serialization_error","message":"Failed to encode JSON response"}';
+            echo '{"error":"serialization_error","code":"INTERNAL_ERROR","message":"Failed to encode JSON response"}';
         }
     }
 
@@ -43,15 +43,24 @@ abstract class BaseController
     /**
      * Send an error response.
      *
-     * @param string $error Error code
+     * @param string $error Error category (e.g. "not_found")
      * @param string $message Error message
      * @param int $statusCode HTTP status code
      * @param array $fields Optional field-level errors
+     * @param string|null $code Specific ErrorCode constant (defaults to the upper-cased category)
+     * @param array $details Optional machine-readable context (IDs, table numbers, ...)
      */
-    protected function error(string $error, string $message, int $statusCode = 400, array $fields = []): void
-    {
+    protected function error(
+        string $error,
+        string $message,
+        int $statusCode = 400,
+        array $fields = [],
+        ?string $code = null,
+        array $details = []
+    ): void {
         $response = [
             'error' => $error,
+            'code' => $code ?? ErrorCode::fromCategory($error),
             'message' => $message,
         ];
 
@@ -59,6 +68,10 @@ abstract class BaseController
             $response['fields'] = $fields;
         }
 
+        if (!empty($details)) {
+            $response['details'] = $details;
+        }
+
         $this->json($response, $statusCode);
     }
 
@@ -76,20 +89,50 @@ abstract class BaseController
      * Send a not found error.
      *
      * @param string $resource Resource type that was not found
+     * @param array $details Optional identifiers of the missing resource
+     * @param string|null $code Specific code (defaults to e.g. ROUND_NOT_FOUND)
      */
-    protected function notFound(string $resource = 'Resource'): void
+    protected function notFound(string $resource = 'Resource', array $details = [], ?string $code = null): void
     {
-        $this->error('not_found', "{$resource} not found", 404);
+        $this->error(
+            'not_found',
+            "{$resource} not found",
+            404,
+            [],
+            $code ?? ErrorCode::notFound($resource),
+            $details
+        );
+    }
+
+    /**
+     * Send a 404 for a round that has not been imported from BCP yet.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round number that was requested
+     */
+    protected function roundNotImported(int $tournamentId, int $roundNumber): void
+    {
+        $this->error(
+            'not_found',
+            "Round {$roundNumber} has not been imported yet",
+            404,
+            [],
+            ErrorCode::ROUND_NOT_IMPORTED,
+            ['tournamentId' => $tournamentId, 'roundNumber' => $roundNumber]
+        );
     }
 
     /**
      * Send an unauthorized error.
      *
      * @param string $message Error message
+     * @param string $code Specific ErrorCode constant
      */
-    protected function unauthorized(string $message = 'Invalid or missing authentication'): void
-    {
-        $this->error('unauthorized', $message, 401);
+    protected function unauthorized(
+        string $message = 'Invalid or missing authentication',
+        string $code = ErrorCode::INVALID_TOKEN
+    ): void {
+        $this->error('unauthorized', $message, 401, [], $code);
     }
 
     /**
@@ -313,7 +356,7 @@ abstract class BaseController
     {
         $authTournament = \TournamentTables\Middleware\AdminAuthMiddleware::getTournament();
         if ($authTournament === null || $authTournament->id !== $tournamentId) {
-            $this->unauthorized($message);
+            $this->unauthorized($message, ErrorCode::TOKEN_TOURNAMENT_MISMATCH);
             return false;
         }
         return true;
@@ -333,7 +376,7 @@ abstract class BaseController
 
         $tournament = \TournamentTables\Models\Tournament::find($tournamentId);
         if ($tournament === null) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
             return null;
         }
 
@@ -355,7 +398,7 @@ abstract class BaseController
 
         $round = \TournamentTables\Models\Round::findByTournamentAndNumber($tournamentId, $roundNumber);
         if ($round === null) {
-            $this->notFound('Round');
+            $this->roundNotImported($tournamentId, $roundNumber);
             return null;
         }
 
@@ -0,0 +1,74 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Controllers;
+
+/**
+ * Machine-readable error codes for API error responses.
+ *
+ * Every API error has the shape
+ * { "error": category, "code": CODE, "message": text, "fields"?: {...}, "details"?: {...} }.
+ * The lowercase "error" is the broad category (not_found, unauthorized, ...);
+ * "code" identifies the specific failure so clients can branch on it.
+ * When a call site passes no code, the category is upper-cased (e.g. "conflict" → "CONFLICT").
+ *
+ * Keep in sync with ErrorCode in tests/E2E/sdk/errors.ts and docs/routes.md.
+ */
+final class ErrorCode
+{
+    // Authentication (401)
+    public const MISSING_TOKEN = 'MISSING_TOKEN';
+    public const INVALID_TOKEN = 'INVALID_TOKEN';
+    public const TOKEN_TOURNAMENT_MISMATCH = 'TOKEN_TOURNAMENT_MISMATCH';
+
+    // Lookup failures (404)
+    public const ROUTE_NOT_FOUND = 'ROUTE_NOT_FOUND';
+    public const TOURNAMENT_NOT_FOUND = 'TOURNAMENT_NOT_FOUND';
+    public const ROUND_NOT_FOUND = 'ROUND_NOT_FOUND';
+    public const ROUND_NOT_PUBLISHED = 'ROUND_NOT_PUBLISHED';
+    public const ALLOCATION_NOT_FOUND = 'ALLOCATION_NOT_FOUND';
+    public const TABLE_NOT_FOUND = 'TABLE_NOT_FOUND';
+    public const CONSTRAINT_NOT_FOUND = 'CONSTRAINT_NOT_FOUND';
+    public const TERRAIN_TYPE_NOT_FOUND = 'TERRAIN_TYPE_NOT_FOUND';
+    public const PLAYER_NOT_FOUND = 'PLAYER_NOT_FOUND';
+
+    // Invalid input (400)
+    public const VALIDATION_ERROR = 'VALIDATION_ERROR';
+    public const INVALID_JSON = 'INVALID_JSON';
+    public const INVALID_BCP_URL = 'INVALID_BCP_URL';
+    public const TABLE_NOT_IN_TOURNAMENT = 'TABLE_NOT_IN_TOURNAMENT';
+    public const INVALID_SWAP = 'INVALID_SWAP';
+
+    // Round state
+    public const ROUND_NOT_IMPORTED = 'ROUND_NOT_IMPORTED';
+    public const NO_PAIRINGS = 'NO_PAIRINGS';
+
+    // Conflicts with current state (409)
+    public const TABLE_COLLISION = 'TABLE_COLLISION';
+    public const TOURNAMENT_EXISTS = 'TOURNAMENT_EXISTS';
+    public const TABLE_COUNT_CONFLICT = 'TABLE_COUNT_CONFLICT';
+    public const EDIT_REJECTED = 'EDIT_REJECTED';
+    public const TERRAIN_TYPE_READ_ONLY = 'TERRAIN_TYPE_READ_ONLY';
+
+    // Upstream and server failures (5xx)
+    public const BCP_UNAVAILABLE = 'BCP_UNAVAILABLE';
+    public const GENERATION_FAILED = 'GENERATION_FAILED';
+    public const INTERNAL_ERROR = 'INTERNAL_ERROR';
+
+    /**
+     * Default code for a category when no specific code is given.
+     */
+    public static function fromCategory(string $error): string
+    {
+        return strtoupper($error);
+    }
+
+    /**
+     * Code for a missing resource, e.g. "Round" → ROUND_NOT_FOUND.
+     */
+    public static function notFound(string $resource): string
+    {
+        return strtoupper($resource) . '_NOT_FOUND';
+    }
+}
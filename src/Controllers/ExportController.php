@@ -0,0 +1,91 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Controllers;
+
+use InvalidArgumentException;
+use TournamentTables\Models\Tournament;
+use TournamentTables\Services\TournamentExportService;
+
+/**
+ * Export controller.
+ *
+ * Tournament data as CSV or JSON for post-event analysis: every round for
+ * the organizer, published rounds only for everyone else.
+ *
+ * Query parameters: format=json|csv (default json), columns=a,b,c (default all).
+ */
+class ExportController extends BaseController
+{
+    /** @var TournamentExportService */
+    private $service;
+
+    public function __construct(?TournamentExportService $service = null)
+    {
+        $this->service = $service ?? new TournamentExportService();
+    }
+
+    /**
+     * GET /api/tournaments/{id}/export - Export every round, with conflicts and manual edits.
+     */
+    public function export(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        $tournament = $this->getTournamentOrFail($tournamentId);
+        if ($tournament === null) {
+            return;
+        }
+
+        $this->sendExport($tournament, false);
+    }
+
+    /**
+     * GET /api/public/tournaments/{id}/export - Export the published rounds.
+     */
+    public function publicExport(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        $tournament = Tournament::find($tournamentId);
+        if ($tournament === null) {
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
+            return;
+        }
+
+        $this->sendExport($tournament, true);
+    }
+
+    private function sendExport(Tournament $tournament, bool $public): void
+    {
+        $format = isset($_GET['format']) ? (string) $_GET['format'] : TournamentExportService::FORMAT_JSON;
+        if (!in_array($format, [TournamentExportService::FORMAT_JSON, TournamentExportService::FORMAT_CSV], true)) {
+            $this->validationError(['format' => ['Format must be json or csv']]);
+            return;
+        }
+
+        try {
+            $columns = $this->service->resolveColumns(
+                isset($_GET['columns']) ? (string) $_GET['columns'] : null,
+                $public
+            );
+        } catch (InvalidArgumentException $e) {
+            $this->validationError(['columns' => [$e->getMessage()]]);
+            return;
+        }
+
+        $export = $this->service->export($tournament, $columns, $public);
+
+        if ($format === TournamentExportService::FORMAT_JSON) {
+            $this->success($export);
+            return;
+        }
+
+        $filename = sprintf('tournament-%d%s.csv', $tournament->id, $public ? '-public' : '');
+        http_response_code(200);
+        header('Content-Type: text/csv; charset=utf-8');
+        header('Content-Disposition: attachment; filename="' . $filename . '"');
+        echo $this->service->toCsv($export);
+    }
+}
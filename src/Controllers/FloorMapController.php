@@ -0,0 +1,84 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Controllers;
+
+use TournamentTables\Models\Tournament;
+use TournamentTables\Services\FloorMapService;
+
+/**
+ * Floor map controller.
+ *
+ * Where each table stands in the venue: the organizer places tables on the
+ * plan, players see it on the public round view.
+ */
+class FloorMapController extends BaseController
+{
+    /** @var FloorMapService */
+    private $service;
+
+    public function __construct(?FloorMapService $service = null)
+    {
+        $this->service = $service ?? new FloorMapService();
+    }
+
+    /**
+     * GET /api/tournaments/{id}/floor-map - Get the floor map.
+     */
+    public function show(array $params, ?array $body): void
+    {
+        $tournament = $this->getTournamentOrFail((int) ($params['id'] ?? 0));
+        if ($tournament === null) {
+            return;
+        }
+
+        $this->success($this->service->getFloorMap($tournament->id));
+    }
+
+    /**
+     * GET /api/public/tournaments/{id}/floor-map - Get the floor map (unauthenticated).
+     */
+    public function publicShow(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        $tournament = Tournament::find($tournamentId);
+        if ($tournament === null) {
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
+            return;
+        }
+
+        $this->success($this->service->getFloorMap($tournament->id));
+    }
+
+    /**
+     * PUT /api/tournaments/{id}/floor-map - Place some of the tables on the floor map.
+     *
+     * Body: {tables: [{tableNumber, zone: string|null, x: number|null, y: number|null}]}
+     */
+    public function update(array $params, ?array $body): void
+    {
+        $tournament = $this->getTournamentOrFail((int) ($params['id'] ?? 0));
+        if ($tournament === null) {
+            return;
+        }
+
+        if (!isset($body['tables']) || !is_array($body['tables'])) {
+            $this->validationError(['tables' => ['Tables array is required']]);
+            return;
+        }
+
+        $errors = $this->service->validateLayout($tournament->id, $body['tables']);
+        if (!empty($errors)) {
+            $this->validationError($errors);
+            return;
+        }
+
+        try {
+            $this->success($this->service->updateLayout($tournament->id, $body['tables']));
+        } catch (\Exception $e) {
+            $this->error('internal_error', 'Failed to save the floor map', 500);
+        }
+    }
+}
@@ -9,6 +9,9 @@ namespace TournamentTables\Controllers;
  *
  * Returns mock API responses that mimic BCP REST API.
  * Only available in test environment (APP_ENV=testing).
+ *
+ * Fallback for running without the standalone mock server
+ * (tests/E2E/mock-bcp), whose default scenario serves the same data.
  */
 class MockBcpController extends BaseController
 {
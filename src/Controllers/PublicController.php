@@ -4,8 +4,11 @@ declare(strict_types=1);
 
 namespace TournamentTables\Controllers;
 
+use TournamentTables\Models\Player;
 use TournamentTables\Models\Tournament;
 use TournamentTables\Models\Round;
+use TournamentTables\Services\LiveUpdateService;
+use TournamentTables\Services\PublicPlayerService;
 
 /**
  * Public (unauthenticated) controller.
@@ -14,6 +17,18 @@ use TournamentTables\Models\Round;
  */
 class PublicController extends BaseController
 {
+    /** @var LiveUpdateService */
+    private $liveUpdates;
+
+    /** @var PublicPlayerService */
+    private $players;
+
+    public function __construct(?LiveUpdateService $liveUpdates = null, ?PublicPlayerService $players = null)
+    {
+        $this->liveUpdates = $liveUpdates ?? new LiveUpdateService();
+        $this->players = $players ?? new PublicPlayerService();
+    }
+
     /**
      * GET /api/public/tournaments/{id} - Get public tournament info.
      */
@@ -23,7 +38,7 @@ class PublicController extends BaseController
 
         $tournament = Tournament::find($tournamentId);
         if ($tournament === null) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
             return;
         }
 
@@ -59,19 +74,26 @@ class PublicController extends BaseController
 
         $tournament = Tournament::find($tournamentId);
         if ($tournament === null) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
             return;
         }
 
         $round = Round::findByTournamentAndNumber($tournamentId, $roundNumber);
         if ($round === null) {
-            $this->notFound('Round');
+            $this->notFound('Round', ['tournamentId' => $tournamentId, 'roundNumber' => $roundNumber]);
             return;
         }
 
         // Only show published rounds
         if (!$round->isPublished) {
-            $this->error('not_found', 'Round not published', 404);
+            $this->error(
+                'not_found',
+                'Round not published',
+                404,
+                [],
+                ErrorCode::ROUND_NOT_PUBLISHED,
+                ['tournamentId' => $tournamentId, 'roundNumber' => $roundNumber]
+            );
             return;
         }
 
@@ -85,4 +107,91 @@ class PublicController extends BaseController
             }, $allocations),
         ]);
     }
+
+    /**
+     * GET /api/public/tournaments/{id}/players?q= - Find players by name or BCP player ID.
+     *
+     * Each match includes the player's table in the current (latest published) round.
+     */
+    public function searchPlayers(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $query = trim((string) ($_GET['q'] ?? ''));
+
+        if (mb_strlen($query) < PublicPlayerService::MIN_QUERY_LENGTH) {
+            $this->validationError([
+                'q' => ['Search needs at least ' . PublicPlayerService::MIN_QUERY_LENGTH . ' characters'],
+            ]);
+            return;
+        }
+
+        if (Tournament::find($tournamentId) === null) {
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
+            return;
+        }
+
+        $this->success(['players' => $this->players->search($tournamentId, $query)]);
+    }
+
+    /**
+     * GET /api/public/tournaments/{id}/players/{player} - A player's table this round and in earlier rounds.
+     */
+    public function showPlayer(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $playerId = (int) ($params['player'] ?? 0);
+
+        if (Tournament::find($tournamentId) === null) {
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
+            return;
+        }
+
+        $player = Player::find($playerId);
+        if ($player === null || $player->tournamentId !== $tournamentId) {
+            $this->notFound('Player', ['tournamentId' => $tournamentId, 'playerId' => $playerId]);
+            return;
+        }
+
+        $this->success($this->players->getPlayer($player));
+    }
+
+    /**
+     * GET /api/public/tournaments/{id}/events - Stream round publications and allocation changes.
+     *
+     * Server-sent events: "round-published" and "allocations-changed", each with
+     * {roundNumber}; the public page re-renders the round itself. Changes are
+     * relative to the state in the Last-Event-ID header, else the ?since= token
+     * the public page was rendered with, else the state when the stream opened.
+     * The state is checked once, then the stream closes and the browser
+     * reconnects after LiveUpdateService::RETRY_SECONDS.
+     */
+    public function events(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        if (Tournament::find($tournamentId) === null) {
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
+            return;
+        }
+
+        $token = $this->getHeader('Last-Event-ID') ?? (isset($_GET['since']) ? (string) $_GET['since'] : null);
+        $state = $token !== null ? $this->liveUpdates->decodeState($token) : null;
+        $current = $this->liveUpdates->getState($tournamentId);
+        $changes = $this->liveUpdates->diff($state ?? $current, $current);
+        $id = $this->liveUpdates->encodeState($current);
+
+        header('Content-Type: text/event-stream');
+        header('Cache-Control: no-cache');
+        header('X-Accel-Buffering: no');
+
+        echo 'retry: ' . (LiveUpdateService::RETRY_SECONDS * 1000) . "\n\n";
+        foreach ($changes as $change) {
+            $data = json_encode(['roundNumber' => $change['roundNumber']]);
+            echo "id: {$id}\nevent: {$change['event']}\ndata: {$data}\n\n";
+        }
+        if ($changes === []) {
+            // No event, but the browser still reconnects from the current state
+            echo "id: {$id}\n\n";
+        }
+    }
 }
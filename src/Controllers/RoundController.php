@@ -59,7 +59,7 @@ class RoundController extends BaseController
             // Get tournament to extract BCP event ID
             $tournament = Tournament::find($tournamentId);
             if ($tournament === null) {
-                $this->notFound('Tournament');
+                $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
                 return;
             }
 
@@ -71,7 +71,14 @@ class RoundController extends BaseController
             $pairings = $scraper->fetchPairings($eventId, $roundNumber);
 
             if (empty($pairings)) {
-                $this->error('no_pairings', 'No pairings found for this round', 400);
+                $this->error(
+                    'no_pairings',
+                    'No pairings found for this round',
+                    400,
+                    [],
+                    ErrorCode::NO_PAIRINGS,
+                    ['roundNumber' => $roundNumber]
+                );
                 return;
             }
 
@@ -378,9 +385,19 @@ class RoundController extends BaseController
                 Connection::rollBack();
                 throw $e;
             }
+        } catch (\PDOException $e) {
+            // Database failure - not a BCP problem even though PDOException is a RuntimeException
+            $this->error('internal_error', 'Failed to save imported pairings', 500);
         } catch (\RuntimeException $e) {
             // BCP scraping failed
-            $this->error('bcp_unavailable', $e->getMessage(), 502);
+            $this->error(
+                'bcp_unavailable',
+                $e->getMessage(),
+                502,
+                [],
+                ErrorCode::BCP_UNAVAILABLE,
+                ['roundNumber' => $roundNumber]
+            );
         } catch (\InvalidArgumentException $e) {
             // Invalid BCP URL
             $this->error('invalid_bcp_url', $e->getMessage(), 400);
@@ -390,6 +407,9 @@ class RoundController extends BaseController
     /**
      * POST /api/tournaments/{id}/rounds/{n}/generate - Generate allocations.
      *
+     * With {"dryRun": true}, returns the proposed allocations and their costs
+     * next to the current ones instead of saving them.
+     *
      * Reference: FR-007
      */
     public function generate(array $params, ?array $body): void
@@ -411,7 +431,14 @@ class RoundController extends BaseController
         // Get round
         $round = Round::findByTournamentAndNumber($tournamentId, $roundNumber);
         if ($round === null) {
-            $this->error('no_round', 'Round not found. Import pairings first.', 400);
+            $this->error(
+                'no_round',
+                'Round not found. Import pairings first.',
+                400,
+                [],
+                ErrorCode::ROUND_NOT_IMPORTED,
+                ['tournamentId' => $tournamentId, 'roundNumber' => $roundNumber]
+            );
             return;
         }
 
@@ -419,13 +446,20 @@ class RoundController extends BaseController
         $existingAllocations = Allocation::findByRound($round->id);
 
         if (empty($existingAllocations)) {
-            $this->error('no_pairings', 'No pairings available for this round. Import pairings first.', 400);
+            $this->error(
+                'no_pairings',
+                'No pairings available for this round. Import pairings first.',
+                400,
+                [],
+                ErrorCode::NO_PAIRINGS,
+                ['roundNumber' => $roundNumber]
+            );
             return;
         }
 
         $tournament = Tournament::find($tournamentId);
         if ($tournament === null) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
             return;
         }
 
@@ -438,6 +472,14 @@ class RoundController extends BaseController
                 error_log('Warning: Could not refresh player standings before generation: ' . $e->getMessage());
             }
 
+            // Dry run: cost the proposal against the current allocations, save nothing
+            if (($body['dryRun'] ?? false) === true) {
+                $this->success([
+                    'roundNumber' => $roundNumber,
+                ] + $this->generationService->preview($tournamentId, $roundNumber, $round));
+                return;
+            }
+
             $result = $this->generationService->generate($tournamentId, $roundNumber, $round);
 
             $this->success([
@@ -447,7 +489,13 @@ class RoundController extends BaseController
                 'summary' => $result['summary'],
             ]);
         } catch (\Exception $e) {
-            $this->error('generation_failed', 'Failed to generate allocations: ' . $e->getMessage(), 500);
+            $this->error(
+                'generation_failed',
+                'Failed to generate allocations: ' . $e->getMessage(),
+                500,
+                [],
+                ErrorCode::GENERATION_FAILED
+            );
         }
     }
 
@@ -468,7 +516,7 @@ class RoundController extends BaseController
 
         $round = Round::findByTournamentAndNumber($tournamentId, $roundNumber);
         if ($round === null) {
-            $this->notFound('Round');
+            $this->roundNotImported($tournamentId, $roundNumber);
             return;
         }
 
@@ -480,7 +528,10 @@ class RoundController extends BaseController
                 'table_collision',
                 'Cannot publish: Table collision detected on table(s) ' . implode(', ', $tableNumbers) .
                 '. Each table can only be assigned to one pairing per round.',
-                400
+                409,
+                [],
+                ErrorCode::TABLE_COLLISION,
+                ['collisions' => $collisions]
             );
             return;
         }
@@ -508,7 +559,7 @@ class RoundController extends BaseController
 
         $round = Round::findByTournamentAndNumber($tournamentId, $roundNumber);
         if ($round === null) {
-            $this->notFound('Round');
+            $this->roundNotImported($tournamentId, $roundNumber);
             return;
         }
 
@@ -0,0 +1,139 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Controllers;
+
+use TournamentTables\Services\RoundTerrainService;
+
+/**
+ * Round terrain controller.
+ *
+ * Per-round terrain layouts: the terrain on each table in a round, which may
+ * differ from the table's own terrain.
+ */
+class RoundTerrainController extends BaseController
+{
+    /** @var RoundTerrainService */
+    private $service;
+
+    public function __construct(?RoundTerrainService $service = null)
+    {
+        $this->service = $service ?? new RoundTerrainService();
+    }
+
+    /**
+     * GET /api/tournaments/{id}/rounds/{n}/terrain - Get a round's terrain layout.
+     */
+    public function show(array $params, ?array $body): void
+    {
+        $roundNumber = $this->authorizeRound($params);
+        if ($roundNumber === null) {
+            return;
+        }
+
+        $this->success($this->layoutResponse((int) $params['id'], $roundNumber));
+    }
+
+    /**
+     * PUT /api/tournaments/{id}/rounds/{n}/terrain - Set the terrain on some of a round's tables.
+     *
+     * Body: {tables: [{tableNumber, terrainTypeId: int|null}]}
+     */
+    public function update(array $params, ?array $body): void
+    {
+        $roundNumber = $this->authorizeRound($params);
+        if ($roundNumber === null) {
+            return;
+        }
+        $tournamentId = (int) $params['id'];
+
+        if (!isset($body['tables']) || !is_array($body['tables'])) {
+            $this->validationError(['tables' => ['Tables array is required']]);
+            return;
+        }
+
+        $errors = $this->service->validateLayout($tournamentId, $roundNumber, $body['tables']);
+        if (!empty($errors)) {
+            $this->validationError($errors);
+            return;
+        }
+
+        try {
+            $this->service->updateLayout($tournamentId, $roundNumber, $body['tables']);
+            $this->success($this->layoutResponse($tournamentId, $roundNumber));
+        } catch (\Exception $e) {
+            $this->error('internal_error', 'Failed to update round terrain', 500);
+        }
+    }
+
+    /**
+     * POST /api/tournaments/{id}/rounds/{n}/terrain/copy-previous - Copy the previous round's layout.
+     */
+    public function copyPrevious(array $params, ?array $body): void
+    {
+        $roundNumber = $this->authorizeRound($params);
+        if ($roundNumber === null) {
+            return;
+        }
+        $tournamentId = (int) $params['id'];
+
+        if ($roundNumber < 2) {
+            $this->validationError(['roundNumber' => ['Round 1 has no previous round to copy from']]);
+            return;
+        }
+
+        try {
+            $this->service->copyPreviousRound($tournamentId, $roundNumber);
+            $this->success($this->layoutResponse($tournamentId, $roundNumber));
+        } catch (\Exception $e) {
+            $this->error('internal_error', 'Failed to copy round terrain', 500);
+        }
+    }
+
+    /**
+     * DELETE /api/tournaments/{id}/rounds/{n}/terrain - Reset a round to the tables' own terrain.
+     */
+    public function clear(array $params, ?array $body): void
+    {
+        $roundNumber = $this->authorizeRound($params);
+        if ($roundNumber === null) {
+            return;
+        }
+        $tournamentId = (int) $params['id'];
+
+        $this->service->clearLayout($tournamentId, $roundNumber);
+        $this->success($this->layoutResponse($tournamentId, $roundNumber));
+    }
+
+    /**
+     * Authenticate and read the round number.
+     *
+     * Sends the error response and returns null when not authorized or the
+     * round number is not positive. Layouts can be set before a round is imported.
+     */
+    private function authorizeRound(array $params): ?int
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $roundNumber = (int) ($params['n'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return null;
+        }
+
+        if ($roundNumber < 1) {
+            $this->validationError(['roundNumber' => ['Round number must be a positive integer']]);
+            return null;
+        }
+
+        return $roundNumber;
+    }
+
+    private function layoutResponse(int $tournamentId, int $roundNumber): array
+    {
+        return [
+            'roundNumber' => $roundNumber,
+            'tables' => $this->service->getLayout($tournamentId, $roundNumber),
+        ];
+    }
+}
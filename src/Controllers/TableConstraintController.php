@@ -0,0 +1,88 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Controllers;
+
+use TournamentTables\Models\TableConstraint;
+use TournamentTables\Services\TableConstraintService;
+
+/**
+ * Table constraint controller.
+ *
+ * Pins and per-player table constraints, enforced when allocations are generated.
+ */
+class TableConstraintController extends BaseController
+{
+    /** @var TableConstraintService */
+    private $service;
+
+    public function __construct(?TableConstraintService $service = null)
+    {
+        $this->service = $service ?? new TableConstraintService();
+    }
+
+    /**
+     * GET /api/tournaments/{id}/constraints - List table constraints.
+     */
+    public function index(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return;
+        }
+
+        $this->success([
+            'constraints' => $this->toArrayMap(TableConstraint::findByTournament($tournamentId)),
+        ]);
+    }
+
+    /**
+     * POST /api/tournaments/{id}/constraints - Add a table constraint.
+     *
+     * Body: {playerId, type: "required"|"allowed"|"forbidden", tableIds, roundNumber?, note?}
+     */
+    public function create(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return;
+        }
+
+        $body = $body ?? [];
+        $errors = $this->service->validate($tournamentId, $body);
+        if (!empty($errors)) {
+            $this->validationError($errors);
+            return;
+        }
+
+        try {
+            $constraint = $this->service->create($tournamentId, $body);
+            $this->success(['constraint' => $constraint->toArray()], 201);
+        } catch (\Exception $e) {
+            $this->error('internal_error', 'Failed to create table constraint', 500);
+        }
+    }
+
+    /**
+     * DELETE /api/tournaments/{id}/constraints/{constraint} - Remove a table constraint.
+     */
+    public function delete(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $constraintId = (int) ($params['constraint'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return;
+        }
+
+        if (!$this->service->delete($tournamentId, $constraintId)) {
+            $this->notFound('Constraint', ['constraintId' => $constraintId]);
+            return;
+        }
+
+        $this->success(['message' => 'Table constraint deleted']);
+    }
+}
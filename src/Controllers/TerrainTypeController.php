@@ -5,6 +5,7 @@ declare(strict_types=1);
 namespace TournamentTables\Controllers;
 
 use TournamentTables\Models\TerrainType;
+use TournamentTables\Services\TerrainTypeService;
 
 /**
  * Terrain type controller.
@@ -13,8 +14,16 @@ use TournamentTables\Models\TerrainType;
  */
 class TerrainTypeController extends BaseController
 {
+    /** @var TerrainTypeService */
+    private $service;
+
+    public function __construct(?TerrainTypeService $service = null)
+    {
+        $this->service = $service ?? new TerrainTypeService();
+    }
+
     /**
-     * GET /api/terrain-types - List all terrain types.
+     * GET /api/terrain-types - List built-in terrain types.
      *
      * Reference: FR-005
      */
@@ -26,4 +35,141 @@ class TerrainTypeController extends BaseController
             'terrainTypes' => $this->toArrayMap($terrainTypes),
         ]);
     }
+
+    /**
+     * GET /api/tournaments/{id}/terrain-types - List a tournament's terrain catalog.
+     *
+     * Built-in types plus the tournament's own, archived ones included.
+     */
+    public function tournamentIndex(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return;
+        }
+
+        $this->success([
+            'terrainTypes' => $this->toArrayMap(TerrainType::findForTournament($tournamentId)),
+        ]);
+    }
+
+    /**
+     * POST /api/tournaments/{id}/terrain-types - Add a terrain type to the catalog.
+     *
+     * Body: {name, family?, description?, emoji?, sortOrder?}
+     */
+    public function create(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return;
+        }
+
+        $body = $body ?? [];
+        $errors = $this->service->validate($tournamentId, $body + ['name' => null]);
+        if (!empty($errors)) {
+            $this->validationError($errors);
+            return;
+        }
+
+        try {
+            $terrainType = $this->service->create($tournamentId, $body);
+            $this->success(['terrainType' => $terrainType->toArray()], 201);
+        } catch (\Exception $e) {
+            $this->error('internal_error', 'Failed to create terrain type', 500);
+        }
+    }
+
+    /**
+     * PATCH /api/tournaments/{id}/terrain-types/{terrain} - Rename, regroup, re-describe or reorder.
+     *
+     * Body: any of {name, family, description, emoji, sortOrder}
+     */
+    public function update(array $params, ?array $body): void
+    {
+        $terrainType = $this->findOwnTerrainType($params);
+        if ($terrainType === null) {
+            return;
+        }
+
+        $body = array_intersect_key($body ?? [], array_flip(['name', 'family', 'description', 'emoji', 'sortOrder']));
+        $errors = $this->service->validate($terrainType->tournamentId, $body, $terrainType);
+        if (!empty($errors)) {
+            $this->validationError($errors);
+            return;
+        }
+
+        try {
+            $terrainType = $this->service->update($terrainType, $body);
+            $this->success(['terrainType' => $terrainType->toArray()]);
+        } catch (\Exception $e) {
+            $this->error('internal_error', 'Failed to update terrain type', 500);
+        }
+    }
+
+    /**
+     * POST /api/tournaments/{id}/terrain-types/{terrain}/archive - Archive a terrain type.
+     *
+     * Tables keep the type; it is no longer offered for new assignments.
+     */
+    public function archive(array $params, ?array $body): void
+    {
+        $terrainType = $this->findOwnTerrainType($params);
+        if ($terrainType === null) {
+            return;
+        }
+
+        $this->success(['terrainType' => $this->service->setArchived($terrainType, true)->toArray()]);
+    }
+
+    /**
+     * POST /api/tournaments/{id}/terrain-types/{terrain}/restore - Restore an archived terrain type.
+     */
+    public function restore(array $params, ?array $body): void
+    {
+        $terrainType = $this->findOwnTerrainType($params);
+        if ($terrainType === null) {
+            return;
+        }
+
+        $this->success(['terrainType' => $this->service->setArchived($terrainType, false)->toArray()]);
+    }
+
+    /**
+     * Authenticate and load a terrain type the tournament owns.
+     *
+     * Sends the error response and returns null when the type is missing,
+     * belongs to another tournament, or is built-in.
+     */
+    private function findOwnTerrainType(array $params): ?TerrainType
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $terrainTypeId = (int) ($params['terrain'] ?? 0);
+
+        if (!$this->verifyTournamentAuth($tournamentId)) {
+            return null;
+        }
+
+        $terrainType = TerrainType::find($terrainTypeId);
+        if ($terrainType === null || !$terrainType->isAvailableTo($tournamentId)) {
+            $this->notFound('Terrain type', ['terrainTypeId' => $terrainTypeId], ErrorCode::TERRAIN_TYPE_NOT_FOUND);
+            return null;
+        }
+
+        if ($terrainType->tournamentId === null) {
+            $this->error(
+                'conflict',
+                "Built-in terrain type \"{$terrainType->name}\" can't be changed; add your own instead",
+                409,
+                [],
+                ErrorCode::TERRAIN_TYPE_READ_ONLY,
+                ['terrainTypeId' => $terrainTypeId]
+            );
+            return null;
+        }
+
+        return $terrainType;
+    }
 }
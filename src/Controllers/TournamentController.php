@@ -4,9 +4,13 @@ declare(strict_types=1);
 
 namespace TournamentTables\Controllers;
 
+use PDOException;
+use TournamentTables\Database\Connection;
 use TournamentTables\Services\TournamentService;
 use TournamentTables\Services\TournamentImportService;
 use TournamentTables\Services\BCPApiService;
+use TournamentTables\Services\TerrainTypeService;
+use TournamentTables\Services\TournamentTemplateService;
 use TournamentTables\Models\Tournament;
 
 /**
@@ -25,21 +29,33 @@ class TournamentController extends BaseController
     /** @var BCPApiService */
     private $bcpService;
 
+    /** @var TerrainTypeService */
+    private $terrainTypeService;
+
+    /** @var TournamentTemplateService */
+    private $templateService;
+
     public function __construct(
         ?TournamentService $service = null,
         ?TournamentImportService $importService = null,
-        ?BCPApiService $bcpService = null
+        ?BCPApiService $bcpService = null,
+        ?TerrainTypeService $terrainTypeService = null,
+        ?TournamentTemplateService $templateService = null
     )
     {
         $this->service = $service ?? new TournamentService();
         $this->importService = $importService ?? new TournamentImportService();
         $this->bcpService = $bcpService ?? new BCPApiService();
+        $this->terrainTypeService = $terrainTypeService ?? new TerrainTypeService();
+        $this->templateService = $templateService ?? new TournamentTemplateService();
     }
 
     /**
      * POST /api/tournaments - Create a new tournament.
      *
      * Tournament name is automatically fetched from the BCP event page.
+     * With templateTournamentId, the tables, terrain and table constraints
+     * of that tournament are copied (see TournamentTemplateService).
      *
      * Reference: FR-001, FR-002, FR-003
      */
@@ -58,6 +74,23 @@ class TournamentController extends BaseController
             return;
         }
 
+        // Optional template: an existing tournament whose table setup is copied.
+        // Its admin token comes with the request or from the admin cookie.
+        $template = null;
+        $templateId = (int) ($body['templateTournamentId'] ?? 0);
+        if ($templateId > 0) {
+            $templateToken = $body['templateAdminToken'] ?? ($this->getMultiTokenCookie()[$templateId]['token'] ?? null);
+            try {
+                $template = $this->templateService->resolveTemplate(
+                    $templateId,
+                    is_string($templateToken) ? $templateToken : null
+                );
+            } catch (\InvalidArgumentException $e) {
+                $this->validationError(['templateTournamentId' => [$e->getMessage()]]);
+                return;
+            }
+        }
+
         try {
             // Fetch tournament metadata from BCP event details API
             try {
@@ -82,9 +115,16 @@ class TournamentController extends BaseController
             }
 
             // Create tournament
-            // tableCount is optional - if not provided, tables will be created from Round 1
+            // tableCount is optional - if not provided, tables will be created from Round 1.
+            // A template brings its own tables.
             $tableCount = isset($body['tableCount']) ? (int) $body['tableCount'] : 0;
-            $result = $this->service->createTournament(
+            if ($template !== null) {
+                $tableCount = $this->templateService->tableCount($template);
+            }
+            // The template's tables are copied in the tournament's own
+            // transaction, so a failed copy leaves no tournament behind
+            [$result, $templateResult] = Connection::executeInTransaction(function () use (
+                $template,
                 $tournamentName,
                 $bcpUrl,
                 $tableCount,
@@ -92,11 +132,41 @@ class TournamentController extends BaseController
                 $eventDate,
                 $eventEndDate,
                 $locationName
-            );
+            ) {
+                $result = $this->service->createTournament(
+                    $tournamentName,
+                    $bcpUrl,
+                    $tableCount,
+                    $photoUrl,
+                    $eventDate,
+                    $eventEndDate,
+                    $locationName
+                );
+
+                $templateResult = null;
+                if ($template !== null) {
+                    $templateResult = ['tournamentId' => $template->id, 'name' => $template->name]
+                        + $this->templateService->copyTables($template, $result['tournament']);
+                }
+
+                return [$result, $templateResult];
+            });
 
             // Attempt to auto-import Round 1 and create tables
             $autoImportResult = $this->importService->autoImportRound1($result['tournament']);
 
+            // Constraints follow the players, who arrive with Round 1. The
+            // import talks to BCP, so it can't share the transaction; if the
+            // copy fails, the half-made tournament is deleted instead.
+            if ($template !== null) {
+                try {
+                    $templateResult += $this->templateService->copyConstraints($template, $result['tournament']);
+                } catch (\Exception $e) {
+                    $this->service->deleteTournament($result['tournament']->id);
+                    throw $e;
+                }
+            }
+
             // Check if this is an API request (JSON) or browser form submission
             $contentType = $_SERVER['CONTENT_TYPE'] ?? '';
             $isJsonRequest = str_contains($contentType, 'application/json');
@@ -122,6 +192,10 @@ class TournamentController extends BaseController
                     ];
                 }
 
+                if ($templateResult !== null) {
+                    $response['template'] = $templateResult;
+                }
+
                 $this->success($response, 201);
             } else {
                 // Browser form submission - redirect to dashboard with success message
@@ -131,6 +205,7 @@ class TournamentController extends BaseController
                     'id' => $result['tournament']->id,
                     'adminToken' => $result['adminToken'],
                     'autoImport' => $autoImportResult,
+                    'template' => $templateResult,
                 ];
 
                 // Add tournament token to multi-token cookie (30-day retention) per FR-003
@@ -145,8 +220,10 @@ class TournamentController extends BaseController
             }
         } catch (\InvalidArgumentException $e) {
             $this->validationError(['_general' => [$e->getMessage()]]);
+        } catch (PDOException $e) {
+            $this->error('internal_error', 'Failed to create tournament', 500);
         } catch (\RuntimeException $e) {
-            $this->error('conflict', $e->getMessage(), 409);
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::TOURNAMENT_EXISTS);
         } catch (\Exception $e) {
             $this->error('internal_error', 'Failed to create tournament', 500);
         }
@@ -172,6 +249,37 @@ class TournamentController extends BaseController
         $this->success($response);
     }
 
+    /**
+     * PATCH /api/tournaments/{id} - Update tournament settings.
+     *
+     * Body: {terrainFamilyWeight?: int} (0-100, percentage of the exact terrain repeat cost)
+     */
+    public function update(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        $tournament = $this->getTournamentOrFail($tournamentId);
+        if ($tournament === null) {
+            return;
+        }
+
+        $body = $body ?? [];
+        if (array_key_exists('terrainFamilyWeight', $body)) {
+            $validation = $this->service->validateTerrainFamilyWeight($body['terrainFamilyWeight']);
+            if (!$validation['valid']) {
+                $this->validationError(['terrainFamilyWeight' => [$validation['error']]]);
+                return;
+            }
+        }
+
+        try {
+            $tournament = $this->service->updateSettings($tournament, $body);
+            $this->success(['tournament' => $tournament->toArray()]);
+        } catch (\Exception $e) {
+            $this->error('internal_error', 'Failed to update tournament', 500);
+        }
+    }
+
     /**
      * DELETE /api/tournaments/{id} - Delete a tournament.
      *
@@ -191,7 +299,7 @@ class TournamentController extends BaseController
             $this->service->deleteTournament($tournamentId);
             $this->success(['message' => 'Tournament deleted successfully']);
         } catch (\InvalidArgumentException $e) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
         } catch (\Exception $e) {
             $this->error('internal_error', 'Failed to delete tournament', 500);
         }
@@ -216,6 +324,12 @@ class TournamentController extends BaseController
             return;
         }
 
+        $errors = $this->terrainTypeService->validateTableAssignments($tournamentId, $body['tables']);
+        if (!empty($errors)) {
+            $this->validationError($errors);
+            return;
+        }
+
         try {
             $tables = $this->service->updateTables($tournamentId, $body['tables']);
 
@@ -223,7 +337,7 @@ class TournamentController extends BaseController
                 'tables' => $this->toArrayMap($tables),
             ]);
         } catch (\InvalidArgumentException $e) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
         } catch (\Exception $e) {
             $this->error('internal_error', 'Failed to update tables', 500);
         }
@@ -249,9 +363,9 @@ class TournamentController extends BaseController
                 'minimumCount' => $this->service->getMinimumTableCount($tournamentId),
             ]);
         } catch (\InvalidArgumentException $e) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
         } catch (\RuntimeException $e) {
-            $this->error('conflict', $e->getMessage(), 409);
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::TABLE_COUNT_CONFLICT);
         } catch (\Exception $e) {
             $this->error('internal_error', 'Failed to add table', 500);
         }
@@ -277,9 +391,9 @@ class TournamentController extends BaseController
                 'minimumCount' => $this->service->getMinimumTableCount($tournamentId),
             ]);
         } catch (\InvalidArgumentException $e) {
-            $this->notFound('Tournament');
+            $this->notFound('Tournament', ['tournamentId' => $tournamentId]);
         } catch (\RuntimeException $e) {
-            $this->error('conflict', $e->getMessage(), 409);
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::TABLE_COUNT_CONFLICT);
         } catch (\Exception $e) {
             $this->error('internal_error', 'Failed to remove table', 500);
         }
@@ -316,7 +430,7 @@ class TournamentController extends BaseController
         } catch (\InvalidArgumentException $e) {
             $this->validationError(['count' => [$e->getMessage()]]);
         } catch (\RuntimeException $e) {
-            $this->error('conflict', $e->getMessage(), 409);
+            $this->error('conflict', $e->getMessage(), 409, [], ErrorCode::TABLE_COUNT_CONFLICT);
         } catch (\Exception $e) {
             $this->error('internal_error', 'Failed to set table count', 500);
         }
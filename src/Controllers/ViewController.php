@@ -9,9 +9,16 @@ use TournamentTables\Models\Round;
 use TournamentTables\Models\Allocation;
 use TournamentTables\Models\Table;
 use TournamentTables\Models\Player;
+use TournamentTables\Models\TableConstraint;
 use TournamentTables\Models\TerrainType;
 use TournamentTables\Database\Connection;
+use TournamentTables\Services\AllocationEditService;
+use TournamentTables\Services\AllocationHistoryService;
 use TournamentTables\Services\AuthService;
+use TournamentTables\Services\CostCalculator;
+use TournamentTables\Services\FloorMapService;
+use TournamentTables\Services\LiveUpdateService;
+use TournamentTables\Services\RoundTerrainService;
 
 /**
  * View controller for HTML page rendering.
@@ -33,6 +40,18 @@ class ViewController extends BaseController
      */
     public function createTournament(array $params, ?array $body): void
     {
+        // Tournaments this browser holds a token for can serve as templates
+        $templates = [];
+        foreach ($this->getMultiTokenCookie() as $id => $data) {
+            $template = Tournament::find((int) $id);
+            if ($template !== null) {
+                $templates[] = ['id' => $template->id, 'name' => $template->name, 'lastAccessed' => $data['lastAccessed'] ?? 0];
+            }
+        }
+        usort($templates, function ($a, $b) {
+            return $b['lastAccessed'] - $a['lastAccessed'];
+        });
+
         include __DIR__ . '/../Views/admin/create.php';
     }
 
@@ -52,24 +71,28 @@ class ViewController extends BaseController
 
         $rounds = Round::findByTournament($tournamentId);
         $tables = Table::findVisibleByTournament($tournamentId);
-        $terrainTypes = TerrainType::all();
+        $terrainTypes = TerrainType::findForTournament($tournamentId);
 
         // Calculate minimum table count for UI
         // floor because odd player count = 1 bye (no table needed)
-        $playerCount = count(Player::findByTournament($tournamentId));
+        $players = Player::findByTournament($tournamentId);
+        $playerCount = count($players);
         $minimumTables = $playerCount > 0 ? (int) floor($playerCount / 2) : 0;
+        $constraints = TableConstraint::findByTournament($tournamentId);
 
         // Check if this tournament was just created
         $this->ensureSession();
         $justCreated = false;
         $adminToken = null;
         $autoImport = null;
+        $templateResult = null;
         if (isset($_SESSION['tournament_just_created'])) {
             $createdInfo = $_SESSION['tournament_just_created'];
             if ($createdInfo['id'] === $tournamentId) {
                 $justCreated = true;
                 $adminToken = $createdInfo['adminToken'];
                 $autoImport = $createdInfo['autoImport'] ?? null;
+                $templateResult = $createdInfo['template'] ?? null;
                 // Clear the session variable after use
                 unset($_SESSION['tournament_just_created']);
             }
@@ -109,10 +132,118 @@ class ViewController extends BaseController
         // Get all rounds for navigation
         $rounds = Round::findByTournament($tournamentId);
 
+        $history = (new AllocationHistoryService(
+            Connection::getInstance(),
+            new AllocationEditService(Connection::getInstance(), new CostCalculator())
+        ))->getHistory($round->id);
+
+        $terrainLayout = (new RoundTerrainService())->getLayout($tournamentId, $roundNumber);
+        $terrainTypes = TerrainType::findForTournament($tournamentId);
+
         // Render the round management view
         include __DIR__ . '/../Views/admin/round.php';
     }
 
+    /**
+     * GET /admin/tournament/{id}/round/{n}/print - Printable pairing sheets and table placards (admin).
+     *
+     * ?sheet=players|tables|placards prints one sheet; all three by default.
+     */
+    public function printRound(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+        $roundNumber = (int) ($params['n'] ?? 0);
+
+        $tournament = Tournament::find($tournamentId);
+        if ($tournament === null) {
+            http_response_code(404);
+            echo $this->render404('Tournament not found');
+            return;
+        }
+
+        $round = Round::findByTournamentAndNumber($tournamentId, $roundNumber);
+        if ($round === null) {
+            http_response_code(404);
+            echo $this->render404('Round not found');
+            return;
+        }
+
+        if (!$round->isPublished) {
+            http_response_code(404);
+            echo $this->render404("Round {$roundNumber} is not published yet");
+            return;
+        }
+
+        $sheet = isset($_GET['sheet']) ? (string) $_GET['sheet'] : 'all';
+        if (!in_array($sheet, ['all', 'players', 'tables', 'placards'], true)) {
+            $sheet = 'all';
+        }
+
+        // One entry per pairing, in table order with byes last
+        $pairings = [];
+        foreach ($round->getAllocations() as $allocation) {
+            $table = $allocation->getTable();
+            $terrainType = $table ? $table->getTerrainType($roundNumber) : null;
+            $player1 = $allocation->getPlayer1();
+            $player2 = $allocation->isBye() ? null : $allocation->getPlayer2();
+
+            $pairings[] = [
+                'tableNumber' => $table ? $table->tableNumber : null,
+                'terrainType' => $terrainType ? $terrainType->name : null,
+                'terrainEmoji' => $terrainType ? $terrainType->emoji : null,
+                'isBye' => $allocation->isBye(),
+                'player1' => $player1,
+                'player2' => $player2,
+            ];
+        }
+        usort($pairings, function (array $a, array $b) {
+            return [$a['tableNumber'] === null, $a['tableNumber']] <=> [$b['tableNumber'] === null, $b['tableNumber']];
+        });
+
+        // One line per player, by name, for the wall sheet
+        $playerLines = [];
+        foreach ($pairings as $pairing) {
+            foreach ([[$pairing['player1'], $pairing['player2']], [$pairing['player2'], $pairing['player1']]] as $side) {
+                list($player, $opponent) = $side;
+                if ($player === null) {
+                    continue;
+                }
+                $playerLines[] = [
+                    'player' => $player,
+                    'opponent' => $opponent,
+                    'tableNumber' => $pairing['tableNumber'],
+                    'terrainType' => $pairing['terrainType'],
+                    'isBye' => $pairing['isBye'],
+                ];
+            }
+        }
+        usort($playerLines, function (array $a, array $b) {
+            return strnatcasecmp($a['player']->name, $b['player']->name);
+        });
+
+        include __DIR__ . '/../Views/admin/print.php';
+    }
+
+    /**
+     * GET /admin/tournament/{id}/floor-map - Floor map editor (admin).
+     */
+    public function floorMap(array $params, ?array $body): void
+    {
+        $tournamentId = (int) ($params['id'] ?? 0);
+
+        $tournament = Tournament::find($tournamentId);
+        if ($tournament === null) {
+            http_response_code(404);
+            echo $this->render404('Tournament not found');
+            return;
+        }
+
+        $tables = Table::findVisibleByTournament($tournamentId);
+        $floorMap = (new FloorMapService())->getFloorMap($tournamentId);
+
+        include __DIR__ . '/../Views/admin/floor-map.php';
+    }
+
     /**
      * GET /{id} - Public tournament display (unauthenticated).
      */
@@ -208,6 +339,36 @@ class ViewController extends BaseController
             ];
         }, $players);
 
+        // Tables placed on the venue floor map by zone, with the pairing on each this round
+        $floorMap = [];
+        if ($round !== null && !$isLeaderboardView) {
+            $pairingsByTable = [];
+            foreach ($allocations as $allocation) {
+                if ($allocation->tableId !== null) {
+                    $pairingsByTable[$allocation->tableId] = (int) $allocation->player1Id . '-' . (int) $allocation->player2Id;
+                }
+            }
+            foreach (Table::findVisibleByTournament($tournamentId) as $table) {
+                if (!$table->isPlaced()) {
+                    continue;
+                }
+                $floorMap[$table->mapZone ?? ''][] = [
+                    'table' => $table,
+                    'terrainType' => $table->getTerrainType($round->roundNumber),
+                    'pairing' => $pairingsByTable[$table->id] ?? null,
+                ];
+            }
+            // The main floor (no zone) first, then zones by name
+            uksort($floorMap, fn ($a, $b) => strnatcasecmp((string) $a, (string) $b));
+        }
+
+        // The page subscribes to live updates from the state it was rendered with
+        $liveUpdates = new LiveUpdateService();
+        $liveState = $liveUpdates->encodeState($liveUpdates->getState($tournamentId));
+        $lastPublishedRound = empty($publishedRounds) ? null : $publishedRounds[count($publishedRounds) - 1];
+        $followsLatestRound = !$isLeaderboardView
+            && ($round === null || $round->roundNumber === $lastPublishedRound->roundNumber);
+
         include __DIR__ . '/../Views/public/round.php';
     }
 
@@ -63,6 +63,35 @@ class Connection
         self::$instance = null;
     }
 
+    /**
+     * Switch to a per-worker E2E test database ("{database}_w{n}").
+     *
+     * Only names derived from the configured database are accepted, so a
+     * request can never point the application at an unrelated schema.
+     *
+     * @return bool False if the name is not a worker database of this config
+     */
+    public static function useTestDatabase(string $database): bool
+    {
+        $config = self::loadConfig();
+        $pattern = '/^' . preg_quote($config['database'], '/') . '_w\d{1,3}$/';
+        if (preg_match($pattern, $database) !== 1) {
+            return false;
+        }
+
+        $config['database'] = $database;
+        self::setConfig($config);
+        return true;
+    }
+
+    /**
+     * Get the name of the database in use.
+     */
+    public static function getDatabaseName(): string
+    {
+        return self::loadConfig()['database'];
+    }
+
     /**
      * Create a new PDO connection.
      */
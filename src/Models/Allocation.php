@@ -146,6 +146,19 @@ class Allocation extends BaseModel
         return $row ? self::fromRow($row) : null;
     }
 
+    /**
+     * Find a player's allocation in a round, on either side of the pairing.
+     */
+    public static function findByRoundAndPlayer(int $roundId, int $playerId): ?self
+    {
+        $row = Connection::fetchOne(
+            'SELECT * FROM allocations WHERE round_id = ? AND (player1_id = ? OR player2_id = ?)',
+            [$roundId, $playerId, $playerId]
+        );
+
+        return $row ? self::fromRow($row) : null;
+    }
+
     /**
      * Insert a new allocation.
      */
@@ -296,11 +309,12 @@ class Allocation extends BaseModel
     private function getRelatedEntities(): array
     {
         $table = $this->getTable();
+        $round = $table ? Round::find($this->roundId) : null;
         return [
             'table' => $table,
             'player1' => $this->getPlayer1(),
             'player2' => $this->getPlayer2(),
-            'terrainType' => $table ? $table->getTerrainType() : null,
+            'terrainType' => $table ? $table->getTerrainType($round ? $round->roundNumber : null) : null,
         ];
     }
 
@@ -318,6 +332,7 @@ class Allocation extends BaseModel
         return [
             'id' => $this->id,
             'tableNumber' => $table ? $table->tableNumber : null,
+            'bcpTableNumber' => $this->bcpTableNumber,
             'terrainType' => $terrainType ? $terrainType->name : null,
             'isBye' => $this->isBye(),
             'player1' => [
@@ -94,6 +94,25 @@ class Player extends BaseModel
         return $row ? self::fromRow($row) : null;
     }
 
+    /**
+     * Find players whose name contains the query, or whose BCP player ID is the query.
+     *
+     * @return Player[] Matches by name, at most $limit
+     */
+    public static function searchByTournament(int $tournamentId, string $query, int $limit): array
+    {
+        $pattern = '%' . addcslashes($query, '%_\\') . '%';
+        $rows = Connection::fetchAll(
+            'SELECT * FROM players
+             WHERE tournament_id = ? AND (name LIKE ? OR bcp_player_id = ?)
+             ORDER BY name ASC
+             LIMIT ' . $limit,
+            [$tournamentId, $pattern, $query]
+        );
+
+        return array_map([self::class, 'fromRow'], $rows);
+    }
+
     /**
      * Find or create a player.
      */
@@ -174,9 +174,13 @@ class Round extends BaseModel
 
     /**
      * Delete all allocations for this round.
+     *
+     * The edit history goes too: it refers to the deleted pairings, and the
+     * allocations created next are the new "generated" state.
      */
     public function clearAllocations(): void
     {
+        Connection::execute('DELETE FROM allocation_edits WHERE round_id = ?', [$this->id]);
         Connection::execute('DELETE FROM allocations WHERE round_id = ?', [$this->id]);
     }
 
@@ -0,0 +1,140 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Models;
+
+use TournamentTables\Database\Connection;
+
+/**
+ * Round terrain override entity.
+ *
+ * The terrain on a table in one round. Rounds without an override use the
+ * table's own terrain type.
+ */
+class RoundTerrain extends BaseModel
+{
+    /** @var int */
+    public $tournamentId;
+
+    /** @var int */
+    public $tableId;
+
+    /** @var int */
+    public $roundNumber;
+
+    /** @var int|null Null when the table has no terrain this round */
+    public $terrainTypeId;
+
+    public function __construct(
+        ?int $id = null,
+        int $tournamentId = 0,
+        int $tableId = 0,
+        int $roundNumber = 1,
+        ?int $terrainTypeId = null
+    ) {
+        $this->id = $id;
+        $this->tournamentId = $tournamentId;
+        $this->tableId = $tableId;
+        $this->roundNumber = $roundNumber;
+        $this->terrainTypeId = $terrainTypeId;
+    }
+
+    protected static function getTableName(): string
+    {
+        return 'round_terrain';
+    }
+
+    /**
+     * Create instance from database row.
+     */
+    public static function fromRow(array $row)
+    {
+        return new self(
+            (int) $row['id'],
+            (int) $row['tournament_id'],
+            (int) $row['table_id'],
+            (int) $row['round_number'],
+            isset($row['terrain_type_id']) ? (int) $row['terrain_type_id'] : null
+        );
+    }
+
+    /**
+     * Find a table's override for a round.
+     */
+    public static function findByTableAndRound(int $tableId, int $roundNumber): ?self
+    {
+        $row = Connection::fetchOne(
+            'SELECT * FROM round_terrain WHERE table_id = ? AND round_number = ?',
+            [$tableId, $roundNumber]
+        );
+
+        return $row ? self::fromRow($row) : null;
+    }
+
+    /**
+     * Find a tournament's overrides for a round, keyed by table ID.
+     *
+     * @return array<int, self>
+     */
+    public static function findByTournamentAndRound(int $tournamentId, int $roundNumber): array
+    {
+        $rows = Connection::fetchAll(
+            'SELECT * FROM round_terrain WHERE tournament_id = ? AND round_number = ?',
+            [$tournamentId, $roundNumber]
+        );
+
+        $overrides = [];
+        foreach ($rows as $row) {
+            $override = self::fromRow($row);
+            $overrides[$override->tableId] = $override;
+        }
+        return $overrides;
+    }
+
+    /**
+     * Delete a tournament's overrides for a round.
+     *
+     * @return int Number of overrides deleted
+     */
+    public static function deleteByTournamentAndRound(int $tournamentId, int $roundNumber): int
+    {
+        return Connection::execute(
+            'DELETE FROM round_terrain WHERE tournament_id = ? AND round_number = ?',
+            [$tournamentId, $roundNumber]
+        )->rowCount();
+    }
+
+    /**
+     * Insert a new override.
+     */
+    protected function insert(): bool
+    {
+        Connection::execute(
+            'INSERT INTO round_terrain (tournament_id, table_id, round_number, terrain_type_id)
+             VALUES (?, ?, ?, ?)',
+            [
+                $this->tournamentId,
+                $this->tableId,
+                $this->roundNumber,
+                $this->terrainTypeId,
+            ]
+        );
+
+        $this->id = Connection::lastInsertId();
+        return true;
+    }
+
+    /**
+     * Update an existing override.
+     */
+    protected function update(): bool
+    {
+        Connection::execute(
+            'UPDATE round_terrain SET terrain_type_id = ? WHERE id = ?',
+            [$this->terrainTypeId, $this->id]
+        );
+
+        return true;
+    }
+}
@@ -29,13 +29,25 @@ class Table extends BaseModel
     /** @var bool */
     public $isOptional;
 
+    /** @var string|null Floor map room or zone, null for the main floor */
+    public $mapZone;
+
+    /** @var float|null Floor map position across the zone, in percent (null when not placed) */
+    public $mapX;
+
+    /** @var float|null Floor map position down the zone, in percent (null when not placed) */
+    public $mapY;
+
     public function __construct(
         ?int $id = null,
         int $tournamentId = 0,
         int $tableNumber = 0,
         ?int $terrainTypeId = null,
         bool $isHidden = false,
-        bool $isOptional = false
+        bool $isOptional = false,
+        ?string $mapZone = null,
+        ?float $mapX = null,
+        ?float $mapY = null
     ) {
         $this->id = $id;
         $this->tournamentId = $tournamentId;
@@ -43,6 +55,9 @@ class Table extends BaseModel
         $this->terrainTypeId = $terrainTypeId;
         $this->isHidden = $isHidden;
         $this->isOptional = $isOptional;
+        $this->mapZone = $mapZone;
+        $this->mapX = $mapX;
+        $this->mapY = $mapY;
     }
 
     protected static function getTableName(): string
@@ -61,7 +76,10 @@ class Table extends BaseModel
             (int) $row['table_number'],
             isset($row['terrain_type_id']) ? (int) $row['terrain_type_id'] : null,
             !empty($row['is_hidden']),
-            !empty($row['optional'])
+            !empty($row['optional']),
+            isset($row['map_zone']) ? (string) $row['map_zone'] : null,
+            isset($row['map_x']) ? (float) $row['map_x'] : null,
+            isset($row['map_y']) ? (float) $row['map_y'] : null
         );
     }
 
@@ -192,14 +210,17 @@ class Table extends BaseModel
     protected function insert(): bool
     {
         Connection::execute(
-            'INSERT INTO tables (tournament_id, table_number, terrain_type_id, is_hidden, `optional`)
-             VALUES (?, ?, ?, ?, ?)',
+            'INSERT INTO tables (tournament_id, table_number, terrain_type_id, is_hidden, `optional`, map_zone, map_x, map_y)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
             [
                 $this->tournamentId,
                 $this->tableNumber,
                 $this->terrainTypeId,
                 $this->isHidden ? 1 : 0,
                 $this->isOptional ? 1 : 0,
+                $this->mapZone,
+                $this->mapX,
+                $this->mapY,
             ]
         );
 
@@ -213,11 +234,14 @@ class Table extends BaseModel
     protected function update(): bool
     {
         Connection::execute(
-            'UPDATE tables SET terrain_type_id = ?, is_hidden = ?, `optional` = ? WHERE id = ?',
+            'UPDATE tables SET terrain_type_id = ?, is_hidden = ?, `optional` = ?, map_zone = ?, map_x = ?, map_y = ? WHERE id = ?',
             [
                 $this->terrainTypeId,
                 $this->isHidden ? 1 : 0,
                 $this->isOptional ? 1 : 0,
+                $this->mapZone,
+                $this->mapX,
+                $this->mapY,
                 $this->id,
             ]
         );
@@ -225,15 +249,38 @@ class Table extends BaseModel
         return true;
     }
 
+    /**
+     * Whether the table has a position on the floor map.
+     */
+    public function isPlaced(): bool
+    {
+        return $this->mapX !== null && $this->mapY !== null;
+    }
+
+    /**
+     * Get the terrain type ID on this table in a round.
+     *
+     * A round terrain override wins; without one the table keeps its own
+     * terrain type.
+     */
+    public function terrainTypeIdForRound(int $roundNumber): ?int
+    {
+        $override = $this->id !== null ? RoundTerrain::findByTableAndRound($this->id, $roundNumber) : null;
+        return $override !== null ? $override->terrainTypeId : $this->terrainTypeId;
+    }
+
     /**
      * Get the terrain type for this table.
+     *
+     * @param int|null $roundNumber Round to resolve overrides for, null for the table's own terrain
      */
-    public function getTerrainType(): ?TerrainType
+    public function getTerrainType(?int $roundNumber = null): ?TerrainType
     {
-        if ($this->terrainTypeId === null) {
+        $terrainTypeId = $roundNumber === null ? $this->terrainTypeId : $this->terrainTypeIdForRound($roundNumber);
+        if ($terrainTypeId === null) {
             return null;
         }
-        return TerrainType::find($this->terrainTypeId);
+        return TerrainType::find($terrainTypeId);
     }
 
     /**
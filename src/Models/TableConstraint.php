@@ -0,0 +1,168 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Models;
+
+use JsonException;
+use TournamentTables\Database\Connection;
+
+/**
+ * Table constraint entity.
+ *
+ * Restricts the tables a player may be allocated to: a required table, a set
+ * of allowed tables, or a set of forbidden tables. Applies to every round, or
+ * to one round only (a pin of that round's pairing).
+ */
+class TableConstraint extends BaseModel
+{
+    public const TYPE_REQUIRED = 'required';
+    public const TYPE_ALLOWED = 'allowed';
+    public const TYPE_FORBIDDEN = 'forbidden';
+
+    public const TYPES = [self::TYPE_REQUIRED, self::TYPE_ALLOWED, self::TYPE_FORBIDDEN];
+
+    /** @var int */
+    public $tournamentId;
+
+    /** @var int */
+    public $playerId;
+
+    /** @var int|null Round the constraint applies to, null for every round */
+    public $roundNumber;
+
+    /** @var string One of the TYPE_* constants */
+    public $type;
+
+    /** @var int[] */
+    public $tableIds;
+
+    /** @var string|null */
+    public $note;
+
+    public function __construct(
+        ?int $id = null,
+        int $tournamentId = 0,
+        int $playerId = 0,
+        ?int $roundNumber = null,
+        string $type = self::TYPE_REQUIRED,
+        array $tableIds = [],
+        ?string $note = null
+    ) {
+        $this->id = $id;
+        $this->tournamentId = $tournamentId;
+        $this->playerId = $playerId;
+        $this->roundNumber = $roundNumber;
+        $this->type = $type;
+        $this->tableIds = $tableIds;
+        $this->note = $note;
+    }
+
+    protected static function getTableName(): string
+    {
+        return 'table_constraints';
+    }
+
+    /**
+     * Create instance from database row.
+     */
+    public static function fromRow(array $row)
+    {
+        try {
+            $tableIds = json_decode($row['table_ids'], true, 512, JSON_THROW_ON_ERROR);
+        } catch (JsonException $e) {
+            error_log('Failed to decode table_ids for table constraint ' . $row['id'] . ': ' . $e->getMessage());
+            $tableIds = [];
+        }
+
+        return new self(
+            (int) $row['id'],
+            (int) $row['tournament_id'],
+            (int) $row['player_id'],
+            $row['round_number'] === null ? null : (int) $row['round_number'],
+            $row['constraint_type'],
+            array_map('intval', $tableIds),
+            $row['note']
+        );
+    }
+
+    /**
+     * Find all constraints for a tournament.
+     *
+     * @return TableConstraint[]
+     */
+    public static function findByTournament(int $tournamentId): array
+    {
+        return self::findByTournamentId($tournamentId, 'round_number IS NOT NULL, round_number ASC, id ASC');
+    }
+
+    /**
+     * Insert a new constraint.
+     */
+    protected function insert(): bool
+    {
+        Connection::execute(
+            'INSERT INTO table_constraints (tournament_id, player_id, round_number, constraint_type, table_ids, note)
+             VALUES (?, ?, ?, ?, ?, ?)',
+            [
+                $this->tournamentId,
+                $this->playerId,
+                $this->roundNumber,
+                $this->type,
+                json_encode(array_values($this->tableIds)),
+                $this->note,
+            ]
+        );
+
+        $this->id = Connection::lastInsertId();
+        return true;
+    }
+
+    /**
+     * Update an existing constraint.
+     */
+    protected function update(): bool
+    {
+        Connection::execute(
+            'UPDATE table_constraints SET round_number = ?, constraint_type = ?, table_ids = ?, note = ? WHERE id = ?',
+            [
+                $this->roundNumber,
+                $this->type,
+                json_encode(array_values($this->tableIds)),
+                $this->note,
+                $this->id,
+            ]
+        );
+
+        return true;
+    }
+
+    /**
+     * Convert to array for JSON serialization.
+     */
+    public function toArray(): array
+    {
+        $player = Player::find($this->playerId);
+
+        $tableNumbers = [];
+        if ($this->tableIds !== []) {
+            $placeholders = implode(',', array_fill(0, count($this->tableIds), '?'));
+            $rows = Connection::fetchAll(
+                "SELECT table_number FROM tables WHERE id IN ({$placeholders}) ORDER BY table_number",
+                array_values($this->tableIds)
+            );
+            $tableNumbers = array_map(fn ($row) => (int) $row['table_number'], $rows);
+        }
+
+        return [
+            'id' => $this->id,
+            'playerId' => $this->playerId,
+            'playerName' => $player ? $player->name : null,
+            'roundNumber' => $this->roundNumber,
+            'type' => $this->type,
+            'tableIds' => $this->tableIds,
+            'tableNumbers' => $tableNumbers,
+            'note' => $this->note,
+        ];
+    }
+}
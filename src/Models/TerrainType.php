@@ -9,14 +9,24 @@ use TournamentTables\Database\Connection;
 /**
  * Terrain type entity.
  *
- * Represents predefined terrain configurations available at the venue.
+ * Represents terrain configurations available at the venue: built-in types
+ * shared by every tournament, and types a tournament adds to its own catalog.
+ * Archived types stay on the tables they are assigned to but can't be
+ * assigned to others. Variants of the same terrain share a family, so
+ * terrain variety can tell them apart from genuinely different terrain.
  * Reference: specs/001-table-allocation/data-model.md#terraintype
  */
 class TerrainType extends BaseModel
 {
+    /** @var int|null Owning tournament, null for built-in types */
+    public $tournamentId;
+
     /** @var string */
     public $name;
 
+    /** @var string|null Null when the type is a family of its own */
+    public $family;
+
     /** @var string|null */
     public $description;
 
@@ -26,18 +36,27 @@ class TerrainType extends BaseModel
     /** @var int */
     public $sortOrder;
 
+    /** @var bool */
+    public $isArchived;
+
     public function __construct(
         ?int $id = null,
         string $name = '',
         ?string $description = null,
         ?string $emoji = null,
-        int $sortOrder = 0
+        int $sortOrder = 0,
+        ?int $tournamentId = null,
+        bool $isArchived = false,
+        ?string $family = null
     ) {
         $this->id = $id;
         $this->name = $name;
         $this->description = $description;
         $this->emoji = $emoji;
         $this->sortOrder = $sortOrder;
+        $this->tournamentId = $tournamentId;
+        $this->isArchived = $isArchived;
+        $this->family = $family;
     }
 
     protected static function getTableName(): string
@@ -55,17 +74,20 @@ class TerrainType extends BaseModel
             $row['name'],
             $row['description'],
             $row['emoji'] ?? null,
-            (int) $row['sort_order']
+            (int) $row['sort_order'],
+            isset($row['tournament_id']) ? (int) $row['tournament_id'] : null,
+            !empty($row['is_archived']),
+            $row['family'] ?? null
         );
     }
 
     /**
-     * Find terrain type by name.
+     * Find built-in terrain type by name.
      */
     public static function findByName(string $name): ?self
     {
         $row = Connection::fetchOne(
-            'SELECT * FROM terrain_types WHERE name = ?',
+            'SELECT * FROM terrain_types WHERE tournament_id IS NULL AND name = ?',
             [$name]
         );
 
@@ -73,32 +95,69 @@ class TerrainType extends BaseModel
     }
 
     /**
-     * Get all terrain types ordered by sort_order.
+     * Get all built-in terrain types ordered by sort_order.
      *
      * @return TerrainType[]
      */
     public static function all(): array
     {
         $rows = Connection::fetchAll(
-            'SELECT * FROM terrain_types ORDER BY sort_order ASC'
+            'SELECT * FROM terrain_types WHERE tournament_id IS NULL ORDER BY sort_order ASC, id ASC'
+        );
+
+        return array_map([self::class, 'fromRow'], $rows);
+    }
+
+    /**
+     * Get a tournament's terrain catalog: built-in types plus its own,
+     * archived ones included, ordered by sort_order.
+     *
+     * @return TerrainType[]
+     */
+    public static function findForTournament(int $tournamentId): array
+    {
+        $rows = Connection::fetchAll(
+            'SELECT * FROM terrain_types
+             WHERE tournament_id IS NULL OR tournament_id = ?
+             ORDER BY sort_order ASC, id ASC',
+            [$tournamentId]
         );
 
         return array_map([self::class, 'fromRow'], $rows);
     }
 
+    /**
+     * Whether a tournament may use this type (built-in or its own).
+     */
+    public function isAvailableTo(int $tournamentId): bool
+    {
+        return $this->tournamentId === null || $this->tournamentId === $tournamentId;
+    }
+
+    /**
+     * Get the family this type belongs to: its family, or its own name.
+     */
+    public function getFamily(): string
+    {
+        return $this->family ?? $this->name;
+    }
+
     /**
      * Insert a new terrain type.
      */
     protected function insert(): bool
     {
         Connection::execute(
-            'INSERT INTO terrain_types (name, description, emoji, sort_order)
-             VALUES (?, ?, ?, ?)',
+            'INSERT INTO terrain_types (tournament_id, name, family, description, emoji, sort_order, is_archived)
+             VALUES (?, ?, ?, ?, ?, ?, ?)',
             [
+                $this->tournamentId,
                 $this->name,
+                $this->family,
                 $this->description,
                 $this->emoji,
                 $this->sortOrder,
+                $this->isArchived ? 1 : 0,
             ]
         );
 
@@ -112,12 +171,15 @@ class TerrainType extends BaseModel
     protected function update(): bool
     {
         Connection::execute(
-            'UPDATE terrain_types SET name = ?, description = ?, emoji = ?, sort_order = ? WHERE id = ?',
+            'UPDATE terrain_types SET name = ?, family = ?, description = ?, emoji = ?, sort_order = ?, is_archived = ?
+             WHERE id = ?',
             [
                 $this->name,
+                $this->family,
                 $this->description,
                 $this->emoji,
                 $this->sortOrder,
+                $this->isArchived ? 1 : 0,
                 $this->id,
             ]
         );
@@ -133,9 +195,12 @@ class TerrainType extends BaseModel
         return [
             'id' => $this->id,
             'name' => $this->name,
+            'family' => $this->family,
             'description' => $this->description,
             'emoji' => $this->emoji,
             'sortOrder' => $this->sortOrder,
+            'tournamentId' => $this->tournamentId,
+            'isArchived' => $this->isArchived,
         ];
     }
 }
@@ -14,6 +14,12 @@ use TournamentTables\Database\Connection;
  */
 class Tournament extends BaseModel
 {
+    /**
+     * Default cost of repeating a terrain family with a different variant,
+     * as a percentage of repeating the exact terrain type.
+     */
+    const DEFAULT_TERRAIN_FAMILY_WEIGHT = 50;
+
     /** @var string */
     public $name;
 
@@ -44,6 +50,9 @@ class Tournament extends BaseModel
     /** @var string */
     public $adminToken;
 
+    /** @var int Percentage, see DEFAULT_TERRAIN_FAMILY_WEIGHT */
+    public $terrainFamilyWeight;
+
     public function __construct(
         ?int $id = null,
         string $name = '',
@@ -55,7 +64,8 @@ class Tournament extends BaseModel
         ?string $photoUrl = null,
         ?string $eventDate = null,
         ?string $eventEndDate = null,
-        ?string $locationName = null
+        ?string $locationName = null,
+        int $terrainFamilyWeight = self::DEFAULT_TERRAIN_FAMILY_WEIGHT
     ) {
         $this->id = $id;
         $this->name = $name;
@@ -68,6 +78,7 @@ class Tournament extends BaseModel
         $this->tableCount = $tableCount;
         $this->adminToken = $adminToken;
         $this->lastUpdated = $lastUpdated;
+        $this->terrainFamilyWeight = $terrainFamilyWeight;
     }
 
     protected static function getTableName(): string
@@ -91,7 +102,8 @@ class Tournament extends BaseModel
             $row['photo_url'] ?? null,
             $row['event_date'] ?? null,
             $row['event_end_date'] ?? null,
-            $row['location_name'] ?? null
+            $row['location_name'] ?? null,
+            (int) ($row['terrain_family_weight'] ?? self::DEFAULT_TERRAIN_FAMILY_WEIGHT)
         );
     }
 
@@ -127,8 +139,8 @@ class Tournament extends BaseModel
     protected function insert(): bool
     {
         Connection::execute(
-            'INSERT INTO tournaments (name, bcp_event_id, bcp_url, photo_url, location_name, event_date, event_end_date, table_count, admin_token, last_updated)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            'INSERT INTO tournaments (name, bcp_event_id, bcp_url, photo_url, location_name, event_date, event_end_date, table_count, admin_token, last_updated, terrain_family_weight)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
             [
                 $this->name,
                 $this->bcpEventId,
@@ -140,6 +152,7 @@ class Tournament extends BaseModel
                 $this->tableCount,
                 $this->adminToken,
                 $this->lastUpdated,
+                $this->terrainFamilyWeight,
             ]
         );
 
@@ -153,11 +166,12 @@ class Tournament extends BaseModel
     protected function update(): bool
     {
         Connection::execute(
-            'UPDATE tournaments SET name = ?, table_count = ?, last_updated = ? WHERE id = ?',
+            'UPDATE tournaments SET name = ?, table_count = ?, last_updated = ?, terrain_family_weight = ? WHERE id = ?',
             [
                 $this->name,
                 $this->tableCount,
                 $this->lastUpdated,
+                $this->terrainFamilyWeight,
                 $this->id,
             ]
         );
@@ -220,6 +234,7 @@ class Tournament extends BaseModel
             'eventEndDate' => $this->eventEndDate,
             'tableCount' => $this->tableCount,
             'lastUpdated' => $this->lastUpdated,
+            'terrainFamilyWeight' => $this->terrainFamilyWeight,
         ];
     }
 }
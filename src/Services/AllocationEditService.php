@@ -8,12 +8,16 @@ use JsonException;
 use PDO;
 use RuntimeException;
 use InvalidArgumentException;
+use TournamentTables\Models\Tournament;
 
 /**
  * Service for editing table allocations.
  *
  * Provides methods for manually adjusting table assignments and swapping tables.
- * Recalculates conflicts after edits per FR-010.
+ * Recalculates conflicts after edits per FR-010. Edits only replace the
+ * conflicts in an allocation's reason; the rest of it, the audit trail of how
+ * the pairing was generated, is kept, so undoing or reverting edits leaves
+ * pairings with their generated reasons.
  *
  * Reference: specs/001-table-allocation/tasks.md#T068
  */
@@ -73,12 +77,16 @@ class AllocationEditService
         $existingAllocation = $this->getAllocationByRoundAndTable($allocation['round_id'], $newTableId);
 
         // Recalculate conflicts for this allocation
+        $constraints = TableConstraints::load($this->db, $round['tournament_id'], $round['round_number']);
+        $familyWeight = $this->getTerrainFamilyWeight($round['tournament_id']);
         $conflicts = $this->calculateConflicts(
             $allocation['player1_id'],
             $allocation['player2_id'],
             $newTableId,
             $round['tournament_id'],
-            $round['round_number']
+            $round['round_number'],
+            $constraints,
+            $familyWeight
         );
 
         // Add table collision conflict if another allocation uses this table
@@ -94,7 +102,11 @@ class AllocationEditService
         $stmt = $this->db->prepare(
             'UPDATE allocations SET table_id = ?, allocation_reason = ? WHERE id = ?'
         );
-        $stmt->execute([$newTableId, $this->encodeAllocationReason($conflicts), $allocationId]);
+        $stmt->execute([
+            $newTableId,
+            $this->encodeAllocationReason($conflicts, $this->decodeAllocationReason($allocation)),
+            $allocationId,
+        ]);
 
         // If we moved away from a table, recalculate conflicts for any allocation
         // that remains on the old table (to clear resolved TABLE_COLLISION conflicts)
@@ -103,7 +115,9 @@ class AllocationEditService
                 (int) $allocation['round_id'],
                 $oldTableId,
                 (int) $round['tournament_id'],
-                (int) $round['round_number']
+                (int) $round['round_number'],
+                $constraints,
+                $familyWeight
             );
         }
 
@@ -164,12 +178,16 @@ class AllocationEditService
             $table2 = $allocation2['table_id'];
 
             // Calculate conflicts for both allocations
+            $constraints = TableConstraints::load($this->db, $round['tournament_id'], $round['round_number']);
+            $familyWeight = $this->getTerrainFamilyWeight($round['tournament_id']);
             $conflicts1 = $this->calculateConflicts(
                 $allocation1['player1_id'],
                 $allocation1['player2_id'],
                 $table2,
                 $round['tournament_id'],
-                $round['round_number']
+                $round['round_number'],
+                $constraints,
+                $familyWeight
             );
 
             $conflicts2 = $this->calculateConflicts(
@@ -177,13 +195,23 @@ class AllocationEditService
                 $allocation2['player2_id'],
                 $table1,
                 $round['tournament_id'],
-                $round['round_number']
+                $round['round_number'],
+                $constraints,
+                $familyWeight
             );
 
             // Swap tables and update conflicts
             $stmt = $this->db->prepare('UPDATE allocations SET table_id = ?, allocation_reason = ? WHERE id = ?');
-            $stmt->execute([$table2, $this->encodeAllocationReason($conflicts1), $allocationId1]);
-            $stmt->execute([$table1, $this->encodeAllocationReason($conflicts2), $allocationId2]);
+            $stmt->execute([
+                $table2,
+                $this->encodeAllocationReason($conflicts1, $this->decodeAllocationReason($allocation1)),
+                $allocationId1,
+            ]);
+            $stmt->execute([
+                $table1,
+                $this->encodeAllocationReason($conflicts2, $this->decodeAllocationReason($allocation2)),
+                $allocationId2,
+            ]);
 
             if ($ownTransaction) {
                 $this->db->commit();
@@ -210,10 +238,292 @@ class AllocationEditService
         }
     }
 
+    /**
+     * Apply a list of moves and swaps to one round atomically.
+     *
+     * Operations are applied in order to the round's table assignments, so
+     * intermediate collisions don't matter; only the final state is validated.
+     * It must not put two pairings on one table. Conflicts of every pairing in
+     * the round are then recalculated. The round's allocations are locked
+     * while they are read, validated and updated, all in one transaction.
+     *
+     * Operations:
+     *   ['type' => 'move', 'allocationId' => int, 'tableId' => int]
+     *   ['type' => 'swap', 'allocationId1' => int, 'allocationId2' => int]
+     *
+     * @param int $roundId Round to edit
+     * @param array $operations Moves and swaps, applied in order
+     * @return array Result with changed allocations: new ('changed') and old ('previous') table ID by allocation ID
+     * @throws InvalidArgumentException If an operation is malformed or refers to another round/tournament
+     * @throws RuntimeException If the final state has a table collision
+     */
+    public function applyBatch(int $roundId, array $operations): array
+    {
+        if ($operations === []) {
+            throw new InvalidArgumentException('At least one operation is required');
+        }
+
+        // Lock the round's allocations before reading them, so no other edit
+        // lands between validating the final state and writing it
+        $ownTransaction = !$this->db->inTransaction();
+        if ($ownTransaction) {
+            $this->db->beginTransaction();
+        }
+
+        try {
+            $round = $this->getRound($roundId);
+            if (!$round) {
+                throw new RuntimeException('Round not found');
+            }
+            $tournamentId = (int) $round['tournament_id'];
+
+            $allocations = $this->getRoundAllocations($roundId, true);
+
+            $stmt = $this->db->prepare('SELECT id, table_number, is_hidden FROM tables WHERE tournament_id = ?');
+            $stmt->execute([$tournamentId]);
+            $tables = [];
+            foreach ($stmt->fetchAll(PDO::FETCH_ASSOC) as $row) {
+                $tables[(int) $row['id']] = $row;
+            }
+
+            // Table ID by allocation ID, updated by each operation in turn
+            $assignment = [];
+            foreach ($allocations as $id => $row) {
+                $assignment[$id] = $row['table_id'] === null ? null : (int) $row['table_id'];
+            }
+
+            foreach (array_values($operations) as $index => $operation) {
+                $label = 'Operation ' . ($index + 1);
+                $type = is_array($operation) ? ($operation['type'] ?? null) : null;
+
+                if ($type === 'move') {
+                    $allocationId = $this->batchAllocationId($operation, 'allocationId', $allocations, $label);
+                    $tableId = isset($operation['tableId']) && is_numeric($operation['tableId'])
+                        ? (int) $operation['tableId']
+                        : null;
+                    if ($tableId === null) {
+                        throw new InvalidArgumentException("{$label}: tableId is required");
+                    }
+                    if (!isset($tables[$tableId])) {
+                        throw new InvalidArgumentException("{$label}: table {$tableId} does not belong to this tournament");
+                    }
+                    if ((bool) $tables[$tableId]['is_hidden']) {
+                        throw new InvalidArgumentException(
+                            "{$label}: table {$tables[$tableId]['table_number']} has been removed"
+                        );
+                    }
+                    $assignment[$allocationId] = $tableId;
+                } elseif ($type === 'swap') {
+                    $allocationId1 = $this->batchAllocationId($operation, 'allocationId1', $allocations, $label);
+                    $allocationId2 = $this->batchAllocationId($operation, 'allocationId2', $allocations, $label);
+                    if ($allocationId1 === $allocationId2) {
+                        throw new InvalidArgumentException("{$label}: cannot swap an allocation with itself");
+                    }
+                    if ($assignment[$allocationId1] === null || $assignment[$allocationId2] === null) {
+                        throw new InvalidArgumentException("{$label}: cannot swap allocations without assigned tables");
+                    }
+                    [$assignment[$allocationId1], $assignment[$allocationId2]] =
+                        [$assignment[$allocationId2], $assignment[$allocationId1]];
+                } else {
+                    throw new InvalidArgumentException("{$label}: type must be \"move\" or \"swap\"");
+                }
+            }
+
+            // Validate the final state as a whole
+            $collisions = [];
+            foreach (array_count_values(array_filter($assignment, fn ($tableId) => $tableId !== null)) as $tableId => $count) {
+                if ($count > 1) {
+                    $collisions[] = (int) $tables[$tableId]['table_number'];
+                }
+            }
+            if ($collisions !== []) {
+                sort($collisions);
+                throw new RuntimeException(
+                    'Edits would leave more than one pairing on table(s) ' . implode(', ', $collisions)
+                );
+            }
+
+            $changed = [];
+            $previous = [];
+            foreach ($assignment as $id => $tableId) {
+                $original = $allocations[$id]['table_id'] === null ? null : (int) $allocations[$id]['table_id'];
+                if ($tableId !== $original) {
+                    $changed[$id] = $tableId;
+                    $previous[$id] = $original;
+                }
+            }
+
+            try {
+                $this->saveRoundAssignment($round, $allocations, $assignment);
+            } catch (\Exception $e) {
+                throw new RuntimeException('Failed to apply edits: ' . $e->getMessage());
+            }
+
+            if ($ownTransaction) {
+                $this->db->commit();
+            }
+        } catch (\Exception $e) {
+            if ($ownTransaction && $this->db->inTransaction()) {
+                $this->db->rollBack();
+            }
+            throw $e;
+        }
+
+        return [
+            'success' => true,
+            'changed' => $changed,
+            'previous' => $previous,
+        ];
+    }
+
+    /**
+     * Put pairings of a round back on the given tables.
+     *
+     * Used to undo, redo and revert edits: the target state was valid when it
+     * was recorded, so collisions are flagged as conflicts rather than rejected.
+     * Conflicts are recalculated for the restored tables; the rest of each
+     * reason is still the one the pairing was generated with.
+     *
+     * @param int $roundId Round to restore
+     * @param array<int, int|null> $tableIds Table ID by allocation ID
+     * @throws RuntimeException If an allocation is no longer in the round
+     */
+    public function restoreAssignment(int $roundId, array $tableIds): void
+    {
+        $round = $this->getRound($roundId);
+        if (!$round) {
+            throw new RuntimeException('Round not found');
+        }
+
+        $allocations = $this->getRoundAllocations($roundId);
+        $assignment = [];
+        foreach ($allocations as $id => $row) {
+            $assignment[$id] = $row['table_id'] === null ? null : (int) $row['table_id'];
+        }
+
+        foreach ($tableIds as $allocationId => $tableId) {
+            if (!isset($allocations[$allocationId])) {
+                throw new RuntimeException("Allocation {$allocationId} is no longer in this round");
+            }
+            $assignment[$allocationId] = $tableId === null ? null : (int) $tableId;
+        }
+
+        try {
+            $this->saveRoundAssignment($round, $allocations, $assignment);
+        } catch (\Exception $e) {
+            throw new RuntimeException('Failed to restore allocations: ' . $e->getMessage());
+        }
+    }
+
+    /**
+     * Write a round's table assignment and recalculate every pairing's conflicts.
+     *
+     * Pairings sharing a table get a TABLE_COLLISION conflict. Only pairings
+     * whose table or conflicts changed are written, and their new conflicts
+     * replace the old ones in the stored reason, so the rest of the generation
+     * audit trail (cost breakdown, reasons, alternatives) is kept. Runs in a
+     * transaction (skipped if already in one, e.g. test isolation).
+     *
+     * @param array $round Round row (from getRound)
+     * @param array $allocations Allocation rows by ID (from getRoundAllocations)
+     * @param array<int, int|null> $assignment Table ID by allocation ID
+     */
+    private function saveRoundAssignment(array $round, array $allocations, array $assignment): void
+    {
+        $tableUsage = array_count_values(array_filter($assignment, fn ($tableId) => $tableId !== null));
+
+        $ownTransaction = !$this->db->inTransaction();
+        if ($ownTransaction) {
+            $this->db->beginTransaction();
+        }
+
+        try {
+            $constraints = TableConstraints::load($this->db, (int) $round['tournament_id'], (int) $round['round_number']);
+            $familyWeight = $this->getTerrainFamilyWeight((int) $round['tournament_id']);
+            $stmt = $this->db->prepare('UPDATE allocations SET table_id = ?, allocation_reason = ? WHERE id = ?');
+            foreach ($assignment as $id => $tableId) {
+                // Byes keep their (empty) reason
+                if ($allocations[$id]['player2_id'] === null) {
+                    continue;
+                }
+                $original = $allocations[$id]['table_id'] === null ? null : (int) $allocations[$id]['table_id'];
+                $reason = $this->decodeAllocationReason($allocations[$id]);
+
+                // Only undo/redo can take a table away again
+                if ($tableId === null) {
+                    if ($original !== null) {
+                        $conflicts = [[
+                            'type' => 'NO_TABLE_AVAILABLE',
+                            'message' => 'No table assigned to this pairing',
+                        ]];
+                        $stmt->execute([null, $this->encodeAllocationReason($conflicts, $reason), $id]);
+                    }
+                    continue;
+                }
+                $conflicts = $this->calculateConflicts(
+                    (int) $allocations[$id]['player1_id'],
+                    (int) $allocations[$id]['player2_id'],
+                    $tableId,
+                    (int) $round['tournament_id'],
+                    (int) $round['round_number'],
+                    $constraints,
+                    $familyWeight
+                );
+                if ($tableUsage[$tableId] > 1) {
+                    $table = $this->getTable($tableId);
+                    $conflicts[] = [
+                        'type' => 'TABLE_COLLISION',
+                        'message' => 'Table ' . $table['table_number'] . ' is also assigned to another pairing in this round',
+                    ];
+                }
+                if ($tableId === $original && $conflicts == ($reason['conflicts'] ?? [])) {
+                    continue;
+                }
+                $stmt->execute([$tableId, $this->encodeAllocationReason($conflicts, $reason), $id]);
+            }
+
+            if ($ownTransaction) {
+                $this->db->commit();
+            }
+        } catch (\Exception $e) {
+            if ($ownTransaction && $this->db->inTransaction()) {
+                $this->db->rollBack();
+            }
+            throw $e;
+        }
+    }
+
+    /**
+     * Resolve an allocation ID of a batch operation.
+     *
+     * @throws InvalidArgumentException If missing, not in the round, or a bye (byes never get a table)
+     */
+    private function batchAllocationId(
+        array $operation,
+        string $field,
+        array $allocations,
+        string $label
+    ): int {
+        if (!isset($operation[$field]) || !is_numeric($operation[$field])) {
+            throw new InvalidArgumentException("{$label}: {$field} is required");
+        }
+
+        $allocationId = (int) $operation[$field];
+        if (!isset($allocations[$allocationId])) {
+            throw new InvalidArgumentException("{$label}: allocation {$allocationId} is not in this round");
+        }
+        if ($allocations[$allocationId]['player2_id'] === null) {
+            throw new InvalidArgumentException("{$label}: allocation {$allocationId} is a bye and has no table");
+        }
+
+        return $allocationId;
+    }
+
     /**
      * Calculate conflicts for an allocation.
      *
-     * Checks if players have used the table or terrain before.
+     * Checks if players have used the table or terrain before, and whether
+     * the table breaks a table constraint on either player.
      * Delegates to TournamentHistory for history queries.
      *
      * @param int $player1Id Player 1 ID
@@ -221,6 +531,8 @@ class AllocationEditService
      * @param int $tableId Table ID
      * @param int $tournamentId Tournament ID
      * @param int $currentRound Current round number
+     * @param TableConstraints $constraints The round's table constraints
+     * @param int $familyWeight The tournament's terrain family weight
      * @return array List of conflicts
      */
     private function calculateConflicts(
@@ -228,7 +540,9 @@ class AllocationEditService
         int $player2Id,
         int $tableId,
         int $tournamentId,
-        int $currentRound
+        int $currentRound,
+        TableConstraints $constraints,
+        int $familyWeight
     ): array {
         $conflicts = [];
 
@@ -250,22 +564,41 @@ class AllocationEditService
             }
         }
 
-        // Check terrain reuse if table has terrain type
-        if ($table['terrain_type_id'] !== null) {
-            $terrainTypeId = (int) $table['terrain_type_id'];
+        // Check terrain reuse if table has terrain type this round: the exact
+        // type, else another variant of its family
+        $terrainType = $this->getTableTerrain($table, $currentRound);
+        if ($terrainType !== null) {
+            $terrainTypeId = (int) $terrainType['id'];
             foreach ([$player1Id, $player2Id] as $playerId) {
                 if ($history->hasPlayerExperiencedTerrain($playerId, $terrainTypeId)) {
                     $player = $this->getPlayer($playerId);
-                    $terrainType = $this->getTerrainType($terrainTypeId);
                     $conflicts[] = [
                         'type' => 'TERRAIN_REUSE',
                         'message' => $player['name'] . ' previously experienced ' . $terrainType['name'],
                         'playerId' => $playerId,
                     ];
+                    continue;
+                }
+
+                $variant = $history->findExperiencedTerrainVariant($playerId, $terrainTypeId, $terrainType['family']);
+                if ($variant !== null && $familyWeight > 0) {
+                    $player = $this->getPlayer($playerId);
+                    $conflicts[] = [
+                        'type' => 'TERRAIN_FAMILY_REUSE',
+                        'message' => $player['name'] . ' previously experienced ' . $variant
+                            . ', in the same terrain family as ' . $terrainType['name'],
+                        'playerId' => $playerId,
+                    ];
                 }
             }
         }
 
+        // Check table constraints (pins, required/allowed/forbidden tables)
+        $playerConstraints = $constraints->forPlayers([$player1Id, $player2Id]);
+        foreach ($playerConstraints->conflicts((int) $table['table_number']) as $conflict) {
+            $conflicts[] = $conflict;
+        }
+
         return $conflicts;
     }
 
@@ -279,12 +612,20 @@ class AllocationEditService
      * @param int $tableId Table ID to check
      * @param int $tournamentId Tournament ID
      * @param int $roundNumber Round number
+     * @param TableConstraints $constraints The round's table constraints
+     * @param int $familyWeight The tournament's terrain family weight
      */
-    private function recalculateConflictsForTable(int $roundId, int $tableId, int $tournamentId, int $roundNumber): void
-    {
+    private function recalculateConflictsForTable(
+        int $roundId,
+        int $tableId,
+        int $tournamentId,
+        int $roundNumber,
+        TableConstraints $constraints,
+        int $familyWeight
+    ): void {
         // Get all allocations still on this table
         $stmt = $this->db->prepare(
-            'SELECT id, player1_id, player2_id FROM allocations WHERE round_id = ? AND table_id = ?'
+            'SELECT id, player1_id, player2_id, allocation_reason FROM allocations WHERE round_id = ? AND table_id = ?'
         );
         $stmt->execute([$roundId, $tableId]);
         $allocations = $stmt->fetchAll(PDO::FETCH_ASSOC);
@@ -295,13 +636,15 @@ class AllocationEditService
         $table = $this->getTable($tableId);
 
         foreach ($allocations as $alloc) {
-            // Recalculate base conflicts (TABLE_REUSE, TERRAIN_REUSE)
+            // Recalculate base conflicts (TABLE_REUSE, TERRAIN_REUSE, TERRAIN_FAMILY_REUSE)
             $newConflicts = $this->calculateConflicts(
                 (int) $alloc['player1_id'],
                 (int) $alloc['player2_id'],
                 $tableId,
                 $tournamentId,
-                $roundNumber
+                $roundNumber,
+                $constraints,
+                $familyWeight
             );
 
             // Add TABLE_COLLISION only if there's still a collision
@@ -316,7 +659,10 @@ class AllocationEditService
             $updateStmt = $this->db->prepare(
                 'UPDATE allocations SET allocation_reason = ? WHERE id = ?'
             );
-            $updateStmt->execute([$this->encodeAllocationReason($newConflicts), $alloc['id']]);
+            $updateStmt->execute([
+                $this->encodeAllocationReason($newConflicts, $this->decodeAllocationReason($alloc)),
+                $alloc['id'],
+            ]);
         }
     }
 
@@ -331,16 +677,41 @@ class AllocationEditService
         return new TournamentHistory($tournamentId, $currentRound, $this->db);
     }
 
+    /**
+     * Decode an allocation's stored reason.
+     *
+     * @param array $allocation Allocation row with allocation_reason
+     * @return array The reason, empty if there is none or it can't be decoded
+     */
+    private function decodeAllocationReason(array $allocation): array
+    {
+        if (empty($allocation['allocation_reason'])) {
+            return [];
+        }
+
+        try {
+            $reason = json_decode($allocation['allocation_reason'], true, 512, JSON_THROW_ON_ERROR);
+        } catch (JsonException $e) {
+            error_log('Failed to decode allocation_reason for allocation ' . $allocation['id'] . ': ' . $e->getMessage());
+            return [];
+        }
+
+        return is_array($reason) ? $reason : [];
+    }
+
     /**
      * Encode conflicts as JSON allocation reason.
      *
      * @param array $conflicts List of conflict arrays
+     * @param array $reason Existing reason to keep the rest of (see decodeAllocationReason())
      * @return string JSON string for allocation_reason column
      */
-    private function encodeAllocationReason(array $conflicts): string
+    private function encodeAllocationReason(array $conflicts, array $reason = []): string
     {
+        $reason['conflicts'] = $conflicts;
+
         try {
-            return json_encode(['conflicts' => $conflicts], JSON_THROW_ON_ERROR);
+            return json_encode($reason, JSON_THROW_ON_ERROR);
         } catch (JsonException $e) {
             throw new RuntimeException('Failed to encode allocation conflicts: ' . $e->getMessage(), 0, $e);
         }
@@ -366,6 +737,38 @@ class AllocationEditService
         return $this->fetchById('tables', $tableId);
     }
 
+    /**
+     * Terrain type on a table in a round, honouring round terrain overrides.
+     *
+     * @return array{id: int, name: string, family: string}|null
+     */
+    private function getTableTerrain(array $table, int $roundNumber): ?array
+    {
+        $stmt = $this->db->prepare(
+            'SELECT tt.id, tt.name, COALESCE(tt.family, tt.name) AS family
+             FROM tables t
+             LEFT JOIN round_terrain rt ON rt.table_id = t.id AND rt.round_number = ?
+             JOIN terrain_types tt ON tt.id = IF(rt.id IS NULL, t.terrain_type_id, rt.terrain_type_id)
+             WHERE t.id = ?'
+        );
+        $stmt->execute([$roundNumber, (int) $table['id']]);
+        $rows = $stmt->fetchAll(PDO::FETCH_ASSOC);
+
+        return $rows[0] ?? null;
+    }
+
+    /**
+     * The tournament's terrain family weight (see CostCalculator).
+     */
+    private function getTerrainFamilyWeight(int $tournamentId): int
+    {
+        $stmt = $this->db->prepare('SELECT terrain_family_weight FROM tournaments WHERE id = ?');
+        $stmt->execute([$tournamentId]);
+        $rows = $stmt->fetchAll(PDO::FETCH_ASSOC);
+
+        return isset($rows[0]) ? (int) $rows[0]['terrain_family_weight'] : Tournament::DEFAULT_TERRAIN_FAMILY_WEIGHT;
+    }
+
     private function getRound(int $roundId): ?array
     {
         // This needs a join, so we use a custom query
@@ -378,13 +781,28 @@ class AllocationEditService
         return $result ?: null;
     }
 
-    private function getPlayer(int $playerId): ?array
+    /**
+     * Allocation rows of a round, keyed by allocation ID.
+     *
+     * @param bool $forUpdate Lock the rows until the transaction ends
+     */
+    private function getRoundAllocations(int $roundId, bool $forUpdate = false): array
     {
-        return $this->fetchById('players', $playerId);
+        $stmt = $this->db->prepare(
+            'SELECT id, table_id, player1_id, player2_id, allocation_reason FROM allocations WHERE round_id = ?'
+            . ($forUpdate ? ' FOR UPDATE' : '')
+        );
+        $stmt->execute([$roundId]);
+        $allocations = [];
+        foreach ($stmt->fetchAll(PDO::FETCH_ASSOC) as $row) {
+            $allocations[(int) $row['id']] = $row;
+        }
+
+        return $allocations;
     }
 
-    private function getTerrainType(int $terrainTypeId): ?array
+    private function getPlayer(int $playerId): ?array
     {
-        return $this->fetchById('terrain_types', $terrainTypeId);
+        return $this->fetchById('players', $playerId);
     }
 }
@@ -8,6 +8,7 @@ use TournamentTables\Models\Round;
 use TournamentTables\Models\Table;
 use TournamentTables\Models\Player;
 use TournamentTables\Models\Allocation;
+use TournamentTables\Models\Tournament;
 use TournamentTables\Database\Connection;
 
 /**
@@ -20,9 +21,13 @@ class AllocationGenerationService
     /** @var AllocationService */
     private $allocationService;
 
-    public function __construct(?AllocationService $allocationService = null)
+    /** @var CostCalculator */
+    private $costCalculator;
+
+    public function __construct(?AllocationService $allocationService = null, ?CostCalculator $costCalculator = null)
     {
-        $this->allocationService = $allocationService ?? new AllocationService(new CostCalculator());
+        $this->costCalculator = $costCalculator ?? new CostCalculator();
+        $this->allocationService = $allocationService ?? new AllocationService($this->costCalculator);
     }
 
     /**
@@ -46,21 +51,184 @@ class AllocationGenerationService
 
         // Get auto-assignable tables (non-hidden, non-optional) and format for allocation service
         $tables = Table::findAutoAssignableByTournament($tournamentId);
-        $tablesArray = $this->formatTableData($tables);
+        $tablesArray = $this->formatTableData($tables, $roundNumber);
 
         // Generate allocations using the allocation algorithm
         $history = new TournamentHistory($tournamentId, $roundNumber);
-        $result = $this->allocationService->generateAllocations(
+        $costCalculator = $this->costCalculatorFor($tournamentId);
+        $result = $this->allocationService->withCostCalculator($costCalculator)->generateAllocations(
             $pairings,
             $tablesArray,
             $roundNumber,
-            $history
+            $history,
+            TableConstraints::load(Connection::getInstance(), $tournamentId, $roundNumber)
         );
 
         // Save allocations in transaction
         return $this->saveAllocations($round, $tournamentId, $tables, $result, $bcpTableLookup);
     }
 
+    /**
+     * Preview the allocations generate() would save, without saving them.
+     *
+     * Costs every pairing of the proposed and the current allocations with
+     * the same CostCalculator and history, so the two can be compared side
+     * by side. The proposal is better if its total cost is lower, or equal
+     * with fewer places out of score order.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round number
+     * @param Round $round Round model
+     * @return array{proposed: array, current: array, isBetter: bool, changedPairings: int}
+     */
+    public function preview(int $tournamentId, int $roundNumber, Round $round): array
+    {
+        $existingAllocations = Allocation::findByRound($round->id);
+        $bcpTableLookup = $this->buildBcpTableLookup($existingAllocations);
+
+        // Keep each pairing alongside the table it currently sits on
+        $allTables = [];
+        foreach ($this->formatTableData(Table::findByTournament($tournamentId), $roundNumber) as $table) {
+            $allTables[$table['id']] = $table;
+        }
+        $pairings = [];
+        $currentPlacements = [];
+        foreach ($existingAllocations as $allocation) {
+            $pairing = $this->reconstructPairings([$allocation], $bcpTableLookup)[0] ?? null;
+            if ($pairing === null) {
+                continue;
+            }
+            $pairings[] = $pairing;
+            $currentPlacements[] = [
+                'pairing' => $pairing,
+                'table' => $allTables[$allocation->tableId] ?? null,
+            ];
+        }
+
+        $tablesArray = $this->formatTableData(Table::findAutoAssignableByTournament($tournamentId), $roundNumber);
+        $history = new TournamentHistory($tournamentId, $roundNumber);
+        $costCalculator = $this->costCalculatorFor($tournamentId);
+        $result = $this->allocationService->withCostCalculator($costCalculator)->generateAllocations(
+            $pairings,
+            $tablesArray,
+            $roundNumber,
+            $history,
+            TableConstraints::load(Connection::getInstance(), $tournamentId, $roundNumber)
+        );
+
+        $pairingsByKey = [];
+        foreach ($pairings as $pairing) {
+            $pairingsByKey[$this->pairingKey($pairing)] = $pairing;
+        }
+        $tablesByNumber = array_column($tablesArray, null, 'tableNumber');
+        $proposedPlacements = [];
+        foreach ($result->allocations as $allocData) {
+            $key = $allocData['player1']['bcpId'] . ':' . ($allocData['player2']['bcpId'] ?? '');
+            if (!isset($pairingsByKey[$key])) {
+                continue;
+            }
+            $proposedPlacements[] = [
+                'pairing' => $pairingsByKey[$key],
+                'table' => $tablesByNumber[$allocData['tableNumber']] ?? null,
+            ];
+        }
+
+        $proposed = $this->costPlacements($proposedPlacements, $history, $costCalculator);
+        $current = $this->costPlacements($currentPlacements, $history, $costCalculator);
+
+        $currentTables = [];
+        foreach ($currentPlacements as $placement) {
+            $currentTables[$this->pairingKey($placement['pairing'])] = $placement['table']['tableNumber'] ?? null;
+        }
+        $changedPairings = 0;
+        foreach ($proposedPlacements as $placement) {
+            $tableNumber = $placement['table']['tableNumber'] ?? null;
+            if ($tableNumber !== ($currentTables[$this->pairingKey($placement['pairing'])] ?? null)) {
+                $changedPairings++;
+            }
+        }
+
+        return [
+            'proposed' => $proposed + [
+                'conflicts' => $result->conflicts,
+                'summary' => $result->summary,
+            ],
+            'current' => $current,
+            'isBetter' => $proposed['totals']['total'] < $current['totals']['total']
+                || ($proposed['totals']['total'] === $current['totals']['total']
+                    && $proposed['totals']['scoreOrder'] < $current['totals']['scoreOrder']),
+            'changedPairings' => $changedPairings,
+        ];
+    }
+
+    /**
+     * Cost each placement of a pairing on a table, and total the costs.
+     *
+     * @param array<int, array{pairing: Pairing, table: ?array}> $placements
+     * @param TournamentHistory $history Tournament history service
+     * @param CostCalculator $costCalculator Calculator weighted for the tournament
+     * @return array{allocations: array, totals: array}
+     */
+    private function costPlacements(array $placements, TournamentHistory $history, CostCalculator $costCalculator): array
+    {
+        $scoreOrder = $costCalculator->calculateScoreOrder(array_map(fn (array $placement) => [
+            'pairing' => $placement['pairing'],
+            'tableNumber' => $placement['table']['tableNumber'] ?? null,
+        ], $placements));
+
+        $totals = ['tableReuse' => 0, 'terrainReuse' => 0, 'bcpTableMismatch' => 0, 'scoreOrder' => 0, 'total' => 0];
+        $allocations = [];
+        foreach ($placements as $index => $placement) {
+            $pairing = $placement['pairing'];
+            $table = $placement['table'];
+
+            $breakdown = ['tableReuse' => 0, 'terrainReuse' => 0, 'bcpTableMismatch' => 0];
+            $totalCost = 0;
+            $reasons = [];
+            if ($pairing->isBye()) {
+                $reasons[] = 'Bye - no opponent this round';
+            } elseif ($table === null) {
+                $reasons[] = 'No table assigned';
+            } else {
+                $costResult = $costCalculator->calculateForPairing($pairing, $table, $history);
+                $breakdown = $costResult->costBreakdown;
+                $totalCost = $costResult->totalCost;
+                $reasons = $costResult->reasons;
+            }
+            $cost = $breakdown + ['scoreOrder' => $scoreOrder[$index], 'total' => $totalCost];
+            foreach ($cost as $component => $value) {
+                $totals[$component] += $value;
+            }
+
+            $allocations[] = [
+                'tableNumber' => $table['tableNumber'] ?? null,
+                'terrainType' => $table['terrainTypeName'] ?? null,
+                'bcpTableNumber' => $pairing->bcpTableNumber,
+                'isBye' => $pairing->isBye(),
+                'player1' => ['name' => $pairing->player1Name, 'totalScore' => $pairing->player1TotalScore],
+                'player2' => $pairing->isBye()
+                    ? null
+                    : ['name' => $pairing->player2Name, 'totalScore' => $pairing->player2TotalScore],
+                'cost' => $cost,
+                'reasons' => $reasons,
+            ];
+        }
+
+        // Table order, unplaced pairings and byes last
+        usort($allocations, fn (array $a, array $b) => [$a['tableNumber'] === null, $a['tableNumber']]
+            <=> [$b['tableNumber'] === null, $b['tableNumber']]);
+
+        return ['allocations' => $allocations, 'totals' => $totals];
+    }
+
+    /**
+     * Key a pairing by its players' BCP IDs ("player1BcpId:" for byes).
+     */
+    private function pairingKey(Pairing $pairing): string
+    {
+        return $pairing->player1BcpId . ':' . $pairing->player2BcpId;
+    }
+
     /**
      * Build a lookup of BCP table numbers from existing allocations.
      *
@@ -141,21 +309,34 @@ class AllocationGenerationService
         return $pairings;
     }
 
+    /**
+     * Get the cost calculator weighted with the tournament's settings.
+     */
+    private function costCalculatorFor(int $tournamentId): CostCalculator
+    {
+        $tournament = Tournament::find($tournamentId);
+        return $this->costCalculator->withTerrainFamilyWeight(
+            $tournament !== null ? $tournament->terrainFamilyWeight : Tournament::DEFAULT_TERRAIN_FAMILY_WEIGHT
+        );
+    }
+
     /**
      * Format table data for the allocation service.
      *
      * @param Table[] $tables Table models
+     * @param int $roundNumber Round whose terrain is used
      * @return array[] Array of table data arrays
      */
-    private function formatTableData(array $tables): array
+    private function formatTableData(array $tables, int $roundNumber): array
     {
-        return array_map(function ($t) {
-            $terrain = $t->getTerrainType();
+        return array_map(function ($t) use ($roundNumber) {
+            $terrain = $t->getTerrainType($roundNumber);
             return [
                 'id' => $t->id,
                 'tableNumber' => $t->tableNumber,
-                'terrainTypeId' => $t->terrainTypeId,
+                'terrainTypeId' => $terrain ? $terrain->id : null,
                 'terrainTypeName' => $terrain ? $terrain->name : null,
+                'terrainFamily' => $terrain ? $terrain->getFamily() : null,
             ];
         }, $tables);
     }
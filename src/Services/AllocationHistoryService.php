@@ -0,0 +1,351 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use JsonException;
+use PDO;
+use RuntimeException;
+
+/**
+ * Edit history of a round's allocations, with undo, redo and revert.
+ *
+ * Every manual edit (move, swap, batch) is logged with the tables each
+ * pairing moved between. The log works as an undo stack: undo restores the
+ * "from" tables of the latest applied entry, redo re-applies the earliest
+ * undone one, and a new edit discards whatever could still be redone.
+ *
+ * The state before the first entry is the generated allocation (the log is
+ * cleared whenever a round's allocations are regenerated or re-imported), so
+ * "revert to generated" undoes every applied entry at once - recorded as an
+ * entry of its own, so it can be undone too.
+ */
+class AllocationHistoryService
+{
+    public const ACTION_MOVE = 'move';
+    public const ACTION_SWAP = 'swap';
+    public const ACTION_BATCH = 'batch';
+    public const ACTION_REVERT = 'revert';
+
+    /** @var PDO */
+    private $db;
+
+    /** @var AllocationEditService */
+    private $editService;
+
+    public function __construct(PDO $db, AllocationEditService $editService)
+    {
+        $this->db = $db;
+        $this->editService = $editService;
+    }
+
+    /**
+     * Log an edit and discard any undone entries (they can't be redone anymore).
+     *
+     * @param int $roundId Round the edit was made in
+     * @param string $action One of the ACTION_* constants
+     * @param array $changes List of ['allocationId' => int, 'fromTableId' => ?int, 'toTableId' => ?int]
+     * @param string|null $editedBy Name of the organizer, if given
+     * @return int|null Entry ID, or null if nothing changed
+     */
+    public function record(int $roundId, string $action, array $changes, ?string $editedBy = null): ?int
+    {
+        $changes = array_values(array_filter(
+            $changes,
+            fn (array $change) => $change['fromTableId'] !== $change['toTableId']
+        ));
+        if ($changes === []) {
+            return null;
+        }
+
+        try {
+            $encoded = json_encode($changes, JSON_THROW_ON_ERROR);
+        } catch (JsonException $e) {
+            throw new RuntimeException('Failed to encode edit history: ' . $e->getMessage(), 0, $e);
+        }
+
+        $stmt = $this->db->prepare('DELETE FROM allocation_edits WHERE round_id = ? AND is_undone = TRUE');
+        $stmt->execute([$roundId]);
+
+        $stmt = $this->db->prepare(
+            'INSERT INTO allocation_edits (round_id, action, changes, edited_by, is_undone, created_at)
+             VALUES (?, ?, ?, ?, FALSE, ?)'
+        );
+        $stmt->execute([$roundId, $action, $encoded, $editedBy, date('Y-m-d H:i:s')]);
+
+        return (int) $this->db->lastInsertId();
+    }
+
+    /**
+     * Get a round's edit history, newest entry first.
+     *
+     * @return array ['canUndo' => bool, 'canRedo' => bool, 'canRevert' => bool, 'entries' => array]
+     */
+    public function getHistory(int $roundId): array
+    {
+        $entries = $this->getEntries($roundId);
+        $tableNumbers = $this->getTableNumbers($roundId);
+        $pairings = $this->getPairingNames($roundId);
+
+        $applied = array_filter($entries, fn (array $entry) => !$entry['is_undone']);
+        $undone = array_filter($entries, fn (array $entry) => $entry['is_undone']);
+
+        $list = [];
+        foreach (array_reverse($entries) as $entry) {
+            $changes = array_map(function (array $change) use ($tableNumbers, $pairings) {
+                return [
+                    'allocationId' => $change['allocationId'],
+                    'pairing' => $pairings[$change['allocationId']] ?? null,
+                    'fromTable' => $tableNumbers[$change['fromTableId']] ?? null,
+                    'toTable' => $tableNumbers[$change['toTableId']] ?? null,
+                ];
+            }, $entry['changes']);
+
+            $list[] = [
+                'id' => $entry['id'],
+                'action' => $entry['action'],
+                'description' => $this->describe($entry['action'], $changes),
+                'editedBy' => $entry['edited_by'],
+                'createdAt' => date(DATE_ATOM, strtotime($entry['created_at'])),
+                'undone' => $entry['is_undone'],
+                'changes' => $changes,
+            ];
+        }
+
+        return [
+            'canUndo' => $applied !== [],
+            'canRedo' => $undone !== [],
+            'canRevert' => $applied !== [],
+            'entries' => $list,
+        ];
+    }
+
+    /**
+     * Undo the latest applied edit.
+     *
+     * @throws RuntimeException If there is nothing to undo
+     */
+    public function undo(int $roundId): void
+    {
+        $applied = array_filter($this->getEntries($roundId), fn (array $entry) => !$entry['is_undone']);
+        if ($applied === []) {
+            throw new RuntimeException('Nothing to undo');
+        }
+
+        $entry = end($applied);
+        $this->inTransaction(function () use ($roundId, $entry) {
+            $this->editService->restoreAssignment($roundId, $this->tablesOf($entry['changes'], 'fromTableId'));
+            $this->setUndone($entry['id'], true);
+        });
+    }
+
+    /**
+     * Redo the earliest undone edit.
+     *
+     * @throws RuntimeException If there is nothing to redo
+     */
+    public function redo(int $roundId): void
+    {
+        $undone = array_filter($this->getEntries($roundId), fn (array $entry) => $entry['is_undone']);
+        if ($undone === []) {
+            throw new RuntimeException('Nothing to redo');
+        }
+
+        $entry = reset($undone);
+        $this->inTransaction(function () use ($roundId, $entry) {
+            $this->editService->restoreAssignment($roundId, $this->tablesOf($entry['changes'], 'toTableId'));
+            $this->setUndone($entry['id'], false);
+        });
+    }
+
+    /**
+     * Put every pairing back on its generated table.
+     *
+     * @throws RuntimeException If the round has no applied edits, or they cancel out
+     */
+    public function revertToGenerated(int $roundId, ?string $editedBy = null): void
+    {
+        $applied = array_filter($this->getEntries($roundId), fn (array $entry) => !$entry['is_undone']);
+        if ($applied === []) {
+            throw new RuntimeException('Nothing to revert: the round has no edits');
+        }
+
+        $stmt = $this->db->prepare('SELECT id, table_id FROM allocations WHERE round_id = ?');
+        $stmt->execute([$roundId]);
+        $current = [];
+        foreach ($stmt->fetchAll(PDO::FETCH_ASSOC) as $row) {
+            $current[(int) $row['id']] = $row['table_id'] === null ? null : (int) $row['table_id'];
+        }
+
+        // Walk the applied entries back to the state before the first one
+        $generated = $current;
+        foreach (array_reverse($applied) as $entry) {
+            foreach ($entry['changes'] as $change) {
+                $generated[$change['allocationId']] = $change['fromTableId'];
+            }
+        }
+
+        $changes = [];
+        foreach ($generated as $allocationId => $tableId) {
+            if (array_key_exists($allocationId, $current) && $current[$allocationId] !== $tableId) {
+                $changes[] = [
+                    'allocationId' => $allocationId,
+                    'fromTableId' => $current[$allocationId],
+                    'toTableId' => $tableId,
+                ];
+            }
+        }
+
+        if ($changes === []) {
+            throw new RuntimeException('Nothing to revert: every pairing is on its generated table');
+        }
+
+        $this->inTransaction(function () use ($roundId, $changes, $editedBy) {
+            $this->editService->restoreAssignment($roundId, $this->tablesOf($changes, 'toTableId'));
+            $this->record($roundId, self::ACTION_REVERT, $changes, $editedBy);
+        });
+    }
+
+    /**
+     * Entries of a round in the order they were made, with decoded changes.
+     */
+    private function getEntries(int $roundId): array
+    {
+        $stmt = $this->db->prepare(
+            'SELECT id, action, changes, edited_by, is_undone, created_at
+             FROM allocation_edits WHERE round_id = ? ORDER BY id'
+        );
+        $stmt->execute([$roundId]);
+
+        $entries = [];
+        foreach ($stmt->fetchAll(PDO::FETCH_ASSOC) as $row) {
+            try {
+                $changes = json_decode($row['changes'], true, 512, JSON_THROW_ON_ERROR);
+            } catch (JsonException $e) {
+                throw new RuntimeException('Failed to decode edit history: ' . $e->getMessage(), 0, $e);
+            }
+
+            $entries[] = [
+                'id' => (int) $row['id'],
+                'action' => $row['action'],
+                'changes' => $changes,
+                'edited_by' => $row['edited_by'],
+                'is_undone' => (bool) $row['is_undone'],
+                'created_at' => $row['created_at'],
+            ];
+        }
+
+        return $entries;
+    }
+
+    /**
+     * Table ID by allocation ID, from one side of a list of changes.
+     */
+    private function tablesOf(array $changes, string $side): array
+    {
+        $tables = [];
+        foreach ($changes as $change) {
+            $tables[$change['allocationId']] = $change[$side];
+        }
+        return $tables;
+    }
+
+    private function setUndone(int $entryId, bool $undone): void
+    {
+        $stmt = $this->db->prepare('UPDATE allocation_edits SET is_undone = ? WHERE id = ?');
+        $stmt->execute([$undone ? 1 : 0, $entryId]);
+    }
+
+    /**
+     * Human-readable summary of an entry.
+     */
+    private function describe(string $action, array $changes): string
+    {
+        $first = $changes[0];
+        $count = count($changes);
+
+        switch ($action) {
+            case self::ACTION_MOVE:
+                return sprintf(
+                    'Moved %s from table %s to table %s',
+                    $first['pairing'] ?? 'pairing',
+                    $first['fromTable'] ?? '?',
+                    $first['toTable'] ?? '?'
+                );
+            case self::ACTION_SWAP:
+                return sprintf(
+                    'Swapped tables %s and %s',
+                    $first['fromTable'] ?? '?',
+                    $first['toTable'] ?? '?'
+                );
+            case self::ACTION_REVERT:
+                return sprintf('Reverted %d pairing%s to the generated tables', $count, $count === 1 ? '' : 's');
+            default:
+                return sprintf('Moved %d pairing%s in one batch', $count, $count === 1 ? '' : 's');
+        }
+    }
+
+    /**
+     * Table number by table ID, for the round's tournament.
+     */
+    private function getTableNumbers(int $roundId): array
+    {
+        $stmt = $this->db->prepare(
+            'SELECT t.id, t.table_number FROM tables t JOIN rounds r ON r.tournament_id = t.tournament_id WHERE r.id = ?'
+        );
+        $stmt->execute([$roundId]);
+
+        $numbers = [];
+        foreach ($stmt->fetchAll(PDO::FETCH_ASSOC) as $row) {
+            $numbers[(int) $row['id']] = (int) $row['table_number'];
+        }
+        return $numbers;
+    }
+
+    /**
+     * "Player 1 vs Player 2" by allocation ID.
+     */
+    private function getPairingNames(int $roundId): array
+    {
+        $stmt = $this->db->prepare(
+            'SELECT a.id, p1.name AS player1_name, p2.name AS player2_name
+             FROM allocations a
+             JOIN players p1 ON p1.id = a.player1_id
+             LEFT JOIN players p2 ON p2.id = a.player2_id
+             WHERE a.round_id = ?'
+        );
+        $stmt->execute([$roundId]);
+
+        $names = [];
+        foreach ($stmt->fetchAll(PDO::FETCH_ASSOC) as $row) {
+            $names[(int) $row['id']] = $row['player2_name'] === null
+                ? $row['player1_name']
+                : $row['player1_name'] . ' vs ' . $row['player2_name'];
+        }
+        return $names;
+    }
+
+    /**
+     * Run a callback in a transaction (skipped if already in one, e.g. test isolation).
+     */
+    private function inTransaction(callable $callback): void
+    {
+        $ownTransaction = !$this->db->inTransaction();
+        if ($ownTransaction) {
+            $this->db->beginTransaction();
+        }
+
+        try {
+            $callback();
+            if ($ownTransaction) {
+                $this->db->commit();
+            }
+        } catch (\Exception $e) {
+            if ($ownTransaction && $this->db->inTransaction()) {
+                $this->db->rollBack();
+            }
+            throw $e;
+        }
+    }
+}
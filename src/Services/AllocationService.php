@@ -14,7 +14,14 @@ namespace TournamentTables\Services;
  * 2. Round 2+: Sort pairings by combined score (descending)
  * 3. For each pairing, calculate cost for each available table
  * 4. Select lowest-cost table (tie-break by original BCP table)
- * 5. Record allocation with audit trail (FR-014)
+ * 5. If greedy choices forced a table reuse, reassign pairings along
+ *    augmenting paths when a reuse-free assignment exists
+ * 6. Record allocation with audit trail (FR-014)
+ *
+ * Table constraints (pins, required/allowed/forbidden tables) are hard
+ * constraints: constrained pairings are placed first and only on tables
+ * their constraints allow. If none is free they take the best table left,
+ * flagged with a TABLE_CONSTRAINT conflict.
  */
 class AllocationService
 {
@@ -26,21 +33,34 @@ class AllocationService
         $this->costCalculator = $costCalculator;
     }
 
+    /**
+     * Get a service that costs allocations with another calculator.
+     */
+    public function withCostCalculator(CostCalculator $costCalculator): self
+    {
+        $service = clone $this;
+        $service->costCalculator = $costCalculator;
+        return $service;
+    }
+
     /**
      * Generate allocations for a round.
      *
      * @param Pairing[] $pairings List of pairings to allocate
-     * @param array $tables Available tables [['tableNumber' => int, 'terrainTypeId' => ?int, 'terrainTypeName' => ?string], ...]
+     * @param array $tables Available tables [['tableNumber' => int, 'terrainTypeId' => ?int, 'terrainTypeName' => ?string, 'terrainFamily' => ?string], ...]
      * @param int $roundNumber Round number
      * @param TournamentHistory $history Tournament history service
+     * @param TableConstraints|null $constraints Table constraints for the round
      * @return AllocationResult
      */
     public function generateAllocations(
         array $pairings,
         array $tables,
         int $roundNumber,
-        TournamentHistory $history
+        TournamentHistory $history,
+        ?TableConstraints $constraints = null
     ): AllocationResult {
+        $constraints = $constraints ?? new TableConstraints();
         $allocations = [];
         $conflicts = [];
         $isRound1 = ($roundNumber === 1);
@@ -58,7 +78,7 @@ class AllocationService
 
         // Round 1: Use BCP's original table assignments (FR-007.1)
         if ($isRound1) {
-            $result = $this->generateRound1Allocations($regularPairings, $tables);
+            $result = $this->generateRound1Allocations($regularPairings, $tables, $constraints);
             $round1Allocations = $result->allocations;
             foreach ($byePairings as $byePairing) {
                 $round1Allocations[] = $this->createByeAllocation($byePairing, true);
@@ -67,23 +87,29 @@ class AllocationService
             return new AllocationResult($round1Allocations, $result->conflicts, $result->summary);
         }
 
-        // Sort regular pairings by combined score (descending), then by BCP ID (ascending) for stability
-        $sortedPairings = $this->stableSort($regularPairings);
+        // Sort regular pairings by combined score (descending), then by BCP ID (ascending) for stability,
+        // constrained pairings first
+        $sortedPairings = $this->prioritizeConstrained($this->stableSort($regularPairings), $constraints);
 
         // Track which tables are used
         $usedTables = [];
 
         // Process each regular pairing in order
         foreach ($sortedPairings as $pairing) {
-            $result = $this->allocatePairing($pairing, $tables, $usedTables, $history);
+            $result = $this->allocatePairing($pairing, $tables, $usedTables, $history, $constraints);
 
             $allocations[] = $result['allocation'];
             if ($result['allocation']['tableNumber'] !== null) {
                 $usedTables[] = $result['allocation']['tableNumber'];
             }
+        }
 
-            // Collect conflicts
-            foreach ($result['allocation']['reason']['conflicts'] as $conflict) {
+        // Greedy order can leave a later pairing only tables its players have used
+        $allocations = $this->repairTableReuse($sortedPairings, $allocations, $tables, $history, $constraints);
+
+        // Collect conflicts
+        foreach ($allocations as $allocation) {
+            foreach ($allocation['reason']['conflicts'] as $conflict) {
                 $conflicts[] = $conflict;
             }
         }
@@ -138,8 +164,10 @@ class AllocationService
      * Generate Round 1 allocations using BCP's original assignments.
      *
      * FR-007.1: For round 1, use BCP's table assignments.
+     * Constrained pairings are placed first; a BCP table their constraints
+     * rule out is replaced with the next allowed table.
      */
-    private function generateRound1Allocations(array $pairings, array $tables): AllocationResult
+    private function generateRound1Allocations(array $pairings, array $tables, TableConstraints $constraints): AllocationResult
     {
         $allocations = [];
         $conflicts = [];
@@ -155,10 +183,11 @@ class AllocationService
         // Track assigned table numbers to prevent collisions
         $assignedTableNumbers = [];
 
-        foreach ($pairings as $pairing) {
+        foreach ($this->prioritizeConstrained($pairings, $constraints) as $pairing) {
             $tableNumber = $pairing->bcpTableNumber;
             $reason = 'Round 1 - using BCP original assignment';
             $pairingConflicts = [];
+            $pairingConstraints = $constraints->forPairing($pairing);
 
             // Validate table number: must be in available tables and not already assigned
             $needsReassignment = false;
@@ -171,16 +200,23 @@ class AllocationService
             } elseif (isset($assignedTableNumbers[$tableNumber])) {
                 $needsReassignment = true;
                 $reason = "Round 1 - BCP table {$tableNumber} already assigned, assigned next available";
+            } elseif (!$pairingConstraints->allows($tableNumber)) {
+                $needsReassignment = true;
+                $reason = "Round 1 - BCP table {$tableNumber} breaks a table constraint, assigned next allowed";
             }
 
             if ($needsReassignment) {
-                // Find next available table
+                // Find next available table, preferring one the constraints allow
                 $tableNumber = null;
                 foreach ($availableTableNumbers as $num => $available) {
-                    if (!isset($assignedTableNumbers[$num])) {
+                    if (isset($assignedTableNumbers[$num])) {
+                        continue;
+                    }
+                    if ($pairingConstraints->allows($num)) {
                         $tableNumber = $num;
                         break;
                     }
+                    $tableNumber = $tableNumber ?? $num;
                 }
 
                 if ($tableNumber === null) {
@@ -197,6 +233,11 @@ class AllocationService
             // Mark table as assigned (if valid)
             if ($tableNumber !== null) {
                 $assignedTableNumbers[$tableNumber] = true;
+
+                foreach ($pairingConstraints->conflicts($tableNumber) as $conflict) {
+                    $pairingConflicts[] = $conflict;
+                    $conflicts[] = $conflict;
+                }
             }
 
             $allocations[] = [
@@ -241,11 +282,16 @@ class AllocationService
         Pairing $pairing,
         array $tables,
         array $usedTables,
-        TournamentHistory $history
+        TournamentHistory $history,
+        TableConstraints $constraints
     ): array {
         $timestamp = date('c');
+        $pairingConstraints = $constraints->forPairing($pairing);
         $bestTable = null;
         $bestCost = null;
+        // Best table ignoring constraints, used only if no allowed table is free
+        $fallbackTable = null;
+        $fallbackCost = null;
         $alternatives = [];
 
         // Calculate cost for each available table
@@ -263,12 +309,18 @@ class AllocationService
             $alternatives[$tableNumber] = $costResult->totalCost;
 
             // Select best table (lowest cost, tie-break by original BCP table match)
-            if ($bestCost === null || $costResult->totalCost < $bestCost ||
-                ($costResult->totalCost === $bestCost && $tableNumber === $pairing->bcpTableNumber)) {
+            if ($fallbackCost === null || $costResult->totalCost < $fallbackCost ||
+                ($costResult->totalCost === $fallbackCost && $tableNumber === $pairing->bcpTableNumber)) {
+                $fallbackCost = $costResult->totalCost;
+                $fallbackTable = $table;
+            }
+            if ($pairingConstraints->allows($tableNumber) && ($bestCost === null || $costResult->totalCost < $bestCost ||
+                ($costResult->totalCost === $bestCost && $tableNumber === $pairing->bcpTableNumber))) {
                 $bestCost = $costResult->totalCost;
                 $bestTable = $table;
             }
         }
+        $bestTable = $bestTable ?? $fallbackTable;
 
         // Should not happen if tables > pairings, but handle gracefully
         if ($bestTable === null) {
@@ -308,42 +360,226 @@ class AllocationService
             ];
         }
 
-        // Calculate final cost for selected table
-        $finalCost = $this->costCalculator->calculateForPairing($pairing, $bestTable, $history);
-
         // Remove selected table from alternatives
         unset($alternatives[$bestTable['tableNumber']]);
 
-        // Detect conflicts
-        $conflicts = $this->detectConflicts($finalCost);
+        return [
+            'allocation' => $this->buildTableAllocation(
+                $pairing,
+                $bestTable,
+                $history,
+                $constraints,
+                $alternatives,
+                $timestamp
+            ),
+        ];
+    }
+
+    /**
+     * Build the allocation record for a pairing on a chosen table.
+     *
+     * @param array<int, int> $alternatives Costs of the other tables considered
+     * @param string[] $extraReasons Reasons prepended to the cost reasons
+     */
+    private function buildTableAllocation(
+        Pairing $pairing,
+        array $table,
+        TournamentHistory $history,
+        TableConstraints $constraints,
+        array $alternatives,
+        string $timestamp,
+        array $extraReasons = []
+    ): array {
+        // Calculate final cost for selected table
+        $finalCost = $this->costCalculator->calculateForPairing($pairing, $table, $history);
 
         return [
-            'allocation' => [
-                'tableNumber' => $bestTable['tableNumber'],
-                'terrainType' => $bestTable['terrainTypeName'] ?? null,
-                'player1' => [
-                    'bcpId' => $pairing->player1BcpId,
-                    'name' => $pairing->player1Name,
-                    'score' => $pairing->player1Score,
-                ],
-                'player2' => [
-                    'bcpId' => $pairing->player2BcpId,
-                    'name' => $pairing->player2Name,
-                    'score' => $pairing->player2Score,
-                ],
-                'reason' => [
-                    'timestamp' => $timestamp,
-                    'totalCost' => $finalCost->totalCost,
-                    'costBreakdown' => $finalCost->costBreakdown,
-                    'reasons' => $finalCost->reasons,
-                    'alternativesConsidered' => $alternatives,
-                    'isRound1' => false,
-                    'conflicts' => $conflicts,
-                ],
+            'tableNumber' => $table['tableNumber'],
+            'terrainType' => $table['terrainTypeName'] ?? null,
+            'player1' => [
+                'bcpId' => $pairing->player1BcpId,
+                'name' => $pairing->player1Name,
+                'score' => $pairing->player1Score,
+            ],
+            'player2' => [
+                'bcpId' => $pairing->player2BcpId,
+                'name' => $pairing->player2Name,
+                'score' => $pairing->player2Score,
+            ],
+            'reason' => [
+                'timestamp' => $timestamp,
+                'totalCost' => $finalCost->totalCost,
+                'costBreakdown' => $finalCost->costBreakdown,
+                'reasons' => array_merge($extraReasons, $finalCost->reasons),
+                'alternativesConsidered' => $alternatives,
+                'isRound1' => false,
+                'conflicts' => array_merge(
+                    $this->detectConflicts($finalCost),
+                    $constraints->forPairing($pairing)->conflicts($table['tableNumber'])
+                ),
             ],
         ];
     }
 
+    /**
+     * Reassign tables so no player reuses a table, when that is possible.
+     *
+     * Greedy allocation takes the best table for each pairing in score order,
+     * which can leave a later pairing with only tables its players have used
+     * even though another assignment avoids every reuse. This finds a maximum
+     * matching of pairings to reuse-free tables (augmenting paths, starting
+     * from the greedy choices that were already reuse-free). If every pairing
+     * is matched, pairings on a different table are re-allocated; otherwise
+     * reuse is unavoidable and the greedy result is kept. Pairings only move
+     * to tables their constraints allow (unless greedy already broke them).
+     *
+     * @param Pairing[] $pairings Regular pairings in allocation order
+     * @param array[] $allocations Greedy allocations, same order as $pairings
+     * @param array $tables Available tables
+     * @return array[] Allocations, same order
+     */
+    private function repairTableReuse(
+        array $pairings,
+        array $allocations,
+        array $tables,
+        TournamentHistory $history,
+        TableConstraints $constraints
+    ): array {
+        $hasReuse = false;
+        foreach ($allocations as $allocation) {
+            if ($allocation['tableNumber'] === null || $allocation['reason']['costBreakdown']['tableReuse'] > 0) {
+                $hasReuse = true;
+                break;
+            }
+        }
+        if (!$hasReuse || count($pairings) > count($tables)) {
+            return $allocations;
+        }
+
+        // Reuse-free tables per pairing, cheapest first so reassignments keep terrain variety
+        $tablesByNumber = [];
+        $candidates = [];
+        foreach ($pairings as $index => $pairing) {
+            $pairingConstraints = $constraints->forPairing($pairing);
+            $brokeConstraints = in_array(
+                TableConstraints::CONFLICT_TYPE,
+                array_column($allocations[$index]['reason']['conflicts'], 'type'),
+                true
+            );
+            $costs = [];
+            foreach ($tables as $table) {
+                $tablesByNumber[$table['tableNumber']] = $table;
+                if (!$brokeConstraints && !$pairingConstraints->allows($table['tableNumber'])) {
+                    continue;
+                }
+                $cost = $this->costCalculator->calculateForPairing($pairing, $table, $history);
+                if ($cost->costBreakdown['tableReuse'] === 0) {
+                    $costs[$table['tableNumber']] = $cost->totalCost;
+                }
+            }
+            asort($costs);
+            $candidates[$index] = array_keys($costs);
+        }
+
+        // Start from the greedy choices that are already reuse-free
+        $pairingByTable = [];
+        $tableByPairing = [];
+        foreach ($allocations as $index => $allocation) {
+            if ($allocation['tableNumber'] !== null && $allocation['reason']['costBreakdown']['tableReuse'] === 0) {
+                $pairingByTable[$allocation['tableNumber']] = $index;
+                $tableByPairing[$index] = $allocation['tableNumber'];
+            }
+        }
+
+        foreach (array_keys($pairings) as $index) {
+            if (isset($tableByPairing[$index])) {
+                continue;
+            }
+            $visited = [];
+            if (!$this->augment($index, $candidates, $pairingByTable, $tableByPairing, $visited)) {
+                // No reuse-free assignment exists
+                return $allocations;
+            }
+        }
+
+        $timestamp = date('c');
+        foreach ($pairings as $index => $pairing) {
+            $tableNumber = $tableByPairing[$index];
+            if ($allocations[$index]['tableNumber'] === $tableNumber) {
+                continue;
+            }
+
+            $alternatives = [];
+            foreach ($tables as $table) {
+                if ($table['tableNumber'] !== $tableNumber) {
+                    $alternatives[$table['tableNumber']] = $this->costCalculator
+                        ->calculateForPairing($pairing, $table, $history)->totalCost;
+                }
+            }
+
+            $allocations[$index] = $this->buildTableAllocation(
+                $pairing,
+                $tablesByNumber[$tableNumber],
+                $history,
+                $constraints,
+                $alternatives,
+                $timestamp,
+                ['Reassigned to avoid table reuse']
+            );
+        }
+
+        return $allocations;
+    }
+
+    /**
+     * Find an augmenting path for a pairing (Kuhn's algorithm).
+     *
+     * @param array<int, int[]> $candidates Reuse-free table numbers per pairing
+     * @param array<int, int> $pairingByTable Table number => pairing index
+     * @param array<int, int> $tableByPairing Pairing index => table number
+     * @param array<int, bool> $visited Tables visited on this search
+     */
+    private function augment(
+        int $index,
+        array $candidates,
+        array &$pairingByTable,
+        array &$tableByPairing,
+        array &$visited
+    ): bool {
+        foreach ($candidates[$index] as $tableNumber) {
+            if (isset($visited[$tableNumber])) {
+                continue;
+            }
+            $visited[$tableNumber] = true;
+
+            if (
+                !isset($pairingByTable[$tableNumber]) ||
+                $this->augment($pairingByTable[$tableNumber], $candidates, $pairingByTable, $tableByPairing, $visited)
+            ) {
+                $pairingByTable[$tableNumber] = $index;
+                $tableByPairing[$index] = $tableNumber;
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Move constrained pairings to the front, keeping the order within each group.
+     *
+     * @param Pairing[] $pairings
+     * @return Pairing[]
+     */
+    private function prioritizeConstrained(array $pairings, TableConstraints $constraints): array
+    {
+        $byPriority = [[], [], []];
+        foreach ($pairings as $pairing) {
+            $byPriority[$constraints->forPairing($pairing)->priority()][] = $pairing;
+        }
+        return array_merge(...$byPriority);
+    }
+
     /**
      * Stable sort pairings by combined total score (descending), then BCP ID (ascending).
      *
@@ -411,7 +647,12 @@ class AllocationService
         // Terrain reuse conflict (note: this is a soft constraint, less severe)
         if ($costResult->costBreakdown['terrainReuse'] > 0) {
             foreach ($costResult->reasons as $reason) {
-                if (str_contains($reason, 'previously experienced')) {
+                if (str_contains($reason, 'in the same terrain family as')) {
+                    $conflicts[] = [
+                        'type' => 'TERRAIN_FAMILY_REUSE',
+                        'message' => $reason,
+                    ];
+                } elseif (str_contains($reason, 'previously experienced')) {
                     $conflicts[] = [
                         'type' => 'TERRAIN_REUSE',
                         'message' => $reason,
@@ -434,6 +675,8 @@ class AllocationService
 
         $tableReuseCount = 0;
         $terrainReuseCount = 0;
+        $terrainFamilyReuseCount = 0;
+        $tableConstraintCount = 0;
         $otherConflictCount = 0;
 
         foreach ($conflicts as $conflict) {
@@ -441,6 +684,10 @@ class AllocationService
                 $tableReuseCount++;
             } elseif ($conflict['type'] === 'TERRAIN_REUSE') {
                 $terrainReuseCount++;
+            } elseif ($conflict['type'] === 'TERRAIN_FAMILY_REUSE') {
+                $terrainFamilyReuseCount++;
+            } elseif ($conflict['type'] === TableConstraints::CONFLICT_TYPE) {
+                $tableConstraintCount++;
             } else {
                 $otherConflictCount++;
             }
@@ -453,6 +700,12 @@ class AllocationService
         if ($terrainReuseCount > 0) {
             $parts[] = "{$terrainReuseCount} terrain reuse conflict(s)";
         }
+        if ($terrainFamilyReuseCount > 0) {
+            $parts[] = "{$terrainFamilyReuseCount} terrain family repeat(s)";
+        }
+        if ($tableConstraintCount > 0) {
+            $parts[] = "{$tableConstraintCount} table constraint conflict(s)";
+        }
 
         if ($otherConflictCount > 0) {
             $parts[] = "{$otherConflictCount} assignment conflict(s)";
@@ -31,8 +31,10 @@ class BCPApiService
 
     public function __construct()
     {
-        // Check for mock BCP URL in test environment
-        $this->mockApiBaseUrl = getenv('BCP_MOCK_API_URL') ?: null;
+        // Check for mock BCP URL in test environment:
+        // BCP_MOCK_BASE_URL points at the standalone mock server (tests/E2E/mock-bcp),
+        // BCP_MOCK_API_URL at the built-in MockBcpController.
+        $this->mockApiBaseUrl = getenv('BCP_MOCK_BASE_URL') ?: (getenv('BCP_MOCK_API_URL') ?: null);
     }
 
     /**
@@ -122,7 +124,7 @@ class BCPApiService
     /**
      * Build the API URL for fetching pairings.
      *
-     * In test mode (BCP_MOCK_API_URL set), redirects to mock endpoint.
+     * In test mode (BCP_MOCK_BASE_URL or BCP_MOCK_API_URL set), redirects to mock endpoint.
      */
     public function buildPairingsUrl(string $eventId, int $round): string
     {
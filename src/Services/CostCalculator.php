@@ -4,6 +4,8 @@ declare(strict_types=1);
 
 namespace TournamentTables\Services;
 
+use TournamentTables\Models\Tournament;
+
 /**
  * Cost calculator for table allocation.
  *
@@ -11,8 +13,14 @@ namespace TournamentTables\Services;
  *
  * Cost weights (P1 > P2 > P3):
  * - P1: Table reuse = 100000 (avoid tables players have used)
- * - P2: Terrain reuse = 10000 (prefer new terrain types)
+ * - P2: Terrain reuse = 10000 (prefer new terrain types); a different
+ *   variant of a terrain family the player has experienced costs the
+ *   tournament's terrain family weight, a percentage of that
  * - P3: BCP table mismatch = 1 (prefer original BCP table assignments)
+ *
+ * Score ordering (higher scores on lower table numbers) is not weighted: it
+ * follows from allocating pairings in score order, and is only measured to
+ * compare allocations (see calculateScoreOrder()).
  */
 class CostCalculator
 {
@@ -34,6 +42,34 @@ class CostCalculator
      */
     const COST_BCP_TABLE_MISMATCH = 1;
 
+    /** @var int Percentage of COST_TERRAIN_REUSE charged for a terrain family repeat */
+    private $terrainFamilyWeight;
+
+    public function __construct(int $terrainFamilyWeight = Tournament::DEFAULT_TERRAIN_FAMILY_WEIGHT)
+    {
+        $this->terrainFamilyWeight = $terrainFamilyWeight;
+    }
+
+    /**
+     * Get a calculator that charges a different terrain family weight.
+     *
+     * @param int $terrainFamilyWeight Percentage of COST_TERRAIN_REUSE (0 ignores family repeats)
+     */
+    public function withTerrainFamilyWeight(int $terrainFamilyWeight): self
+    {
+        $calculator = clone $this;
+        $calculator->terrainFamilyWeight = $terrainFamilyWeight;
+        return $calculator;
+    }
+
+    /**
+     * Cost of a player repeating a terrain family with a different variant.
+     */
+    public function getTerrainFamilyReuseCost(): int
+    {
+        return intdiv(self::COST_TERRAIN_REUSE * $this->terrainFamilyWeight, 100);
+    }
+
     /**
      * Calculate the cost of assigning a pairing to a table.
      *
@@ -46,6 +82,7 @@ class CostCalculator
      * @param int|null $originalBcpTable Original BCP table assignment (for P3 cost)
      * @param string|null $player1Name Player 1 name for conflict messages
      * @param string|null $player2Name Player 2 name for conflict messages
+     * @param string|null $terrainFamily Family of the terrain type (null if not assigned)
      */
     public function calculate(
         $player1Id,
@@ -56,7 +93,8 @@ class CostCalculator
         $player2Id = null,
         ?int $originalBcpTable = null,
         ?string $player1Name = null,
-        ?string $player2Name = null
+        ?string $player2Name = null,
+        ?string $terrainFamily = null
     ): CostResult {
         $tableReuseCost = 0;
         $terrainReuseCost = 0;
@@ -78,17 +116,30 @@ class CostCalculator
             $reasons[] = "{$p2Label} previously played on table {$tableNumber}";
         }
 
-        // P2: Check terrain reuse for player 1
+        // P2: Check terrain reuse for each player: the exact type, else another
+        // variant of its family
         if ($terrainTypeId !== null) {
-            if ($history->hasPlayerExperiencedTerrain($player1Id, $terrainTypeId)) {
-                $terrainReuseCost += self::COST_TERRAIN_REUSE;
-                $reasons[] = "{$p1Label} previously experienced {$terrainTypeName}";
+            $players = [[$player1Id, $p1Label]];
+            if ($player2Id !== null) {
+                $players[] = [$player2Id, $p2Label];
             }
 
-            // P2: Check terrain reuse for player 2
-            if ($player2Id !== null && $history->hasPlayerExperiencedTerrain($player2Id, $terrainTypeId)) {
-                $terrainReuseCost += self::COST_TERRAIN_REUSE;
-                $reasons[] = "{$p2Label} previously experienced {$terrainTypeName}";
+            foreach ($players as [$playerId, $label]) {
+                if ($history->hasPlayerExperiencedTerrain($playerId, $terrainTypeId)) {
+                    $terrainReuseCost += self::COST_TERRAIN_REUSE;
+                    $reasons[] = "{$label} previously experienced {$terrainTypeName}";
+                    continue;
+                }
+
+                $familyReuseCost = $this->getTerrainFamilyReuseCost();
+                $variant = $familyReuseCost > 0
+                    ? $history->findExperiencedTerrainVariant($playerId, $terrainTypeId, $terrainFamily)
+                    : null;
+                if ($variant !== null) {
+                    $terrainReuseCost += $familyReuseCost;
+                    $reasons[] = "{$label} previously experienced {$variant}, "
+                        . "in the same terrain family as {$terrainTypeName}";
+                }
             }
         }
 
@@ -131,7 +182,50 @@ class CostCalculator
             $pairing->player2BcpId,
             $pairing->bcpTableNumber,
             $pairing->player1Name,
-            $pairing->player2Name
+            $pairing->player2Name,
+            $table['terrainFamily'] ?? null
         );
     }
+
+    /**
+     * Calculate how far each pairing sits from its score-order position.
+     *
+     * Ranks the placed pairings by combined total score (descending) and the
+     * tables they occupy by number (ascending). A pairing's displacement is
+     * the number of ranks between its table and the ranks its score could
+     * hold; pairings with tied scores share a range, so any order among them
+     * is 0. Byes and unplaced pairings are 0.
+     *
+     * @param array<int|string, array{pairing: Pairing, tableNumber: ?int}> $placements
+     * @return array<int|string, int> Displacement by placement key
+     */
+    public function calculateScoreOrder(array $placements): array
+    {
+        $displacement = array_map(fn () => 0, $placements);
+
+        $placed = array_filter(
+            $placements,
+            fn (array $placement) => $placement['tableNumber'] !== null && !$placement['pairing']->isBye()
+        );
+
+        $tableNumbers = array_column($placed, 'tableNumber');
+        sort($tableNumbers);
+        $tableRanks = array_flip($tableNumbers);
+
+        $scores = array_map(fn (array $placement) => $placement['pairing']->getCombinedTotalScore(), $placed);
+        rsort($scores);
+        $scoreRanks = [];
+        foreach ($scores as $rank => $score) {
+            $scoreRanks[$score]['min'] ??= $rank;
+            $scoreRanks[$score]['max'] = $rank;
+        }
+
+        foreach ($placed as $key => $placement) {
+            $tableRank = $tableRanks[$placement['tableNumber']];
+            $range = $scoreRanks[$placement['pairing']->getCombinedTotalScore()];
+            $displacement[$key] = max(0, $range['min'] - $tableRank, $tableRank - $range['max']);
+        }
+
+        return $displacement;
+    }
 }
@@ -0,0 +1,164 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use InvalidArgumentException;
+use TournamentTables\Database\Connection;
+use TournamentTables\Models\Table;
+
+/**
+ * Service for the venue floor map.
+ *
+ * Tables are placed on a 2D plan of the venue, optionally grouped into rooms
+ * or zones, so players can find a table by where it is rather than by number.
+ * Positions are percentages across and down the zone's plan, so the map
+ * scales to any screen. Unplaced tables are left off the public map.
+ */
+class FloorMapService
+{
+    /** Maximum length of a zone name */
+    public const MAX_ZONE_LENGTH = 50;
+
+    /**
+     * Get the floor map of a tournament.
+     *
+     * @param int $tournamentId Tournament ID
+     * @return array{zones: string[], tables: array[]} Named zones in natural order, and per visible
+     *               table: {tableNumber, zone: string|null, x: float|null, y: float|null}
+     */
+    public function getFloorMap(int $tournamentId): array
+    {
+        $zones = [];
+        $tables = [];
+        foreach (Table::findVisibleByTournament($tournamentId) as $table) {
+            if ($table->isPlaced() && $table->mapZone !== null) {
+                $zones[$table->mapZone] = true;
+            }
+            $tables[] = [
+                'tableNumber' => $table->tableNumber,
+                'zone' => $table->isPlaced() ? $table->mapZone : null,
+                'x' => $table->isPlaced() ? $table->mapX : null,
+                'y' => $table->isPlaced() ? $table->mapY : null,
+            ];
+        }
+
+        $zones = array_keys($zones);
+        natcasesort($zones);
+
+        return [
+            'zones' => array_values(array_map('strval', $zones)),
+            'tables' => $tables,
+        ];
+    }
+
+    /**
+     * Validate a floor map update.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param array $tableConfigs Array of {tableNumber: int, zone?: string|null, x: float|null, y: float|null}
+     * @return array<string, string[]> Field-level errors keyed "tables.{tableNumber}", empty if valid
+     */
+    public function validateLayout(int $tournamentId, array $tableConfigs): array
+    {
+        $errors = [];
+        $seen = [];
+        foreach ($tableConfigs as $config) {
+            $tableNumber = is_array($config) ? ($config['tableNumber'] ?? null) : null;
+            if (!is_int($tableNumber)) {
+                return ['tables' => ['Each entry needs an integer tableNumber']];
+            }
+
+            $field = "tables.{$tableNumber}";
+            if (isset($seen[$tableNumber])) {
+                $errors[$field][] = "Table {$tableNumber} is listed more than once";
+                continue;
+            }
+            $seen[$tableNumber] = true;
+
+            $table = Table::findByTournamentAndNumber($tournamentId, $tableNumber);
+            if ($table === null || $table->isHidden) {
+                $errors[$field] = ["Table {$tableNumber} does not exist"];
+                continue;
+            }
+
+            foreach ($this->validatePlacement($config) as $message) {
+                $errors[$field][] = $message;
+            }
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Validate where one table is placed, without looking the table up.
+     *
+     * @param array $config {zone?: string|null, x: float|null, y: float|null}
+     * @return string[] Error messages, empty if valid
+     */
+    public function validatePlacement(array $config): array
+    {
+        $errors = [];
+
+        $x = $config['x'] ?? null;
+        $y = $config['y'] ?? null;
+        if (!($x === null && $y === null) && !($this->isPercent($x) && $this->isPercent($y))) {
+            $errors[] = 'Position needs x and y from 0 to 100, or both null to take the table off the map';
+        }
+
+        $zone = $config['zone'] ?? null;
+        if ($zone !== null && (!is_string($zone) || mb_strlen(trim($zone)) > self::MAX_ZONE_LENGTH)) {
+            $errors[] = 'Zone must be text of at most ' . self::MAX_ZONE_LENGTH . ' characters';
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Place some of a tournament's tables on the floor map.
+     *
+     * Tables left out keep their position. A null x and y takes a table off
+     * the map, along with its zone; an empty zone puts it on the main floor.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param array $tableConfigs Array of {tableNumber: int, zone?: string|null, x: float|null, y: float|null}
+     * @return array The floor map (see getFloorMap())
+     * @throws InvalidArgumentException If the layout is invalid
+     */
+    public function updateLayout(int $tournamentId, array $tableConfigs): array
+    {
+        $errors = $this->validateLayout($tournamentId, $tableConfigs);
+        if (!empty($errors)) {
+            $messages = [];
+            foreach ($errors as $field => $fieldErrors) {
+                $messages[] = "{$field}: " . implode(', ', $fieldErrors);
+            }
+            throw new InvalidArgumentException(implode('; ', $messages));
+        }
+
+        Connection::executeInTransaction(function () use ($tournamentId, $tableConfigs) {
+            foreach ($tableConfigs as $config) {
+                $table = Table::findByTournamentAndNumber($tournamentId, $config['tableNumber']);
+                $x = $config['x'] ?? null;
+                $y = $config['y'] ?? null;
+                $zone = isset($config['zone']) ? trim($config['zone']) : '';
+
+                $table->mapX = $x !== null ? round((float) $x, 2) : null;
+                $table->mapY = $y !== null ? round((float) $y, 2) : null;
+                $table->mapZone = $x !== null && $zone !== '' ? $zone : null;
+                $table->save();
+            }
+        });
+
+        return $this->getFloorMap($tournamentId);
+    }
+
+    /**
+     * @param mixed $value
+     */
+    private function isPercent($value): bool
+    {
+        return (is_int($value) || is_float($value)) && $value >= 0 && $value <= 100;
+    }
+}
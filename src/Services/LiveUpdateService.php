@@ -0,0 +1,146 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use TournamentTables\Database\Connection;
+
+/**
+ * Live updates for the public round view.
+ *
+ * A tournament's public state is a short digest of each published round's
+ * allocations (tables, terrain, players and scores). Comparing two states
+ * gives the events to push: a round that appears was published, a round
+ * whose digest changed had its allocations edited.
+ *
+ * States are encoded as tokens ("1.ab12cd34ef56-2.0a1b2c3d4e5f") that double
+ * as server-sent event IDs, so a reconnecting browser resumes from the last
+ * state it saw.
+ */
+class LiveUpdateService
+{
+    /**
+     * Seconds the browser waits before reconnecting to the event stream.
+     * Each connection checks the state once and closes, so this is how often
+     * a viewer costs a query, and no viewer keeps a PHP worker busy.
+     */
+    public const RETRY_SECONDS = 5;
+
+    public const EVENT_ROUND_PUBLISHED = 'round-published';
+    public const EVENT_ALLOCATIONS_CHANGED = 'allocations-changed';
+
+    private const DIGEST_LENGTH = 12;
+
+    /**
+     * Get the public state of a tournament.
+     *
+     * @return array<int, string> Digest per published round, keyed by round number
+     */
+    public function getState(int $tournamentId): array
+    {
+        $rowsByRound = [];
+        foreach ($this->queryPublishedRows($tournamentId) as $row) {
+            $roundNumber = (int) $row['round_number'];
+            $rowsByRound[$roundNumber] = $rowsByRound[$roundNumber] ?? [];
+            if ($row['allocation_id'] !== null) {
+                $rowsByRound[$roundNumber][] = $row;
+            }
+        }
+
+        $state = [];
+        foreach ($rowsByRound as $roundNumber => $rows) {
+            $state[$roundNumber] = substr(sha1(json_encode($rows)), 0, self::DIGEST_LENGTH);
+        }
+        ksort($state);
+
+        return $state;
+    }
+
+    /**
+     * Encode a state as a token.
+     *
+     * @param array<int, string> $state
+     */
+    public function encodeState(array $state): string
+    {
+        $parts = [];
+        foreach ($state as $roundNumber => $digest) {
+            $parts[] = "{$roundNumber}.{$digest}";
+        }
+
+        return implode('-', $parts);
+    }
+
+    /**
+     * Decode a token from encodeState().
+     *
+     * @return array<int, string>|null The state, null if the token is malformed
+     */
+    public function decodeState(string $token): ?array
+    {
+        $state = [];
+        if ($token === '') {
+            return $state;
+        }
+
+        foreach (explode('-', $token) as $part) {
+            if (!preg_match('/^([1-9]\d{0,3})\.([0-9a-f]{' . self::DIGEST_LENGTH . '})$/', $part, $matches)) {
+                return null;
+            }
+            $state[(int) $matches[1]] = $matches[2];
+        }
+        ksort($state);
+
+        return $state;
+    }
+
+    /**
+     * List the changes between two states.
+     *
+     * Rounds that are no longer published are not reported.
+     *
+     * @param array<int, string> $before
+     * @param array<int, string> $after
+     * @return array[] Changes in round order: {event, roundNumber}
+     */
+    public function diff(array $before, array $after): array
+    {
+        $changes = [];
+        foreach ($after as $roundNumber => $digest) {
+            if (!isset($before[$roundNumber])) {
+                $changes[] = ['event' => self::EVENT_ROUND_PUBLISHED, 'roundNumber' => $roundNumber];
+            } elseif ($before[$roundNumber] !== $digest) {
+                $changes[] = ['event' => self::EVENT_ALLOCATIONS_CHANGED, 'roundNumber' => $roundNumber];
+            }
+        }
+
+        return $changes;
+    }
+
+    /**
+     * Query what the public round view shows, for every published round.
+     *
+     * One row per allocation (allocation_id NULL for a round without any),
+     * with the terrain each table had in its round.
+     */
+    protected function queryPublishedRows(int $tournamentId): array
+    {
+        return Connection::fetchAll(
+            'SELECT r.round_number, a.id AS allocation_id, t.table_number,
+                    tt.name AS terrain_name, tt.emoji AS terrain_emoji,
+                    p1.name AS player1_name, a.player1_score,
+                    p2.name AS player2_name, a.player2_score
+             FROM rounds r
+             LEFT JOIN allocations a ON a.round_id = r.id
+             LEFT JOIN tables t ON t.id = a.table_id
+             LEFT JOIN round_terrain rt ON rt.table_id = t.id AND rt.round_number = r.round_number
+             LEFT JOIN terrain_types tt ON tt.id = IF(rt.id IS NULL, t.terrain_type_id, rt.terrain_type_id)
+             LEFT JOIN players p1 ON p1.id = a.player1_id
+             LEFT JOIN players p2 ON p2.id = a.player2_id
+             WHERE r.tournament_id = ? AND r.is_published = TRUE
+             ORDER BY r.round_number, a.id',
+            [$tournamentId]
+        );
+    }
+}
@@ -0,0 +1,108 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use TournamentTables\Models\Allocation;
+use TournamentTables\Models\Player;
+use TournamentTables\Models\Round;
+
+/**
+ * Player lookup for the public site ("find my table").
+ *
+ * Only published rounds are visible: the current round is the latest
+ * published one, the history the published rounds before it.
+ */
+class PublicPlayerService
+{
+    /** Shortest accepted search */
+    public const MIN_QUERY_LENGTH = 2;
+
+    /** Most players returned by a search */
+    public const MAX_RESULTS = 10;
+
+    /**
+     * Find players by part of their name or their BCP player ID.
+     *
+     * @return array[] Per match: {id, name, faction, currentRound: array|null} (see roundEntry())
+     */
+    public function search(int $tournamentId, string $query): array
+    {
+        $publishedRounds = Round::findPublishedByTournament($tournamentId);
+        $currentRound = empty($publishedRounds) ? null : $publishedRounds[count($publishedRounds) - 1];
+
+        return array_map(function (Player $player) use ($currentRound) {
+            return $this->playerSummary($player) + [
+                'currentRound' => $currentRound !== null ? $this->roundEntry($currentRound, $player) : null,
+            ];
+        }, Player::searchByTournament($tournamentId, trim($query), self::MAX_RESULTS));
+    }
+
+    /**
+     * Get a player's table in the current round and in earlier rounds.
+     *
+     * @return array {player: {id, name, faction, totalScore}, currentRound: array|null, history: array[]}
+     *               Null currentRound when the player is not in the latest published round.
+     */
+    public function getPlayer(Player $player): array
+    {
+        $publishedRounds = Round::findPublishedByTournament($player->tournamentId);
+        $currentRound = array_pop($publishedRounds);
+
+        $history = [];
+        foreach ($publishedRounds as $round) {
+            $entry = $this->roundEntry($round, $player);
+            if ($entry !== null) {
+                $history[] = $entry;
+            }
+        }
+
+        return [
+            'player' => $this->playerSummary($player) + ['totalScore' => $player->totalScore],
+            'currentRound' => $currentRound !== null ? $this->roundEntry($currentRound, $player) : null,
+            'history' => $history,
+        ];
+    }
+
+    private function playerSummary(Player $player): array
+    {
+        return [
+            'id' => $player->id,
+            'name' => $player->name,
+            'faction' => $player->faction,
+        ];
+    }
+
+    /**
+     * Describe a player's game in a round from their side of the table.
+     *
+     * @return array|null {roundNumber, tableNumber, terrainType, terrainEmoji, isBye,
+     *                    score, opponent: {id, name, faction}|null, opponentScore}, null if not paired
+     */
+    private function roundEntry(Round $round, Player $player): ?array
+    {
+        $allocation = Allocation::findByRoundAndPlayer($round->id, $player->id);
+        if ($allocation === null) {
+            return null;
+        }
+
+        $isPlayer1 = $allocation->player1Id === $player->id;
+        $opponent = $isPlayer1 ? $allocation->getPlayer2() : $allocation->getPlayer1();
+        $table = $allocation->getTable();
+        $terrainType = $table ? $table->getTerrainType($round->roundNumber) : null;
+
+        return [
+            'roundNumber' => $round->roundNumber,
+            'tableNumber' => $table ? $table->tableNumber : null,
+            'terrainType' => $terrainType ? $terrainType->name : null,
+            'terrainEmoji' => $terrainType ? $terrainType->emoji : null,
+            'isBye' => $allocation->isBye(),
+            'score' => $isPlayer1 ? $allocation->player1Score : $allocation->player2Score,
+            'opponent' => $opponent !== null ? $this->playerSummary($opponent) : null,
+            'opponentScore' => $opponent !== null
+                ? ($isPlayer1 ? $allocation->player2Score : $allocation->player1Score)
+                : null,
+        ];
+    }
+}
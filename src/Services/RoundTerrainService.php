@@ -0,0 +1,158 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use InvalidArgumentException;
+use TournamentTables\Database\Connection;
+use TournamentTables\Models\RoundTerrain;
+use TournamentTables\Models\Table;
+
+/**
+ * Service for managing per-round terrain layouts.
+ *
+ * A round's layout is the tables' own terrain, with round terrain overrides
+ * on top. Generation and terrain reuse detection use the layout of each round.
+ */
+class RoundTerrainService
+{
+    /** @var TerrainTypeService */
+    private $terrainTypeService;
+
+    public function __construct(?TerrainTypeService $terrainTypeService = null)
+    {
+        $this->terrainTypeService = $terrainTypeService ?? new TerrainTypeService();
+    }
+
+    /**
+     * Get the terrain layout of a round.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round number
+     * @return array[] Per visible table: {tableNumber, terrainType: array|null, isOverride: bool}
+     */
+    public function getLayout(int $tournamentId, int $roundNumber): array
+    {
+        $overrides = RoundTerrain::findByTournamentAndRound($tournamentId, $roundNumber);
+
+        $layout = [];
+        foreach (Table::findVisibleByTournament($tournamentId) as $table) {
+            $terrainType = $table->getTerrainType($roundNumber);
+            $layout[] = [
+                'tableNumber' => $table->tableNumber,
+                'terrainType' => $terrainType ? $terrainType->toArray() : null,
+                'isOverride' => isset($overrides[$table->id]),
+            ];
+        }
+
+        return $layout;
+    }
+
+    /**
+     * Validate a round terrain layout update.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round number
+     * @param array $tableConfigs Array of {tableNumber: int, terrainTypeId: int|null}
+     * @return array<string, string[]> Field-level errors keyed "tables.{tableNumber}", empty if valid
+     */
+    public function validateLayout(int $tournamentId, int $roundNumber, array $tableConfigs): array
+    {
+        $errors = [];
+        foreach ($tableConfigs as $config) {
+            $tableNumber = is_array($config) ? ($config['tableNumber'] ?? null) : null;
+            if (!is_int($tableNumber)) {
+                $errors['tables'] = ['Each entry needs an integer tableNumber'];
+                continue;
+            }
+            $table = Table::findByTournamentAndNumber($tournamentId, $tableNumber);
+            if ($table === null || $table->isHidden) {
+                $errors["tables.{$tableNumber}"] = ["Table {$tableNumber} does not exist"];
+            }
+        }
+        if (isset($errors['tables'])) {
+            return $errors;
+        }
+
+        return $errors + $this->terrainTypeService->validateTableAssignments($tournamentId, $tableConfigs, $roundNumber);
+    }
+
+    /**
+     * Set the terrain on some of a round's tables.
+     *
+     * Tables left out keep their terrain for the round; a null terrainTypeId
+     * leaves the table without terrain this round.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round number
+     * @param array $tableConfigs Array of {tableNumber: int, terrainTypeId: int|null}
+     * @return array[] The round's layout (see getLayout())
+     * @throws InvalidArgumentException If the layout is invalid
+     */
+    public function updateLayout(int $tournamentId, int $roundNumber, array $tableConfigs): array
+    {
+        $errors = $this->validateLayout($tournamentId, $roundNumber, $tableConfigs);
+        if (!empty($errors)) {
+            $messages = [];
+            foreach ($errors as $field => $fieldErrors) {
+                $messages[] = "{$field}: " . implode(', ', $fieldErrors);
+            }
+            throw new InvalidArgumentException(implode('; ', $messages));
+        }
+
+        Connection::executeInTransaction(function () use ($tournamentId, $roundNumber, $tableConfigs) {
+            foreach ($tableConfigs as $config) {
+                $table = Table::findByTournamentAndNumber($tournamentId, $config['tableNumber']);
+                $this->setOverride($table, $roundNumber, $config['terrainTypeId'] ?? null);
+            }
+        });
+
+        return $this->getLayout($tournamentId, $roundNumber);
+    }
+
+    /**
+     * Copy the previous round's terrain layout onto a round.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round to copy onto (2 or later)
+     * @return array[] The round's layout (see getLayout())
+     * @throws InvalidArgumentException If there is no previous round
+     */
+    public function copyPreviousRound(int $tournamentId, int $roundNumber): array
+    {
+        if ($roundNumber < 2) {
+            throw new InvalidArgumentException('Round 1 has no previous round to copy from');
+        }
+
+        Connection::executeInTransaction(function () use ($tournamentId, $roundNumber) {
+            foreach (Table::findVisibleByTournament($tournamentId) as $table) {
+                $this->setOverride($table, $roundNumber, $table->terrainTypeIdForRound($roundNumber - 1));
+            }
+        });
+
+        return $this->getLayout($tournamentId, $roundNumber);
+    }
+
+    /**
+     * Remove a round's overrides, so its tables use their own terrain again.
+     *
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round number
+     * @return array[] The round's layout (see getLayout())
+     */
+    public function clearLayout(int $tournamentId, int $roundNumber): array
+    {
+        RoundTerrain::deleteByTournamentAndRound($tournamentId, $roundNumber);
+
+        return $this->getLayout($tournamentId, $roundNumber);
+    }
+
+    private function setOverride(Table $table, int $roundNumber, ?int $terrainTypeId): void
+    {
+        $override = RoundTerrain::findByTableAndRound($table->id, $roundNumber)
+            ?? new RoundTerrain(null, $table->tournamentId, $table->id, $roundNumber);
+        $override->terrainTypeId = $terrainTypeId;
+        $override->save();
+    }
+}
@@ -0,0 +1,118 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use InvalidArgumentException;
+use TournamentTables\Models\Player;
+use TournamentTables\Models\Table;
+use TournamentTables\Models\TableConstraint;
+
+/**
+ * Service for managing a tournament's table constraints.
+ *
+ * The constraints themselves are enforced by the allocation generator
+ * (see TableConstraints); this validates and stores them.
+ */
+class TableConstraintService
+{
+    /**
+     * Validate constraint input.
+     *
+     * @param int $tournamentId Tournament the constraint belongs to
+     * @param array $data {playerId: int, type: string, tableIds: int[], roundNumber?: ?int, note?: ?string}
+     * @return array<string, string[]> Field-level errors, empty if valid
+     */
+    public function validate(int $tournamentId, array $data): array
+    {
+        $errors = [];
+
+        $playerId = $data['playerId'] ?? null;
+        $player = is_int($playerId) ? Player::find($playerId) : null;
+        if ($player === null || $player->tournamentId !== $tournamentId) {
+            $errors['playerId'] = ['Player must belong to this tournament'];
+        }
+
+        $type = $data['type'] ?? null;
+        if (!in_array($type, TableConstraint::TYPES, true)) {
+            $errors['type'] = ['Type must be one of: ' . implode(', ', TableConstraint::TYPES)];
+        }
+
+        $tableIds = $data['tableIds'] ?? null;
+        if (!is_array($tableIds) || $tableIds === [] || array_filter($tableIds, fn ($id) => !is_int($id)) !== []) {
+            $errors['tableIds'] = ['At least one table ID is required'];
+        } elseif ($type === TableConstraint::TYPE_REQUIRED && count(array_unique($tableIds)) !== 1) {
+            $errors['tableIds'] = ['A required table constraint takes exactly one table'];
+        } else {
+            foreach ($tableIds as $tableId) {
+                $table = Table::find($tableId);
+                if ($table === null || $table->tournamentId !== $tournamentId) {
+                    $errors['tableIds'] = ["Table {$tableId} does not belong to this tournament"];
+                    break;
+                }
+            }
+        }
+
+        $roundNumber = $data['roundNumber'] ?? null;
+        if ($roundNumber !== null && (!is_int($roundNumber) || $roundNumber < 1)) {
+            $errors['roundNumber'] = ['Round number must be a positive integer, or null for every round'];
+        }
+
+        $note = $data['note'] ?? null;
+        if ($note !== null && (!is_string($note) || strlen($note) > 255)) {
+            $errors['note'] = ['Note must be text of at most 255 characters'];
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Create a constraint.
+     *
+     * @param int $tournamentId Tournament the constraint belongs to
+     * @param array $data Constraint input (see validate())
+     * @throws InvalidArgumentException If the input is invalid
+     */
+    public function create(int $tournamentId, array $data): TableConstraint
+    {
+        $errors = $this->validate($tournamentId, $data);
+        if (!empty($errors)) {
+            $messages = [];
+            foreach ($errors as $field => $fieldErrors) {
+                $messages[] = "{$field}: " . implode(', ', $fieldErrors);
+            }
+            throw new InvalidArgumentException(implode('; ', $messages));
+        }
+
+        $note = isset($data['note']) ? trim($data['note']) : null;
+
+        $constraint = new TableConstraint(
+            null,
+            $tournamentId,
+            $data['playerId'],
+            $data['roundNumber'] ?? null,
+            $data['type'],
+            array_values(array_unique($data['tableIds'])),
+            $note === '' ? null : $note
+        );
+        $constraint->save();
+
+        return $constraint;
+    }
+
+    /**
+     * Delete a constraint of a tournament.
+     *
+     * @return bool False if the tournament has no such constraint
+     */
+    public function delete(int $tournamentId, int $constraintId): bool
+    {
+        $constraint = TableConstraint::find($constraintId);
+        if ($constraint === null || $constraint->tournamentId !== $tournamentId) {
+            return false;
+        }
+
+        return $constraint->delete();
+    }
+}
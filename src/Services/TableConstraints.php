@@ -0,0 +1,192 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use PDO;
+use TournamentTables\Models\TableConstraint;
+
+/**
+ * Table constraints in force for one round.
+ *
+ * Hard constraints on the tables players may sit at: a required table (a pin
+ * when limited to one round), a set of allowed tables, or a set of forbidden
+ * tables. Every constraint on either player of a pairing must hold; a table
+ * that breaks one yields a TABLE_CONSTRAINT conflict.
+ */
+class TableConstraints
+{
+    public const CONFLICT_TYPE = 'TABLE_CONSTRAINT';
+
+    /**
+     * @var array[] List of ['playerId' => int, 'bcpPlayerId' => string, 'playerName' => string,
+     *              'type' => string, 'tableNumbers' => int[], 'note' => ?string]
+     */
+    private $rules;
+
+    public function __construct(array $rules = [])
+    {
+        $this->rules = array_values($rules);
+    }
+
+    /**
+     * Load the constraints of a tournament that apply to a round.
+     *
+     * @param PDO $db Database connection
+     * @param int $tournamentId Tournament ID
+     * @param int $roundNumber Round number
+     */
+    public static function load(PDO $db, int $tournamentId, int $roundNumber): self
+    {
+        $stmt = $db->prepare(
+            'SELECT c.*, p.bcp_player_id, p.name AS player_name
+             FROM table_constraints c
+             JOIN players p ON p.id = c.player_id
+             WHERE c.tournament_id = ? AND (c.round_number IS NULL OR c.round_number = ?)
+             ORDER BY c.id'
+        );
+        $stmt->execute([$tournamentId, $roundNumber]);
+        $rows = $stmt->fetchAll(PDO::FETCH_ASSOC);
+        if ($rows === []) {
+            return new self();
+        }
+
+        $stmt = $db->prepare('SELECT id, table_number FROM tables WHERE tournament_id = ?');
+        $stmt->execute([$tournamentId]);
+        $tableNumbers = [];
+        foreach ($stmt->fetchAll(PDO::FETCH_ASSOC) as $row) {
+            $tableNumbers[(int) $row['id']] = (int) $row['table_number'];
+        }
+
+        $rules = [];
+        foreach ($rows as $row) {
+            $constraint = TableConstraint::fromRow($row);
+            // Unreadable table IDs (logged by fromRow) would block every table
+            if ($constraint->tableIds === []) {
+                continue;
+            }
+
+            $numbers = [];
+            foreach ($constraint->tableIds as $tableId) {
+                if (isset($tableNumbers[$tableId])) {
+                    $numbers[] = $tableNumbers[$tableId];
+                }
+            }
+            sort($numbers);
+
+            $rules[] = [
+                'playerId' => $constraint->playerId,
+                'bcpPlayerId' => $row['bcp_player_id'],
+                'playerName' => $row['player_name'],
+                'type' => $constraint->type,
+                'tableNumbers' => $numbers,
+                'note' => $constraint->note,
+            ];
+        }
+
+        return new self($rules);
+    }
+
+    /**
+     * Constraints on either player of a pairing.
+     */
+    public function forPairing(Pairing $pairing): self
+    {
+        $bcpIds = array_filter([$pairing->player1BcpId, $pairing->player2BcpId], fn ($id) => $id !== null);
+
+        return new self(array_filter(
+            $this->rules,
+            fn (array $rule) => in_array($rule['bcpPlayerId'], $bcpIds, true)
+        ));
+    }
+
+    /**
+     * Constraints on any of the given players (database IDs).
+     *
+     * @param int[] $playerIds
+     */
+    public function forPlayers(array $playerIds): self
+    {
+        return new self(array_filter(
+            $this->rules,
+            fn (array $rule) => in_array($rule['playerId'], $playerIds, true)
+        ));
+    }
+
+    public function isEmpty(): bool
+    {
+        return $this->rules === [];
+    }
+
+    /**
+     * Allocation priority: pinned pairings first, then other constrained
+     * pairings, so unconstrained ones don't take the only tables they may use.
+     *
+     * @return int 0 for a required table, 1 for other constraints, 2 for none
+     */
+    public function priority(): int
+    {
+        if ($this->isEmpty()) {
+            return 2;
+        }
+        foreach ($this->rules as $rule) {
+            if ($rule['type'] === TableConstraint::TYPE_REQUIRED) {
+                return 0;
+            }
+        }
+        return 1;
+    }
+
+    /**
+     * Whether a table satisfies every constraint.
+     */
+    public function allows(int $tableNumber): bool
+    {
+        return $this->conflicts($tableNumber) === [];
+    }
+
+    /**
+     * TABLE_CONSTRAINT conflicts for placing the constrained players on a table.
+     *
+     * @return array[] List of ['type' => 'TABLE_CONSTRAINT', 'message' => string]
+     */
+    public function conflicts(int $tableNumber): array
+    {
+        $conflicts = [];
+        foreach ($this->rules as $rule) {
+            $onListedTable = in_array($tableNumber, $rule['tableNumbers'], true);
+            if ($rule['type'] === TableConstraint::TYPE_FORBIDDEN ? !$onListedTable : $onListedTable) {
+                continue;
+            }
+
+            $conflicts[] = [
+                'type' => self::CONFLICT_TYPE,
+                'message' => $this->describe($rule) . ', but is on table ' . $tableNumber,
+            ];
+        }
+        return $conflicts;
+    }
+
+    /**
+     * "Alice must play on table 1 (Streaming table)".
+     */
+    private function describe(array $rule): string
+    {
+        $tables = implode(', ', $rule['tableNumbers']);
+        $plural = count($rule['tableNumbers']) === 1 ? '' : 's';
+
+        switch ($rule['type']) {
+            case TableConstraint::TYPE_REQUIRED:
+                $text = "{$rule['playerName']} must play on table {$tables}";
+                break;
+            case TableConstraint::TYPE_ALLOWED:
+                $text = "{$rule['playerName']} must play on table{$plural} {$tables}";
+                break;
+            default:
+                $text = "{$rule['playerName']} must not play on table{$plural} {$tables}";
+        }
+
+        return $rule['note'] !== null && $rule['note'] !== '' ? "{$text} ({$rule['note']})" : $text;
+    }
+}
@@ -0,0 +1,237 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use InvalidArgumentException;
+use TournamentTables\Models\Table;
+use TournamentTables\Models\TerrainType;
+
+/**
+ * Service for managing a tournament's terrain catalog.
+ *
+ * Built-in types are shared by every tournament and read-only; a tournament
+ * adds, renames, reorders and archives its own types.
+ */
+class TerrainTypeService
+{
+    /**
+     * Validate terrain type input.
+     *
+     * Only the fields present are checked, so this serves both create
+     * (name required, see create()) and partial updates.
+     *
+     * @param int $tournamentId Tournament whose catalog the type belongs to
+     * @param array $data {name?: string, family?: ?string, description?: ?string, emoji?: ?string, sortOrder?: int}
+     * @param TerrainType|null $existing Type being updated, null when creating
+     * @return array<string, string[]> Field-level errors, empty if valid
+     */
+    public function validate(int $tournamentId, array $data, ?TerrainType $existing = null): array
+    {
+        $errors = $this->validateFields($data);
+
+        if (array_key_exists('name', $data) && !isset($errors['name'])) {
+            $name = trim($data['name']);
+            foreach (TerrainType::findForTournament($tournamentId) as $terrainType) {
+                $isSelf = $existing !== null && $terrainType->id === $existing->id;
+                if (!$isSelf && mb_strtolower($terrainType->name) === mb_strtolower($name)) {
+                    $errors['name'] = ["A terrain type named \"{$terrainType->name}\" already exists"];
+                    break;
+                }
+            }
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Validate the terrain type fields present, without checking the name
+     * against the catalog.
+     *
+     * @param array $data {name?: string, family?: ?string, description?: ?string, emoji?: ?string, sortOrder?: int}
+     * @return array<string, string[]> Field-level errors, empty if valid
+     */
+    public function validateFields(array $data): array
+    {
+        $errors = [];
+
+        if (array_key_exists('name', $data)) {
+            $name = is_string($data['name']) ? trim($data['name']) : '';
+            if ($name === '' || mb_strlen($name) > 100) {
+                $errors['name'] = ['Name must be 1 to 100 characters'];
+            }
+        }
+
+        $family = $data['family'] ?? null;
+        if ($family !== null && (!is_string($family) || mb_strlen(trim($family)) > 100)) {
+            $errors['family'] = ['Family must be text of at most 100 characters'];
+        }
+
+        $description = $data['description'] ?? null;
+        if ($description !== null && !is_string($description)) {
+            $errors['description'] = ['Description must be text'];
+        }
+
+        $emoji = $data['emoji'] ?? null;
+        if ($emoji !== null && (!is_string($emoji) || strlen($emoji) > 10)) {
+            $errors['emoji'] = ['Emoji must be text of at most 10 bytes'];
+        }
+
+        if (array_key_exists('sortOrder', $data) && !is_int($data['sortOrder'])) {
+            $errors['sortOrder'] = ['Sort order must be an integer'];
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Add a terrain type to a tournament's catalog.
+     *
+     * Without a sortOrder the type is placed after every type in the catalog.
+     *
+     * @param int $tournamentId Tournament the type belongs to
+     * @param array $data {name: string, family?, description?, emoji?, sortOrder?}
+     * @throws InvalidArgumentException If the input is invalid
+     */
+    public function create(int $tournamentId, array $data): TerrainType
+    {
+        $errors = $this->validate($tournamentId, $data + ['name' => null]);
+        if (!empty($errors)) {
+            throw new InvalidArgumentException($this->describeErrors($errors));
+        }
+
+        $sortOrder = $data['sortOrder'] ?? null;
+        if ($sortOrder === null) {
+            $sortOrder = 0;
+            foreach (TerrainType::findForTournament($tournamentId) as $terrainType) {
+                $sortOrder = max($sortOrder, $terrainType->sortOrder);
+            }
+            $sortOrder++;
+        }
+
+        $terrainType = new TerrainType(
+            null,
+            trim($data['name']),
+            $this->emptyToNull($data['description'] ?? null),
+            $this->emptyToNull($data['emoji'] ?? null),
+            $sortOrder,
+            $tournamentId,
+            false,
+            $this->emptyToNull($data['family'] ?? null)
+        );
+        $terrainType->save();
+
+        return $terrainType;
+    }
+
+    /**
+     * Rename, regroup, re-describe or reorder a tournament's own terrain type.
+     *
+     * @param TerrainType $terrainType Type owned by the tournament
+     * @param array $data Fields to change (see validate())
+     * @throws InvalidArgumentException If the input is invalid
+     */
+    public function update(TerrainType $terrainType, array $data): TerrainType
+    {
+        $errors = $this->validate((int) $terrainType->tournamentId, $data, $terrainType);
+        if (!empty($errors)) {
+            throw new InvalidArgumentException($this->describeErrors($errors));
+        }
+
+        if (array_key_exists('name', $data)) {
+            $terrainType->name = trim($data['name']);
+        }
+        if (array_key_exists('family', $data)) {
+            $terrainType->family = $this->emptyToNull($data['family']);
+        }
+        if (array_key_exists('description', $data)) {
+            $terrainType->description = $this->emptyToNull($data['description']);
+        }
+        if (array_key_exists('emoji', $data)) {
+            $terrainType->emoji = $this->emptyToNull($data['emoji']);
+        }
+        if (array_key_exists('sortOrder', $data)) {
+            $terrainType->sortOrder = $data['sortOrder'];
+        }
+        $terrainType->save();
+
+        return $terrainType;
+    }
+
+    /**
+     * Archive or restore a tournament's own terrain type.
+     *
+     * Tables keep an archived type; it just can't be assigned to others.
+     */
+    public function setArchived(TerrainType $terrainType, bool $isArchived): TerrainType
+    {
+        $terrainType->isArchived = $isArchived;
+        $terrainType->save();
+
+        return $terrainType;
+    }
+
+    /**
+     * Validate the terrain types in a table configuration update.
+     *
+     * A type must be in the tournament's catalog, and may only be archived if
+     * the table already has it (in the round, for a round's terrain layout).
+     *
+     * @param int $tournamentId Tournament ID
+     * @param array $tableConfigs Array of {tableNumber: int, terrainTypeId: int|null, optional?: bool}
+     * @param int|null $roundNumber Round whose terrain layout is updated, null for the tables' own terrain
+     * @return array<string, string[]> Field-level errors keyed "tables.{tableNumber}", empty if valid
+     */
+    public function validateTableAssignments(int $tournamentId, array $tableConfigs, ?int $roundNumber = null): array
+    {
+        $catalog = [];
+        foreach (TerrainType::findForTournament($tournamentId) as $terrainType) {
+            $catalog[$terrainType->id] = $terrainType;
+        }
+
+        $errors = [];
+        foreach ($tableConfigs as $config) {
+            $tableNumber = $config['tableNumber'] ?? null;
+            $terrainTypeId = $config['terrainTypeId'] ?? null;
+            if ($tableNumber === null || $terrainTypeId === null) {
+                continue;
+            }
+
+            $terrainType = is_int($terrainTypeId) ? ($catalog[$terrainTypeId] ?? null) : null;
+            if ($terrainType === null) {
+                $errors["tables.{$tableNumber}"] = ['Terrain type is not available to this tournament'];
+                continue;
+            }
+
+            if ($terrainType->isArchived) {
+                $table = Table::findByTournamentAndNumber($tournamentId, (int) $tableNumber);
+                $current = $table === null ? null
+                    : ($roundNumber === null ? $table->terrainTypeId : $table->terrainTypeIdForRound($roundNumber));
+                if ($current !== $terrainType->id) {
+                    $errors["tables.{$tableNumber}"] = ["Terrain type \"{$terrainType->name}\" is archived"];
+                }
+            }
+        }
+
+        return $errors;
+    }
+
+    private function emptyToNull(?string $value): ?string
+    {
+        $value = $value === null ? null : trim($value);
+        return $value === '' ? null : $value;
+    }
+
+    /**
+     * @param array<string, string[]> $errors
+     */
+    private function describeErrors(array $errors): string
+    {
+        $messages = [];
+        foreach ($errors as $field => $fieldErrors) {
+            $messages[] = "{$field}: " . implode(', ', $fieldErrors);
+        }
+        return implode('; ', $messages);
+    }
+}
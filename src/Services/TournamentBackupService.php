@@ -0,0 +1,643 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use InvalidArgumentException;
+use JsonException;
+use RuntimeException;
+use TournamentTables\Database\Connection;
+use TournamentTables\Models\TableConstraint;
+use TournamentTables\Models\TerrainType;
+use TournamentTables\Models\Tournament;
+
+/**
+ * Full tournament backup and restore, for moving a tournament between
+ * instances (e.g. from a hosted server to a laptop at a venue without
+ * internet).
+ *
+ * A backup is a single versioned JSON document with the complete tournament
+ * state. Entities keep their IDs from the source instance so the document
+ * can reference them; restore creates everything anew and maps every
+ * reference onto the new IDs. Built-in terrain types are matched by name on
+ * the target, since their IDs differ between instances.
+ */
+class TournamentBackupService
+{
+    public const FORMAT = 'tournament-tables-backup';
+    public const VERSION = 1;
+
+    /** @var TerrainTypeService */
+    private $terrainTypes;
+
+    /** @var FloorMapService */
+    private $floorMap;
+
+    public function __construct(?TerrainTypeService $terrainTypes = null, ?FloorMapService $floorMap = null)
+    {
+        $this->terrainTypes = $terrainTypes ?? new TerrainTypeService();
+        $this->floorMap = $floorMap ?? new FloorMapService();
+    }
+
+    /**
+     * Back up a tournament.
+     *
+     * @return array {format, version, exportedAt, tournament, terrainTypes, tables,
+     *               roundTerrain, players, tableConstraints, rounds}
+     */
+    public function backup(Tournament $tournament): array
+    {
+        $id = $tournament->id;
+
+        $tables = array_map(fn (array $row) => [
+            'id' => (int) $row['id'],
+            'tableNumber' => (int) $row['table_number'],
+            'terrainTypeId' => $row['terrain_type_id'] !== null ? (int) $row['terrain_type_id'] : null,
+            'optional' => (bool) $row['optional'],
+            'isHidden' => (bool) $row['is_hidden'],
+            'mapZone' => $row['map_zone'],
+            'mapX' => $row['map_x'] !== null ? (float) $row['map_x'] : null,
+            'mapY' => $row['map_y'] !== null ? (float) $row['map_y'] : null,
+        ], Connection::fetchAll('SELECT * FROM tables WHERE tournament_id = ? ORDER BY table_number', [$id]));
+
+        $roundTerrain = array_map(fn (array $row) => [
+            'tableId' => (int) $row['table_id'],
+            'roundNumber' => (int) $row['round_number'],
+            'terrainTypeId' => $row['terrain_type_id'] !== null ? (int) $row['terrain_type_id'] : null,
+        ], Connection::fetchAll(
+            'SELECT * FROM round_terrain WHERE tournament_id = ? ORDER BY round_number, table_id',
+            [$id]
+        ));
+
+        $players = array_map(fn (array $row) => [
+            'id' => (int) $row['id'],
+            'bcpPlayerId' => $row['bcp_player_id'],
+            'name' => $row['name'],
+            'faction' => $row['faction'],
+            'totalScore' => (int) $row['total_score'],
+            'placing' => $row['placing'] !== null ? (int) $row['placing'] : null,
+        ], Connection::fetchAll('SELECT * FROM players WHERE tournament_id = ? ORDER BY id', [$id]));
+
+        $tableConstraints = array_map(fn (array $row) => [
+            'playerId' => (int) $row['player_id'],
+            'roundNumber' => $row['round_number'] !== null ? (int) $row['round_number'] : null,
+            'type' => $row['constraint_type'],
+            'tableIds' => array_map(
+                'intval',
+                $this->decodeStored($row['table_ids'], "table_ids of table constraint {$row['id']}") ?? []
+            ),
+            'note' => $row['note'],
+        ], Connection::fetchAll('SELECT * FROM table_constraints WHERE tournament_id = ? ORDER BY id', [$id]));
+
+        $rounds = [];
+        foreach (Connection::fetchAll('SELECT * FROM rounds WHERE tournament_id = ? ORDER BY round_number', [$id]) as $round) {
+            $rounds[] = [
+                'roundNumber' => (int) $round['round_number'],
+                'isPublished' => (bool) $round['is_published'],
+                'allocations' => array_map(fn (array $row) => [
+                    'id' => (int) $row['id'],
+                    'tableId' => $row['table_id'] !== null ? (int) $row['table_id'] : null,
+                    'player1Id' => (int) $row['player1_id'],
+                    'player2Id' => $row['player2_id'] !== null ? (int) $row['player2_id'] : null,
+                    'player1Score' => (int) $row['player1_score'],
+                    'player2Score' => (int) $row['player2_score'],
+                    'bcpTableNumber' => $row['bcp_table_number'] !== null ? (int) $row['bcp_table_number'] : null,
+                    'reason' => $this->decodeStored($row['allocation_reason'], "allocation_reason of allocation {$row['id']}"),
+                ], Connection::fetchAll('SELECT * FROM allocations WHERE round_id = ? ORDER BY id', [$round['id']])),
+                'edits' => array_map(fn (array $row) => [
+                    'action' => $row['action'],
+                    'changes' => $this->decodeStored($row['changes'], "changes of allocation edit {$row['id']}") ?? [],
+                    'editedBy' => $row['edited_by'],
+                    'isUndone' => (bool) $row['is_undone'],
+                    'createdAt' => $row['created_at'],
+                ], Connection::fetchAll('SELECT * FROM allocation_edits WHERE round_id = ? ORDER BY id', [$round['id']])),
+            ];
+        }
+
+        return [
+            'format' => self::FORMAT,
+            'version' => self::VERSION,
+            'exportedAt' => date(DATE_ATOM),
+            'tournament' => [
+                'name' => $tournament->name,
+                'bcpEventId' => $tournament->bcpEventId,
+                'bcpUrl' => $tournament->bcpUrl,
+                'photoUrl' => $tournament->photoUrl,
+                'locationName' => $tournament->locationName,
+                'eventDate' => $tournament->eventDate,
+                'eventEndDate' => $tournament->eventEndDate,
+                'tableCount' => $tournament->tableCount,
+                'lastUpdated' => $tournament->lastUpdated,
+                'terrainFamilyWeight' => $tournament->terrainFamilyWeight,
+            ],
+            'terrainTypes' => $this->backupTerrainTypes($id, array_merge(
+                array_column($tables, 'terrainTypeId'),
+                array_column($roundTerrain, 'terrainTypeId')
+            )),
+            'tables' => $tables,
+            'roundTerrain' => $roundTerrain,
+            'players' => $players,
+            'tableConstraints' => $tableConstraints,
+            'rounds' => $rounds,
+        ];
+    }
+
+    /**
+     * Restore a backup as a new tournament with a new admin token.
+     *
+     * @return array{tournament: Tournament, adminToken: string}
+     * @throws InvalidArgumentException If the document is not a valid backup
+     * @throws RuntimeException If a tournament already exists for the BCP event
+     */
+    public function restore(array $document): array
+    {
+        $this->validateDocument($document);
+
+        if (Tournament::findByBcpEventId($document['tournament']['bcpEventId']) !== null) {
+            throw new RuntimeException('A tournament already exists for this BCP event');
+        }
+
+        $adminToken = TokenGenerator::generate();
+
+        return Connection::executeInTransaction(function () use ($document, $adminToken) {
+            $source = $document['tournament'];
+            $tournament = new Tournament(
+                null,
+                $source['name'],
+                $source['bcpEventId'],
+                $source['bcpUrl'],
+                $source['tableCount'] ?? count($document['tables']),
+                $adminToken,
+                $source['lastUpdated'] ?? null,
+                $source['photoUrl'] ?? null,
+                $source['eventDate'] ?? null,
+                $source['eventEndDate'] ?? null,
+                $source['locationName'] ?? null,
+                $source['terrainFamilyWeight'] ?? Tournament::DEFAULT_TERRAIN_FAMILY_WEIGHT
+            );
+            $tournament->save();
+            $id = $tournament->id;
+
+            $terrainIds = [];
+            foreach ($document['terrainTypes'] as $type) {
+                $terrainIds[$type['id']] = $this->restoreTerrainType($id, $type);
+            }
+            $terrainId = fn (?int $sourceId) => $sourceId !== null ? $terrainIds[$sourceId] : null;
+
+            $tableIds = [];
+            foreach ($document['tables'] as $table) {
+                Connection::execute(
+                    'INSERT INTO tables (tournament_id, table_number, terrain_type_id, optional, is_hidden, map_zone, map_x, map_y)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                    [
+                        $id,
+                        $table['tableNumber'],
+                        $terrainId($table['terrainTypeId']),
+                        (int) ($table['optional'] ?? false),
+                        (int) ($table['isHidden'] ?? false),
+                        // Backups from before the floor map have no positions
+                        $table['mapZone'] ?? null,
+                        $table['mapX'] ?? null,
+                        $table['mapY'] ?? null,
+                    ]
+                );
+                $tableIds[$table['id']] = Connection::lastInsertId();
+            }
+            $tableId = fn (?int $sourceId) => $sourceId !== null ? $tableIds[$sourceId] : null;
+
+            foreach ($document['roundTerrain'] as $entry) {
+                Connection::execute(
+                    'INSERT INTO round_terrain (tournament_id, table_id, round_number, terrain_type_id) VALUES (?, ?, ?, ?)',
+                    [$id, $tableId($entry['tableId']), $entry['roundNumber'], $terrainId($entry['terrainTypeId'])]
+                );
+            }
+
+            $playerIds = [];
+            foreach ($document['players'] as $player) {
+                Connection::execute(
+                    'INSERT INTO players (tournament_id, bcp_player_id, name, faction, total_score, placing) VALUES (?, ?, ?, ?, ?, ?)',
+                    [
+                        $id,
+                        $player['bcpPlayerId'],
+                        $player['name'],
+                        $player['faction'] ?? null,
+                        $player['totalScore'] ?? 0,
+                        $player['placing'] ?? null,
+                    ]
+                );
+                $playerIds[$player['id']] = Connection::lastInsertId();
+            }
+            $playerId = fn (?int $sourceId) => $sourceId !== null ? $playerIds[$sourceId] : null;
+
+            foreach ($document['tableConstraints'] as $constraint) {
+                Connection::execute(
+                    'INSERT INTO table_constraints (tournament_id, player_id, round_number, constraint_type, table_ids, note)
+                     VALUES (?, ?, ?, ?, ?, ?)',
+                    [
+                        $id,
+                        $playerId($constraint['playerId']),
+                        $constraint['roundNumber'] ?? null,
+                        $constraint['type'],
+                        json_encode(array_map($tableId, $constraint['tableIds'])),
+                        $constraint['note'] ?? null,
+                    ]
+                );
+            }
+
+            // Allocations first, then their reasons and edits, which refer to
+            // other allocations of the round
+            $allocationIds = [];
+            $roundIds = [];
+            foreach ($document['rounds'] as $index => $round) {
+                Connection::execute(
+                    'INSERT INTO rounds (tournament_id, round_number, is_published) VALUES (?, ?, ?)',
+                    [$id, $round['roundNumber'], (int) $round['isPublished']]
+                );
+                $roundIds[$index] = Connection::lastInsertId();
+
+                foreach ($round['allocations'] as $allocation) {
+                    Connection::execute(
+                        'INSERT INTO allocations (round_id, table_id, player1_id, player2_id, player1_score, player2_score, bcp_table_number)
+                         VALUES (?, ?, ?, ?, ?, ?, ?)',
+                        [
+                            $roundIds[$index],
+                            $tableId($allocation['tableId']),
+                            $playerId($allocation['player1Id']),
+                            $playerId($allocation['player2Id']),
+                            $allocation['player1Score'] ?? 0,
+                            $allocation['player2Score'] ?? 0,
+                            $allocation['bcpTableNumber'] ?? null,
+                        ]
+                    );
+                    $allocationIds[$allocation['id']] = Connection::lastInsertId();
+                }
+            }
+            $allocationId = fn (?int $sourceId) => $sourceId !== null ? ($allocationIds[$sourceId] ?? null) : null;
+
+            foreach ($document['rounds'] as $index => $round) {
+                foreach ($round['allocations'] as $allocation) {
+                    if (($allocation['reason'] ?? null) === null) {
+                        continue;
+                    }
+                    $reason = $allocation['reason'];
+                    foreach ($reason['conflicts'] ?? [] as $i => $conflict) {
+                        if (isset($conflict['playerId'])) {
+                            $reason['conflicts'][$i]['playerId'] = $playerId($conflict['playerId']);
+                        }
+                        if (isset($conflict['otherAllocationId'])) {
+                            $reason['conflicts'][$i]['otherAllocationId'] = $allocationId($conflict['otherAllocationId']);
+                        }
+                    }
+                    Connection::execute(
+                        'UPDATE allocations SET allocation_reason = ? WHERE id = ?',
+                        [json_encode($reason), $allocationIds[$allocation['id']]]
+                    );
+                }
+
+                foreach ($round['edits'] as $edit) {
+                    $changes = array_map(fn (array $change) => [
+                        'allocationId' => $allocationId($change['allocationId']),
+                        'fromTableId' => $tableId($change['fromTableId']),
+                        'toTableId' => $tableId($change['toTableId']),
+                    ], $edit['changes']);
+
+                    Connection::execute(
+                        'INSERT INTO allocation_edits (round_id, action, changes, edited_by, is_undone, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+                        [
+                            $roundIds[$index],
+                            $edit['action'],
+                            json_encode($changes),
+                            $edit['editedBy'] ?? null,
+                            (int) ($edit['isUndone'] ?? false),
+                            $edit['createdAt'],
+                        ]
+                    );
+                }
+            }
+
+            return [
+                'tournament' => $tournament,
+                'adminToken' => $adminToken,
+            ];
+        });
+    }
+
+    /**
+     * Check a backup document is complete and consistent before anything is written.
+     *
+     * Restored terrain types and table positions must also pass the checks of
+     * the endpoints that create them.
+     *
+     * @throws InvalidArgumentException With the first problem found
+     */
+    public function validateDocument(array $document): void
+    {
+        if (($document['format'] ?? null) !== self::FORMAT) {
+            throw new InvalidArgumentException('Not a tournament backup');
+        }
+        if (($document['version'] ?? null) !== self::VERSION) {
+            throw new InvalidArgumentException(sprintf(
+                'Unsupported backup version: %s (expected %d)',
+                is_scalar($document['version'] ?? null) ? $document['version'] : 'none',
+                self::VERSION
+            ));
+        }
+
+        $tournament = $document['tournament'] ?? null;
+        if (!is_array($tournament)) {
+            throw new InvalidArgumentException('Backup has no tournament');
+        }
+        foreach (['name', 'bcpEventId', 'bcpUrl'] as $field) {
+            if (!is_string($tournament[$field] ?? null) || trim($tournament[$field]) === '') {
+                throw new InvalidArgumentException("tournament.{$field} is required");
+            }
+        }
+        foreach (['photoUrl', 'locationName', 'eventDate', 'eventEndDate', 'lastUpdated'] as $field) {
+            if (!is_string($tournament[$field] ?? '')) {
+                throw new InvalidArgumentException("tournament.{$field} must be a string or null");
+            }
+        }
+        foreach (['tableCount', 'terrainFamilyWeight'] as $field) {
+            if (!is_int($tournament[$field] ?? 0)) {
+                throw new InvalidArgumentException("tournament.{$field} must be an integer");
+            }
+        }
+
+        foreach (['terrainTypes', 'tables', 'roundTerrain', 'players', 'tableConstraints', 'rounds'] as $list) {
+            if (!is_array($document[$list] ?? null) || !array_is_list($document[$list])) {
+                throw new InvalidArgumentException("{$list} must be a list");
+            }
+        }
+
+        $terrainIds = $this->collectIds($document['terrainTypes'], 'terrainTypes');
+        $terrainNames = [];
+        foreach ($document['terrainTypes'] as $i => $type) {
+            $fields = array_intersect_key($type, array_flip(['family', 'description', 'emoji', 'sortOrder']));
+            $errors = $this->terrainTypes->validateFields($fields + ['name' => $type['name'] ?? null]);
+            foreach ($errors as $field => $fieldErrors) {
+                throw new InvalidArgumentException("terrainTypes[{$i}].{$field}: " . implode(', ', $fieldErrors));
+            }
+            $this->requireType($type['isArchived'] ?? false, 'bool', "terrainTypes[{$i}].isArchived");
+
+            $name = mb_strtolower(trim($type['name']));
+            if (isset($terrainNames[$name])) {
+                throw new InvalidArgumentException("terrainTypes[{$i}].name is repeated: {$type['name']}");
+            }
+            $terrainNames[$name] = true;
+        }
+
+        $tableIds = $this->collectIds($document['tables'], 'tables');
+        $this->requireUnique($document['tables'], 'tableNumber', 'tables');
+        foreach ($document['tables'] as $i => $table) {
+            if (!is_int($table['tableNumber'] ?? null) || $table['tableNumber'] < 1) {
+                throw new InvalidArgumentException("tables[{$i}].tableNumber must be a positive integer");
+            }
+            $this->requireReference($table['terrainTypeId'] ?? null, $terrainIds, "tables[{$i}].terrainTypeId", true);
+            $this->requireType($table['optional'] ?? false, 'bool', "tables[{$i}].optional");
+            $this->requireType($table['isHidden'] ?? false, 'bool', "tables[{$i}].isHidden");
+            $placement = ['zone' => $table['mapZone'] ?? null, 'x' => $table['mapX'] ?? null, 'y' => $table['mapY'] ?? null];
+            foreach ($this->floorMap->validatePlacement($placement) as $message) {
+                throw new InvalidArgumentException("tables[{$i}]: {$message}");
+            }
+        }
+
+        $overrides = [];
+        foreach ($document['roundTerrain'] as $i => $entry) {
+            $this->requireReference($entry['tableId'] ?? null, $tableIds, "roundTerrain[{$i}].tableId");
+            $this->requireReference($entry['terrainTypeId'] ?? null, $terrainIds, "roundTerrain[{$i}].terrainTypeId", true);
+            if (!is_int($entry['roundNumber'] ?? null) || $entry['roundNumber'] < 1) {
+                throw new InvalidArgumentException("roundTerrain[{$i}].roundNumber must be a positive integer");
+            }
+
+            $key = "{$entry['tableId']}:{$entry['roundNumber']}";
+            if (isset($overrides[$key])) {
+                throw new InvalidArgumentException(
+                    "roundTerrain[{$i}] repeats table/round {$entry['tableId']}/{$entry['roundNumber']}"
+                );
+            }
+            $overrides[$key] = true;
+        }
+
+        $playerIds = $this->collectIds($document['players'], 'players');
+        $this->requireUnique($document['players'], 'bcpPlayerId', 'players');
+        foreach ($document['players'] as $i => $player) {
+            if (!is_string($player['name'] ?? null)) {
+                throw new InvalidArgumentException("players[{$i}].name is required");
+            }
+            if (!is_string($player['bcpPlayerId'] ?? null) || $player['bcpPlayerId'] === '') {
+                throw new InvalidArgumentException("players[{$i}].bcpPlayerId is required");
+            }
+            $this->requireType($player['faction'] ?? null, 'string', "players[{$i}].faction", true);
+            $this->requireType($player['totalScore'] ?? 0, 'int', "players[{$i}].totalScore");
+            $this->requireType($player['placing'] ?? null, 'int', "players[{$i}].placing", true);
+        }
+
+        foreach ($document['tableConstraints'] as $i => $constraint) {
+            $this->requireReference($constraint['playerId'] ?? null, $playerIds, "tableConstraints[{$i}].playerId");
+            if (!in_array($constraint['type'] ?? null, TableConstraint::TYPES, true) || !is_array($constraint['tableIds'] ?? null)) {
+                throw new InvalidArgumentException("tableConstraints[{$i}] needs a type and tableIds");
+            }
+            $this->requireType($constraint['roundNumber'] ?? null, 'int', "tableConstraints[{$i}].roundNumber", true);
+            $this->requireType($constraint['note'] ?? null, 'string', "tableConstraints[{$i}].note", true);
+            foreach ($constraint['tableIds'] as $tableId) {
+                $this->requireReference($tableId, $tableIds, "tableConstraints[{$i}].tableIds");
+            }
+        }
+
+        $this->requireUnique($document['rounds'], 'roundNumber', 'rounds');
+        $allocationIds = [];
+        foreach ($document['rounds'] as $r => $round) {
+            if (!is_int($round['roundNumber'] ?? null) || !is_bool($round['isPublished'] ?? null)) {
+                throw new InvalidArgumentException("rounds[{$r}] needs a roundNumber and isPublished");
+            }
+            foreach (['allocations', 'edits'] as $list) {
+                if (!is_array($round[$list] ?? null) || !array_is_list($round[$list])) {
+                    throw new InvalidArgumentException("rounds[{$r}].{$list} must be a list");
+                }
+            }
+
+            $roundAllocationIds = $this->collectIds($round['allocations'], "rounds[{$r}].allocations");
+            foreach ($round['allocations'] as $a => $allocation) {
+                $path = "rounds[{$r}].allocations[{$a}]";
+                $this->requireReference($allocation['tableId'] ?? null, $tableIds, "{$path}.tableId", true);
+                $this->requireReference($allocation['player1Id'] ?? null, $playerIds, "{$path}.player1Id");
+                $this->requireReference($allocation['player2Id'] ?? null, $playerIds, "{$path}.player2Id", true);
+                $this->requireType($allocation['player1Score'] ?? 0, 'int', "{$path}.player1Score");
+                $this->requireType($allocation['player2Score'] ?? 0, 'int', "{$path}.player2Score");
+                $this->requireType($allocation['bcpTableNumber'] ?? null, 'int', "{$path}.bcpTableNumber", true);
+                $this->requireType($allocation['reason'] ?? null, 'array', "{$path}.reason", true);
+            }
+            $allocationIds = array_merge($allocationIds, $roundAllocationIds);
+
+            foreach ($round['edits'] as $e => $edit) {
+                $path = "rounds[{$r}].edits[{$e}]";
+                if (!is_string($edit['action'] ?? null) || !is_string($edit['createdAt'] ?? null) || !is_array($edit['changes'] ?? null)) {
+                    throw new InvalidArgumentException("{$path} needs an action, createdAt and changes");
+                }
+                $this->requireType($edit['editedBy'] ?? null, 'string', "{$path}.editedBy", true);
+                $this->requireType($edit['isUndone'] ?? false, 'bool', "{$path}.isUndone");
+                foreach ($edit['changes'] as $change) {
+                    $this->requireReference($change['allocationId'] ?? null, $roundAllocationIds, "{$path}.changes.allocationId");
+                    $this->requireReference($change['fromTableId'] ?? null, $tableIds, "{$path}.changes.fromTableId", true);
+                    $this->requireReference($change['toTableId'] ?? null, $tableIds, "{$path}.changes.toTableId", true);
+                }
+            }
+        }
+
+        if (count($allocationIds) !== count(array_unique($allocationIds))) {
+            throw new InvalidArgumentException('Allocation IDs must be unique across rounds');
+        }
+    }
+
+    /**
+     * The tournament's own terrain types, plus the built-in types its tables use.
+     *
+     * @param array<int|null> $usedIds Terrain type IDs referenced by tables and round terrain
+     */
+    private function backupTerrainTypes(int $tournamentId, array $usedIds): array
+    {
+        $usedIds = array_values(array_unique(array_filter($usedIds, fn ($id) => $id !== null)));
+        $placeholders = $usedIds ? implode(',', array_fill(0, count($usedIds), '?')) : 'NULL';
+
+        $rows = Connection::fetchAll(
+            "SELECT * FROM terrain_types
+             WHERE tournament_id = ? OR (tournament_id IS NULL AND id IN ({$placeholders}))
+             ORDER BY tournament_id IS NOT NULL, sort_order, id",
+            array_merge([$tournamentId], $usedIds)
+        );
+
+        return array_map(fn (array $row) => [
+            'id' => (int) $row['id'],
+            'builtIn' => $row['tournament_id'] === null,
+            'name' => $row['name'],
+            'family' => $row['family'],
+            'description' => $row['description'],
+            'emoji' => $row['emoji'],
+            'sortOrder' => (int) $row['sort_order'],
+            'isArchived' => (bool) $row['is_archived'],
+        ], $rows);
+    }
+
+    /**
+     * Map a backed-up terrain type onto the target instance.
+     *
+     * Types with the name of a built-in type here use the built-in; anything
+     * else becomes one of the restored tournament's own types.
+     *
+     * @return int Terrain type ID on this instance
+     */
+    private function restoreTerrainType(int $tournamentId, array $type): int
+    {
+        $builtIn = TerrainType::findByName($type['name']);
+        if ($builtIn !== null) {
+            return $builtIn->id;
+        }
+
+        Connection::execute(
+            'INSERT INTO terrain_types (tournament_id, name, family, description, emoji, sort_order, is_archived)
+             VALUES (?, ?, ?, ?, ?, ?, ?)',
+            [
+                $tournamentId,
+                trim($type['name']),
+                $type['family'] ?? null,
+                $type['description'] ?? null,
+                $type['emoji'] ?? null,
+                $type['sortOrder'] ?? 0,
+                (int) ($type['isArchived'] ?? false),
+            ]
+        );
+
+        return Connection::lastInsertId();
+    }
+
+    /**
+     * Decode a stored JSON column, so one bad value can't break the backup.
+     *
+     * @param string $what Column and row, for the log
+     * @return array|null The decoded value, null if empty or not a JSON object or list
+     */
+    private function decodeStored(?string $json, string $what): ?array
+    {
+        if ($json === null || $json === '') {
+            return null;
+        }
+
+        try {
+            $value = json_decode($json, true, 512, JSON_THROW_ON_ERROR);
+        } catch (JsonException $e) {
+            error_log("Failed to decode {$what}: " . $e->getMessage());
+            return null;
+        }
+
+        return is_array($value) ? $value : null;
+    }
+
+    /**
+     * @return int[] The entities' IDs
+     * @throws InvalidArgumentException On a missing or repeated ID
+     */
+    private function collectIds(array $entities, string $path): array
+    {
+        $ids = [];
+        foreach ($entities as $i => $entity) {
+            if (!is_int($entity['id'] ?? null)) {
+                throw new InvalidArgumentException("{$path}[{$i}].id must be an integer");
+            }
+            if (in_array($entity['id'], $ids, true)) {
+                throw new InvalidArgumentException("{$path}[{$i}].id is repeated");
+            }
+            $ids[] = $entity['id'];
+        }
+
+        return $ids;
+    }
+
+    /**
+     * @throws InvalidArgumentException If two entities share the value of a field
+     */
+    private function requireUnique(array $entities, string $field, string $path): void
+    {
+        $values = array_column($entities, $field);
+        if (count($values) !== count(array_unique($values))) {
+            throw new InvalidArgumentException("{$path} must have unique {$field} values");
+        }
+    }
+
+    /**
+     * @param mixed $value
+     * @param string $type 'int', 'bool', 'string' or 'array'
+     * @throws InvalidArgumentException If the value is not of the type
+     */
+    private function requireType($value, string $type, string $path, bool $nullable = false): void
+    {
+        if ($value === null && $nullable) {
+            return;
+        }
+
+        $valid = match ($type) {
+            'int' => is_int($value),
+            'bool' => is_bool($value),
+            'string' => is_string($value),
+            'array' => is_array($value),
+        };
+        if (!$valid) {
+            $names = ['int' => 'an integer', 'bool' => 'a boolean', 'string' => 'a string', 'array' => 'an object'];
+            throw new InvalidArgumentException("{$path} must be {$names[$type]}" . ($nullable ? ' or null' : ''));
+        }
+    }
+
+    /**
+     * @param mixed $id
+     * @throws InvalidArgumentException If the ID is not one of the known IDs
+     */
+    private function requireReference($id, array $knownIds, string $path, bool $nullable = false): void
+    {
+        if ($id === null && $nullable) {
+            return;
+        }
+        if (!in_array($id, $knownIds, true)) {
+            throw new InvalidArgumentException("{$path} refers to an unknown ID: " . json_encode($id));
+        }
+    }
+}
@@ -0,0 +1,246 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use InvalidArgumentException;
+use TournamentTables\Database\Connection;
+use TournamentTables\Models\Allocation;
+use TournamentTables\Models\Round;
+use TournamentTables\Models\Tournament;
+
+/**
+ * Tournament-level export of every round's allocations, for analysis in
+ * spreadsheets.
+ *
+ * One row per pairing, in round and table order. Organizers get every round
+ * and every column; the public export has published rounds only and leaves
+ * out conflicts and manual edits, which the public view does not show either.
+ */
+class TournamentExportService
+{
+    public const FORMAT_JSON = 'json';
+    public const FORMAT_CSV = 'csv';
+
+    /** Column name => whether the public export has it, in export order */
+    public const COLUMNS = [
+        'roundNumber' => true,
+        'isPublished' => true,
+        'tableNumber' => true,
+        'bcpTableNumber' => true,
+        'terrainType' => true,
+        'isBye' => true,
+        'player1Name' => true,
+        'player1BcpId' => true,
+        'player1Faction' => true,
+        'player1Score' => true,
+        'player2Name' => true,
+        'player2BcpId' => true,
+        'player2Faction' => true,
+        'player2Score' => true,
+        'conflicts' => false,
+        'edits' => false,
+    ];
+
+    /** @var AllocationHistoryService|null */
+    private $history;
+
+    public function __construct(?AllocationHistoryService $history = null)
+    {
+        $this->history = $history;
+    }
+
+    /**
+     * Resolve the requested columns.
+     *
+     * @param string|null $requested Comma-separated column names, null or empty for all
+     * @param bool $public Whether this is the public export
+     * @return string[] Column names, in export order
+     * @throws InvalidArgumentException On unknown or, publicly, organizer-only columns
+     */
+    public function resolveColumns(?string $requested, bool $public): array
+    {
+        $available = array_keys(array_filter(self::COLUMNS, fn (bool $isPublic) => $isPublic || !$public));
+        if ($requested === null || trim($requested) === '') {
+            return $available;
+        }
+
+        $names = array_values(array_unique(array_filter(array_map('trim', explode(',', $requested)), 'strlen')));
+        foreach ($names as $name) {
+            if (!array_key_exists($name, self::COLUMNS)) {
+                throw new InvalidArgumentException("Unknown column: {$name}");
+            }
+            if (!in_array($name, $available, true)) {
+                throw new InvalidArgumentException("Column {$name} is only available to the organizer");
+            }
+        }
+
+        return array_values(array_intersect($available, $names));
+    }
+
+    /**
+     * Export a tournament's rounds.
+     *
+     * @param string[] $columns From resolveColumns()
+     * @return array {tournament: {id, name, bcpEventId}, exportedAt, scope, columns,
+     *               rounds: [{roundNumber, isPublished, rows: [{column: value}]}]}
+     */
+    public function export(Tournament $tournament, array $columns, bool $public): array
+    {
+        $rounds = $public
+            ? Round::findPublishedByTournament($tournament->id)
+            : Round::findByTournament($tournament->id);
+
+        $exportedRounds = [];
+        foreach ($rounds as $round) {
+            $edits = in_array('edits', $columns, true) ? $this->editsByAllocation($round) : [];
+
+            $rows = [];
+            foreach ($round->getAllocations() as $allocation) {
+                $row = $this->row($round, $allocation, $edits[$allocation->id] ?? []);
+                $rows[] = array_map(fn (string $column) => $row[$column], array_combine($columns, $columns));
+            }
+
+            $exportedRounds[] = [
+                'roundNumber' => $round->roundNumber,
+                'isPublished' => $round->isPublished,
+                'rows' => $rows,
+            ];
+        }
+
+        return [
+            'tournament' => [
+                'id' => $tournament->id,
+                'name' => $tournament->name,
+                'bcpEventId' => $tournament->bcpEventId,
+            ],
+            'exportedAt' => date(DATE_ATOM),
+            'scope' => $public ? 'public' : 'admin',
+            'columns' => $columns,
+            'rounds' => $exportedRounds,
+        ];
+    }
+
+    /**
+     * Flatten an export to CSV: a header row, then every round's rows.
+     *
+     * Conflicts and edits are joined into one cell. Text that a spreadsheet
+     * would read as a formula is prefixed with an apostrophe.
+     */
+    public function toCsv(array $export): string
+    {
+        $handle = fopen('php://temp', 'r+');
+        fputcsv($handle, $export['columns'], ',', '"', '');
+        foreach ($export['rounds'] as $round) {
+            foreach ($round['rows'] as $row) {
+                fputcsv($handle, array_map([$this, 'csvCell'], array_values($row)), ',', '"', '');
+            }
+        }
+        rewind($handle);
+        $csv = stream_get_contents($handle);
+        fclose($handle);
+
+        return $csv;
+    }
+
+    /**
+     * @param mixed $value
+     */
+    private function csvCell($value): string
+    {
+        if ($value === null) {
+            return '';
+        }
+        if (is_bool($value)) {
+            return $value ? 'TRUE' : 'FALSE';
+        }
+        if (is_array($value)) {
+            $value = implode('; ', array_map(function (array $item) {
+                return isset($item['description'])
+                    ? $item['description'] . ($item['editedBy'] !== null ? " ({$item['editedBy']})" : '')
+                    : "{$item['type']}: {$item['message']}";
+            }, $value));
+        }
+
+        $text = (string) $value;
+        if (is_string($value) && $text !== '' && strpos('=+-@', $text[0]) !== false) {
+            $text = "'" . $text;
+        }
+
+        return $text;
+    }
+
+    /**
+     * Every column's value for an allocation.
+     */
+    private function row(Round $round, Allocation $allocation, array $edits): array
+    {
+        $table = $allocation->getTable();
+        $terrainType = $table ? $table->getTerrainType($round->roundNumber) : null;
+        $player1 = $allocation->getPlayer1();
+        $player2 = $allocation->isBye() ? null : $allocation->getPlayer2();
+
+        return [
+            'roundNumber' => $round->roundNumber,
+            'isPublished' => $round->isPublished,
+            'tableNumber' => $table ? $table->tableNumber : null,
+            'bcpTableNumber' => $allocation->bcpTableNumber,
+            'terrainType' => $terrainType ? $terrainType->name : null,
+            'isBye' => $allocation->isBye(),
+            'player1Name' => $player1 ? $player1->name : null,
+            'player1BcpId' => $player1 ? $player1->bcpPlayerId : null,
+            'player1Faction' => $player1 ? $player1->faction : null,
+            'player1Score' => $allocation->player1Score,
+            'player2Name' => $player2 ? $player2->name : null,
+            'player2BcpId' => $player2 ? $player2->bcpPlayerId : null,
+            'player2Faction' => $player2 ? $player2->faction : null,
+            'player2Score' => $player2 ? $allocation->player2Score : null,
+            'conflicts' => array_map(function (array $conflict) {
+                return ['type' => $conflict['type'], 'message' => $conflict['message']];
+            }, $allocation->getConflicts()),
+            'edits' => $edits,
+        ];
+    }
+
+    /**
+     * The applied manual edits of a round, per allocation they moved, oldest first.
+     *
+     * @return array<int, array[]> {action, description, editedBy, createdAt, fromTable, toTable} per allocation ID
+     */
+    private function editsByAllocation(Round $round): array
+    {
+        $entries = $this->history()->getHistory($round->id)['entries'];
+
+        $edits = [];
+        foreach (array_reverse($entries) as $entry) {
+            if ($entry['undone']) {
+                continue;
+            }
+            foreach ($entry['changes'] as $change) {
+                $edits[$change['allocationId']][] = [
+                    'action' => $entry['action'],
+                    'description' => $entry['description'],
+                    'editedBy' => $entry['editedBy'],
+                    'createdAt' => $entry['createdAt'],
+                    'fromTable' => $change['fromTable'],
+                    'toTable' => $change['toTable'],
+                ];
+            }
+        }
+
+        return $edits;
+    }
+
+    private function history(): AllocationHistoryService
+    {
+        if ($this->history === null) {
+            $this->history = new AllocationHistoryService(
+                Connection::getInstance(),
+                new AllocationEditService(Connection::getInstance(), new CostCalculator())
+            );
+        }
+
+        return $this->history;
+    }
+}
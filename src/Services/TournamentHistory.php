@@ -14,6 +14,15 @@ use TournamentTables\Database\Connection;
  */
 class TournamentHistory
 {
+    /**
+     * Joins the terrain type on table t in round r: the round terrain
+     * override if there is one, else the table's own terrain.
+     */
+    private const ROUND_TERRAIN_JOIN = '
+                LEFT JOIN round_terrain rt ON rt.table_id = t.id AND rt.round_number = r.round_number
+                %s JOIN terrain_types tt
+                    ON tt.id = IF(rt.id IS NULL, t.terrain_type_id, rt.terrain_type_id)';
+
     /** @var int */
     private $tournamentId;
 
@@ -103,6 +112,30 @@ class TournamentHistory
         return false;
     }
 
+    /**
+     * Find a different variant of a terrain family the player has experienced.
+     *
+     * @param int|string $playerId Player ID
+     * @param int|null $terrainTypeId Terrain type ID being checked
+     * @param string|null $family Family of that terrain type
+     * @return string|null Name of the variant the player experienced, null if none
+     */
+    public function findExperiencedTerrainVariant($playerId, ?int $terrainTypeId, ?string $family): ?string
+    {
+        if ($terrainTypeId === null || $family === null) {
+            return null;
+        }
+
+        foreach ($this->getPlayerTerrainHistory($playerId) as $record) {
+            $recordFamily = $record['family'] ?? $record['name'];
+            if ((int) $record['id'] !== $terrainTypeId && $recordFamily === $family) {
+                return $record['name'];
+            }
+        }
+
+        return null;
+    }
+
     /**
      * Get player's table history (tables used in previous rounds).
      *
@@ -145,7 +178,7 @@ class TournamentHistory
         return $this->queryPlayerHistory(
             $playerId,
             't.table_number, tt.name as terrain_type, r.round_number',
-            'LEFT JOIN terrain_types tt ON t.terrain_type_id = tt.id',
+            sprintf(self::ROUND_TERRAIN_JOIN, 'LEFT'),
             'ORDER BY r.round_number'
         );
     }
@@ -159,8 +192,8 @@ class TournamentHistory
     {
         return $this->queryPlayerHistory(
             $playerId,
-            'DISTINCT tt.id, tt.name',
-            'JOIN terrain_types tt ON t.terrain_type_id = tt.id',
+            'DISTINCT tt.id, tt.name, COALESCE(tt.family, tt.name) AS family',
+            sprintf(self::ROUND_TERRAIN_JOIN, ''),
             ''
         );
     }
@@ -173,7 +206,7 @@ class TournamentHistory
      *
      * @param int|string $playerId Player ID (int for DB ID, string for BCP ID)
      * @param string $selectColumns Columns to select
-     * @param string $terrainJoin JOIN clause for terrain_types table
+     * @param string $terrainJoin JOIN clause for terrain_types table (t and r are joined)
      * @param string $orderBy ORDER BY clause (or empty string)
      * @return array Query results
      */
@@ -193,8 +226,8 @@ class TournamentHistory
                 SELECT {$selectColumns}
                 FROM allocations a
                 JOIN tables t ON a.table_id = t.id
-                {$terrainJoin}
                 JOIN rounds r ON a.round_id = r.id
+                {$terrainJoin}
                 JOIN players p1 ON a.player1_id = p1.id
                 JOIN players p2 ON a.player2_id = p2.id
                 WHERE r.tournament_id = ?
@@ -208,8 +241,8 @@ class TournamentHistory
                 SELECT {$selectColumns}
                 FROM allocations a
                 JOIN tables t ON a.table_id = t.id
-                {$terrainJoin}
                 JOIN rounds r ON a.round_id = r.id
+                {$terrainJoin}
                 WHERE r.tournament_id = ?
                   AND (a.player1_id = ? OR a.player2_id = ?)
                   AND r.round_number < ?
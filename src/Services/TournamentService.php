@@ -185,6 +185,43 @@ class TournamentService
         return ['valid' => true];
     }
 
+    /**
+     * Validate the terrain family weight.
+     *
+     * @param mixed $weight Percentage of the exact terrain repeat cost
+     * @return array{valid: bool, error?: string}
+     */
+    public function validateTerrainFamilyWeight($weight): array
+    {
+        if (!is_int($weight) || $weight < 0 || $weight > 100) {
+            return ['valid' => false, 'error' => 'Terrain family weight must be an integer from 0 to 100'];
+        }
+
+        return ['valid' => true];
+    }
+
+    /**
+     * Update tournament settings.
+     *
+     * @param Tournament $tournament Tournament to update
+     * @param array $settings {terrainFamilyWeight?: int}
+     * @throws InvalidArgumentException If a setting is invalid
+     */
+    public function updateSettings(Tournament $tournament, array $settings): Tournament
+    {
+        if (array_key_exists('terrainFamilyWeight', $settings)) {
+            $validation = $this->validateTerrainFamilyWeight($settings['terrainFamilyWeight']);
+            if (!$validation['valid']) {
+                throw new InvalidArgumentException($validation['error']);
+            }
+            $tournament->terrainFamilyWeight = $settings['terrainFamilyWeight'];
+        }
+
+        $tournament->save();
+
+        return $tournament;
+    }
+
     /**
      * Normalize BCP URL (strip query params).
      *
@@ -0,0 +1,174 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Services;
+
+use InvalidArgumentException;
+use TournamentTables\Database\Connection;
+use TournamentTables\Models\Player;
+use TournamentTables\Models\Table;
+use TournamentTables\Models\TableConstraint;
+use TournamentTables\Models\TerrainType;
+use TournamentTables\Models\Tournament;
+
+/**
+ * Creates tournaments from a template: another tournament whose table setup
+ * is reused, for recurring events with the same tables and terrain kits.
+ *
+ * The template's tables (terrain, optional and hidden flags, floor map
+ * positions) and its own terrain types are copied when the tournament is
+ * created. Table constraints are copied once players exist, matched by BCP
+ * player ID; only constraints for every round carry over, since round pins
+ * belong to the template's event.
+ */
+class TournamentTemplateService
+{
+    /**
+     * Find the template tournament, checking the caller holds its admin token.
+     *
+     * @throws InvalidArgumentException If there is no such tournament or the token does not match
+     */
+    public function resolveTemplate(int $templateId, ?string $adminToken): Tournament
+    {
+        $template = Tournament::find($templateId);
+        if ($template === null || $adminToken === null || !hash_equals($template->adminToken, $adminToken)) {
+            throw new InvalidArgumentException('Template tournament not found or its admin token does not match');
+        }
+
+        return $template;
+    }
+
+    /**
+     * Number of tables to create for a tournament made from the template.
+     */
+    public function tableCount(Tournament $template): int
+    {
+        return (int) Connection::fetchColumn(
+            'SELECT COALESCE(MAX(table_number), 0) FROM tables WHERE tournament_id = ?',
+            [$template->id]
+        );
+    }
+
+    /**
+     * Copy the template's tables, with their floor map positions, and own
+     * terrain types onto a new tournament.
+     *
+     * Expects the tournament's tables to exist already (numbered as in the
+     * template); any the template has beyond them are added.
+     *
+     * @return array{tables: int, terrainTypes: int} Number of tables and terrain types copied
+     */
+    public function copyTables(Tournament $template, Tournament $tournament): array
+    {
+        return Connection::executeInTransaction(function () use ($template, $tournament) {
+            $terrainIds = [];
+            $copiedTypes = 0;
+            foreach (TerrainType::findForTournament($template->id) as $type) {
+                if ($type->tournamentId === null) {
+                    $terrainIds[$type->id] = $type->id;
+                    continue;
+                }
+
+                $copy = new TerrainType(
+                    null,
+                    $type->name,
+                    $type->description,
+                    $type->emoji,
+                    $type->sortOrder,
+                    $tournament->id,
+                    $type->isArchived,
+                    $type->family
+                );
+                $copy->save();
+                $terrainIds[$type->id] = $copy->id;
+                $copiedTypes++;
+            }
+
+            $templateTables = Table::findByTournament($template->id);
+            foreach ($templateTables as $templateTable) {
+                $table = Table::findByTournamentAndNumber($tournament->id, $templateTable->tableNumber)
+                    ?? new Table(null, $tournament->id, $templateTable->tableNumber);
+                $table->terrainTypeId = $templateTable->terrainTypeId !== null
+                    ? $terrainIds[$templateTable->terrainTypeId] ?? null
+                    : null;
+                $table->isOptional = $templateTable->isOptional;
+                $table->isHidden = $templateTable->isHidden;
+                $table->mapZone = $templateTable->mapZone;
+                $table->mapX = $templateTable->mapX;
+                $table->mapY = $templateTable->mapY;
+                $table->save();
+            }
+
+            return [
+                'tables' => count($templateTables),
+                'terrainTypes' => $copiedTypes,
+            ];
+        });
+    }
+
+    /**
+     * Copy the template's every-round table constraints for players the new
+     * tournament has, matched by BCP player ID, all or none.
+     *
+     * @return array{constraints: int, skippedPlayers: string[]} Constraints copied, and names of
+     *               template players not (yet) in the tournament whose constraints were left out
+     */
+    public function copyConstraints(Tournament $template, Tournament $tournament): array
+    {
+        return Connection::executeInTransaction(function () use ($template, $tournament) {
+            $templateTables = [];
+            foreach (Table::findByTournament($template->id) as $table) {
+                $templateTables[$table->id] = $table->tableNumber;
+            }
+            $templatePlayers = [];
+            foreach (Player::findByTournament($template->id) as $player) {
+                $templatePlayers[$player->id] = $player;
+            }
+
+            $copied = 0;
+            $skippedPlayers = [];
+            foreach (TableConstraint::findByTournament($template->id) as $constraint) {
+                $templatePlayer = $templatePlayers[$constraint->playerId] ?? null;
+                if ($constraint->roundNumber !== null || $templatePlayer === null) {
+                    continue;
+                }
+
+                $player = Player::findByTournamentAndBcpId($tournament->id, $templatePlayer->bcpPlayerId);
+                if ($player === null) {
+                    $skippedPlayers[] = $templatePlayer->name;
+                    continue;
+                }
+
+                $tableIds = [];
+                foreach ($constraint->tableIds as $tableId) {
+                    $table = isset($templateTables[$tableId])
+                        ? Table::findByTournamentAndNumber($tournament->id, $templateTables[$tableId])
+                        : null;
+                    if ($table !== null) {
+                        $tableIds[] = $table->id;
+                    }
+                }
+                if ($tableIds === []) {
+                    continue;
+                }
+
+                (new TableConstraint(
+                    null,
+                    $tournament->id,
+                    $player->id,
+                    null,
+                    $constraint->type,
+                    $tableIds,
+                    $constraint->note
+                ))->save();
+                $copied++;
+            }
+
+            return [
+                'constraints' => $copied,
+                'skippedPlayers' => array_values(array_unique($skippedPlayers)),
+            ];
+        });
+    }
+}
@@ -4,8 +4,13 @@ declare(strict_types=1);
  * Tournament creation form.
  *
  * Reference: specs/001-table-allocation/spec.md User Story 2
+ *
+ * Variables:
+ * - $templates: array (optional) - Tournaments usable as a template [{id, name}], most recently used first
  */
 
+$templates = $templates ?? [];
+
 $title = 'Create Tournament';
 $pageName = 'Create New Tournament';
 ob_start();
@@ -21,6 +26,19 @@ ob_start();
             <small>The full URL from Best Coast Pairings for your event. The tournament name will be imported automatically from BCP. Tables will be created from Round 1 pairings.</small>
         </label>
 
+        <?php if (!empty($templates)): ?>
+        <label for="templateTournamentId">
+            Create from Template
+            <select id="templateTournamentId" name="templateTournamentId">
+                <option value="">Start with empty tables</option>
+                <?php foreach ($templates as $template): ?>
+                <option value="<?= (int) $template['id'] ?>"><?= htmlspecialchars($template['name']) ?></option>
+                <?php endforeach; ?>
+            </select>
+            <small>Copies the tables, terrain, optional tables and table constraints of one of your tournaments. Constraints carry over for players who are in Round 1 of the new event.</small>
+        </label>
+        <?php endif; ?>
+
         <button type="submit" id="submit-btn">
             <span id="submit-indicator" style="display: none;">Creating...</span>
             <span id="submit-text">Create Tournament</span>
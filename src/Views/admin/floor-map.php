@@ -0,0 +1,306 @@
+<?php
+/**
+ * Venue floor map editor (admin).
+ *
+ * Tables are dragged from the tray onto the plan of the main floor or of a
+ * room or zone, and back to the tray to take them off the map. Positions are
+ * kept in percent of the plan, so the public map scales to any screen.
+ *
+ * Expected variables:
+ * - $tournament: Tournament model
+ * - $tables: Array of visible Table models
+ * - $floorMap: The floor map (FloorMapService::getFloorMap)
+ */
+declare(strict_types=1);
+
+use TournamentTables\Services\CsrfService;
+use TournamentTables\Services\FloorMapService;
+
+$pageTitle = "{$tournament->name} - Floor Map";
+
+// The main floor always has a plan; zones have one while a table is in them
+$zones = array_merge([''], $floorMap['zones']);
+$placedByZone = array_fill_keys($zones, []);
+$unplaced = [];
+foreach ($tables as $table) {
+    if ($table->isPlaced()) {
+        $placedByZone[$table->mapZone ?? ''][] = $table;
+    } else {
+        $unplaced[] = $table;
+    }
+}
+
+/**
+ * A draggable table token.
+ */
+function floorTableToken($table): string
+{
+    $terrainType = $table->getTerrainType();
+    $position = $table->isPlaced()
+        ? ' data-x="' . $table->mapX . '" data-y="' . $table->mapY . '" style="left: ' . $table->mapX . '%; top: ' . $table->mapY . '%;"'
+        : '';
+    return '<span class="floor-table" data-table-number="' . $table->tableNumber . '"'
+        . ' title="Table ' . $table->tableNumber . ($terrainType ? ' · ' . htmlspecialchars($terrainType->name) : '') . '"'
+        . $position . '>'
+        . $table->tableNumber
+        . ($terrainType && $terrainType->emoji ? ' ' . htmlspecialchars($terrainType->emoji) : '')
+        . '</span>';
+}
+?>
+<!DOCTYPE html>
+<html lang="en" data-theme="light">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title><?= htmlspecialchars($pageTitle) ?> - Tournament Tables</title>
+    <?= CsrfService::getMetaTag() ?>
+    <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/@picocss/pico@1/css/pico.min.css">
+    <link rel="stylesheet" href="/css/app.css">
+    <script src="/js/utils.js"></script>
+    <script src="/js/form-utils.js"></script>
+</head>
+<body>
+    <nav>
+        <div class="container">
+            <ul>
+                <li><a href="/admin" class="brand">Tournament Tables</a></li>
+                <li class="nav-right">
+                    <a href="/admin/tournament/create">New Tournament</a>
+                    <a href="/admin/login">Login</a>
+                </li>
+            </ul>
+            <a href="/admin/tournament/<?= $tournament->id ?>" class="back-link">&laquo; <?= htmlspecialchars($tournament->name) ?></a>
+        </div>
+    </nav>
+
+    <div class="nav-page-name full-bleed">
+        <h1>Floor Map</h1>
+    </div>
+
+    <main class="container">
+        <article>
+            <p>Drag tables onto the plan where they stand in the venue, so players can find them on the public page. Add a zone for each room or area of a large hall.</p>
+            <p class="text-small-muted">Drag a table back to the tray to take it off the map. Tables left in the tray are not shown on the map.</p>
+
+            <h3>Unplaced tables</h3>
+            <div class="floor-tray" id="floor-tray" data-testid="floor-tray">
+                <?php foreach ($unplaced as $table): ?>
+                <?= floorTableToken($table) ?>
+                <?php endforeach; ?>
+            </div>
+
+            <div class="floor-zones" id="floor-zones">
+                <?php foreach ($zones as $zone): ?>
+                <section class="floor-zone" data-zone="<?= htmlspecialchars($zone) ?>">
+                    <header class="floor-zone-header">
+                        <strong><?= $zone !== '' ? htmlspecialchars($zone) : 'Main floor' ?></strong>
+                        <?php if ($zone !== ''): ?>
+                        <button type="button" class="outline secondary floor-zone-remove">Remove zone</button>
+                        <?php endif; ?>
+                    </header>
+                    <div class="floor-plan">
+                        <?php foreach ($placedByZone[$zone] as $table): ?>
+                        <?= floorTableToken($table) ?>
+                        <?php endforeach; ?>
+                    </div>
+                </section>
+                <?php endforeach; ?>
+            </div>
+
+            <form id="add-zone-form" class="floor-add-zone">
+                <input
+                    type="text"
+                    id="new-zone-name"
+                    placeholder="Zone name, e.g. Main Hall or Room B"
+                    maxlength="<?= FloorMapService::MAX_ZONE_LENGTH ?>"
+                    aria-label="Zone name"
+                >
+                <button type="submit" class="secondary" id="add-zone-button">Add Zone</button>
+            </form>
+
+            <button type="button" id="save-floor-map-button">
+                <span id="save-floor-map-indicator" style="display: none;">Saving...</span>
+                <span id="save-floor-map-text">Save Floor Map</span>
+            </button>
+            <div id="floor-map-result" style="margin-top: 1rem;"></div>
+        </article>
+    </main>
+
+    <script>
+    (function() {
+        var tray = document.getElementById('floor-tray');
+        var zones = document.getElementById('floor-zones');
+        var dragging = null;
+
+        function percent(value) {
+            return Math.round(Math.min(100, Math.max(0, value)) * 100) / 100;
+        }
+
+        function dropTarget(x, y) {
+            var element = document.elementFromPoint(x, y);
+            return element && element.closest ? element.closest('.floor-plan, .floor-tray') : null;
+        }
+
+        // Drag with pointer events, so it works with a mouse and on a tablet
+        document.addEventListener('pointerdown', function(e) {
+            var token = e.target.closest ? e.target.closest('.floor-table') : null;
+            if (!token || e.button !== 0) {
+                return;
+            }
+            e.preventDefault();
+            var rect = token.getBoundingClientRect();
+            dragging = {
+                token: token,
+                // Where the token was grabbed, from its centre
+                offsetX: e.clientX - (rect.left + rect.width / 2),
+                offsetY: e.clientY - (rect.top + rect.height / 2)
+            };
+            token.classList.add('floor-table-dragging');
+            token.style.left = (e.clientX - dragging.offsetX) + 'px';
+            token.style.top = (e.clientY - dragging.offsetY) + 'px';
+        });
+
+        document.addEventListener('pointermove', function(e) {
+            if (!dragging) {
+                return;
+            }
+            dragging.token.style.left = (e.clientX - dragging.offsetX) + 'px';
+            dragging.token.style.top = (e.clientY - dragging.offsetY) + 'px';
+        });
+
+        document.addEventListener('pointerup', function(e) {
+            if (!dragging) {
+                return;
+            }
+            var token = dragging.token;
+            var centreX = e.clientX - dragging.offsetX;
+            var centreY = e.clientY - dragging.offsetY;
+            dragging = null;
+            // Found while the token still lets the pointer through to what is under it
+            var target = dropTarget(centreX, centreY);
+            token.classList.remove('floor-table-dragging');
+
+            if (target === null) {
+                // Dropped off the plans and tray: back where it was
+                placeToken(token, token.getAttribute('data-x'), token.getAttribute('data-y'));
+            } else if (target.classList.contains('floor-plan')) {
+                var rect = target.getBoundingClientRect();
+                target.appendChild(token);
+                placeToken(
+                    token,
+                    percent((centreX - rect.left) / rect.width * 100),
+                    percent((centreY - rect.top) / rect.height * 100)
+                );
+            } else {
+                tray.appendChild(token);
+                placeToken(token, null, null);
+            }
+        });
+
+        function placeToken(token, x, y) {
+            if (x === null) {
+                token.removeAttribute('data-x');
+                token.removeAttribute('data-y');
+                token.style.left = '';
+                token.style.top = '';
+                return;
+            }
+            token.setAttribute('data-x', x);
+            token.setAttribute('data-y', y);
+            token.style.left = x + '%';
+            token.style.top = y + '%';
+        }
+
+        function zoneNames() {
+            return Array.prototype.map.call(zones.querySelectorAll('.floor-zone'), function(zone) {
+                return zone.getAttribute('data-zone');
+            });
+        }
+
+        document.getElementById('add-zone-form').addEventListener('submit', function(e) {
+            e.preventDefault();
+            var input = document.getElementById('new-zone-name');
+            var name = input.value.trim();
+            if (name === '') {
+                input.focus();
+                return;
+            }
+            if (zoneNames().indexOf(name) !== -1) {
+                showAlert('floor-map-result', 'error', 'There is already a zone called ' + escapeHtml(name));
+                return;
+            }
+
+            var zone = document.createElement('section');
+            zone.className = 'floor-zone';
+            zone.setAttribute('data-zone', name);
+            zone.innerHTML = '<header class="floor-zone-header"><strong>' + escapeHtml(name) + '</strong>'
+                + '<button type="button" class="outline secondary floor-zone-remove">Remove zone</button></header>'
+                + '<div class="floor-plan"></div>';
+            zones.appendChild(zone);
+            input.value = '';
+        });
+
+        // Removing a zone puts its tables back in the tray
+        zones.addEventListener('click', function(e) {
+            var button = e.target.closest ? e.target.closest('.floor-zone-remove') : null;
+            if (!button) {
+                return;
+            }
+            var zone = button.closest('.floor-zone');
+            zone.querySelectorAll('.floor-table').forEach(function(token) {
+                tray.appendChild(token);
+                placeToken(token, null, null);
+            });
+            zone.remove();
+        });
+
+        document.getElementById('save-floor-map-button').addEventListener('click', function() {
+            var tables = [];
+            document.querySelectorAll('.floor-table').forEach(function(token) {
+                var zone = token.closest('.floor-zone');
+                var placed = zone !== null && token.hasAttribute('data-x');
+                tables.push({
+                    tableNumber: parseInt(token.getAttribute('data-table-number'), 10),
+                    zone: placed && zone.getAttribute('data-zone') !== '' ? zone.getAttribute('data-zone') : null,
+                    x: placed ? parseFloat(token.getAttribute('data-x')) : null,
+                    y: placed ? parseFloat(token.getAttribute('data-y')) : null
+                });
+            });
+
+            setButtonLoading('save-floor-map-button', 'save-floor-map-indicator', 'save-floor-map-text', true);
+            document.getElementById('floor-map-result').innerHTML = '';
+
+            var csrfToken = document.querySelector('meta[name="csrf-token"]');
+            fetch('/api/tournaments/<?= $tournament->id ?>/floor-map', {
+                method: 'PUT',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-CSRF-Token': csrfToken ? csrfToken.getAttribute('content') : ''
+                },
+                body: JSON.stringify({ tables: tables })
+            })
+            .then(function(response) {
+                return response.json().then(function(data) {
+                    return { status: response.status, data: data };
+                });
+            })
+            .then(function(response) {
+                setButtonLoading('save-floor-map-button', 'save-floor-map-indicator', 'save-floor-map-text', false);
+
+                if (response.status >= 200 && response.status < 300) {
+                    showAlert('floor-map-result', 'success', 'Floor map saved successfully!', 3000);
+                } else {
+                    showAlert('floor-map-result', 'error',
+                        'Error: ' + escapeHtml(response.data.message || 'Failed to save the floor map')
+                    );
+                }
+            })
+            .catch(function(error) {
+                setButtonLoading('save-floor-map-button', 'save-floor-map-indicator', 'save-floor-map-text', false);
+                showAlert('floor-map-result', 'error', 'Network error: ' + escapeHtml(error.message));
+            });
+        });
+    })();
+    </script>
+</body>
+</html>
@@ -0,0 +1,151 @@
+<?php
+/**
+ * Printable round sheets.
+ *
+ * Print-ready pages for the venue: a wall sheet by player name, a sheet by
+ * table and one placard per table. Each sheet starts on a new page; the
+ * browser's print dialog saves them as PDF.
+ *
+ * Expected variables:
+ * - $tournament: Tournament model
+ * - $round: Round model (published)
+ * - $pairings: Per pairing, in table order with byes last:
+ *   {tableNumber, terrainType, terrainEmoji, isBye, player1: Player|null, player2: Player|null}
+ * - $playerLines: Per player, by name: {player: Player, opponent: Player|null, tableNumber, terrainType, isBye}
+ * - $sheet: 'all', 'players', 'tables' or 'placards'
+ */
+declare(strict_types=1);
+
+$pageTitle = "{$tournament->name} - Round {$round->roundNumber} - Print";
+$printUrl = "/admin/tournament/{$tournament->id}/round/{$round->roundNumber}/print";
+$sheetLabels = [
+    'all' => 'All sheets',
+    'players' => 'By player',
+    'tables' => 'By table',
+    'placards' => 'Table placards',
+];
+
+/**
+ * Name and faction of a player, escaped for HTML.
+ */
+function printPlayerName($player): string
+{
+    if ($player === null) {
+        return '—';
+    }
+    $html = htmlspecialchars($player->name);
+    if ($player->faction) {
+        $html .= ' <span class="print-faction">' . htmlspecialchars($player->faction) . '</span>';
+    }
+    return $html;
+}
+?>
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title><?= htmlspecialchars($pageTitle) ?></title>
+    <link rel="stylesheet" href="/css/print.css">
+</head>
+<body>
+    <nav class="print-toolbar" aria-label="Print options">
+        <a href="/admin/tournament/<?= $tournament->id ?>/round/<?= $round->roundNumber ?>">&laquo; Round <?= $round->roundNumber ?></a>
+        <?php foreach ($sheetLabels as $value => $label): ?>
+            <a
+                href="<?= $printUrl . ($value === 'all' ? '' : '?sheet=' . $value) ?>"
+                class="<?= $sheet === $value ? 'active' : '' ?>"
+                <?= $sheet === $value ? 'aria-current="page"' : '' ?>
+            ><?= $label ?></a>
+        <?php endforeach; ?>
+        <button type="button" id="print-button" onclick="window.print()">Print / Save as PDF</button>
+    </nav>
+
+    <?php if (empty($pairings)): ?>
+    <p class="print-empty">Round <?= $round->roundNumber ?> has no allocations to print.</p>
+    <?php endif; ?>
+
+    <?php if (!empty($pairings) && ($sheet === 'all' || $sheet === 'players')): ?>
+    <!-- Wall sheet: find your name, read your table -->
+    <section class="print-sheet" id="sheet-players">
+        <header class="print-sheet-header">
+            <h1><?= htmlspecialchars($tournament->name) ?></h1>
+            <h2>Round <?= $round->roundNumber ?> - Tables by Player</h2>
+        </header>
+        <table class="print-table">
+            <thead>
+                <tr>
+                    <th>Player</th>
+                    <th class="print-number">Table</th>
+                    <th>Terrain</th>
+                    <th>Opponent</th>
+                </tr>
+            </thead>
+            <tbody>
+                <?php foreach ($playerLines as $line): ?>
+                <tr>
+                    <td><?= printPlayerName($line['player']) ?></td>
+                    <td class="print-number"><?= $line['isBye'] ? 'Bye' : ($line['tableNumber'] ?? '—') ?></td>
+                    <td><?= htmlspecialchars($line['terrainType'] ?? '—') ?></td>
+                    <td><?= $line['isBye'] ? '—' : htmlspecialchars($line['opponent'] !== null ? $line['opponent']->name : '—') ?></td>
+                </tr>
+                <?php endforeach; ?>
+            </tbody>
+        </table>
+    </section>
+    <?php endif; ?>
+
+    <?php if (!empty($pairings) && ($sheet === 'all' || $sheet === 'tables')): ?>
+    <!-- Pairings by table -->
+    <section class="print-sheet" id="sheet-tables">
+        <header class="print-sheet-header">
+            <h1><?= htmlspecialchars($tournament->name) ?></h1>
+            <h2>Round <?= $round->roundNumber ?> - Pairings by Table</h2>
+        </header>
+        <table class="print-table">
+            <thead>
+                <tr>
+                    <th class="print-number">Table</th>
+                    <th>Terrain</th>
+                    <th>Player 1</th>
+                    <th>Player 2</th>
+                </tr>
+            </thead>
+            <tbody>
+                <?php foreach ($pairings as $pairing): ?>
+                <tr>
+                    <td class="print-number"><?= $pairing['isBye'] ? 'Bye' : ($pairing['tableNumber'] ?? '—') ?></td>
+                    <td><?= htmlspecialchars($pairing['terrainType'] ?? '—') ?></td>
+                    <td><?= printPlayerName($pairing['player1']) ?></td>
+                    <td><?= $pairing['isBye'] ? '—' : printPlayerName($pairing['player2']) ?></td>
+                </tr>
+                <?php endforeach; ?>
+            </tbody>
+        </table>
+    </section>
+    <?php endif; ?>
+
+    <?php if (!empty($pairings) && ($sheet === 'all' || $sheet === 'placards')): ?>
+    <!-- One placard per table, two to a page -->
+    <section class="print-sheet" id="sheet-placards">
+        <?php foreach ($pairings as $pairing): ?>
+            <?php if ($pairing['isBye'] || $pairing['tableNumber'] === null) {
+                continue;
+            } ?>
+        <article class="print-placard" data-table-number="<?= (int) $pairing['tableNumber'] ?>">
+            <p class="print-placard-event"><?= htmlspecialchars($tournament->name) ?> - Round <?= $round->roundNumber ?></p>
+            <p class="print-placard-table">Table <?= (int) $pairing['tableNumber'] ?></p>
+            <p class="print-placard-terrain">
+                <?= $pairing['terrainEmoji'] ? htmlspecialchars($pairing['terrainEmoji']) . ' ' : '' ?><?= htmlspecialchars($pairing['terrainType'] ?? 'No terrain') ?>
+            </p>
+            <div class="print-placard-players">
+                <p class="print-placard-player"><?= printPlayerName($pairing['player1']) ?></p>
+                <p class="print-placard-vs">vs</p>
+                <p class="print-placard-player"><?= printPlayerName($pairing['player2']) ?></p>
+            </div>
+        </article>
+        <?php endforeach; ?>
+    </section>
+    <?php endif; ?>
+</body>
+</html>
@@ -6,6 +6,10 @@
  * - Refresh from BCP (FR-015)
  * - Generate allocations (FR-007)
  * - Conflict highlighting (FR-010)
+ * - Edit history with undo/redo and revert to generated
+ * - Preview generated allocations and their costs before applying them
+ * - The round's terrain layout, copied from the previous round or edited per table
+ * - Printable pairing sheets and table placards once published
  *
  * Reference: specs/001-table-allocation/research.md#implementation-notes
  *
@@ -14,6 +18,9 @@
  * - $round: Round model
  * - $allocations: Array of Allocation models
  * - $conflicts: Array of conflict objects
+ * - $history: Edit history (AllocationHistoryService::getHistory)
+ * - $terrainLayout: The round's terrain per table (RoundTerrainService::getLayout)
+ * - $terrainTypes: The tournament's terrain catalog
  */
 declare(strict_types=1);
 
@@ -22,11 +29,11 @@ use TournamentTables\Services\CsrfService;
 $pageTitle = "{$tournament->name} - Round {$round->roundNumber}";
 $isPublished = $round->isPublished;
 
-// Separate terrain reuse (warnings) from actual conflicts
+// Separate terrain reuse, exact or within a family (warnings), from actual conflicts
 $warnings = [];
 $actualConflicts = [];
 foreach ($conflicts as $conflict) {
-    if ($conflict['type'] === 'TERRAIN_REUSE') {
+    if ($conflict['type'] === 'TERRAIN_REUSE' || $conflict['type'] === 'TERRAIN_FAMILY_REUSE') {
         $warnings[] = $conflict;
     } else {
         $actualConflicts[] = $conflict;
@@ -69,16 +76,24 @@ function abbreviateName($fullName) {
 }
 
 /**
- * Check if a specific player has terrain reuse conflict.
- * Returns true if the player name appears in a TERRAIN_REUSE conflict message.
+ * Check if a specific player repeats terrain, exactly or within a family.
+ * Returns ['emoji' => ..., 'detail' => ...] if the player name starts a
+ * TERRAIN_REUSE or TERRAIN_FAMILY_REUSE conflict message, null otherwise.
  */
-function playerHasTerrainReuse($playerName, $conflicts) {
+function playerTerrainRepeat($playerName, $conflicts) {
+    $familyRepeat = null;
     foreach ($conflicts as $c) {
-        if ($c['type'] === 'TERRAIN_REUSE' && strpos($c['message'], $playerName . ' ') === 0) {
-            return true;
+        if (strpos($c['message'], $playerName . ' ') !== 0) {
+            continue;
+        }
+        if ($c['type'] === 'TERRAIN_REUSE') {
+            return ['emoji' => '😑', 'detail' => 'Already experienced this terrain'];
+        }
+        if ($c['type'] === 'TERRAIN_FAMILY_REUSE') {
+            $familyRepeat = ['emoji' => '😐', 'detail' => 'Already experienced a variant of this terrain'];
         }
     }
-    return false;
+    return $familyRepeat;
 }
 
 /**
@@ -218,6 +233,13 @@ $hasTableCollisions = !empty($tableCollisions);
                     <span>Generate Allocations</span>
                 </button>
 
+                <?php if (!empty($allocations)): ?>
+                <!-- Preview button: dry-run generation compared with the current tables -->
+                <button type="button" class="secondary" id="preview-button" onclick="previewAllocations()">
+                    Preview Allocations
+                </button>
+                <?php endif; ?>
+
                 <?php if (!$isPublished): ?>
                 <!-- Publish button (disabled if table collisions exist) -->
                 <button
@@ -236,10 +258,41 @@ $hasTableCollisions = !empty($tableCollisions);
                 <?php endif; ?>
                 <?php endif; ?>
 
+                <?php if ($isPublished && !empty($allocations)): ?>
+                <!-- Printable wall sheets and table placards -->
+                <a
+                    href="/admin/tournament/<?= $tournament->id ?>/round/<?= $round->roundNumber ?>/print"
+                    role="button"
+                    class="secondary outline"
+                    id="print-sheets-link"
+                    target="_blank"
+                >Print Sheets</a>
+                <?php endif; ?>
+
                 <span class="publish-status"></span>
             </div>
         </section>
 
+        <!-- Allocation preview: proposed vs current, filled in by previewAllocations() -->
+        <section class="allocation-preview" id="allocation-preview" hidden>
+            <h3>Allocation Preview</h3>
+            <p class="allocation-preview-verdict" id="preview-verdict"></p>
+            <div class="allocation-preview-grid">
+                <div>
+                    <h4>Current</h4>
+                    <div id="preview-current"></div>
+                </div>
+                <div>
+                    <h4>Proposed</h4>
+                    <div id="preview-proposed"></div>
+                </div>
+            </div>
+            <div class="action-buttons">
+                <button type="button" class="primary" id="apply-preview-button" onclick="applyPreview()">Apply Proposal</button>
+                <button type="button" class="secondary" onclick="closePreview()">Close</button>
+            </div>
+        </section>
+
         <?php if ($hasConflicts): ?>
         <section class="conflict-list">
             <h3>Conflicts</h3>
@@ -342,7 +395,7 @@ $hasTableCollisions = !empty($tableCollisions);
                         $table = $allocation->getTable();
                         $player1 = $allocation->getPlayer1();
                         $player2 = $isBye ? null : $allocation->getPlayer2();
-                        $terrainType = $table ? $table->getTerrainType() : null;
+                        $terrainType = $table ? $table->getTerrainType($round->roundNumber) : null;
                         $terrainEmoji = $terrainType ? $terrainType->emoji : null;
                     ?>
                     <?php
@@ -382,7 +435,7 @@ $hasTableCollisions = !empty($tableCollisions);
                                 <span class="bye-indicator">BYE</span>
                             <?php elseif ($table): ?>
                                 <span class="table-main">
-                                    <span><?= $bcpDiff['emoji'] ?> Table <?= $table->tableNumber ?><?= $terrainEmoji ? ' ' . $terrainEmoji : '' ?></span>
+                                    <span><?= $bcpDiff['emoji'] ?> Table <?= $table->tableNumber ?><?= $terrainEmoji ? ' ' . htmlspecialchars($terrainEmoji) : '' ?></span>
                                     <?php if ($terrainName): ?>
                                         <span class="terrain-suffix header-full">(<?= $terrainName ?>)</span>
                                     <?php endif; ?>
@@ -394,11 +447,11 @@ $hasTableCollisions = !empty($tableCollisions);
                         </td>
 
                         <!-- Player 1 with round score and faction -->
-                        <?php $p1TerrainReuse = playerHasTerrainReuse($player1Name, $allocationConflicts); ?>
-                        <td title="<?= $player1Name ?><?= $player1 && $player1->faction ? ' (' . htmlspecialchars($player1->faction) . ')' : '' ?> - Round Score: <?= $allocation->player1Score ?><?= $p1TerrainReuse ? ' - Already experienced this terrain' : '' ?>">
+                        <?php $p1TerrainRepeat = playerTerrainRepeat($player1Name, $allocationConflicts); ?>
+                        <td title="<?= $player1Name ?><?= $player1 && $player1->faction ? ' (' . htmlspecialchars($player1->faction) . ')' : '' ?> - Round Score: <?= $allocation->player1Score ?><?= $p1TerrainRepeat ? ' - ' . $p1TerrainRepeat['detail'] : '' ?>">
                             <span class="player-name">
-                                <span class="player-name-full"><?= $player1Name ?><?= $p1TerrainReuse ? ' <span title="Already experienced this terrain">😑</span>' : '' ?></span>
-                                <span class="player-name-short"><?= $player1Short ?><?= $p1TerrainReuse ? ' 😑' : '' ?></span>
+                                <span class="player-name-full"><?= $player1Name ?><?= $p1TerrainRepeat ? ' <span title="' . $p1TerrainRepeat['detail'] . '">' . $p1TerrainRepeat['emoji'] . '</span>' : '' ?></span>
+                                <span class="player-name-short"><?= $player1Short ?><?= $p1TerrainRepeat ? ' ' . $p1TerrainRepeat['emoji'] : '' ?></span>
                             </span>
                             <span class="player-score">(<?= $allocation->player1Score ?>)</span>
                             <?php if ($player1 && $player1->faction): ?>
@@ -411,11 +464,11 @@ $hasTableCollisions = !empty($tableCollisions);
                             <span style="color: #9e9e9e; font-style: italic;">No opponent</span>
                         </td>
                         <?php else: ?>
-                        <?php $p2TerrainReuse = playerHasTerrainReuse($player2Name, $allocationConflicts); ?>
-                        <td title="<?= $player2Name ?><?= $player2 && $player2->faction ? ' (' . htmlspecialchars($player2->faction) . ')' : '' ?> - Round Score: <?= $allocation->player2Score ?><?= $p2TerrainReuse ? ' - Already experienced this terrain' : '' ?>">
+                        <?php $p2TerrainRepeat = playerTerrainRepeat($player2Name, $allocationConflicts); ?>
+                        <td title="<?= $player2Name ?><?= $player2 && $player2->faction ? ' (' . htmlspecialchars($player2->faction) . ')' : '' ?> - Round Score: <?= $allocation->player2Score ?><?= $p2TerrainRepeat ? ' - ' . $p2TerrainRepeat['detail'] : '' ?>">
                             <span class="player-name">
-                                <span class="player-name-full"><?= $player2Name ?><?= $p2TerrainReuse ? ' <span title="Already experienced this terrain">😑</span>' : '' ?></span>
-                                <span class="player-name-short"><?= $player2Short ?><?= $p2TerrainReuse ? ' 😑' : '' ?></span>
+                                <span class="player-name-full"><?= $player2Name ?><?= $p2TerrainRepeat ? ' <span title="' . $p2TerrainRepeat['detail'] . '">' . $p2TerrainRepeat['emoji'] . '</span>' : '' ?></span>
+                                <span class="player-name-short"><?= $player2Short ?><?= $p2TerrainRepeat ? ' ' . $p2TerrainRepeat['emoji'] : '' ?></span>
                             </span>
                             <span class="player-score">(<?= $allocation->player2Score ?>)</span>
                             <?php if ($player2 && $player2->faction): ?>
@@ -436,14 +489,14 @@ $hasTableCollisions = !empty($tableCollisions);
                                 aria-label="Change table assignment"
                             >
                                 <?php foreach ($allTables as $t):
-                                    $tTerrain = $t->getTerrainType();
+                                    $tTerrain = $t->getTerrainType($round->roundNumber);
                                     $tEmoji = $tTerrain ? $tTerrain->emoji : null;
                                 ?>
                                     <option
                                         value="<?= $t->id ?>"
                                         <?= ($table && $t->id === $table->id) ? 'selected' : '' ?>
                                     >
-                                        T<?= $t->tableNumber ?><?= $tEmoji ? ' ' . $tEmoji : '' ?><?= $tTerrain ? ' (' . htmlspecialchars($tTerrain->name) . ')' : '' ?>
+                                        T<?= $t->tableNumber ?><?= $tEmoji ? ' ' . htmlspecialchars($tEmoji) : '' ?><?= $tTerrain ? ' (' . htmlspecialchars($tTerrain->name) . ')' : '' ?>
                                     </option>
                                 <?php endforeach; ?>
                             </select>
@@ -479,6 +532,92 @@ $hasTableCollisions = !empty($tableCollisions);
         </div>
         <?php endif; ?>
 
+        <!-- Edit history: undo/redo manual edits or revert to the generated allocation -->
+        <?php if (!empty($allocations)): ?>
+        <section class="edit-history" id="edit-history">
+            <h3>Edit History</h3>
+            <div class="action-buttons">
+                <button type="button" class="secondary" id="undo-button" onclick="changeHistory('undo')" <?= $history['canUndo'] ? '' : 'disabled' ?>>Undo</button>
+                <button type="button" class="secondary" id="redo-button" onclick="changeHistory('redo')" <?= $history['canRedo'] ? '' : 'disabled' ?>>Redo</button>
+                <button type="button" class="secondary" id="revert-button" onclick="changeHistory('revert')" <?= $history['canRevert'] ? '' : 'disabled' ?>>Revert to Generated</button>
+                <label class="editor-name">
+                    Your name
+                    <input type="text" id="editor-name" maxlength="100" placeholder="Shown in the history" />
+                </label>
+            </div>
+            <?php if (empty($history['entries'])): ?>
+            <p class="edit-history-empty"><small>No manual edits since the allocations were generated.</small></p>
+            <?php else: ?>
+            <ol class="edit-history-list">
+                <?php foreach ($history['entries'] as $entry): ?>
+                <li class="edit-history-entry<?= $entry['undone'] ? ' undone' : '' ?>" data-entry-id="<?= $entry['id'] ?>">
+                    <span class="edit-history-description"><?= htmlspecialchars($entry['description']) ?></span>
+                    <small class="edit-history-meta">
+                        <?= htmlspecialchars($entry['editedBy'] ?? 'Organizer') ?>,
+                        <time datetime="<?= htmlspecialchars($entry['createdAt']) ?>"><?= date('M j, H:i', strtotime($entry['createdAt'])) ?></time>
+                        <?= $entry['undone'] ? '(undone)' : '' ?>
+                    </small>
+                </li>
+                <?php endforeach; ?>
+            </ol>
+            <?php endif; ?>
+        </section>
+        <?php endif; ?>
+
+        <!-- Terrain on each table this round; overrides the tables' own terrain -->
+        <?php if (!empty($terrainLayout)): ?>
+        <section class="round-terrain" id="round-terrain">
+            <h3>Round <?= $round->roundNumber ?> Terrain</h3>
+            <table>
+                <thead>
+                    <tr>
+                        <th>Table</th>
+                        <th>Terrain</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <?php foreach ($terrainLayout as $entry):
+                        $currentTerrainId = $entry['terrainType']['id'] ?? null;
+                    ?>
+                    <tr>
+                        <td>
+                            Table <?= $entry['tableNumber'] ?>
+                            <?php if ($entry['isOverride']): ?><small class="round-terrain-override">(this round)</small><?php endif; ?>
+                        </td>
+                        <td>
+                            <select
+                                id="round-terrain-<?= $entry['tableNumber'] ?>"
+                                data-table-number="<?= $entry['tableNumber'] ?>"
+                                data-initial="<?= $currentTerrainId ?? '' ?>"
+                                aria-label="Terrain on table <?= $entry['tableNumber'] ?>"
+                            >
+                                <option value="">-- No terrain --</option>
+                                <?php foreach ($terrainTypes as $terrainType):
+                                    if ($terrainType->isArchived && $terrainType->id !== $currentTerrainId) {
+                                        continue;
+                                    }
+                                ?>
+                                <option value="<?= $terrainType->id ?>" <?= $terrainType->id === $currentTerrainId ? 'selected' : '' ?>>
+                                    <?= $terrainType->emoji ? htmlspecialchars($terrainType->emoji) . ' ' : '' ?><?= htmlspecialchars($terrainType->name) ?><?= $terrainType->isArchived ? ' (archived)' : '' ?>
+                                </option>
+                                <?php endforeach; ?>
+                            </select>
+                        </td>
+                    </tr>
+                    <?php endforeach; ?>
+                </tbody>
+            </table>
+            <div class="action-buttons">
+                <button type="button" id="save-round-terrain" onclick="saveRoundTerrain()">Save Terrain</button>
+                <?php if ($round->roundNumber > 1): ?>
+                <button type="button" class="secondary" onclick="changeRoundTerrain('POST', '/copy-previous')">Copy from Previous Round</button>
+                <?php endif; ?>
+                <button type="button" class="secondary" onclick="changeRoundTerrain('DELETE', '')">Reset to Table Terrain</button>
+            </div>
+            <div id="round-terrain-result" aria-live="polite"></div>
+        </section>
+        <?php endif; ?>
+
         <!-- Modal for mobile table editing -->
         <div class="modal-overlay" id="table-modal">
             <div class="modal-content">
@@ -505,8 +644,8 @@ $hasTableCollisions = !empty($tableCollisions);
     <script>
         // Table data for modal (populated from PHP)
         // Use JSON_HEX_* flags to prevent XSS when embedding in script context
-        var tableData = <?= json_encode(array_map(function($t) {
-            $terrain = $t->getTerrainType();
+        var tableData = <?= json_encode(array_map(function($t) use ($round) {
+            $terrain = $t->getTerrainType($round->roundNumber);
             return [
                 'id' => $t->id,
                 'number' => $t->tableNumber,
@@ -582,7 +721,8 @@ $hasTableCollisions = !empty($tableCollisions);
                 },
                 body: JSON.stringify({
                     allocationId1: allocationId1,
-                    allocationId2: allocationId2
+                    allocationId2: allocationId2,
+                    editedBy: getEditorName()
                 })
             })
             .then(function(response) { return response.json(); })
@@ -607,7 +747,8 @@ $hasTableCollisions = !empty($tableCollisions);
                     'X-Admin-Token': getAdminToken(currentTournamentId)
                 },
                 body: JSON.stringify({
-                    tableId: parseInt(newTableId)
+                    tableId: parseInt(newTableId),
+                    editedBy: getEditorName()
                 })
             })
             .then(function(response) { return response.json(); })
@@ -626,6 +767,202 @@ $hasTableCollisions = !empty($tableCollisions);
             });
         }
 
+        // Organizer name recorded with each edit (remembered per browser)
+        var editorNameInput = document.getElementById('editor-name');
+        if (editorNameInput) {
+            editorNameInput.value = localStorage.getItem('tt-editor-name') || '';
+            editorNameInput.addEventListener('change', function() {
+                localStorage.setItem('tt-editor-name', this.value.trim());
+            });
+        }
+
+        // Show edit times in the browser's locale and time zone
+        document.querySelectorAll('.edit-history-meta time').forEach(function(el) {
+            var date = new Date(el.getAttribute('datetime'));
+            if (!Number.isNaN(date.getTime())) {
+                el.textContent = date.toLocaleString();
+            }
+        });
+
+        function getEditorName() {
+            return localStorage.getItem('tt-editor-name') || null;
+        }
+
+        // Undo, redo or revert to generated, then reload to show the result
+        function changeHistory(action) {
+            var csrfToken = document.querySelector('meta[name="csrf-token"]');
+            fetch('/api/tournaments/' + currentTournamentId + '/rounds/<?= $round->roundNumber ?>/history/' + action, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Admin-Token': getAdminToken(currentTournamentId),
+                    'X-CSRF-Token': csrfToken ? csrfToken.getAttribute('content') : ''
+                },
+                body: JSON.stringify({ editedBy: getEditorName() })
+            })
+            .then(function(response) { return response.json(); })
+            .then(function(data) {
+                if (data.error) {
+                    alert('Error: ' + data.message);
+                } else {
+                    location.reload();
+                }
+            })
+            .catch(function(error) {
+                alert('Failed to ' + action + ': ' + error.message);
+            });
+        }
+
+        // Save the tables whose terrain changed as this round's terrain
+        function saveRoundTerrain() {
+            var tables = [];
+            document.querySelectorAll('#round-terrain select').forEach(function(select) {
+                if (select.value !== select.dataset.initial) {
+                    tables.push({
+                        tableNumber: parseInt(select.dataset.tableNumber, 10),
+                        terrainTypeId: select.value ? parseInt(select.value, 10) : null
+                    });
+                }
+            });
+            if (tables.length === 0) {
+                showAlert('round-terrain-result', 'info', 'No terrain changes to save.', 3000);
+                return;
+            }
+            changeRoundTerrain('PUT', '', { tables: tables });
+        }
+
+        // Update, copy or reset this round's terrain, then reload to show the result
+        function changeRoundTerrain(method, suffix, body) {
+            var csrfToken = document.querySelector('meta[name="csrf-token"]');
+            fetch('/api/tournaments/' + currentTournamentId + '/rounds/<?= $round->roundNumber ?>/terrain' + suffix, {
+                method: method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Admin-Token': getAdminToken(currentTournamentId),
+                    'X-CSRF-Token': csrfToken ? csrfToken.getAttribute('content') : ''
+                },
+                body: body ? JSON.stringify(body) : undefined
+            })
+            .then(function(response) { return response.json(); })
+            .then(function(data) {
+                if (data.error) {
+                    var details = data.fields ? Object.values(data.fields).flat().join(' ') : '';
+                    showAlert('round-terrain-result', 'error', escapeHtml(data.message + ' ' + details));
+                } else {
+                    location.reload();
+                }
+            })
+            .catch(function(error) {
+                showAlert('round-terrain-result', 'error', 'Network error: ' + escapeHtml(error.message));
+            });
+        }
+
+        // Dry-run generation: show the proposal and its costs next to the current tables
+        function previewAllocations() {
+            var csrfToken = document.querySelector('meta[name="csrf-token"]');
+            fetch('/api/tournaments/' + currentTournamentId + '/rounds/<?= $round->roundNumber ?>/generate', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Admin-Token': getAdminToken(currentTournamentId),
+                    'X-CSRF-Token': csrfToken ? csrfToken.getAttribute('content') : ''
+                },
+                body: JSON.stringify({ dryRun: true })
+            })
+            .then(function(response) { return response.json(); })
+            .then(function(data) {
+                if (data.error) {
+                    alert('Error: ' + data.message);
+                    return;
+                }
+                renderPreviewSide(document.getElementById('preview-current'), data.current);
+                renderPreviewSide(document.getElementById('preview-proposed'), data.proposed);
+                document.getElementById('preview-verdict').textContent = data.isBetter
+                    ? 'The proposal is better: it moves ' + data.changedPairings + ' pairing(s).'
+                    : 'The current allocations are as good as the proposal or better.';
+                document.getElementById('apply-preview-button').className = data.isBetter ? 'primary' : 'secondary';
+                var section = document.getElementById('allocation-preview');
+                section.hidden = false;
+                section.scrollIntoView({ behavior: 'smooth' });
+            })
+            .catch(function(error) {
+                alert('Failed to preview allocations: ' + error.message);
+            });
+        }
+
+        function renderPreviewSide(container, side) {
+            var columns = ['Table', 'Pairing', 'Table reuse', 'Terrain reuse', 'BCP table', 'Score order', 'Total'];
+            var table = document.createElement('table');
+            table.className = 'allocation-preview-table';
+
+            var headRow = table.createTHead().insertRow();
+            columns.forEach(function(column) {
+                var th = document.createElement('th');
+                th.textContent = column;
+                headRow.appendChild(th);
+            });
+
+            var body = table.createTBody();
+            side.allocations.forEach(function(allocation) {
+                var pairing = allocation.player1.name + ' (' + allocation.player1.totalScore + ')';
+                if (allocation.player2) {
+                    pairing += ' vs ' + allocation.player2.name + ' (' + allocation.player2.totalScore + ')';
+                }
+                addPreviewRow(body, [
+                    allocation.isBye ? 'Bye' : (allocation.tableNumber === null ? '-' : allocation.tableNumber),
+                    pairing,
+                    allocation.cost.tableReuse,
+                    allocation.cost.terrainReuse,
+                    allocation.cost.bcpTableMismatch,
+                    allocation.cost.scoreOrder,
+                    allocation.cost.total
+                ]).title = allocation.reasons.join('\n');
+            });
+
+            var totals = side.totals;
+            addPreviewRow(table.createTFoot(), [
+                'Total', '', totals.tableReuse, totals.terrainReuse, totals.bcpTableMismatch, totals.scoreOrder, totals.total
+            ]);
+
+            container.replaceChildren(table);
+        }
+
+        function addPreviewRow(section, cells) {
+            var row = section.insertRow();
+            cells.forEach(function(cell) {
+                row.insertCell().textContent = cell;
+            });
+            return row;
+        }
+
+        function closePreview() {
+            document.getElementById('allocation-preview').hidden = true;
+        }
+
+        // Generate and save the allocations, then reload to show them
+        function applyPreview() {
+            var csrfToken = document.querySelector('meta[name="csrf-token"]');
+            fetch('/api/tournaments/' + currentTournamentId + '/rounds/<?= $round->roundNumber ?>/generate', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Admin-Token': getAdminToken(currentTournamentId),
+                    'X-CSRF-Token': csrfToken ? csrfToken.getAttribute('content') : ''
+                }
+            })
+            .then(function(response) { return response.json(); })
+            .then(function(data) {
+                if (data.error) {
+                    alert('Error: ' + data.message);
+                } else {
+                    location.reload();
+                }
+            })
+            .catch(function(error) {
+                alert('Failed to apply allocations: ' + error.message);
+            });
+        }
+
         // Open table change modal (mobile)
         function openTableModal(allocationId, currentTableId, player1Name, player2Name) {
             currentModalAllocationId = allocationId;
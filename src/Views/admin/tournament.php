@@ -10,10 +10,13 @@
  * - $tournament: Tournament model
  * - $rounds: Array of Round models
  * - $tables: Array of Table models
- * - $terrainTypes: Array of TerrainType models
+ * - $terrainTypes: Array of TerrainType models (the tournament's catalog, archived included)
+ * - $players: Array of Player models
+ * - $constraints: Array of TableConstraint models
  * - $justCreated: bool (optional) - Whether tournament was just created
  * - $adminToken: string (optional) - Admin token if just created
  * - $autoImport: array (optional) - Auto-import result {success: bool, tableCount?: int, pairingsImported?: int, error?: string}
+ * - $templateResult: array (optional) - Template copy result {tournamentId, name, tables, terrainTypes, constraints, skippedPlayers}
  */
 
 use TournamentTables\Services\CsrfService;
@@ -24,8 +27,11 @@ $hasRounds = !empty($rounds);
 $justCreated = $justCreated ?? false;
 $adminToken = $adminToken ?? null;
 $autoImport = $autoImport ?? null;
+$templateResult = $templateResult ?? null;
 $playerCount = $playerCount ?? 0;
 $minimumTables = $minimumTables ?? 0;
+$players = $players ?? [];
+$constraints = $constraints ?? [];
 $scheme = (!empty($_SERVER['HTTPS']) && $_SERVER['HTTPS'] !== 'off') ? 'https' : 'http';
 $host = $_SERVER['HTTP_HOST'] ?? '';
 $effectiveAdminToken = $adminToken ?? $tournament->adminToken;
@@ -140,6 +146,18 @@ setTimeout(function() {
         <p>You can manually import Round 1 using the button in the Rounds table below.</p>
     <?php endif; ?>
 
+    <?php if ($templateResult): ?>
+        <p class="status-success" id="template-result">
+            Set up from <?= htmlspecialchars($templateResult['name']) ?>: copied <?= (int) $templateResult['tables'] ?> tables,
+            <?= (int) $templateResult['terrainTypes'] ?> custom terrain types and <?= (int) $templateResult['constraints'] ?> table constraints.
+        </p>
+        <?php if (!empty($templateResult['skippedPlayers'])): ?>
+        <p class="status-warning" id="template-skipped">
+            Table constraints not copied for players not in Round 1: <?= htmlspecialchars(implode(', ', $templateResult['skippedPlayers'])) ?>.
+        </p>
+        <?php endif; ?>
+    <?php endif; ?>
+
     <p><strong>Important:</strong> Save your admin login link. You'll need it to manage this tournament from other devices or browsers.</p>
     <div style="display: flex; align-items: center; gap: 1rem; margin: 1rem 0;">
         <div class="token-display" id="admin-token-display" style="flex: 1;">
@@ -233,8 +251,9 @@ $nextRoundNumber = $hasRounds ? max(array_map(function($r) { return $r->roundNum
                     <select id="set-all-terrain">
                         <option value="">-- Select terrain type --</option>
                         <?php foreach ($terrainTypes as $terrainType): ?>
+                        <?php if ($terrainType->isArchived) continue; ?>
                         <option value="<?= $terrainType->id ?>">
-                            <?= $terrainType->emoji ? $terrainType->emoji . ' ' : '' ?><?= htmlspecialchars($terrainType->name) ?>
+                            <?= $terrainType->emoji ? htmlspecialchars($terrainType->emoji) . ' ' : '' ?><?= htmlspecialchars($terrainType->name) ?>
                         </option>
                         <?php endforeach; ?>
                     </select>
@@ -264,7 +283,7 @@ $nextRoundNumber = $hasRounds ? max(array_map(function($r) { return $r->roundNum
                         $currentEmoji = $currentTerrain ? $currentTerrain->emoji : null;
                     ?>
                     <tr>
-                        <td><strong>Table <?= $table->tableNumber ?><?= $currentEmoji ? ' ' . $currentEmoji : '' ?></strong></td>
+                        <td><strong>Table <?= $table->tableNumber ?><?= $currentEmoji ? ' ' . htmlspecialchars($currentEmoji) : '' ?></strong></td>
                         <td>
                             <select
                                 name="table_<?= $table->tableNumber ?>"
@@ -272,15 +291,22 @@ $nextRoundNumber = $hasRounds ? max(array_map(function($r) { return $r->roundNum
                                 data-table-number="<?= $table->tableNumber ?>"
                             >
                                 <option value="">-- No terrain assigned --</option>
-                                <?php foreach ($terrainTypes as $terrainType): ?>
+                                <?php foreach ($terrainTypes as $terrainType):
+                                    $isAssigned = $table->terrainTypeId === $terrainType->id;
+                                    // Archived types stay only on the tables that already have them
+                                    if ($terrainType->isArchived && !$isAssigned) {
+                                        continue;
+                                    }
+                                ?>
                                 <option
                                     value="<?= $terrainType->id ?>"
-                                    <?= ($table->terrainTypeId === $terrainType->id) ? 'selected' : '' ?>
+                                    <?= $isAssigned ? 'selected' : '' ?>
                                 >
-                                    <?= $terrainType->emoji ? $terrainType->emoji . ' ' : '' ?><?= htmlspecialchars($terrainType->name) ?>
+                                    <?= $terrainType->emoji ? htmlspecialchars($terrainType->emoji) . ' ' : '' ?><?= htmlspecialchars($terrainType->name) ?>
                                     <?php if ($terrainType->description): ?>
                                         - <?= htmlspecialchars($terrainType->description) ?>
                                     <?php endif; ?>
+                                    <?= $terrainType->isArchived ? ' (archived)' : '' ?>
                                 </option>
                                 <?php endforeach; ?>
                             </select>
@@ -316,6 +342,100 @@ $nextRoundNumber = $hasRounds ? max(array_map(function($r) { return $r->roundNum
         <div id="terrain-result" style="margin-top: 1rem;"></div>
     </article>
 
+    <!-- Venue Floor Map -->
+    <article style="margin-top: 1.5rem;" id="floor-map">
+        <h3>Floor Map</h3>
+        <p class="text-small-muted">Place the tables on a plan of the venue, grouped into rooms or zones. Players see it on the public page, with their own table highlighted.</p>
+        <a href="/admin/tournament/<?= $tournament->id ?>/floor-map" role="button" class="secondary outline" id="floor-map-link">Edit Floor Map</a>
+    </article>
+
+    <!-- Terrain Types -->
+    <article style="margin-top: 1.5rem;" id="terrain-types">
+        <h3>Terrain Types</h3>
+        <p class="text-small-muted">Add the terrain kits you own. Built-in types are always available. Archived types stay on the tables that have them but are no longer offered for other tables.</p>
+        <p class="text-small-muted">Types in the same family are variants of one terrain, such as Volkus and Volkus + Tyranid. Leave the family empty for a type of its own.</p>
+
+        <?php
+        $ownTerrainTypes = array_values(array_filter($terrainTypes, fn ($terrainType) => $terrainType->tournamentId !== null));
+        ?>
+        <?php if (empty($ownTerrainTypes)): ?>
+        <p id="no-terrain-types"><em>No terrain types of your own yet.</em></p>
+        <?php else: ?>
+        <table role="grid" id="terrain-types-table">
+            <thead>
+                <tr>
+                    <th>Name</th>
+                    <th>Family</th>
+                    <th style="width: 12%;">Emoji</th>
+                    <th style="width: 12%;">Order</th>
+                    <th></th>
+                </tr>
+            </thead>
+            <tbody>
+                <?php foreach ($ownTerrainTypes as $terrainType): ?>
+                <tr data-terrain-type-id="<?= $terrainType->id ?>"<?= $terrainType->isArchived ? ' class="terrain-type-archived"' : '' ?>>
+                    <td>
+                        <input type="text" data-field="name" value="<?= htmlspecialchars($terrainType->name) ?>" maxlength="100" aria-label="Name" style="margin-bottom: 0;">
+                    </td>
+                    <td>
+                        <input type="text" data-field="family" value="<?= htmlspecialchars($terrainType->family ?? '') ?>" maxlength="100" aria-label="Family" style="margin-bottom: 0;">
+                    </td>
+                    <td>
+                        <input type="text" data-field="emoji" value="<?= htmlspecialchars($terrainType->emoji ?? '') ?>" maxlength="10" aria-label="Emoji" style="margin-bottom: 0;">
+                    </td>
+                    <td>
+                        <input type="number" data-field="sortOrder" value="<?= $terrainType->sortOrder ?>" aria-label="Order" style="margin-bottom: 0;">
+                    </td>
+                    <td style="white-space: nowrap;">
+                        <button type="button" class="secondary save-terrain-type-button" style="margin-bottom: 0;">Save</button>
+                        <button
+                            type="button"
+                            class="outline secondary <?= $terrainType->isArchived ? 'restore' : 'archive' ?>-terrain-type-button"
+                            style="margin-bottom: 0;"
+                        ><?= $terrainType->isArchived ? 'Restore' : 'Archive' ?></button>
+                    </td>
+                </tr>
+                <?php endforeach; ?>
+            </tbody>
+        </table>
+        <?php endif; ?>
+
+        <form id="terrain-type-form">
+            <div class="grid">
+                <label for="terrain-type-name">
+                    Name
+                    <input type="text" id="terrain-type-name" maxlength="100" required>
+                </label>
+                <label for="terrain-type-family">
+                    Family
+                    <input type="text" id="terrain-type-family" maxlength="100">
+                </label>
+                <label for="terrain-type-emoji">
+                    Emoji
+                    <input type="text" id="terrain-type-emoji" maxlength="10">
+                </label>
+                <label for="terrain-type-description">
+                    Description
+                    <input type="text" id="terrain-type-description">
+                </label>
+            </div>
+            <button type="submit" id="add-terrain-type-button">Add Terrain Type</button>
+        </form>
+
+        <div id="terrain-type-result" style="margin-top: 1rem;"></div>
+
+        <form id="terrain-family-weight-form" style="margin-top: 1rem;">
+            <label for="terrain-family-weight">
+                Variant repeat weight (%)
+                <input type="number" id="terrain-family-weight" min="0" max="100" step="1" value="<?= $tournament->terrainFamilyWeight ?>" required>
+                <small>How much a player getting another variant of terrain they already played counts against an allocation, compared with the exact same terrain. 0 ignores families.</small>
+            </label>
+            <button type="submit" id="save-terrain-family-weight-button" class="secondary">Save Weight</button>
+        </form>
+
+        <div id="terrain-family-weight-result" style="margin-top: 1rem;"></div>
+    </article>
+
     <!-- Table Count Management -->
     <article style="margin-top: 1.5rem;">
         <h3>Table Count</h3>
@@ -371,6 +491,104 @@ $nextRoundNumber = $hasRounds ? max(array_map(function($r) { return $r->roundNum
             <?php endif; ?>
         </div>
     </article>
+
+    <!-- Table Constraints -->
+    <article style="margin-top: 1.5rem;" id="table-constraints">
+        <h3>Table Constraints</h3>
+        <p class="text-small-muted">Keep players on, or off, specific tables when allocations are generated, e.g. pin a pairing to the streaming table or keep a player on an accessible table.</p>
+
+        <?php if (empty($constraints)): ?>
+        <p id="no-constraints"><em>No table constraints.</em></p>
+        <?php else: ?>
+        <table role="grid" id="constraints-table">
+            <thead>
+                <tr>
+                    <th>Player</th>
+                    <th>Rule</th>
+                    <th>Rounds</th>
+                    <th>Note</th>
+                    <th></th>
+                </tr>
+            </thead>
+            <tbody>
+                <?php
+                $ruleLabels = [
+                    'required' => 'Must play on table ',
+                    'allowed' => 'Only tables ',
+                    'forbidden' => 'Never tables ',
+                ];
+                foreach ($constraints as $constraint):
+                    $constraintData = $constraint->toArray();
+                    $tableList = implode(', ', $constraintData['tableNumbers']);
+                ?>
+                <tr data-constraint-id="<?= $constraint->id ?>">
+                    <td><?= htmlspecialchars($constraintData['playerName'] ?? 'Unknown player') ?></td>
+                    <td><?= $ruleLabels[$constraint->type] . $tableList ?></td>
+                    <td><?= $constraint->roundNumber === null ? 'All' : 'Round ' . $constraint->roundNumber ?></td>
+                    <td><?= htmlspecialchars($constraint->note ?? '') ?></td>
+                    <td>
+                        <button
+                            type="button"
+                            class="outline secondary delete-constraint-button"
+                            data-constraint-id="<?= $constraint->id ?>"
+                            style="margin-bottom: 0;"
+                        >Remove</button>
+                    </td>
+                </tr>
+                <?php endforeach; ?>
+            </tbody>
+        </table>
+        <?php endif; ?>
+
+        <?php if (empty($players)): ?>
+        <small class="text-small-muted">Import Round 1 to add table constraints.</small>
+        <?php else: ?>
+        <form id="constraint-form">
+            <div class="grid">
+                <label for="constraint-player">
+                    Player
+                    <select id="constraint-player" required>
+                        <option value="">-- Select player --</option>
+                        <?php foreach ($players as $player): ?>
+                        <option value="<?= $player->id ?>"><?= htmlspecialchars($player->name) ?></option>
+                        <?php endforeach; ?>
+                    </select>
+                </label>
+                <label for="constraint-type">
+                    Rule
+                    <select id="constraint-type">
+                        <option value="required">Must play on table</option>
+                        <option value="allowed">Only these tables</option>
+                        <option value="forbidden">Never these tables</option>
+                    </select>
+                </label>
+            </div>
+            <div class="grid">
+                <label for="constraint-tables">
+                    Tables
+                    <select id="constraint-tables" multiple size="4" required>
+                        <?php foreach ($tables as $table): ?>
+                        <option value="<?= $table->id ?>">Table <?= $table->tableNumber ?></option>
+                        <?php endforeach; ?>
+                    </select>
+                </label>
+                <div>
+                    <label for="constraint-round">
+                        Round (blank for every round)
+                        <input type="number" id="constraint-round" min="1">
+                    </label>
+                    <label for="constraint-note">
+                        Note
+                        <input type="text" id="constraint-note" maxlength="255" placeholder="e.g. Streaming table">
+                    </label>
+                </div>
+            </div>
+            <button type="submit" id="add-constraint-button">Add Constraint</button>
+        </form>
+        <?php endif; ?>
+
+        <div id="constraint-result" style="margin-top: 1rem;"></div>
+    </article>
 </section>
 
 <!-- Manage Tab Panel -->
@@ -789,6 +1007,152 @@ document.getElementById('clear-all-button').addEventListener('click', function()
     }
 });
 
+// Terrain type catalog
+(function() {
+    var tournamentId = <?= $tournament->id ?>;
+
+    function getCsrfToken() {
+        var csrfToken = document.querySelector('meta[name="csrf-token"]');
+        return csrfToken ? csrfToken.getAttribute('content') : '';
+    }
+
+    function sendTerrainTypeRequest(method, path, body) {
+        return fetch('/api/tournaments/' + tournamentId + '/terrain-types' + path, {
+            method: method,
+            headers: {
+                'Content-Type': 'application/json',
+                'X-CSRF-Token': getCsrfToken()
+            },
+            body: body ? JSON.stringify(body) : undefined
+        })
+        .then(function(response) {
+            return response.json().then(function(data) {
+                return { status: response.status, data: data, ok: response.ok };
+            });
+        });
+    }
+
+    function errorMessage(data, fallback) {
+        if (data.fields && typeof data.fields === 'object') {
+            var messages = [];
+            for (var field in data.fields) {
+                if (data.fields.hasOwnProperty(field) && Array.isArray(data.fields[field])) {
+                    messages = messages.concat(data.fields[field]);
+                }
+            }
+            if (messages.length > 0) {
+                return messages.join(' ');
+            }
+        }
+        return data.message || fallback;
+    }
+
+    // Terrain selects are rendered server-side, so reload after every change
+    function handleResult(button, successMessage, failureMessage) {
+        return function(response) {
+            if (response.ok) {
+                showAlert('terrain-type-result', 'success', successMessage, 3000);
+                setTimeout(function() { location.reload(); }, 1000);
+            } else {
+                button.disabled = false;
+                showAlert('terrain-type-result', 'error',
+                    'Error: ' + escapeHtml(errorMessage(response.data, failureMessage))
+                );
+            }
+        };
+    }
+
+    function handleNetworkError(button) {
+        return function(error) {
+            button.disabled = false;
+            showAlert('terrain-type-result', 'error', 'Network error: ' + escapeHtml(error.message));
+        };
+    }
+
+    document.getElementById('terrain-type-form').addEventListener('submit', function(e) {
+        e.preventDefault();
+
+        var button = document.getElementById('add-terrain-type-button');
+        button.disabled = true;
+
+        sendTerrainTypeRequest('POST', '', {
+            name: document.getElementById('terrain-type-name').value,
+            family: document.getElementById('terrain-type-family').value || null,
+            emoji: document.getElementById('terrain-type-emoji').value || null,
+            description: document.getElementById('terrain-type-description').value || null
+        })
+        .then(handleResult(button, 'Terrain type added', 'Failed to add terrain type'))
+        .catch(handleNetworkError(button));
+    });
+
+    document.querySelectorAll('#terrain-types-table tbody tr').forEach(function(row) {
+        var terrainTypeId = row.getAttribute('data-terrain-type-id');
+
+        row.querySelector('.save-terrain-type-button').addEventListener('click', function() {
+            var button = this;
+            button.disabled = true;
+
+            sendTerrainTypeRequest('PATCH', '/' + terrainTypeId, {
+                name: row.querySelector('[data-field="name"]').value,
+                family: row.querySelector('[data-field="family"]').value || null,
+                emoji: row.querySelector('[data-field="emoji"]').value || null,
+                sortOrder: parseInt(row.querySelector('[data-field="sortOrder"]').value) || 0
+            })
+            .then(handleResult(button, 'Terrain type saved', 'Failed to save terrain type'))
+            .catch(handleNetworkError(button));
+        });
+
+        var archiveButton = row.querySelector('.archive-terrain-type-button, .restore-terrain-type-button');
+        archiveButton.addEventListener('click', function() {
+            var button = this;
+            var action = button.classList.contains('restore-terrain-type-button') ? 'restore' : 'archive';
+            button.disabled = true;
+
+            sendTerrainTypeRequest('POST', '/' + terrainTypeId + '/' + action)
+            .then(handleResult(
+                button,
+                action === 'archive' ? 'Terrain type archived' : 'Terrain type restored',
+                'Failed to ' + action + ' terrain type'
+            ))
+            .catch(handleNetworkError(button));
+        });
+    });
+
+    document.getElementById('terrain-family-weight-form').addEventListener('submit', function(e) {
+        e.preventDefault();
+
+        var button = document.getElementById('save-terrain-family-weight-button');
+        button.disabled = true;
+
+        fetch('/api/tournaments/' + tournamentId, {
+            method: 'PATCH',
+            headers: {
+                'Content-Type': 'application/json',
+                'X-CSRF-Token': getCsrfToken()
+            },
+            body: JSON.stringify({
+                terrainFamilyWeight: parseInt(document.getElementById('terrain-family-weight').value, 10)
+            })
+        })
+        .then(function(response) {
+            return response.json().then(function(data) {
+                button.disabled = false;
+                if (response.ok) {
+                    showAlert('terrain-family-weight-result', 'success', 'Variant repeat weight saved', 3000);
+                } else {
+                    showAlert('terrain-family-weight-result', 'error',
+                        'Error: ' + escapeHtml(errorMessage(data, 'Failed to save weight'))
+                    );
+                }
+            });
+        })
+        .catch(function(error) {
+            button.disabled = false;
+            showAlert('terrain-family-weight-result', 'error', 'Network error: ' + escapeHtml(error.message));
+        });
+    });
+})();
+
 // Table count management
 (function() {
     var tournamentId = <?= $tournament->id ?>;
@@ -942,6 +1306,116 @@ document.getElementById('clear-all-button').addEventListener('click', function()
     });
 })();
 
+// Table constraints
+(function() {
+    var tournamentId = <?= $tournament->id ?>;
+    var form = document.getElementById('constraint-form');
+
+    function getCsrfToken() {
+        var csrfToken = document.querySelector('meta[name="csrf-token"]');
+        return csrfToken ? csrfToken.getAttribute('content') : '';
+    }
+
+    function sendConstraintRequest(method, path, body) {
+        return fetch('/api/tournaments/' + tournamentId + '/constraints' + path, {
+            method: method,
+            headers: {
+                'Content-Type': 'application/json',
+                'X-CSRF-Token': getCsrfToken()
+            },
+            body: body ? JSON.stringify(body) : undefined
+        })
+        .then(function(response) {
+            return response.json().then(function(data) {
+                return { status: response.status, data: data, ok: response.ok };
+            });
+        });
+    }
+
+    function errorMessage(data, fallback) {
+        if (data.fields && typeof data.fields === 'object') {
+            var messages = [];
+            for (var field in data.fields) {
+                if (data.fields.hasOwnProperty(field) && Array.isArray(data.fields[field])) {
+                    messages = messages.concat(data.fields[field]);
+                }
+            }
+            if (messages.length > 0) {
+                return messages.join(' ');
+            }
+        }
+        return data.message || fallback;
+    }
+
+    if (form) {
+        form.addEventListener('submit', function(e) {
+            e.preventDefault();
+
+            var tableSelect = document.getElementById('constraint-tables');
+            var tableIds = Array.prototype.filter.call(tableSelect.options, function(option) {
+                return option.selected;
+            }).map(function(option) {
+                return parseInt(option.value);
+            });
+            var round = document.getElementById('constraint-round').value;
+            var note = document.getElementById('constraint-note').value.trim();
+
+            var button = document.getElementById('add-constraint-button');
+            button.disabled = true;
+
+            sendConstraintRequest('POST', '', {
+                playerId: parseInt(document.getElementById('constraint-player').value),
+                type: document.getElementById('constraint-type').value,
+                tableIds: tableIds,
+                roundNumber: round ? parseInt(round) : null,
+                note: note || null
+            })
+            .then(function(response) {
+                button.disabled = false;
+                if (response.ok) {
+                    showAlert('constraint-result', 'success', 'Table constraint added', 3000);
+                    setTimeout(function() { location.reload(); }, 1000);
+                } else {
+                    showAlert('constraint-result', 'error',
+                        'Error: ' + escapeHtml(errorMessage(response.data, 'Failed to add table constraint'))
+                    );
+                }
+            })
+            .catch(function(error) {
+                button.disabled = false;
+                showAlert('constraint-result', 'error', 'Network error: ' + escapeHtml(error.message));
+            });
+        });
+    }
+
+    document.querySelectorAll('.delete-constraint-button').forEach(function(button) {
+        button.addEventListener('click', function() {
+            var constraintId = button.getAttribute('data-constraint-id');
+            button.disabled = true;
+
+            sendConstraintRequest('DELETE', '/' + constraintId)
+            .then(function(response) {
+                if (response.ok) {
+                    var row = button.closest('tr');
+                    if (row) {
+                        row.remove();
+                    }
+                    showAlert('constraint-result', 'success', 'Table constraint removed', 3000);
+                } else {
+                    button.disabled = false;
+                    showAlert('constraint-result', 'error',
+                        'Error: ' + escapeHtml(errorMessage(response.data, 'Failed to remove table constraint'))
+                    );
+                }
+            })
+            .catch(function(error) {
+                button.disabled = false;
+                showAlert('constraint-result', 'error', 'Network error: ' + escapeHtml(error.message));
+            });
+        });
+    });
+})();
+
 // Delete tournament functionality
 (function() {
     var tournamentName = <?= json_encode($tournament->name) ?>;
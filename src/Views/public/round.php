@@ -14,6 +14,9 @@
  * - $publishedRounds: Array of Round models (for round navigation)
  * - $rankedPlayers: Array of ranked players with leaderboard metadata (rank, player, roundScores)
  * - $isLeaderboardView: bool
+ * - $liveState: Live update state token the page was rendered with (LiveUpdateService)
+ * - $followsLatestRound: bool, whether the page moves on to newly published rounds
+ * - $floorMap: Placed tables by zone ('' for the main floor): [{table: Table, terrainType: TerrainType|null, pairing: string|null}]
  */
 
 $modeTitle = $isLeaderboardView
@@ -21,6 +24,7 @@ $modeTitle = $isLeaderboardView
     : ($round !== null ? "Round {$round->roundNumber}" : 'No Published Rounds');
 $pageTitle = htmlspecialchars($tournament->name) . " - {$modeTitle}";
 $hasAllocations = !empty($allocations);
+$floorMap = $floorMap ?? [];
 $tableCount = count($tournament->getTables());
 $bodyClass = 'tc-page' . ($isLeaderboardView ? ' leaderboard-active' : '');
 
@@ -260,7 +264,7 @@ $dateRange = formatTournamentDateRange(
         </aside>
 
         <!-- Main Content -->
-        <main class="tc-main">
+        <main class="tc-main" data-round-number="<?= $round !== null ? $round->roundNumber : '' ?>">
             <!-- Hero Section -->
             <section class="tc-hero">
                 <div class="tc-hero-inner">
@@ -318,6 +322,55 @@ $dateRange = formatTournamentDateRange(
                 </div>
             </section>
 
+            <?php if ($round !== null): ?>
+            <!-- Find My Table -->
+            <section class="tc-find-table" id="find-my-table" data-testid="find-my-table">
+                <form class="tc-find-table-form" id="find-table-form" role="search">
+                    <label class="tc-find-table-label" for="find-table-query">Find my table</label>
+                    <input
+                        type="search"
+                        class="tc-find-table-input"
+                        id="find-table-query"
+                        placeholder="Your name or BCP player ID"
+                        autocomplete="off"
+                    >
+                </form>
+                <p class="tc-find-table-message" id="find-table-message" hidden></p>
+                <ul class="tc-find-table-results" id="find-table-results" hidden></ul>
+                <div class="tc-find-table-card" id="find-table-card" data-testid="pinned-player" hidden></div>
+            </section>
+            <?php endif; ?>
+
+            <?php if (!empty($floorMap)): ?>
+            <!-- Venue Floor Map -->
+            <section class="tc-floor-map" id="floor-map" data-testid="floor-map">
+                <h2 class="tc-floor-map-title">Venue map</h2>
+                <div class="tc-floor-zones">
+                    <?php foreach ($floorMap as $zone => $placedTables): ?>
+                    <div class="tc-floor-zone" data-zone="<?= htmlspecialchars((string) $zone) ?>">
+                        <?php if ((string) $zone !== '' || count($floorMap) > 1): ?>
+                        <h3 class="tc-floor-zone-name"><?= (string) $zone !== '' ? htmlspecialchars((string) $zone) : 'Main floor' ?></h3>
+                        <?php endif; ?>
+                        <div class="tc-floor-plan">
+                            <?php foreach ($placedTables as $placed):
+                                $placedTable = $placed['table'];
+                                $placedTerrain = $placed['terrainType'];
+                            ?>
+                            <span
+                                class="tc-floor-table<?= $placed['pairing'] === null ? ' tc-floor-table-empty' : '' ?>"
+                                style="left: <?= $placedTable->mapX ?>%; top: <?= $placedTable->mapY ?>%;"
+                                data-table-number="<?= $placedTable->tableNumber ?>"
+                                <?php if ($placed['pairing'] !== null): ?>data-pairing="<?= $placed['pairing'] ?>"<?php endif; ?>
+                                title="Table <?= $placedTable->tableNumber ?><?= $placedTerrain ? ' · ' . htmlspecialchars($placedTerrain->name) : '' ?>"
+                            ><?= formatTableNumber($placedTable->tableNumber) ?><?php if ($placedTerrain && $placedTerrain->emoji): ?><span class="tc-floor-table-emoji"><?= htmlspecialchars($placedTerrain->emoji) ?></span><?php endif; ?></span>
+                            <?php endforeach; ?>
+                        </div>
+                    </div>
+                    <?php endforeach; ?>
+                </div>
+            </section>
+            <?php endif; ?>
+
             <?php if ($hasAllocations): ?>
             <!-- Match List -->
             <div class="tc-match-list">
@@ -346,7 +399,7 @@ $dateRange = formatTournamentDateRange(
                     $table = $allocation->getTable();
                     $player1 = $allocation->getPlayer1();
                     $player2 = $isBye ? null : $allocation->getPlayer2();
-                    $terrainType = $table ? $table->getTerrainType() : null;
+                    $terrainType = $table ? $table->getTerrainType($round->roundNumber) : null;
                     $emoji = $terrainType ? $terrainType->emoji : '';
                     $terrainName = $terrainType ? htmlspecialchars($terrainType->name) : '—';
 
@@ -371,7 +424,7 @@ $dateRange = formatTournamentDateRange(
                         $p2ScoreClass = '';
                     }
                 ?>
-                <div class="<?= $rowClass ?>">
+                <div class="<?= $rowClass ?>" data-pairing="<?= (int) $allocation->player1Id ?>-<?= (int) $allocation->player2Id ?>">
                     <?php if ($isBye): ?>
                         <!-- Bye Row -->
                         <div class="tc-table-info">
@@ -402,12 +455,12 @@ $dateRange = formatTournamentDateRange(
                         <div class="tc-table-info">
                             <span class="tc-table-number"><?= $tableNumber ?></span>
                             <?php if ($emoji): ?>
-                            <span class="tc-terrain-emoji"><?= $emoji ?></span>
+                            <span class="tc-terrain-emoji"><?= htmlspecialchars($emoji) ?></span>
                             <?php endif; ?>
                         </div>
                         <div class="tc-terrain-name">
                             <?php if ($emoji): ?>
-                            <span><?= $emoji ?></span>
+                            <span><?= htmlspecialchars($emoji) ?></span>
                             <?php endif; ?>
                             <span><?= $terrainName ?></span>
                         </div>
@@ -536,6 +589,7 @@ $dateRange = formatTournamentDateRange(
             </footer>
         </main>
     </div>
+    <div class="tc-live-notice" id="live-notice" role="status" aria-live="polite" hidden></div>
     <script src="/js/date-localization.js"></script>
     <script>
         (function () {
@@ -556,6 +610,398 @@ $dateRange = formatTournamentDateRange(
                 });
             });
         })();
+
+        // Live updates: swap in the re-rendered page when a round is published
+        // or the allocations on screen change, highlighting the changed rows
+        (function () {
+            if (typeof EventSource === 'undefined' || typeof DOMParser === 'undefined') {
+                return;
+            }
+
+            var tournamentId = <?= (int) $tournament->id ?>;
+            var followsLatestRound = <?= $followsLatestRound ? 'true' : 'false' ?>;
+            var notice = document.getElementById('live-notice');
+            var noticeTimer = null;
+            var pending = Promise.resolve();
+
+            function displayedRound() {
+                var main = document.querySelector('.tc-main');
+                var value = main ? main.getAttribute('data-round-number') : '';
+                return value ? parseInt(value, 10) : null;
+            }
+
+            function isLeaderboardView() {
+                return document.body.classList.contains('leaderboard-active');
+            }
+
+            function rowsByPairing() {
+                var rows = {};
+                document.querySelectorAll('.tc-match-row[data-pairing]').forEach(function (row) {
+                    rows[row.getAttribute('data-pairing')] = row.innerHTML;
+                });
+                return rows;
+            }
+
+            function showNotice(message) {
+                notice.textContent = message;
+                notice.hidden = false;
+                clearTimeout(noticeTimer);
+                noticeTimer = setTimeout(function () {
+                    notice.hidden = true;
+                }, 8000);
+            }
+
+            function refresh(message, highlightChanges) {
+                pending = pending.then(function () {
+                    return fetch(window.location.href, { headers: { 'Accept': 'text/html' } })
+                        .then(function (response) {
+                            if (!response.ok) {
+                                throw new Error('HTTP ' + response.status);
+                            }
+                            return response.text();
+                        })
+                        .then(function (html) {
+                            var next = new DOMParser().parseFromString(html, 'text/html');
+                            var nextLayout = next.querySelector('.tc-layout');
+                            if (!nextLayout) {
+                                return;
+                            }
+
+                            var before = rowsByPairing();
+                            document.querySelector('.tc-layout').replaceWith(document.importNode(nextLayout, true));
+                            document.title = next.title;
+                            document.body.className = next.body.className;
+                            if (window.localizeDateRanges) {
+                                window.localizeDateRanges();
+                            }
+                            document.dispatchEvent(new CustomEvent('tc:page-updated'));
+
+                            if (highlightChanges) {
+                                document.querySelectorAll('.tc-match-row[data-pairing]').forEach(function (row) {
+                                    if (before[row.getAttribute('data-pairing')] !== row.innerHTML) {
+                                        row.classList.add('tc-match-row-changed');
+                                    }
+                                });
+                            }
+                            showNotice(message);
+                        })
+                        .catch(function () {
+                            // The next event or a reload shows the change
+                        });
+                });
+            }
+
+            function connect() {
+                var source = new EventSource(
+                    '/api/public/tournaments/' + tournamentId + '/events?since=' + encodeURIComponent(<?= json_encode($liveState) ?>)
+                );
+                source.addEventListener('round-published', onRoundPublished);
+                source.addEventListener('allocations-changed', onAllocationsChanged);
+            }
+
+            function onRoundPublished(event) {
+                var roundNumber = JSON.parse(event.data).roundNumber;
+
+                if (followsLatestRound && !isLeaderboardView() && roundNumber > (displayedRound() || 0)) {
+                    var url = new URL(window.location.href);
+                    if (url.searchParams.has('round')) {
+                        url.searchParams.set('round', String(roundNumber));
+                        window.history.replaceState(null, '', url.toString());
+                    }
+                }
+                refresh('Round ' + roundNumber + ' is published', false);
+            }
+
+            function onAllocationsChanged(event) {
+                var roundNumber = JSON.parse(event.data).roundNumber;
+
+                if (isLeaderboardView()) {
+                    refresh('Round ' + roundNumber + ' results updated', false);
+                } else if (roundNumber === displayedRound()) {
+                    refresh('Round ' + roundNumber + ' tables updated', true);
+                }
+            }
+
+            // Connect once the page has settled rather than keep it looking busy
+            // while loading; the since token covers the gap
+            window.addEventListener('load', function () {
+                setTimeout(connect, 2000);
+            });
+        })();
+
+        // Find my table: search players by name or BCP player ID and pin one,
+        // remembered per tournament so the card follows them across rounds
+        (function () {
+            if (typeof fetch === 'undefined') {
+                return;
+            }
+
+            var tournamentId = <?= (int) $tournament->id ?>;
+            var apiBase = '/api/public/tournaments/' + tournamentId + '/players';
+            var storageKey = 'tournament-tables:pinned-player:' + tournamentId;
+            var searchTimer = null;
+            var searchSequence = 0;
+
+            // Looked up on use: live updates replace the page content
+            function byId(id) {
+                return document.getElementById(id);
+            }
+
+            function node(tag, className, text) {
+                var element = document.createElement(tag);
+                if (className) {
+                    element.className = className;
+                }
+                if (text !== undefined && text !== null) {
+                    element.textContent = String(text);
+                }
+                return element;
+            }
+
+            function readPin() {
+                try {
+                    var value = window.localStorage.getItem(storageKey);
+                    return value ? parseInt(value, 10) : null;
+                } catch (e) {
+                    return null;
+                }
+            }
+
+            function writePin(playerId) {
+                try {
+                    if (playerId === null) {
+                        window.localStorage.removeItem(storageKey);
+                    } else {
+                        window.localStorage.setItem(storageKey, String(playerId));
+                    }
+                } catch (e) {
+                    // Private browsing: the pin lasts until the page is left
+                }
+            }
+
+            function getJson(url) {
+                return fetch(url, { headers: { 'Accept': 'application/json' } }).then(function (response) {
+                    return response.json().then(function (body) {
+                        return { status: response.status, body: body };
+                    });
+                });
+            }
+
+            function describeTable(entry) {
+                if (entry.isBye) {
+                    return 'Bye';
+                }
+                var parts = ['Table ' + entry.tableNumber];
+                if (entry.terrainType) {
+                    parts.push((entry.terrainEmoji ? entry.terrainEmoji + ' ' : '') + entry.terrainType);
+                }
+                return parts.join(' · ');
+            }
+
+            function describeOpponent(entry) {
+                if (!entry.opponent) {
+                    return 'No opponent';
+                }
+                return 'vs ' + entry.opponent.name + (entry.opponent.faction ? ' (' + entry.opponent.faction + ')' : '');
+            }
+
+            function showMessage(text) {
+                var message = byId('find-table-message');
+                if (!message) {
+                    return;
+                }
+                message.textContent = text || '';
+                message.hidden = !text;
+            }
+
+            function clearResults() {
+                var results = byId('find-table-results');
+                if (results) {
+                    results.innerHTML = '';
+                    results.hidden = true;
+                }
+            }
+
+            function renderResults(players) {
+                var results = byId('find-table-results');
+                if (!results) {
+                    return;
+                }
+                results.innerHTML = '';
+                players.forEach(function (player) {
+                    var button = node('button', 'tc-find-table-result');
+                    button.type = 'button';
+                    button.setAttribute('data-pin-player', String(player.id));
+                    button.appendChild(node('span', 'tc-player-name', player.name));
+                    if (player.faction) {
+                        button.appendChild(node('span', 'tc-faction-pill', player.faction));
+                    }
+                    button.appendChild(node(
+                        'span',
+                        'tc-find-table-result-table',
+                        player.currentRound ? describeTable(player.currentRound) : 'Not in this round'
+                    ));
+                    var item = node('li');
+                    item.appendChild(button);
+                    results.appendChild(item);
+                });
+                results.hidden = players.length === 0;
+                showMessage(players.length === 0 ? 'No players found' : '');
+            }
+
+            function search(query) {
+                var sequence = ++searchSequence;
+                getJson(apiBase + '?q=' + encodeURIComponent(query))
+                    .then(function (result) {
+                        if (sequence !== searchSequence) {
+                            return;
+                        }
+                        if (result.status !== 200) {
+                            clearResults();
+                            showMessage(result.body.message || 'Search failed');
+                            return;
+                        }
+                        renderResults(result.body.players);
+                    })
+                    .catch(function () {
+                        if (sequence === searchSequence) {
+                            showMessage('Search failed');
+                        }
+                    });
+            }
+
+            function highlightRows(playerId) {
+                document.querySelectorAll('.tc-match-row[data-pairing]').forEach(function (row) {
+                    var ids = row.getAttribute('data-pairing').split('-');
+                    row.classList.toggle('tc-match-row-pinned', playerId !== null && ids.indexOf(String(playerId)) !== -1);
+                });
+                // The same pairing on the venue floor map
+                document.querySelectorAll('.tc-floor-table[data-pairing]').forEach(function (table) {
+                    var ids = table.getAttribute('data-pairing').split('-');
+                    table.classList.toggle('tc-floor-table-pinned', playerId !== null && ids.indexOf(String(playerId)) !== -1);
+                });
+            }
+
+            function renderCard(data) {
+                var card = byId('find-table-card');
+                if (!card) {
+                    return;
+                }
+                card.innerHTML = '';
+
+                var header = node('div', 'tc-find-table-card-header');
+                header.appendChild(node('span', 'tc-player-name', data.player.name));
+                if (data.player.faction) {
+                    header.appendChild(node('span', 'tc-faction-pill', data.player.faction));
+                }
+                var unpin = node('button', 'tc-find-table-unpin', 'Unpin');
+                unpin.type = 'button';
+                unpin.setAttribute('data-unpin-player', '');
+                header.appendChild(unpin);
+                card.appendChild(header);
+
+                var current = node('div', 'tc-find-table-current');
+                current.setAttribute('data-testid', 'pinned-player-current');
+                if (data.currentRound) {
+                    current.appendChild(node('span', 'tc-find-table-round', 'Round ' + data.currentRound.roundNumber));
+                    current.appendChild(node('span', 'tc-find-table-where', describeTable(data.currentRound)));
+                    current.appendChild(node('span', 'tc-find-table-opponent', describeOpponent(data.currentRound)));
+                } else {
+                    current.appendChild(node('span', 'tc-find-table-where', 'Not playing in the current round'));
+                }
+                card.appendChild(current);
+
+                if (data.history.length > 0) {
+                    var history = node('ol', 'tc-find-table-history');
+                    data.history.forEach(function (entry) {
+                        var item = node(
+                            'li',
+                            null,
+                            'Round ' + entry.roundNumber + ': ' + describeTable(entry) + ', ' + describeOpponent(entry)
+                                + (entry.opponent ? ' ' + entry.score + '–' + entry.opponentScore : '')
+                        );
+                        item.setAttribute('data-testid', 'pinned-player-history');
+                        history.appendChild(item);
+                    });
+                    card.appendChild(history);
+                }
+                card.hidden = false;
+            }
+
+            function showPinned() {
+                var playerId = readPin();
+                highlightRows(playerId);
+                var card = byId('find-table-card');
+                if (playerId === null) {
+                    if (card) {
+                        card.hidden = true;
+                        card.innerHTML = '';
+                    }
+                    return;
+                }
+
+                getJson(apiBase + '/' + playerId)
+                    .then(function (result) {
+                        if (result.status === 404) {
+                            // Removed from the tournament
+                            writePin(null);
+                            showPinned();
+                            return;
+                        }
+                        if (result.status === 200 && readPin() === playerId) {
+                            renderCard(result.body);
+                        }
+                    })
+                    .catch(function () {
+                        // Keep the pin; the next page load tries again
+                    });
+            }
+
+            document.addEventListener('submit', function (event) {
+                if (event.target && event.target.id === 'find-table-form') {
+                    event.preventDefault();
+                }
+            });
+
+            document.addEventListener('input', function (event) {
+                if (!event.target || event.target.id !== 'find-table-query') {
+                    return;
+                }
+                var query = event.target.value.trim();
+                clearTimeout(searchTimer);
+                if (query.length < 2) {
+                    searchSequence++;
+                    clearResults();
+                    showMessage('');
+                    return;
+                }
+                searchTimer = setTimeout(function () {
+                    search(query);
+                }, 250);
+            });
+
+            document.addEventListener('click', function (event) {
+                var pinButton = event.target.closest ? event.target.closest('[data-pin-player]') : null;
+                if (pinButton) {
+                    writePin(parseInt(pinButton.getAttribute('data-pin-player'), 10));
+                    var input = byId('find-table-query');
+                    if (input) {
+                        input.value = '';
+                    }
+                    clearResults();
+                    showMessage('');
+                    showPinned();
+                    return;
+                }
+                if (event.target.closest && event.target.closest('[data-unpin-player]')) {
+                    writePin(null);
+                    showPinned();
+                }
+            });
+
+            document.addEventListener('tc:page-updated', showPinned);
+            showPinned();
+        })();
     </script>
 </body>
 </html>
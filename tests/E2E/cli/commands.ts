@@ -0,0 +1,313 @@
+import * as fs from 'fs';
+import type { AllocationEditResult, Conflict, Table, TournamentTablesClient } from '../sdk';
+import { analyzeAllocations, collectTournament } from '../report/quality';
+import { formatQualityReport, renderQualityHtml } from '../report/render';
+import { CliUsageError, saveToken } from './config';
+import {
+  countConflicts,
+  formatAllocations,
+  formatConflicts,
+  formatRoundSummary,
+  renderTable,
+} from './format';
+
+/**
+ * CLI commands. Each command returns the raw API data (printed as-is with
+ * --json) and the human-readable lines printed otherwise.
+ */
+
+export interface CommandOptions {
+  tables?: string;
+  /** File to write the HTML quality report to. */
+  html?: string;
+  save: boolean;
+  generate: boolean;
+}
+
+export interface CommandContext {
+  client: TournamentTablesClient;
+  /** Positional arguments after the command name. */
+  args: string[];
+  options: CommandOptions;
+  configPath: string;
+  /** Resolves the admin token for a tournament (flag, env or config). */
+  adminToken(tournamentId: number): string;
+}
+
+export interface CommandResult {
+  data: unknown;
+  lines: string[];
+}
+
+export interface Command {
+  usage: string;
+  description: string;
+  run(ctx: CommandContext): Promise<CommandResult>;
+}
+
+/**
+ * Reads a positive integer positional argument.
+ */
+function intArg(ctx: CommandContext, index: number, name: string): number {
+  const raw = ctx.args[index];
+  const value = Number(raw);
+  if (raw === undefined || !Number.isInteger(value) || value < 1) {
+    throw new CliUsageError(`<${name}> must be a positive integer${raw === undefined ? '' : `, got "${raw}"`}`);
+  }
+  return value;
+}
+
+function tableNumberById(tables: Table[]): Map<number, number> {
+  return new Map(tables.map((table) => [table.id, table.tableNumber]));
+}
+
+function formatEditConflicts(conflicts: Conflict[]): string[] {
+  return conflicts.map((conflict) => `  ${conflict.type}: ${conflict.message}`);
+}
+
+function describeEdit(result: AllocationEditResult, tableNumbers: Map<number, number>): string {
+  const table = result.tableId === null ? 'no table' : `table ${tableNumbers.get(result.tableId) ?? `#${result.tableId}`}`;
+  const conflicts = result.conflicts.length === 0 ? 'no conflicts' : `${result.conflicts.length} conflicts`;
+  return `Allocation ${result.id} is now on ${table} (${conflicts})`;
+}
+
+export const commands: Record<string, Command> = {
+  create: {
+    usage: 'create <bcpUrl> [--tables N] [--no-save]',
+    description: 'Create a tournament from a BCP event URL and save its admin token',
+    async run(ctx) {
+      const bcpUrl = ctx.args[0];
+      if (!bcpUrl) {
+        throw new CliUsageError('<bcpUrl> is required');
+      }
+      const tableCount = ctx.options.tables === undefined ? undefined : Number(ctx.options.tables);
+      if (tableCount !== undefined && (!Number.isInteger(tableCount) || tableCount < 1)) {
+        throw new CliUsageError(`--tables must be a positive integer, got "${ctx.options.tables}"`);
+      }
+
+      const result = await ctx.client.createTournament({ bcpUrl, tableCount });
+      const { tournament, adminToken, autoImport } = result;
+
+      const lines = [
+        `Created tournament ${tournament.id}: ${tournament.name}`,
+        `Admin token: ${adminToken}`,
+      ];
+      if (autoImport?.success) {
+        lines.push(
+          `Round 1 imported: ${autoImport.pairingsImported} pairings on ${autoImport.tableCount} tables`
+        );
+      } else if (autoImport) {
+        lines.push(`Round 1 not imported: ${autoImport.error ?? 'unknown error'}`);
+      }
+      if (ctx.options.save) {
+        saveToken(ctx.configPath, tournament.id, adminToken);
+        lines.push(`Token saved to ${ctx.configPath}`);
+      }
+
+      return { data: result, lines };
+    },
+  },
+
+  import: {
+    usage: 'import <tournamentId> <round> [--no-generate]',
+    description: 'Import pairings from BCP (rounds 2+ also generate allocations)',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+      const roundNumber = intArg(ctx, 1, 'round');
+
+      const result = await ctx.client.importPairings(
+        tournamentId,
+        roundNumber,
+        ctx.adminToken(tournamentId),
+        ctx.options.generate ? {} : { generateAllocations: false }
+      );
+
+      const lines = [
+        `${result.message} (${result.pairingsImported} pairings, ${result.playersImported} players)`,
+      ];
+      if (result.allocations) {
+        lines.push('', formatRoundSummary(roundNumber, result.allocations), '');
+        lines.push(...formatAllocations(result.allocations));
+        lines.push('', ...formatConflicts(result.allocations));
+      }
+
+      return { data: result, lines };
+    },
+  },
+
+  generate: {
+    usage: 'generate <tournamentId> <round>',
+    description: 'Regenerate table allocations for a round',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+      const roundNumber = intArg(ctx, 1, 'round');
+
+      const result = await ctx.client.generateAllocations(
+        tournamentId,
+        roundNumber,
+        ctx.adminToken(tournamentId)
+      );
+
+      return {
+        data: result,
+        lines: [
+          formatRoundSummary(roundNumber, result.allocations),
+          result.summary,
+          '',
+          ...formatAllocations(result.allocations),
+          '',
+          ...formatConflicts(result.allocations),
+        ],
+      };
+    },
+  },
+
+  round: {
+    usage: 'round <tournamentId> <round>',
+    description: 'Show allocations and conflicts for a round',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+      const roundNumber = intArg(ctx, 1, 'round');
+
+      const round = await ctx.client.getRound(tournamentId, roundNumber, ctx.adminToken(tournamentId));
+
+      return {
+        data: round,
+        lines: [
+          formatRoundSummary(round.roundNumber, round.allocations, round.isPublished),
+          '',
+          ...formatAllocations(round.allocations),
+          '',
+          ...formatConflicts(round.allocations),
+        ],
+      };
+    },
+  },
+
+  conflicts: {
+    usage: 'conflicts <tournamentId> <round>',
+    description: 'List only the conflicts for a round',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+      const roundNumber = intArg(ctx, 1, 'round');
+
+      const round = await ctx.client.getRound(tournamentId, roundNumber, ctx.adminToken(tournamentId));
+
+      return {
+        data: {
+          roundNumber: round.roundNumber,
+          counts: countConflicts(round.conflicts),
+          conflicts: round.conflicts,
+        },
+        lines: formatConflicts(round.allocations),
+      };
+    },
+  },
+
+  move: {
+    usage: 'move <tournamentId> <allocationId> <tableNumber>',
+    description: 'Move a pairing to another table',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+      const allocationId = intArg(ctx, 1, 'allocationId');
+      const tableNumber = intArg(ctx, 2, 'tableNumber');
+      const adminToken = ctx.adminToken(tournamentId);
+
+      const { tables } = await ctx.client.getTournament(tournamentId, adminToken);
+      const table = tables.find((candidate) => candidate.tableNumber === tableNumber);
+      if (!table) {
+        throw new CliUsageError(`Tournament ${tournamentId} has no table ${tableNumber}`);
+      }
+
+      const result = await ctx.client.updateAllocation(allocationId, table.id, adminToken);
+
+      return {
+        data: result,
+        lines: [describeEdit(result, tableNumberById(tables)), ...formatEditConflicts(result.conflicts)],
+      };
+    },
+  },
+
+  swap: {
+    usage: 'swap <tournamentId> <allocationId1> <allocationId2>',
+    description: 'Swap the tables of two pairings',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+      const allocationId1 = intArg(ctx, 1, 'allocationId1');
+      const allocationId2 = intArg(ctx, 2, 'allocationId2');
+      const adminToken = ctx.adminToken(tournamentId);
+
+      const result = await ctx.client.swapAllocations(allocationId1, allocationId2, adminToken);
+      const { tables } = await ctx.client.getTournament(tournamentId, adminToken);
+      const tableNumbers = tableNumberById(tables);
+
+      return {
+        data: result,
+        lines: [
+          describeEdit(result.allocation1, tableNumbers),
+          ...formatEditConflicts(result.allocation1.conflicts),
+          describeEdit(result.allocation2, tableNumbers),
+          ...formatEditConflicts(result.allocation2.conflicts),
+        ],
+      };
+    },
+  },
+
+  publish: {
+    usage: 'publish <tournamentId> <round>',
+    description: 'Publish a round to the public page',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+      const roundNumber = intArg(ctx, 1, 'round');
+
+      const result = await ctx.client.publishRound(tournamentId, roundNumber, ctx.adminToken(tournamentId));
+
+      return { data: result, lines: [result.message] };
+    },
+  },
+
+  report: {
+    usage: 'report <tournamentId> [--html FILE]',
+    description: 'Allocation quality report over every round (repeats, score order, BCP moves)',
+    async run(ctx) {
+      const tournamentId = intArg(ctx, 0, 'tournamentId');
+
+      const { details, rounds, terrainTypes } = await collectTournament(
+        ctx.client,
+        tournamentId,
+        ctx.adminToken(tournamentId)
+      );
+      const report = analyzeAllocations(details, rounds, { terrainTypes });
+
+      const lines = formatQualityReport(report);
+      if (ctx.options.html !== undefined) {
+        fs.writeFileSync(ctx.options.html, renderQualityHtml(report));
+        lines.push('', `HTML report written to ${ctx.options.html}`);
+      }
+
+      return { data: report, lines };
+    },
+  },
+};
+
+/**
+ * Help text listing every command.
+ */
+export function formatHelp(): string[] {
+  return [
+    'Usage: tournament-tables <command> [args] [options]',
+    '',
+    'Commands:',
+    ...renderTable(
+      ['Command', 'Description'],
+      Object.values(commands).map((command) => [command.usage, command.description])
+    ).slice(2).map((line) => `  ${line}`),
+    '',
+    'Options:',
+    '  --url <url>       API base URL (env TT_BASE_URL, default http://localhost:8080)',
+    '  --token <token>   Admin token (env TT_ADMIN_TOKEN, or saved per tournament in the config file)',
+    '  --config <path>   Config file (env TT_CONFIG, default ~/.tournament-tables.json)',
+    '  --json            Print raw JSON for scripting',
+    '  -h, --help        Show this help',
+  ];
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * CLI configuration.
+ *
+ * Settings are resolved in this order (first wins):
+ *   1. command-line flags (--url, --token)
+ *   2. environment (TT_BASE_URL, TT_ADMIN_TOKEN)
+ *   3. config file (--config, TT_CONFIG or ~/.tournament-tables.json)
+ *   4. defaults
+ *
+ * The config file stores one admin token per tournament, so `create` can save
+ * the new token and later commands only need the tournament ID:
+ *
+ *   { "baseUrl": "http://localhost:8080", "tokens": { "12": "AbCdEfGh12345678" } }
+ */
+
+export const DEFAULT_BASE_URL = 'http://localhost:8080';
+
+export const DEFAULT_CONFIG_FILE = path.join(os.homedir(), '.tournament-tables.json');
+
+export interface CliConfig {
+  baseUrl?: string;
+  /** Admin tokens keyed by tournament ID. */
+  tokens?: Record<string, string>;
+}
+
+/**
+ * Raised for problems the user can fix (bad arguments, missing token...).
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Resolves the config file path from the --config flag or TT_CONFIG.
+ */
+export function resolveConfigPath(flag: string | undefined, env: NodeJS.ProcessEnv): string {
+  return flag ?? env.TT_CONFIG ?? DEFAULT_CONFIG_FILE;
+}
+
+/**
+ * Reads the config file. A missing file is an empty config.
+ */
+export function loadConfig(configPath: string): CliConfig {
+  if (!fs.existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+    return parsed as CliConfig;
+  } catch (err) {
+    throw new CliUsageError(`Invalid config file ${configPath}: ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Stores the admin token for a tournament in the config file.
+ * The file is created with owner-only permissions since tokens grant admin access.
+ */
+export function saveToken(configPath: string, tournamentId: number, adminToken: string): void {
+  const config = loadConfig(configPath);
+  config.tokens = { ...config.tokens, [String(tournamentId)]: adminToken };
+
+  fs.mkdirSync(path.dirname(configPath), { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Resolves the API base URL.
+ */
+export function resolveBaseUrl(
+  flag: string | undefined,
+  env: NodeJS.ProcessEnv,
+  config: CliConfig
+): string {
+  return flag ?? env.TT_BASE_URL ?? config.baseUrl ?? DEFAULT_BASE_URL;
+}
+
+/**
+ * Resolves the admin token for a tournament.
+ */
+export function resolveAdminToken(
+  tournamentId: number,
+  flag: string | undefined,
+  env: NodeJS.ProcessEnv,
+  config: CliConfig
+): string {
+  const token = flag ?? env.TT_ADMIN_TOKEN ?? config.tokens?.[String(tournamentId)];
+  if (!token) {
+    throw new CliUsageError(
+      `No admin token for tournament ${tournamentId}. ` +
+        'Pass --token, set TT_ADMIN_TOKEN or save it in the config file.'
+    );
+  }
+  return token;
+}
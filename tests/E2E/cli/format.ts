@@ -0,0 +1,119 @@
+import type { Allocation, AllocationPlayer, Conflict, ConflictType } from '../sdk';
+
+/**
+ * Plain-text rendering for CLI output.
+ */
+
+/**
+ * Renders rows as left-aligned columns separated by two spaces.
+ */
+export function renderTable(headers: string[], rows: string[][]): string[] {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? '').length))
+  );
+
+  const line = (cells: string[]): string =>
+    cells
+      .map((cell, i) => (i === cells.length - 1 ? cell : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd();
+
+  return [line(headers), line(widths.map((w) => '-'.repeat(w))), ...rows.map(line)];
+}
+
+function playerName(player: AllocationPlayer | null): string {
+  return player?.name ?? '-';
+}
+
+function pairingLabel(allocation: Allocation): string {
+  if (allocation.isBye || allocation.player2 === null) {
+    return `${playerName(allocation.player1)} (bye)`;
+  }
+  return `${playerName(allocation.player1)} vs ${playerName(allocation.player2)}`;
+}
+
+/**
+ * Allocation table: one row per pairing, sorted by table number (byes last).
+ */
+export function formatAllocations(allocations: Allocation[]): string[] {
+  if (allocations.length === 0) {
+    return ['No allocations.'];
+  }
+
+  const sorted = [...allocations].sort(
+    (a, b) => (a.tableNumber ?? Number.MAX_SAFE_INTEGER) - (b.tableNumber ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  const rows = sorted.map((allocation) => [
+    allocation.tableNumber === null ? '-' : String(allocation.tableNumber),
+    allocation.terrainType ?? '-',
+    playerName(allocation.player1),
+    String(allocation.player1.score),
+    allocation.isBye || allocation.player2 === null ? '(bye)' : playerName(allocation.player2),
+    allocation.player2 === null ? '' : String(allocation.player2.score),
+    String(allocation.id),
+    allocation.conflicts.map((conflict) => conflict.type).join(', '),
+  ]);
+
+  return renderTable(
+    ['Table', 'Terrain', 'Player 1', 'Pts', 'Player 2', 'Pts', 'Alloc', 'Conflicts'],
+    rows
+  );
+}
+
+/**
+ * Conflict list with the table and pairing each conflict belongs to.
+ */
+export function formatConflicts(allocations: Allocation[]): string[] {
+  const rows = allocations.flatMap((allocation) =>
+    allocation.conflicts.map((conflict) => [
+      allocation.tableNumber === null ? '-' : String(allocation.tableNumber),
+      pairingLabel(allocation),
+      conflict.type,
+      conflict.message,
+    ])
+  );
+
+  if (rows.length === 0) {
+    return ['No conflicts.'];
+  }
+
+  return [`Conflicts (${rows.length}):`, ...renderTable(['Table', 'Pairing', 'Type', 'Message'], rows)];
+}
+
+/**
+ * Counts conflicts by type, e.g. { TABLE_REUSE: 2 }.
+ */
+export function countConflicts(conflicts: Conflict[]): Partial<Record<ConflictType, number>> {
+  const counts: Partial<Record<ConflictType, number>> = {};
+  for (const conflict of conflicts) {
+    counts[conflict.type] = (counts[conflict.type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * One-line round summary: pairings, byes, conflicts by type and publish state.
+ */
+export function formatRoundSummary(
+  roundNumber: number,
+  allocations: Allocation[],
+  isPublished?: boolean
+): string {
+  const byes = allocations.filter((allocation) => allocation.isBye).length;
+  const conflicts = allocations.flatMap((allocation) => allocation.conflicts);
+  const counts = Object.entries(countConflicts(conflicts))
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+
+  const parts = [
+    `${allocations.length - byes} pairings`,
+    ...(byes > 0 ? [`${byes} bye${byes === 1 ? '' : 's'}`] : []),
+    conflicts.length === 0
+      ? 'no conflicts'
+      : `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'} (${counts})`,
+  ];
+  const state = isPublished === undefined ? '' : isPublished ? ' [published]' : ' [draft]';
+
+  return `Round ${roundNumber}${state}: ${parts.join(', ')}`;
+}
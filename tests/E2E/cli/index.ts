@@ -0,0 +1,159 @@
+import { parseArgs } from 'util';
+import { ApiError, FetchLike, TournamentTablesClient } from '../sdk';
+import { commands, formatHelp } from './commands';
+import {
+  CliUsageError,
+  loadConfig,
+  resolveAdminToken,
+  resolveBaseUrl,
+  resolveConfigPath,
+} from './config';
+
+/**
+ * Command-line organizer tool.
+ *
+ * Drives the round lifecycle from a terminal using the API client:
+ *
+ *   npm run cli -- create https://www.bestcoastpairings.com/event/abc123
+ *   npm run cli -- import 12 2
+ *   npm run cli -- round 12 2
+ *   npm run cli -- swap 12 41 44
+ *   npm run cli -- publish 12 2
+ *   npm run cli -- report 12 --html report.html
+ *
+ * Exit codes: 0 success, 1 API error, 2 usage error.
+ */
+
+export interface CliIo {
+  stdout(line: string): void;
+  stderr(line: string): void;
+  env: NodeJS.ProcessEnv;
+  /** HTTP implementation; defaults to global fetch. */
+  fetch?: FetchLike;
+}
+
+const EXIT_OK = 0;
+const EXIT_API_ERROR = 1;
+const EXIT_USAGE = 2;
+
+function parseCliArgs(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        url: { type: 'string' },
+        token: { type: 'string' },
+        config: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        tables: { type: 'string' },
+        html: { type: 'string' },
+        'no-save': { type: 'boolean', default: false },
+        'no-generate': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (err) {
+    throw new CliUsageError((err as Error).message);
+  }
+}
+
+function reportError(err: unknown, json: boolean, io: CliIo): number {
+  if (err instanceof CliUsageError) {
+    if (json) {
+      io.stderr(JSON.stringify({ error: { code: 'USAGE', message: err.message } }, null, 2));
+    } else {
+      io.stderr(`Error: ${err.message}`);
+      io.stderr('Run with --help for usage.');
+    }
+    return EXIT_USAGE;
+  }
+
+  if (err instanceof ApiError) {
+    if (json) {
+      const { status, error, code, message, fields, details } = err;
+      io.stderr(JSON.stringify({ error: { status, error, code, message, fields, details } }, null, 2));
+    } else {
+      io.stderr(`Error [${err.code}]: ${err.message}`);
+      for (const [field, messages] of Object.entries(err.fields)) {
+        for (const message of messages) {
+          io.stderr(`  ${field}: ${message}`);
+        }
+      }
+      if (Object.keys(err.details).length > 0) {
+        io.stderr(`  details: ${JSON.stringify(err.details)}`);
+      }
+    }
+    return EXIT_API_ERROR;
+  }
+
+  throw err;
+}
+
+/**
+ * Runs the CLI and returns the exit code.
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+  let json = argv.includes('--json');
+
+  try {
+    const { values, positionals } = parseCliArgs(argv);
+    json = values.json;
+    const [name, ...args] = positionals;
+
+    if (values.help || name === undefined || name === 'help') {
+      formatHelp().forEach((line) => io.stdout(line));
+      return EXIT_OK;
+    }
+
+    const command = commands[name];
+    if (!command) {
+      throw new CliUsageError(`Unknown command "${name}"`);
+    }
+
+    const configPath = resolveConfigPath(values.config, io.env);
+    const config = loadConfig(configPath);
+    const client = new TournamentTablesClient({
+      baseUrl: resolveBaseUrl(values.url, io.env, config),
+      fetch: io.fetch,
+    });
+
+    const result = await command.run({
+      client,
+      args,
+      options: {
+        tables: values.tables,
+        html: values.html,
+        save: !values['no-save'],
+        generate: !values['no-generate'],
+      },
+      configPath,
+      adminToken: (tournamentId) => resolveAdminToken(tournamentId, values.token, io.env, config),
+    });
+
+    if (json) {
+      io.stdout(JSON.stringify(result.data, null, 2));
+    } else {
+      result.lines.forEach((line) => io.stdout(line));
+    }
+    return EXIT_OK;
+  } catch (err) {
+    return reportError(err, json, io);
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2), {
+    stdout: (line) => process.stdout.write(line + '\n'),
+    stderr: (line) => process.stderr.write(line + '\n'),
+    env: process.env,
+  }).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (err: unknown) => {
+      process.stderr.write(`${(err as Error).stack ?? err}\n`);
+      process.exitCode = EXIT_API_ERROR;
+    }
+  );
+}
@@ -0,0 +1,85 @@
+import type { AllocationSpec, PlayerSpec, TableSpec, TournamentSpec } from '../helpers/fixture-builder';
+
+/**
+ * Fixture data for allocation-editing E2E tests.
+ *
+ * A complete scenario for table allocation edits, including conflict
+ * detection for table collisions and table reuse:
+ * - 8 tables (1-4 Volkus, 5-8 Tomb World)
+ * - 16 players across 8 pairings per round
+ * - Round 1: original allocations
+ * - Round 2: shuffled to create terrain reuse warnings and enable TABLE_REUSE via swap
+ *
+ * To trigger TABLE_REUSE: swap Table 4 and Table 7 in Round 2
+ *   - Table 4 has p13/p14 who were on Table 7 in R1
+ *   - Table 7 has p7/p8 who were on Table 4 in R1
+ */
+
+export const editingTables: TableSpec[] = [
+  ...Array.from({ length: 4 }, () => ({ terrain: 'Volkus' })),
+  ...Array.from({ length: 4 }, () => ({ terrain: 'Tomb World' })),
+];
+
+export const editingPlayers: PlayerSpec[] = [
+  { key: 'p1', name: 'Alice Smith', score: 20, faction: 'Corsair Voidscarred', placing: 1 },
+  { key: 'p2', name: 'Bob Jones', score: 18, faction: 'Nemesis Claw', placing: 2 },
+  { key: 'p3', name: 'Charlie Brown', score: 16, faction: 'Blades of Khaine', placing: 3 },
+  { key: 'p4', name: 'Diana Prince', score: 14, faction: 'Warpcoven', placing: 4 },
+  { key: 'p5', name: 'Edward Stone', score: 12, faction: 'Pathfinders', placing: 5 },
+  { key: 'p6', name: 'Fiona Green', score: 10, faction: 'Legionaries', placing: 6 },
+  { key: 'p7', name: 'George White', score: 8, faction: 'Kommandos', placing: 7 },
+  { key: 'p8', name: 'Hannah Black', score: 6, faction: 'Intercession Squad', placing: 8 },
+  { key: 'p9', name: 'Ivan Red', score: 5, faction: 'Hand of the Archon', placing: 9 },
+  { key: 'p10', name: 'Julia Blue', score: 4, faction: 'Kasrkin', placing: 10 },
+  { key: 'p11', name: 'Kevin Yellow', score: 3, faction: 'Hierotek Circle', placing: 11 },
+  { key: 'p12', name: 'Laura Purple', score: 2, faction: 'Void-Dancer Troupe', placing: 12 },
+  { key: 'p13', name: 'Mike Orange', score: 1, faction: 'Hunter Clade', placing: 13 },
+  { key: 'p14', name: 'Nancy Pink', score: 1, faction: 'Wyrmblade', placing: 14 },
+  { key: 'p15', name: 'Oscar Grey', score: 0, faction: 'Farstalker Kinband', placing: 15 },
+  { key: 'p16', name: 'Paula Silver', score: 0, faction: 'Phobos Strike Team', placing: 16 },
+];
+
+/**
+ * Round 1: p1 vs p2 on table 1, p3 vs p4 on table 2, ... p15 vs p16 on table 8.
+ */
+export const editingRound1: AllocationSpec[] = Array.from({ length: 8 }, (_, index) => ({
+  table: index + 1,
+  player1: `p${index * 2 + 1}`,
+  player2: `p${index * 2 + 2}`,
+}));
+
+function terrainReuse(names: [string, string], terrain: string): AllocationSpec['conflicts'] {
+  return names.map((name) => ({ type: 'TERRAIN_REUSE' as const, message: `${name} already played on ${terrain} terrain` }));
+}
+
+/**
+ * Round 2 (BCP tables 1-8 in order):
+ * - Table 1 (Volkus): p3 vs p4 (were on Table 2 Volkus - TERRAIN_REUSE)
+ * - Table 2 (Volkus): p5 vs p6 (were on Table 3 Volkus - TERRAIN_REUSE)
+ * - Table 3 (Volkus): p9 vs p10 (were on Table 5 Tomb World)
+ * - Table 4 (Volkus): p13 vs p14 (were on Table 7 Tomb World) <- swap target
+ * - Table 5 (Tomb World): p1 vs p2 (were on Table 1 Volkus)
+ * - Table 6 (Tomb World): p11 vs p12 (were on Table 6 Tomb World - TERRAIN_REUSE)
+ * - Table 7 (Tomb World): p7 vs p8 (were on Table 4 Volkus) <- swap target
+ * - Table 8 (Tomb World): p15 vs p16 (were on Table 8 Tomb World - TERRAIN_REUSE)
+ */
+export const editingRound2: AllocationSpec[] = [
+  { table: 1, player1: 'p3', player2: 'p4', conflicts: terrainReuse(['Charlie Brown', 'Diana Prince'], 'Volkus') },
+  { table: 2, player1: 'p5', player2: 'p6', conflicts: terrainReuse(['Edward Stone', 'Fiona Green'], 'Volkus') },
+  { table: 3, player1: 'p9', player2: 'p10' },
+  { table: 4, player1: 'p13', player2: 'p14' },
+  { table: 5, player1: 'p1', player2: 'p2' },
+  { table: 6, player1: 'p11', player2: 'p12', conflicts: terrainReuse(['Kevin Yellow', 'Laura Purple'], 'Tomb World') },
+  { table: 7, player1: 'p7', player2: 'p8' },
+  { table: 8, player1: 'p15', player2: 'p16', conflicts: terrainReuse(['Oscar Grey', 'Paula Silver'], 'Tomb World') },
+];
+
+export const allocationEditingTournament: TournamentSpec = {
+  name: 'Allocation Edit Test',
+  tables: editingTables,
+  players: editingPlayers,
+  rounds: [
+    { published: false, allocations: editingRound1 },
+    { published: false, allocations: editingRound2 },
+  ],
+};
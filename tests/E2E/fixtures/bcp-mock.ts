@@ -1,16 +1,20 @@
 /**
- * Mock BCP API responses for E2E tests.
+ * Mock BCP rounds for E2E tests.
  *
- * These fixtures simulate what the BCP scraper would return,
- * allowing E2E tests to run without actual BCP connectivity.
+ * Each fixture is a MockRound that can be registered with the mock BCP
+ * server (see helpers/bcp-mock.ts), allowing E2E tests to run against
+ * specific pairings without actual BCP connectivity.
  *
  * Reference: specs/001-table-allocation/tasks.md T105
  */
 
+import type { MockRound } from '../mock-bcp/scenario';
+import { simulateSwiss, toMockRound } from '../mock-bcp/swiss';
+
 /**
  * Mock pairing data for round 1.
  */
-export const round1Pairings = {
+export const round1Pairings: MockRound = {
   roundNumber: 1,
   pairings: [
     {
@@ -71,7 +75,7 @@ export const round1Pairings = {
 /**
  * Mock pairing data for round 2 (after round 1 results).
  */
-export const round2Pairings = {
+export const round2Pairings: MockRound = {
   roundNumber: 2,
   pairings: [
     {
@@ -132,7 +136,7 @@ export const round2Pairings = {
 /**
  * Mock pairing data for round 3.
  */
-export const round3Pairings = {
+export const round3Pairings: MockRound = {
   roundNumber: 3,
   pairings: [
     {
@@ -193,7 +197,7 @@ export const round3Pairings = {
 /**
  * Large tournament pairing data (20 players).
  */
-export const largeTournamentPairings = {
+export const largeTournamentPairings: MockRound = {
   roundNumber: 1,
   pairings: Array.from({ length: 10 }, (_, i) => ({
     tableNumber: i + 1,
@@ -213,7 +217,7 @@ export const largeTournamentPairings = {
 /**
  * Pairing with BYE (odd number of players).
  */
-export const pairingsWithBye = {
+export const pairingsWithBye: MockRound = {
   roundNumber: 1,
   pairings: [
     {
@@ -244,15 +248,16 @@ export const pairingsWithBye = {
 /**
  * Empty pairings (round not yet posted).
  */
-export const emptyPairings = {
+export const emptyPairings: MockRound = {
   roundNumber: 1,
   pairings: [],
 };
 
 /**
  * Get mock pairings for a specific round.
+ * Rounds after 3 come from a seeded Swiss simulation of the same 8 players.
  */
-export function getMockPairings(roundNumber: number): typeof round1Pairings {
+export function getMockPairings(roundNumber: number): MockRound {
   switch (roundNumber) {
     case 1:
       return round1Pairings;
@@ -260,15 +265,10 @@ export function getMockPairings(roundNumber: number): typeof round1Pairings {
       return round2Pairings;
     case 3:
       return round3Pairings;
-    default:
-      // Generate generic pairings for rounds > 3
-      return {
-        roundNumber,
-        pairings: round1Pairings.pairings.map((p, i) => ({
-          ...p,
-          player1: { ...p.player1, score: roundNumber - 1 },
-          player2: { ...p.player2, score: roundNumber - 1 },
-        })),
-      };
+    default: {
+      const players = round1Pairings.pairings.flatMap((p) => (p.player2 ? [p.player1, p.player2] : [p.player1]));
+      const simulated = simulateSwiss({ seed: 1, players, rounds: roundNumber, drawRate: 0 });
+      return toMockRound(simulated.rounds[roundNumber - 1]);
+    }
   }
 }
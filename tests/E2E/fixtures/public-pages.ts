@@ -0,0 +1,95 @@
+import type { TournamentSpec } from '../helpers/fixture-builder';
+import { editingRound1, editingTables } from './allocation-editing';
+
+/**
+ * Fixture data for public-pages E2E tests.
+ *
+ * Several tournaments for the public list behavior:
+ * - live:     current date window, with round data used by query-based
+ *             round/leaderboard navigation tests
+ * - upcoming: future date
+ * - finished: past date
+ * - fallback: missing date/photo
+ */
+
+const livePlayers = [
+  ['Alice', 20, 'Corsair Voidscarred', 2],
+  ['Bob', 18, 'Nemesis Claw', 1],
+  ['Charlie', 16, 'Blades of Khaine', 3],
+  ['Diana', 14, 'Warpcoven', 4],
+  ['Edward', 12, 'Pathfinders', 5],
+  ['Fiona', 10, 'Legionaries', 6],
+  ['George', 8, 'Kommandos', 7],
+  ['Hannah', 6, 'Intercession Squad', 8],
+  ['Ivan', 5, 'Hand of the Archon', 9],
+  ['Julia', 4, 'Kasrkin', 10],
+  ['Kevin', 3, 'Hierotek Circle', 11],
+  ['Laura', 2, 'Void-Dancer Troupe', 12],
+  ['Mike', 1, 'Hunter Clade', 13],
+  ['Nancy', 1, 'Wyrmblade', 14],
+  ['Oscar', 0, 'Farstalker Kinband', 15],
+  ['Paula', 0, 'Phobos Strike Team', 16],
+] as const;
+
+export const publicPagesTournaments: Record<'live' | 'upcoming' | 'finished' | 'fallback', TournamentSpec> = {
+  live: {
+    name: 'Public Page Test',
+    photoUrl: 'https://example.com/public-page-test.png',
+    eventDate: '2026-04-05T08:00:00.000Z',
+    eventEndDate: '2026-04-06T20:00:00.000Z',
+    tables: editingTables,
+    players: livePlayers.map(([name, score, faction, placing], index) => ({
+      key: `p${index + 1}`,
+      name: `${name} Test`,
+      score,
+      faction,
+      placing,
+    })),
+    rounds: [
+      // Round 1 (published): 8 games on tables 1-8
+      { published: true, allocations: editingRound1 },
+      // Round 2 (not published): 8 games, shuffled
+      {
+        published: false,
+        allocations: [
+          { table: 1, player1: 'p3', player2: 'p4' },
+          { table: 2, player1: 'p5', player2: 'p6' },
+          { table: 3, player1: 'p9', player2: 'p10' },
+          { table: 4, player1: 'p13', player2: 'p14' },
+          { table: 5, player1: 'p1', player2: 'p2' },
+          { table: 6, player1: 'p11', player2: 'p12' },
+          { table: 7, player1: 'p7', player2: 'p8' },
+          { table: 8, player1: 'p15', player2: 'p16' },
+        ],
+      },
+    ],
+  },
+  upcoming: {
+    name: 'Upcoming Open Test',
+    photoUrl: 'https://example.com/upcoming-open-test.png',
+    eventDate: '2026-07-12T08:00:00.000Z',
+    eventEndDate: '2026-07-14T20:00:00.000Z',
+    tables: [{ terrain: 'Volkus' }, { terrain: 'Tomb World' }, { terrain: 'Tomb World' }, { terrain: 'Volkus' }],
+    players: [
+      { key: 'up1', name: 'Uma Future', faction: 'Kommandos' },
+      { key: 'up2', name: 'Victor Future', faction: 'Pathfinders' },
+      { key: 'up3', name: 'Wendy Future', faction: 'Legionaries' },
+      { key: 'up4', name: 'Xavier Future', faction: 'Intercession Squad' },
+    ],
+  },
+  finished: {
+    name: 'Finished Event Test',
+    photoUrl: 'https://example.com/finished-event-test.png',
+    eventDate: '2026-01-10T08:00:00.000Z',
+    eventEndDate: '2026-01-10T20:00:00.000Z',
+    tables: [{ terrain: 'Tomb World' }, { terrain: 'Volkus' }, { terrain: 'Tomb World' }],
+    players: [
+      { key: 'fi1', name: 'Yara Past', score: 12, faction: 'Kasrkin', placing: 1 },
+      { key: 'fi2', name: 'Zane Past', score: 9, faction: 'Blades of Khaine', placing: 2 },
+    ],
+    rounds: [{ published: true }],
+  },
+  fallback: {
+    name: 'Fallback Data Test',
+  },
+};
@@ -0,0 +1,15 @@
+import type { FullConfig } from '@playwright/test';
+import { prepareWorkerDatabases } from './helpers/database';
+import { isolationEnabled } from './helpers/worker-database';
+
+/**
+ * Creates one database per worker before the run (helpers/worker-database.ts).
+ */
+export default async function globalSetup(config: FullConfig): Promise<void> {
+  if (!isolationEnabled()) {
+    return;
+  }
+
+  const databases = await prepareWorkerDatabases(config.workers);
+  console.log(`Prepared ${databases.length} worker database(s): ${databases.join(', ')}`);
+}
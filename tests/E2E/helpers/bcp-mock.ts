@@ -0,0 +1,122 @@
+import { APIRequestContext } from '@playwright/test';
+import { FetchLike, createApiError } from '../sdk';
+import type { RecordedRequest } from '../mock-bcp/server';
+import type { MockEvent, MockRound } from '../mock-bcp/scenario';
+import type { MockFault } from '../mock-bcp/faults';
+import { playwrightFetch } from './api';
+
+export type { MockEvent, MockPairing, MockPlayer, MockRound, MockStanding } from '../mock-bcp/scenario';
+export type { MockEndpoint, MockFault, SchemaChange } from '../mock-bcp/faults';
+export { seededRandom, simulateSwiss, toMockEvent, toMockRound } from '../mock-bcp/swiss';
+export type { SwissOptions, SwissRound, SwissTournament } from '../mock-bcp/swiss';
+
+/**
+ * Control API client for the mock BCP server (tests/E2E/mock-bcp/server.ts).
+ *
+ * Lets a test register its own BCP event and rounds before creating a
+ * tournament from it:
+ *
+ *   const mockBcp = createMockBcp(request);
+ *   const { eventId, bcpUrl } = await mockBcp.registerEvent({ name: 'GT', rounds: [round1] });
+ *   await api.createTournament({ bcpUrl });
+ *   await mockBcp.postRound(eventId, round2);
+ *
+ * and script failures for the requests the app makes next:
+ *
+ *   await mockBcp.injectFaults(eventId, [{ endpoint: 'pairings', round: 2, status: 500, times: 'always' }]);
+ */
+
+/**
+ * Mock server URL as seen from the test runner.
+ * The PHP app reaches the same server through BCP_MOCK_BASE_URL.
+ */
+export const MOCK_BCP_URL = process.env.BCP_MOCK_URL || 'http://localhost:8090';
+
+export class MockBcpClient {
+  private readonly baseUrl: string;
+
+  constructor(private readonly fetchImpl: FetchLike, baseUrl = MOCK_BCP_URL) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Registers (or replaces) an event. Without an eventId a unique one is generated.
+   */
+  async registerEvent(
+    event: Omit<MockEvent, 'eventId'> & { eventId?: string }
+  ): Promise<{ eventId: string; bcpUrl: string }> {
+    const eventId = event.eventId ?? uniqueEventId();
+    await this.send('PUT', `/__control/events/${encodeURIComponent(eventId)}`, { ...event, eventId });
+    return { eventId, bcpUrl: `https://www.bestcoastpairings.com/event/${eventId}` };
+  }
+
+  /**
+   * Posts (or replaces) the pairings for one round of a registered event.
+   */
+  async postRound(eventId: string, round: MockRound): Promise<void> {
+    await this.send(
+      'PUT',
+      `/__control/events/${encodeURIComponent(eventId)}/rounds/${round.roundNumber}`,
+      { pairings: round.pairings }
+    );
+  }
+
+  /**
+   * Queues faults for the event's next BCP requests (appended to any pending ones).
+   * Works for unregistered events too, which then serve the default scenario.
+   */
+  async injectFaults(eventId: string, faults: MockFault[]): Promise<void> {
+    await this.send('POST', `/__control/events/${encodeURIComponent(eventId)}/faults`, { faults });
+  }
+
+  /**
+   * Drops any pending faults for an event.
+   */
+  async clearFaults(eventId: string): Promise<void> {
+    await this.send('DELETE', `/__control/events/${encodeURIComponent(eventId)}/faults`);
+  }
+
+  /**
+   * Returns the BCP requests the server received for an event, with the status served.
+   */
+  async getRequests(eventId: string): Promise<RecordedRequest[]> {
+    const result = await this.send<{ requests: RecordedRequest[] }>(
+      'GET',
+      `/__control/events/${encodeURIComponent(eventId)}`
+    );
+    return result.requests;
+  }
+
+  /**
+   * Forgets an event, its request log and pending faults.
+   */
+  async deleteEvent(eventId: string): Promise<void> {
+    await this.send('DELETE', `/__control/events/${encodeURIComponent(eventId)}`);
+  }
+
+  private async send<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.fetchImpl(this.baseUrl + path, {
+      method,
+      headers: body === undefined ? {} : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    const payload: unknown = text === '' ? null : JSON.parse(text);
+
+    if (response.status < 200 || response.status >= 300) {
+      throw createApiError(response.status, payload, `Mock BCP ${method} ${path} failed with ${response.status}`);
+    }
+    return payload as T;
+  }
+}
+
+function uniqueEventId(): string {
+  return `MOCK${Date.now()}${Math.random().toString(36).substring(7)}`;
+}
+
+/**
+ * Creates a mock BCP control client using Playwright's request context.
+ */
+export function createMockBcp(request: APIRequestContext, baseUrl = MOCK_BCP_URL): MockBcpClient {
+  return new MockBcpClient(playwrightFetch(request), baseUrl);
+}
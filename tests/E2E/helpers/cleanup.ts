@@ -1,4 +1,5 @@
 import { APIRequestContext } from '@playwright/test';
+import { NotFoundError, createApiClient } from './api';
 
 /**
  * Helper functions for cleaning up test data after E2E tests.
@@ -42,6 +43,8 @@ export async function cleanupTournaments(
   context: CleanupContext,
   baseURL: string
 ): Promise<void> {
+  const api = createApiClient(request, baseURL);
+
   for (const tournamentId of context.tournamentIds) {
     const adminToken = context.adminTokens.get(tournamentId);
     if (!adminToken) {
@@ -50,21 +53,11 @@ export async function cleanupTournaments(
     }
 
     try {
-      const response = await request.delete(
-        `${baseURL}/api/tournaments/${tournamentId}`,
-        {
-          headers: {
-            'X-Admin-Token': adminToken,
-          },
-        }
-      );
-
-      if (!response.ok() && response.status() !== 404) {
-        console.warn(
-          `Failed to delete tournament ${tournamentId}: ${response.status()}`
-        );
-      }
+      await api.deleteTournament(tournamentId, adminToken);
     } catch (error) {
+      if (error instanceof NotFoundError) {
+        continue;
+      }
       console.warn(`Error deleting tournament ${tournamentId}:`, error);
     }
   }
@@ -94,21 +87,12 @@ export async function createAndRegisterTournament(
     `https://www.bestcoastpairings.com/event/e2etest${Date.now()}`;
   const tableCount = options.tableCount || 10;
 
-  const response = await request.post(`${baseURL}/api/tournaments`, {
-    data: {
-      name,
-      bcpUrl,
-      tableCount,
-    },
+  const { tournament, adminToken } = await createApiClient(request, baseURL).createTournament({
+    name,
+    bcpUrl,
+    tableCount,
   });
-
-  if (!response.ok()) {
-    throw new Error(`Failed to create tournament: ${await response.text()}`);
-  }
-
-  const data = await response.json();
-  const tournamentId = data.tournament.id;
-  const adminToken = data.adminToken;
+  const tournamentId = tournament.id;
 
   registerTournament(context, tournamentId, adminToken);
 
@@ -1,83 +1,73 @@
 /**
  * Database helper for E2E tests.
  *
- * Provides functions to seed and cleanup test data directly via MySQL.
- * This is used for tests that need deterministic data independent of the BCP import flow.
+ * Direct MySQL access for tests. Deterministic scenarios independent of the
+ * BCP import flow are seeded with the fixture builder (./fixture-builder.ts).
  */
 
-import { createConnection, Connection } from 'mysql2/promise';
-import * as fs from 'fs';
-import * as path from 'path';
+import { createConnection, Connection, RowDataPacket } from 'mysql2/promise';
+import { BASE_DATABASE, workerDatabaseName } from './worker-database';
 
 /**
  * Database connection configuration.
- * Uses environment variables with fallback to Docker defaults.
+ * Uses environment variables with fallback to Docker defaults; the database
+ * is the current worker's own copy (see ./worker-database.ts).
  */
 const DB_CONFIG = {
   host: process.env.DB_HOST || 'mysql',
   port: parseInt(process.env.DB_PORT || '3306', 10),
   user: process.env.DB_USER || 'root',
   password: process.env.DB_PASSWORD || 'root',
-  database: process.env.DB_NAME || 'tournament_tables',
+  database: workerDatabaseName(),
   multipleStatements: true,
 };
 
 /**
- * Creates a database connection.
+ * Tables whose rows are copied into worker databases (seeded reference data).
  */
-async function getConnection(): Promise<Connection> {
-  return createConnection(DB_CONFIG);
-}
+const REFERENCE_TABLES = ['terrain_types'];
 
 /**
- * Seeds test data from a SQL fixture file.
- *
- * @param fixtureName - Name of the fixture file (without .sql extension)
+ * Creates a database connection.
  */
-export async function seedTestData(fixtureName: string): Promise<void> {
-  const connection = await getConnection();
-
-  try {
-    const sqlPath = path.join(__dirname, '..', 'fixtures', `${fixtureName}.sql`);
-    const sql = fs.readFileSync(sqlPath, 'utf8');
-    await connection.query(sql);
-  } finally {
-    await connection.end();
-  }
+export async function getConnection(database = DB_CONFIG.database): Promise<Connection> {
+  return createConnection({ ...DB_CONFIG, database });
 }
 
 /**
- * Cleans up test data for a specific tournament.
- * Deletes all related data in the correct order due to foreign key constraints.
+ * (Re)creates the worker databases from the migrated base database.
+ * Copies the schema and reference data, so migrations only run once.
  *
- * @param tournamentId - ID of the tournament to clean up
+ * @param count - Number of workers in this run
+ * @returns Names of the created databases
  */
-export async function cleanupTestData(tournamentId: number): Promise<void> {
-  const connection = await getConnection();
+export async function prepareWorkerDatabases(count: number): Promise<string[]> {
+  const connection = await getConnection(BASE_DATABASE);
 
   try {
-    await connection.beginTransaction();
-    // Delete in correct order due to foreign keys
-    await connection.query(
-      'DELETE FROM allocations WHERE round_id IN (SELECT id FROM rounds WHERE tournament_id = ?)',
-      [tournamentId]
-    );
-    await connection.query('DELETE FROM rounds WHERE tournament_id = ?', [
-      tournamentId,
-    ]);
-    await connection.query('DELETE FROM players WHERE tournament_id = ?', [
-      tournamentId,
-    ]);
-    await connection.query('DELETE FROM tables WHERE tournament_id = ?', [
-      tournamentId,
-    ]);
-    await connection.query('DELETE FROM tournaments WHERE id = ?', [
-      tournamentId,
-    ]);
-    await connection.commit();
-  } catch (err) {
-    await connection.rollback();
-    throw err;
+    const [tables] = await connection.query<RowDataPacket[]>("SHOW FULL TABLES WHERE Table_type = 'BASE TABLE'");
+    const schema: string[] = [];
+    for (const row of tables) {
+      const [created] = await connection.query<RowDataPacket[]>('SHOW CREATE TABLE ??', [Object.values(row)[0]]);
+      schema.push(String(created[0]['Create Table']).replace(/ AUTO_INCREMENT=\d+/, ''));
+    }
+
+    const databases = Array.from({ length: count }, (_, index) => workerDatabaseName(String(index)));
+    for (const database of databases) {
+      await connection.query('DROP DATABASE IF EXISTS ??', [database]);
+      await connection.query('CREATE DATABASE ?? CHARACTER SET utf8mb4', [database]);
+      await connection.query('USE ??', [database]);
+      // Tables are created in name order, not dependency order
+      await connection.query('SET FOREIGN_KEY_CHECKS = 0');
+      for (const statement of schema) {
+        await connection.query(statement);
+      }
+      await connection.query('SET FOREIGN_KEY_CHECKS = 1');
+      for (const table of REFERENCE_TABLES) {
+        await connection.query('INSERT INTO ?? SELECT * FROM ??.??', [table, BASE_DATABASE, table]);
+      }
+    }
+    return databases;
   } finally {
     await connection.end();
   }
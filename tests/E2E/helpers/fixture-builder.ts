@@ -0,0 +1,339 @@
+import { test } from '@playwright/test';
+import { randomBytes } from 'crypto';
+import type { Connection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import type { Allocation, Conflict, RoundDetails } from '../sdk';
+import { getConnection } from './database';
+
+/**
+ * Declarative test data builder.
+ *
+ * Describes a tournament as nested data (tables with terrain, players with
+ * factions, rounds with allocations and a published flag) and inserts it
+ * directly into MySQL in foreign-key order. Rows get generated IDs, which are
+ * returned so specs never hard-code them:
+ *
+ *   const fixtures = useFixtureBuilder();
+ *   let seeded: SeededTournament;
+ *
+ *   test.beforeAll(async () => {
+ *     seeded = await fixtures.tournament({
+ *       name: 'Edit Test',
+ *       tables: [{ terrain: 'Volkus' }, { terrain: 'Tomb World' }],
+ *       players: [{ key: 'p1', name: 'Alice' }, { key: 'p2', name: 'Bob' }],
+ *       rounds: [{ published: true, allocations: [{ table: 1, player1: 'p1', player2: 'p2' }] }],
+ *     });
+ *   });
+ *
+ * Every inserted row is recorded and deleted again, newest first, on
+ * teardown(); useFixtureBuilder() registers that in an afterAll hook.
+ */
+
+export interface TableSpec {
+  /** Terrain type name (as seeded by migrations), or null for none. */
+  terrain?: string | null;
+  optional?: boolean;
+  hidden?: boolean;
+}
+
+export interface PlayerSpec {
+  /** BCP player ID; allocations refer to players by this key. */
+  key: string;
+  name: string;
+  faction?: string | null;
+  score?: number;
+  placing?: number | null;
+}
+
+export interface AllocationSpec {
+  /** Table number, or null for a bye. */
+  table: number | null;
+  player1: string;
+  /** Omitted or null for a bye. */
+  player2?: string | null;
+  /** Round scores; defaults to each player's total score. */
+  scores?: [number, number];
+  /** Defaults to the table number. */
+  bcpTable?: number | null;
+  /** Stored in the allocation reason, as generation would. */
+  conflicts?: Array<Pick<Conflict, 'type' | 'message'>>;
+}
+
+export interface RoundSpec {
+  /** Defaults to the round's position (1-based). */
+  number?: number;
+  published?: boolean;
+  allocations?: AllocationSpec[];
+}
+
+export interface TournamentSpec {
+  name: string;
+  /** Generated (unique) when omitted. */
+  adminToken?: string;
+  /** Generated (unique) when omitted. */
+  bcpEventId?: string;
+  photoUrl?: string | null;
+  locationName?: string | null;
+  eventDate?: string | null;
+  eventEndDate?: string | null;
+  /** Defaults to the number of tables. */
+  tableCount?: number;
+  /** Table N is tables[N - 1]. */
+  tables?: TableSpec[];
+  players?: PlayerSpec[];
+  rounds?: RoundSpec[];
+}
+
+export interface SeededTournament {
+  id: number;
+  name: string;
+  adminToken: string;
+  bcpEventId: string;
+  /** Table ID by table number. */
+  tables: Record<number, number>;
+  /** Player ID by player key. */
+  players: Record<string, number>;
+  /** Round ID by round number. */
+  rounds: Record<number, number>;
+  /** Allocation IDs by round number, in spec order. */
+  allocations: Record<number, number[]>;
+}
+
+/**
+ * Table number by allocation ID, to compare a round against seeded.allocations.
+ */
+export function tablesOf(round: RoundDetails): Record<number, number | null> {
+  return Object.fromEntries(round.allocations.map((a) => [a.id, a.tableNumber]));
+}
+
+/**
+ * The allocation a player (by name) is in, if any.
+ */
+export function allocationOf(allocations: Allocation[], playerName: string): Allocation | undefined {
+  return allocations.find((a) => a.player1.name === playerName || a.player2?.name === playerName);
+}
+
+type SeededTable = 'tournaments' | 'tables' | 'players' | 'rounds' | 'allocations';
+
+async function insert(connection: Connection, sql: string, params: unknown[]): Promise<number> {
+  const [result] = await connection.query<ResultSetHeader>(sql, params);
+  return result.insertId;
+}
+
+export class FixtureBuilder {
+  private readonly rows: Array<{ table: SeededTable; id: number }> = [];
+
+  /**
+   * Inserts a tournament with its tables, players, rounds and allocations.
+   * Runs in one transaction; nothing is left behind if any insert fails.
+   */
+  async tournament(spec: TournamentSpec): Promise<SeededTournament> {
+    const connection = await getConnection();
+    const inserted: Array<{ table: SeededTable; id: number }> = [];
+    const record = (table: SeededTable, id: number): number => {
+      inserted.push({ table, id });
+      return id;
+    };
+
+    try {
+      await connection.beginTransaction();
+
+      const suffix = randomBytes(8).toString('hex');
+      const adminToken = spec.adminToken ?? suffix;
+      const bcpEventId = spec.bcpEventId ?? `fixture${suffix}`;
+      const tables = spec.tables ?? [];
+
+      const tournamentId = record(
+        'tournaments',
+        await insert(
+          connection,
+          `INSERT INTO tournaments
+             (name, bcp_event_id, bcp_url, photo_url, location_name, event_date, event_end_date, table_count, admin_token)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            spec.name,
+            bcpEventId,
+            `https://www.bestcoastpairings.com/event/${bcpEventId}`,
+            spec.photoUrl ?? null,
+            spec.locationName ?? null,
+            spec.eventDate ?? null,
+            spec.eventEndDate ?? null,
+            spec.tableCount ?? tables.length,
+            adminToken,
+          ]
+        )
+      );
+
+      const seeded: SeededTournament = {
+        id: tournamentId,
+        name: spec.name,
+        adminToken,
+        bcpEventId,
+        tables: {},
+        players: {},
+        rounds: {},
+        allocations: {},
+      };
+
+      const terrainIds = await this.terrainTypeIds(connection, tables);
+      for (const [index, table] of tables.entries()) {
+        seeded.tables[index + 1] = record(
+          'tables',
+          await insert(
+            connection,
+            'INSERT INTO tables (tournament_id, table_number, terrain_type_id, optional, is_hidden) VALUES (?, ?, ?, ?, ?)',
+            [
+              tournamentId,
+              index + 1,
+              table.terrain ? terrainIds.get(table.terrain) : null,
+              table.optional ?? false,
+              table.hidden ?? false,
+            ]
+          )
+        );
+      }
+
+      const scores = new Map<string, number>();
+      for (const player of spec.players ?? []) {
+        if (player.key in seeded.players) {
+          throw new Error(`Duplicate player key "${player.key}"`);
+        }
+        scores.set(player.key, player.score ?? 0);
+        seeded.players[player.key] = record(
+          'players',
+          await insert(
+            connection,
+            `INSERT INTO players (tournament_id, bcp_player_id, name, faction, total_score, placing)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [tournamentId, player.key, player.name, player.faction ?? null, player.score ?? 0, player.placing ?? null]
+          )
+        );
+      }
+
+      for (const [index, round] of (spec.rounds ?? []).entries()) {
+        const roundNumber = round.number ?? index + 1;
+        const roundId = record(
+          'rounds',
+          await insert(
+            connection,
+            'INSERT INTO rounds (tournament_id, round_number, is_published) VALUES (?, ?, ?)',
+            [tournamentId, roundNumber, round.published ?? false]
+          )
+        );
+        seeded.rounds[roundNumber] = roundId;
+        seeded.allocations[roundNumber] = [];
+
+        for (const allocation of round.allocations ?? []) {
+          const where = `round ${roundNumber}`;
+          const playerId = (key: string): number => {
+            const id = seeded.players[key];
+            if (id === undefined) {
+              throw new Error(`Unknown player "${key}" in ${where}`);
+            }
+            return id;
+          };
+          const tableId = allocation.table === null ? null : seeded.tables[allocation.table];
+          if (tableId === undefined) {
+            throw new Error(`Unknown table ${allocation.table} in ${where}`);
+          }
+          const player2 = allocation.player2 ?? null;
+          const [score1, score2] = allocation.scores ?? [
+            scores.get(allocation.player1) ?? 0,
+            player2 === null ? 0 : scores.get(player2) ?? 0,
+          ];
+
+          seeded.allocations[roundNumber].push(
+            record(
+              'allocations',
+              await insert(
+                connection,
+                `INSERT INTO allocations
+                   (round_id, table_id, player1_id, player2_id, player1_score, player2_score, bcp_table_number, allocation_reason)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                  roundId,
+                  tableId,
+                  playerId(allocation.player1),
+                  player2 === null ? null : playerId(player2),
+                  score1,
+                  score2,
+                  allocation.bcpTable === undefined ? allocation.table : allocation.bcpTable,
+                  JSON.stringify({ conflicts: allocation.conflicts ?? [] }),
+                ]
+              )
+            )
+          );
+        }
+      }
+
+      await connection.commit();
+      this.rows.push(...inserted);
+      return seeded;
+    } catch (err) {
+      await connection.rollback();
+      throw err;
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Deletes every row this builder inserted, newest first (children before parents).
+   */
+  async teardown(): Promise<void> {
+    if (this.rows.length === 0) {
+      return;
+    }
+
+    const connection = await getConnection();
+    try {
+      await connection.beginTransaction();
+      // Batch consecutive rows of the same table; reverse order keeps FKs satisfied
+      const rows = this.rows.splice(0).reverse();
+      for (let start = 0; start < rows.length; ) {
+        let end = start;
+        while (end + 1 < rows.length && rows[end + 1].table === rows[start].table) {
+          end++;
+        }
+        const ids = rows.slice(start, end + 1).map((row) => row.id);
+        await connection.query(`DELETE FROM ${rows[start].table} WHERE id IN (?)`, [ids]);
+        start = end + 1;
+      }
+      await connection.commit();
+    } catch (err) {
+      await connection.rollback();
+      throw err;
+    } finally {
+      await connection.end();
+    }
+  }
+
+  private async terrainTypeIds(connection: Connection, tables: TableSpec[]): Promise<Map<string, number>> {
+    const names = [...new Set(tables.map((table) => table.terrain).filter((name): name is string => !!name))];
+    if (names.length === 0) {
+      return new Map();
+    }
+
+    const [rows] = await connection.query<RowDataPacket[]>(
+      'SELECT id, name FROM terrain_types WHERE tournament_id IS NULL AND name IN (?)',
+      [names]
+    );
+    const ids = new Map(rows.map((row) => [row.name as string, row.id as number]));
+    const missing = names.filter((name) => !ids.has(name));
+    if (missing.length > 0) {
+      throw new Error(`Unknown terrain type(s): ${missing.join(', ')}`);
+    }
+    return ids;
+  }
+}
+
+/**
+ * Creates a fixture builder whose data is deleted after all tests in the
+ * current describe block (or file) have run.
+ */
+export function useFixtureBuilder(): FixtureBuilder {
+  const builder = new FixtureBuilder();
+  test.afterAll(async () => {
+    await builder.teardown();
+  });
+  return builder;
+}
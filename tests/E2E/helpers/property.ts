@@ -0,0 +1,143 @@
+import { seededRandom } from '../mock-bcp/swiss';
+
+/**
+ * Minimal property-based testing for E2E specs.
+ *
+ * A property takes a generated case and returns the invariant violations it
+ * found (empty when it holds). Cases come from consecutive seeds, so a run is
+ * reproducible from its base seed. The first failing case is shrunk: the
+ * arbitrary proposes smaller variants and the first one that still fails is
+ * kept, until no variant fails. The reported case replays on its own:
+ *
+ *   PROPERTY_CASE='{"seed":17,...}' npx playwright test specs/allocation-properties.spec.ts
+ *
+ * Environment:
+ *   PROPERTY_SEED  base seed (default: random, printed on failure)
+ *   PROPERTY_RUNS  number of generated cases
+ *   PROPERTY_CASE  JSON of a single case to replay instead of generating
+ */
+
+export interface Arbitrary<T> {
+  /** Builds a case from a seeded random source; `seed` is the case's own seed. */
+  generate(random: () => number, seed: number): T;
+  /** Smaller variants of a case, most aggressive first. */
+  shrink(value: T): T[];
+}
+
+export type Property<T> = (value: T) => Promise<string[]>;
+
+export interface PropertyOptions {
+  /** Number of generated cases (default 10). */
+  runs?: number;
+  /** Base seed; case N uses seed + N. */
+  seed?: number;
+  /** Upper bound on property evaluations spent shrinking (default 40). */
+  maxShrinks?: number;
+}
+
+export interface PropertyFailure<T> {
+  baseSeed: number;
+  /** Index of the first failing generated case (-1 for a replayed case). */
+  run: number;
+  original: T;
+  minimal: T;
+  violations: string[];
+  shrinks: number;
+}
+
+/**
+ * Reads runner options from PROPERTY_SEED / PROPERTY_RUNS, with defaults.
+ */
+export function propertyOptionsFromEnv(defaults: PropertyOptions = {}): PropertyOptions {
+  const seed = process.env.PROPERTY_SEED ? Number(process.env.PROPERTY_SEED) : defaults.seed;
+  const runs = process.env.PROPERTY_RUNS ? Number(process.env.PROPERTY_RUNS) : defaults.runs;
+  return { ...defaults, seed, runs };
+}
+
+/**
+ * Shrinks a failing case greedily; returns the smallest case still failing.
+ */
+async function shrinkFailure<T>(
+  arbitrary: Arbitrary<T>,
+  property: Property<T>,
+  value: T,
+  violations: string[],
+  maxShrinks: number
+): Promise<{ minimal: T; violations: string[]; shrinks: number }> {
+  let minimal = value;
+  let current = violations;
+  let shrinks = 0;
+
+  let improved = true;
+  while (improved && shrinks < maxShrinks) {
+    improved = false;
+    for (const candidate of arbitrary.shrink(minimal)) {
+      if (shrinks >= maxShrinks) {
+        break;
+      }
+      shrinks++;
+      const found = await property(candidate);
+      if (found.length > 0) {
+        minimal = candidate;
+        current = found;
+        improved = true;
+        break;
+      }
+    }
+  }
+
+  return { minimal, violations: current, shrinks };
+}
+
+/**
+ * Runs a property over generated cases (or the PROPERTY_CASE replay).
+ * Returns the shrunk first failure, or null when every case holds.
+ */
+export async function checkProperty<T>(
+  arbitrary: Arbitrary<T>,
+  property: Property<T>,
+  options: PropertyOptions = {}
+): Promise<PropertyFailure<T> | null> {
+  const baseSeed = options.seed ?? Math.floor(Math.random() * 0x7fffffff);
+  const maxShrinks = options.maxShrinks ?? 40;
+
+  if (process.env.PROPERTY_CASE) {
+    const replay = JSON.parse(process.env.PROPERTY_CASE) as T;
+    const violations = await property(replay);
+    return violations.length === 0
+      ? null
+      : { baseSeed, run: -1, original: replay, minimal: replay, violations, shrinks: 0 };
+  }
+
+  const runs = options.runs ?? 10;
+  for (let run = 0; run < runs; run++) {
+    const seed = baseSeed + run;
+    const value = arbitrary.generate(seededRandom(seed), seed);
+    const violations = await property(value);
+    if (violations.length > 0) {
+      const shrunk = await shrinkFailure(arbitrary, property, value, violations, maxShrinks);
+      return { baseSeed, run, original: value, ...shrunk };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Failure message with the minimal case and how to replay it.
+ */
+export function describeFailure<T>(failure: PropertyFailure<T>): string {
+  const minimal = JSON.stringify(failure.minimal);
+  const lines = [
+    failure.run < 0
+      ? 'Property failed for the replayed case.'
+      : `Property failed on run ${failure.run} (PROPERTY_SEED=${failure.baseSeed}), shrunk in ${failure.shrinks} steps.`,
+    `Minimal case: ${minimal}`,
+    ...failure.violations.map((violation) => `  - ${violation}`),
+    `Replay: PROPERTY_CASE='${minimal}'`,
+  ];
+  if (failure.run >= 0 && JSON.stringify(failure.original) !== minimal) {
+    lines.splice(2, 0, `Original case: ${JSON.stringify(failure.original)}`);
+  }
+  return lines.join('\n');
+}
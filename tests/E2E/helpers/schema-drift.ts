@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ShapeNode } from '../sdk/validators';
+
+/**
+ * Drift detection between the SDK response validators and the API JSON
+ * schemas in tests/Contract/schemas/api.
+ *
+ * The PHP integration suite validates real model output against those
+ * schemas; comparing the schemas with the TypeScript shapes closes the loop,
+ * so a field changing on either side fails loudly.
+ *
+ * Reference: tests/Integration/ApiResponseSchemaTest.php
+ */
+
+export const API_SCHEMA_DIR = path.resolve(__dirname, '../../Contract/schemas/api');
+
+type SchemaNode = {
+  type?: string | string[];
+  enum?: string[];
+  anyOf?: SchemaNode[];
+  $ref?: string;
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  definitions?: Record<string, SchemaNode>;
+};
+
+interface Location {
+  file: string;
+  root: SchemaNode;
+}
+
+const schemaCache = new Map<string, SchemaNode>();
+
+/**
+ * Lists the schema filenames in the API schema directory.
+ */
+export function listApiSchemas(): string[] {
+  return fs
+    .readdirSync(API_SCHEMA_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+}
+
+/**
+ * Loads (and caches) an API schema by filename.
+ */
+export function loadApiSchema(file: string): SchemaNode {
+  let schema = schemaCache.get(file);
+  if (!schema) {
+    schema = JSON.parse(fs.readFileSync(path.join(API_SCHEMA_DIR, file), 'utf8')) as SchemaNode;
+    schemaCache.set(file, schema);
+  }
+  return schema;
+}
+
+/**
+ * Compares a validator shape with a schema file.
+ * Returns one message per difference (empty when they agree).
+ */
+export function compareShapeWithSchema(shape: ShapeNode, file: string): string[] {
+  const root = loadApiSchema(file);
+  const issues: string[] = [];
+  compare(shape, root, { file, root }, file, issues);
+  return issues;
+}
+
+function compare(
+  shape: ShapeNode,
+  node: SchemaNode,
+  location: Location,
+  at: string,
+  issues: string[]
+): void {
+  const resolved = resolve(node, location);
+  const schema = splitNullable(resolved.node);
+  const shapeNullable = shape.kind === 'nullable';
+  const inner = shape.kind === 'nullable' ? shape.inner : shape;
+
+  if (shapeNullable !== schema.nullable) {
+    issues.push(
+      `${at}: TypeScript says ${shapeNullable ? 'nullable' : 'not nullable'}, ` +
+        `schema says ${schema.nullable ? 'nullable' : 'not nullable'}`
+    );
+  }
+
+  compareBase(inner, schema.node, resolved.location, at, issues);
+}
+
+function compareBase(
+  shape: ShapeNode,
+  node: SchemaNode,
+  location: Location,
+  at: string,
+  issues: string[]
+): void {
+  const resolved = resolve(node, location);
+  node = resolved.node;
+  location = resolved.location;
+
+  const schemaType = Array.isArray(node.type) ? node.type.join('|') : node.type;
+
+  switch (shape.kind) {
+    case 'string':
+    case 'integer':
+    case 'number':
+    case 'boolean':
+      if (schemaType !== shape.kind || node.enum) {
+        issues.push(`${at}: TypeScript expects ${shape.kind}, schema has ${describeSchema(node)}`);
+      }
+      return;
+    case 'enum': {
+      const expected = [...shape.values].sort();
+      const actual = [...(node.enum ?? [])].sort();
+      if (schemaType !== 'string' || expected.join(',') !== actual.join(',')) {
+        issues.push(
+          `${at}: TypeScript expects one of [${expected.join(', ')}], schema has ${describeSchema(node)}`
+        );
+      }
+      return;
+    }
+    case 'array':
+      if (schemaType !== 'array' || !node.items) {
+        issues.push(`${at}: TypeScript expects array, schema has ${describeSchema(node)}`);
+        return;
+      }
+      compare(shape.items, node.items, location, `${at}[]`, issues);
+      return;
+    case 'object': {
+      if (schemaType !== 'object' || !node.properties) {
+        issues.push(`${at}: TypeScript expects object, schema has ${describeSchema(node)}`);
+        return;
+      }
+      const required = new Set(node.required ?? []);
+      const keys = new Set([...Object.keys(shape.properties), ...Object.keys(node.properties)]);
+      for (const key of keys) {
+        const propertyShape = shape.properties[key];
+        const propertySchema = node.properties[key];
+        const propertyAt = `${at}.${key}`;
+        if (!propertyShape) {
+          issues.push(`${propertyAt}: present in schema but missing from TypeScript`);
+          continue;
+        }
+        if (!propertySchema) {
+          issues.push(`${propertyAt}: present in TypeScript but missing from schema`);
+          continue;
+        }
+        const tsOptional = propertyShape.kind === 'optional';
+        if (tsOptional === required.has(key)) {
+          issues.push(
+            `${propertyAt}: TypeScript says ${tsOptional ? 'optional' : 'required'}, ` +
+              `schema says ${required.has(key) ? 'required' : 'optional'}`
+          );
+        }
+        const unwrapped = propertyShape.kind === 'optional' ? propertyShape.inner : propertyShape;
+        compare(unwrapped, propertySchema, location, propertyAt, issues);
+      }
+      return;
+    }
+    case 'nullable':
+    case 'optional':
+      issues.push(`${at}: unexpected nested ${shape.kind} in TypeScript shape`);
+      return;
+  }
+}
+
+/**
+ * Follows $ref pointers (local "#/definitions/x" or sibling files).
+ */
+function resolve(node: SchemaNode, location: Location): { node: SchemaNode; location: Location } {
+  while (node.$ref) {
+    const [file, pointer] = node.$ref.split('#');
+    if (file) {
+      location = { file, root: loadApiSchema(file) };
+    }
+    node = pointer ? lookup(location.root, pointer) : location.root;
+  }
+  return { node, location };
+}
+
+function lookup(root: SchemaNode, pointer: string): SchemaNode {
+  let current: unknown = root;
+  for (const segment of pointer.split('/').filter(Boolean)) {
+    current = (current as Record<string, unknown>)[segment];
+  }
+  if (current === undefined) {
+    throw new Error(`Unresolvable schema pointer: #${pointer}`);
+  }
+  return current as SchemaNode;
+}
+
+/**
+ * Normalizes the two nullable spellings used in the schemas:
+ * "type": ["x", "null"] and "anyOf": [{...}, {"type": "null"}].
+ */
+function splitNullable(node: SchemaNode): { nullable: boolean; node: SchemaNode } {
+  if (Array.isArray(node.type) && node.type.includes('null')) {
+    const rest = node.type.filter((type) => type !== 'null');
+    return { nullable: true, node: { ...node, type: rest.length === 1 ? rest[0] : rest } };
+  }
+  if (node.anyOf) {
+    const rest = node.anyOf.filter((option) => option.type !== 'null');
+    if (rest.length === 1 && rest.length < node.anyOf.length) {
+      return { nullable: true, node: rest[0] };
+    }
+  }
+  return { nullable: false, node };
+}
+
+function describeSchema(node: SchemaNode): string {
+  if (node.enum) {
+    return `enum [${node.enum.join(', ')}]`;
+  }
+  if (node.anyOf) {
+    return 'anyOf';
+  }
+  return Array.isArray(node.type) ? node.type.join(' or ') : node.type ?? 'no type';
+}
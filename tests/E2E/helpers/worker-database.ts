@@ -0,0 +1,41 @@
+/**
+ * Per-worker database isolation for E2E tests.
+ *
+ * Each Playwright worker gets its own copy of the schema, named
+ * `{DB_NAME}_w{parallelIndex}`. Global setup clones the migrated base
+ * database once per run (see prepareWorkerDatabases in ./database.ts); the
+ * worker then sends its database name on every request in the
+ * X-Test-Database header, which the PHP app honors when APP_ENV=testing.
+ * Direct MySQL access from the worker (./database.ts, ./fixture-builder.ts)
+ * uses the same database, so parallel specs never see each other's data.
+ *
+ * Set E2E_DB_ISOLATION=0 to run everything against the base database.
+ */
+
+export const TEST_DATABASE_HEADER = 'X-Test-Database';
+
+/** Migrated database the worker databases are cloned from. */
+export const BASE_DATABASE = process.env.DB_NAME || 'tournament_tables';
+
+export function isolationEnabled(): boolean {
+  return process.env.E2E_DB_ISOLATION !== '0';
+}
+
+/**
+ * Database for a worker slot; the base database outside workers
+ * (config loading, global setup) or with isolation disabled.
+ */
+export function workerDatabaseName(parallelIndex = process.env.TEST_PARALLEL_INDEX): string {
+  if (!isolationEnabled() || parallelIndex === undefined) {
+    return BASE_DATABASE;
+  }
+  return `${BASE_DATABASE}_w${parallelIndex}`;
+}
+
+/**
+ * Headers that route the app's requests to the current worker's database.
+ */
+export function workerDatabaseHeaders(): Record<string, string> {
+  const database = workerDatabaseName();
+  return database === BASE_DATABASE ? {} : { [TEST_DATABASE_HEADER]: database };
+}
@@ -0,0 +1,226 @@
+/**
+ * Fault injection for the mock BCP server.
+ *
+ * Faults are queued per event and consumed by matching BCP requests in order,
+ * so a test can script exactly what each request sees, e.g. "the first two
+ * pairings requests for round 2 are rate limited, the third succeeds":
+ *
+ *   [{ endpoint: 'pairings', round: 2, status: 429, times: 2, headers: { 'Retry-After': '1' } }]
+ *
+ * A fault can delay the response, change its status and headers, replace or
+ * truncate the body, and apply schema changes to the rendered JSON. Requests
+ * that match no pending fault get the normal response.
+ */
+
+import { arrayOf, checkShape, integer, number, object, oneOf, optional, string } from '../sdk/validators';
+
+export type MockEndpoint = 'event' | 'pairings' | 'players';
+
+/**
+ * Schema changes applied to the rendered JSON:
+ * - renamed-fields:   top-level fields renamed (event "name" → "eventName", "active" → "data")
+ * - missing-name:     event details without "name"
+ * - missing-factions: no "faction" on any pairing player
+ * - null-opponent:    the last pairing's player2 is null (opponent dropped)
+ */
+export type SchemaChange = 'renamed-fields' | 'missing-name' | 'missing-factions' | 'null-opponent';
+
+export interface MockFault {
+  /** Endpoint to match; omitted matches every endpoint. */
+  endpoint?: MockEndpoint;
+  /** Round to match (pairings only); omitted matches every round. */
+  round?: number;
+  /** Number of matching requests this fault applies to (default 1), or 'always'. */
+  times?: number | 'always';
+  /** Delay before responding, in milliseconds. */
+  delayMs?: number;
+  /** HTTP status to respond with (default 200). */
+  status?: number;
+  /** Extra response headers, e.g. Retry-After. */
+  headers?: Record<string, string>;
+  /** Raw body sent instead of the JSON response (e.g. an HTML error page). */
+  body?: string;
+  /** Cut the body short: true keeps half of it, a number keeps that many characters. */
+  truncate?: boolean | number;
+  schema?: SchemaChange[];
+}
+
+const SCHEMA_CHANGES: SchemaChange[] = ['renamed-fields', 'missing-name', 'missing-factions', 'null-opponent'];
+
+const mockFaultBaseShape = object<Omit<MockFault, 'times' | 'headers' | 'truncate'>>({
+  endpoint: optional(oneOf<MockEndpoint>('event', 'pairings', 'players')),
+  round: optional(integer()),
+  delayMs: optional(number()),
+  status: optional(integer()),
+  body: optional(string()),
+  schema: optional(arrayOf(oneOf<SchemaChange>(...SCHEMA_CHANGES))),
+});
+
+/**
+ * Validates a list of faults, returning path-based issues like checkShape.
+ * times, headers and truncate take forms the shape builders don't describe,
+ * so they are checked by hand.
+ */
+export function checkFaults(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return checkShape(arrayOf(mockFaultBaseShape), value, '$.faults');
+  }
+
+  return value.flatMap((fault: unknown, index) => {
+    const path = `$.faults[${index}]`;
+    const issues = checkShape(mockFaultBaseShape, fault, path);
+    if (issues.length > 0) {
+      return issues;
+    }
+
+    const { times, headers, truncate } = fault as Record<string, unknown>;
+    if (times !== undefined && times !== 'always' && !(Number.isInteger(times) && (times as number) > 0)) {
+      issues.push(`${path}.times: expected positive integer or "always"`);
+    }
+    if (
+      headers !== undefined &&
+      (typeof headers !== 'object' ||
+        headers === null ||
+        Object.values(headers).some((header) => typeof header !== 'string'))
+    ) {
+      issues.push(`${path}.headers: expected object of strings`);
+    }
+    if (truncate !== undefined && typeof truncate !== 'boolean' && !Number.isInteger(truncate)) {
+      issues.push(`${path}.truncate: expected boolean or integer`);
+    }
+    return issues;
+  });
+}
+
+/**
+ * Pending faults for one event.
+ */
+export class FaultQueue {
+  private readonly pending: Array<{ fault: MockFault; remaining: number }> = [];
+
+  add(faults: MockFault[]): void {
+    for (const fault of faults) {
+      const times = fault.times ?? 1;
+      this.pending.push({ fault, remaining: times === 'always' ? Number.POSITIVE_INFINITY : times });
+    }
+  }
+
+  clear(): void {
+    this.pending.length = 0;
+  }
+
+  /**
+   * Takes the first pending fault matching a request, if any.
+   */
+  take(endpoint: MockEndpoint, round: number | null): MockFault | null {
+    const entry = this.pending.find(
+      ({ fault, remaining }) =>
+        remaining > 0 &&
+        (fault.endpoint === undefined || fault.endpoint === endpoint) &&
+        (fault.round === undefined || fault.round === round)
+    );
+    if (!entry) {
+      return null;
+    }
+
+    entry.remaining--;
+    if (entry.remaining === 0) {
+      this.pending.splice(this.pending.indexOf(entry), 1);
+    }
+    return entry.fault;
+  }
+
+  /**
+   * Faults still waiting to be used (for inspection).
+   */
+  list(): MockFault[] {
+    return this.pending.map(({ fault, remaining }) => ({
+      ...fault,
+      times: remaining === Number.POSITIVE_INFINITY ? 'always' : remaining,
+    }));
+  }
+}
+
+function renameKey(body: Record<string, unknown>, from: string, to: string): void {
+  if (from in body) {
+    body[to] = body[from];
+    delete body[from];
+  }
+}
+
+function applySchemaChange(endpoint: MockEndpoint, body: Record<string, unknown>, change: SchemaChange): void {
+  const pairings = endpoint === 'pairings' && Array.isArray(body.active)
+    ? (body.active as Array<Record<string, unknown>>)
+    : [];
+
+  switch (change) {
+    case 'renamed-fields':
+      if (endpoint === 'event') {
+        renameKey(body, 'name', 'eventName');
+      } else {
+        renameKey(body, 'active', 'data');
+      }
+      break;
+    case 'missing-name':
+      if (endpoint === 'event') {
+        delete body.name;
+      }
+      break;
+    case 'missing-factions':
+      for (const pairing of pairings) {
+        for (const key of ['player1', 'player2']) {
+          const player = pairing[key] as Record<string, unknown> | null | undefined;
+          if (player) {
+            delete player.faction;
+          }
+        }
+      }
+      break;
+    case 'null-opponent': {
+      const last = pairings[pairings.length - 1];
+      if (last) {
+        last.player2 = null;
+        delete last.player2Game;
+      }
+      break;
+    }
+  }
+}
+
+export interface FaultedResponse {
+  status: number;
+  headers: Record<string, string>;
+  text: string;
+  delayMs: number;
+}
+
+/**
+ * Builds the response for a request, applying a fault if one matched.
+ */
+export function applyFault(
+  endpoint: MockEndpoint,
+  status: number,
+  body: Record<string, unknown>,
+  fault: MockFault | null
+): FaultedResponse {
+  if (fault === null) {
+    return { status, headers: {}, text: JSON.stringify(body), delayMs: 0 };
+  }
+
+  const changed = JSON.parse(JSON.stringify(body)) as Record<string, unknown>;
+  for (const change of fault.schema ?? []) {
+    applySchemaChange(endpoint, changed, change);
+  }
+
+  let text = fault.body ?? JSON.stringify(changed);
+  if (fault.truncate !== undefined && fault.truncate !== false) {
+    text = text.slice(0, fault.truncate === true ? Math.floor(text.length / 2) : fault.truncate);
+  }
+
+  return {
+    status: fault.status ?? status,
+    headers: fault.headers ?? {},
+    text,
+    delayMs: fault.delayMs ?? 0,
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * Mock BCP scenarios.
+ *
+ * A scenario describes one BCP event: its details, the pairings posted for
+ * each round and (optionally) the standings. Tests register scenarios with the
+ * mock server's control API; the server renders them in the JSON format of the
+ * BCP REST API endpoints that BCPApiService calls.
+ *
+ * Events that were never registered fall back to defaultRound()/defaultStandings(),
+ * which mirror src/Controllers/MockBcpController.php so existing specs keep
+ * working unchanged.
+ */
+
+import { arrayOf, integer, nullable, number, object, optional, string } from '../sdk/validators';
+
+export interface MockPlayer {
+  bcpPlayerId: string;
+  /** Display name; split into BCP firstName/lastName at the first space. */
+  name: string;
+  /** Points scored in this round (BCP playerGame.points). */
+  score: number;
+  faction?: string | null;
+}
+
+export interface MockPairing {
+  /** BCP table number; null when BCP has not assigned one. */
+  tableNumber: number | null;
+  player1: MockPlayer;
+  /** null for a bye. */
+  player2: MockPlayer | null;
+}
+
+export interface MockRound {
+  roundNumber: number;
+  pairings: MockPairing[];
+}
+
+export interface MockStanding {
+  bcpPlayerId: string;
+  totalScore: number;
+  placing?: number | null;
+}
+
+export interface MockEvent {
+  eventId: string;
+  /** Defaults to "Test Tournament {eventId}", like the PHP mock. */
+  name?: string;
+  photoUrl?: string | null;
+  locationName?: string | null;
+  eventDate?: string | null;
+  eventEndDate?: string | null;
+  numberOfRounds?: number;
+  rounds: MockRound[];
+  /**
+   * Standings served by the players (placings) endpoint. When omitted they
+   * are derived from the highest registered round: each player's score there
+   * is their total, ranked by score.
+   */
+  standings?: MockStanding[];
+}
+
+// ---------------------------------------------------------------------------
+// Control API payload shapes
+// ---------------------------------------------------------------------------
+
+const mockPlayerShape = object<MockPlayer>({
+  bcpPlayerId: string(),
+  name: string(),
+  score: number(),
+  faction: optional(nullable(string())),
+});
+
+export const mockRoundShape = object<MockRound>({
+  roundNumber: integer(),
+  pairings: arrayOf(
+    object<MockPairing>({
+      tableNumber: nullable(integer()),
+      player1: mockPlayerShape,
+      player2: nullable(mockPlayerShape),
+    })
+  ),
+});
+
+export const mockEventShape = object<MockEvent>({
+  eventId: string(),
+  name: optional(string()),
+  photoUrl: optional(nullable(string())),
+  locationName: optional(nullable(string())),
+  eventDate: optional(nullable(string())),
+  eventEndDate: optional(nullable(string())),
+  numberOfRounds: optional(integer()),
+  rounds: arrayOf(mockRoundShape),
+  standings: optional(
+    arrayOf(
+      object<MockStanding>({
+        bcpPlayerId: string(),
+        totalScore: number(),
+        placing: optional(nullable(integer())),
+      })
+    )
+  ),
+});
+
+// ---------------------------------------------------------------------------
+// BCP JSON rendering
+// ---------------------------------------------------------------------------
+
+function splitName(name: string): { firstName: string; lastName: string } {
+  const trimmed = name.trim();
+  const space = trimmed.indexOf(' ');
+  return space === -1
+    ? { firstName: trimmed, lastName: '' }
+    : { firstName: trimmed.slice(0, space), lastName: trimmed.slice(space + 1) };
+}
+
+function renderPlayer(player: MockPlayer): Record<string, unknown> {
+  return {
+    id: player.bcpPlayerId,
+    user: splitName(player.name),
+    faction: player.faction ?? null,
+  };
+}
+
+/**
+ * GET /{eventId} - event details.
+ */
+export function renderEventDetails(event: MockEvent): Record<string, unknown> {
+  const playerIds = new Set(
+    event.rounds.flatMap((round) =>
+      round.pairings.flatMap((pairing) =>
+        pairing.player2 === null
+          ? [pairing.player1.bcpPlayerId]
+          : [pairing.player1.bcpPlayerId, pairing.player2.bcpPlayerId]
+      )
+    )
+  );
+
+  return {
+    id: event.eventId,
+    name: event.name ?? `Test Tournament ${event.eventId}`,
+    photoUrl: event.photoUrl === undefined ? `https://example.com/mock-event-${event.eventId}.png` : event.photoUrl,
+    locationName: event.locationName === undefined ? `Test Venue ${event.eventId}` : event.locationName,
+    city: 'Test City',
+    country: 'Test Country',
+    eventDate: event.eventDate === undefined ? '2026-01-01T00:00:00.000Z' : event.eventDate,
+    eventEndDate: event.eventEndDate === undefined ? '2026-01-01T18:00:00.000Z' : event.eventEndDate,
+    numberOfRounds: event.numberOfRounds ?? Math.max(3, event.rounds.length),
+    totalPlayers: playerIds.size,
+    active: true,
+    ended: false,
+  };
+}
+
+/**
+ * GET /{eventId}/pairings?round=N - pairings for one round.
+ * A round that was not registered renders as empty (not posted yet).
+ */
+export function renderPairings(eventId: string, round: MockRound | null): Record<string, unknown> {
+  if (round === null) {
+    return { active: [], deleted: [] };
+  }
+
+  const active = round.pairings.map((pairing, index) => ({
+    id: `${eventId}_r${round.roundNumber}_p${index + 1}`,
+    table: pairing.tableNumber,
+    round: round.roundNumber,
+    player1: renderPlayer(pairing.player1),
+    player1Game: { points: pairing.player1.score, result: 0 },
+    ...(pairing.player2 === null
+      ? {}
+      : {
+          player2: renderPlayer(pairing.player2),
+          player2Game: { points: pairing.player2.score, result: 0 },
+        }),
+  }));
+
+  return { active, deleted: [] };
+}
+
+/**
+ * GET /{eventId}/players?placings=true - standings.
+ */
+export function renderPlacings(standings: MockStanding[]): Record<string, unknown> {
+  return {
+    active: standings.map((standing, index) => ({
+      id: standing.bcpPlayerId,
+      placing: standing.placing === undefined ? index + 1 : standing.placing,
+      overall_metrics: [{ name: 'Overall Score', value: standing.totalScore }],
+    })),
+    deleted: [],
+  };
+}
+
+/**
+ * Standings for an event: explicit ones, or derived from the latest round.
+ */
+export function resolveStandings(event: MockEvent): MockStanding[] {
+  if (event.standings) {
+    return event.standings;
+  }
+
+  const latest = [...event.rounds].sort((a, b) => b.roundNumber - a.roundNumber)[0];
+  if (!latest) {
+    return [];
+  }
+
+  const players = latest.pairings.flatMap((pairing) =>
+    pairing.player2 === null ? [pairing.player1] : [pairing.player1, pairing.player2]
+  );
+
+  return players
+    .map((player) => ({ bcpPlayerId: player.bcpPlayerId, totalScore: player.score }))
+    .sort((a, b) => b.totalScore - a.totalScore);
+}
+
+// ---------------------------------------------------------------------------
+// Default scenario (unregistered events)
+// ---------------------------------------------------------------------------
+
+const DEFAULT_PLAYERS = [
+  { bcpPlayerId: 'mock_player_1', name: 'Alice Smith', faction: 'Corsair Voidscarred' },
+  { bcpPlayerId: 'mock_player_2', name: 'Bob Jones', faction: 'Nemesis Claw' },
+  { bcpPlayerId: 'mock_player_3', name: 'Charlie Brown', faction: 'Blades of Khaine' },
+  { bcpPlayerId: 'mock_player_4', name: 'Diana Prince', faction: 'Warpcoven' },
+  { bcpPlayerId: 'mock_player_5', name: 'Eve Wilson', faction: 'Pathfinders' },
+  { bcpPlayerId: 'mock_player_6', name: 'Frank Miller', faction: 'Legionaries' },
+  { bcpPlayerId: 'mock_player_7', name: 'Grace Lee', faction: 'Kommandos' },
+  { bcpPlayerId: 'mock_player_8', name: 'Henry Ford', faction: 'Intercession Squad' },
+];
+
+/**
+ * Event used for unregistered event IDs (details only; rounds come from defaultRound()).
+ */
+export function defaultEvent(eventId: string): MockEvent {
+  return { eventId, numberOfRounds: 3, rounds: [] };
+}
+
+/**
+ * The same 4 fixed pairings for every round, with scores rising per round.
+ */
+export function defaultRound(roundNumber: number): MockRound {
+  const pairings: MockPairing[] = [];
+
+  for (let table = 1; table <= DEFAULT_PLAYERS.length / 2; table++) {
+    const p1 = DEFAULT_PLAYERS[(table - 1) * 2];
+    const p2 = DEFAULT_PLAYERS[(table - 1) * 2 + 1];
+    pairings.push({
+      tableNumber: table,
+      player1: { ...p1, score: Math.max(0, 20 - table * 2 + roundNumber) },
+      player2: { ...p2, score: Math.max(0, 15 - table * 2 + roundNumber) },
+    });
+  }
+
+  return { roundNumber, pairings };
+}
+
+/**
+ * Standings for unregistered events: placing order matches player order.
+ */
+export function defaultStandings(): MockStanding[] {
+  return DEFAULT_PLAYERS.map((player, index) => ({
+    bcpPlayerId: player.bcpPlayerId,
+    totalScore: Math.max(0, 20 - index * 2),
+    placing: index + 1,
+  }));
+}
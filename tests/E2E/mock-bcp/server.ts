@@ -0,0 +1,370 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { checkShape } from '../sdk/validators';
+import {
+  MockEvent,
+  MockRound,
+  defaultEvent,
+  defaultRound,
+  defaultStandings,
+  mockEventShape,
+  mockRoundShape,
+  renderEventDetails,
+  renderPairings,
+  renderPlacings,
+  resolveStandings,
+} from './scenario';
+import { FaultQueue, MockEndpoint, MockFault, applyFault, checkFaults } from './faults';
+
+/**
+ * Standalone mock BCP server.
+ *
+ * Serves the BCP REST API endpoints BCPApiService calls (point
+ * BCP_MOCK_BASE_URL at this server):
+ *
+ *   GET /{eventId}                       event details
+ *   GET /{eventId}/pairings?round=N      pairings for a round
+ *   GET /{eventId}/players?placings=true standings
+ *
+ * and a control API for tests to register their own events:
+ *
+ *   PUT    /__control/events/{eventId}             register or replace an event (MockEvent)
+ *   PUT    /__control/events/{eventId}/rounds/{n}  post or replace one round's pairings
+ *   GET    /__control/events/{eventId}             registered event, BCP requests received and pending faults
+ *   DELETE /__control/events/{eventId}             forget an event, its request log and faults
+ *   PUT    /__control/events/{eventId}/faults      replace the event's fault queue ({ faults: MockFault[] })
+ *   POST   /__control/events/{eventId}/faults      append to the fault queue
+ *   DELETE /__control/events/{eventId}/faults      clear the fault queue
+ *   POST   /__control/reset                        forget all events
+ *   GET    /__control/health                       readiness probe
+ *
+ * Faults (see faults.ts) also work for unregistered events, so a test can
+ * break the default event without registering one.
+ *
+ * Start it with `npm run mock-bcp` (port from BCP_MOCK_PORT, default 8090).
+ */
+
+export const DEFAULT_MOCK_BCP_PORT = 8090;
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  at: string;
+  /** Status the mock responded with (after faults). */
+  status?: number;
+}
+
+interface MockState {
+  events: Map<string, MockEvent>;
+  requests: Map<string, RecordedRequest[]>;
+  faults: Map<string, FaultQueue>;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, readonly error: string, message: string, readonly issues?: string[]) {
+    super(message);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    return text === '' ? null : JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'invalid_json', 'Request body is not valid JSON');
+  }
+}
+
+function assertValid(shape: Parameters<typeof checkShape>[0], value: unknown): void {
+  const issues = checkShape(shape, value);
+  if (issues.length > 0) {
+    throw new HttpError(400, 'validation_error', 'Invalid scenario', issues);
+  }
+}
+
+function registeredEvent(state: MockState, eventId: string): MockEvent {
+  const event = state.events.get(eventId);
+  if (!event) {
+    throw new HttpError(404, 'not_found', `Event ${eventId} is not registered`);
+  }
+  return event;
+}
+
+function faultQueue(state: MockState, eventId: string): FaultQueue {
+  let queue = state.faults.get(eventId);
+  if (!queue) {
+    queue = new FaultQueue();
+    state.faults.set(eventId, queue);
+  }
+  return queue;
+}
+
+function withRound(event: MockEvent, round: MockRound): MockEvent {
+  const rounds = event.rounds.filter((existing) => existing.roundNumber !== round.roundNumber);
+  rounds.push(round);
+  rounds.sort((a, b) => a.roundNumber - b.roundNumber);
+  return { ...event, rounds };
+}
+
+async function handleControl(
+  state: MockState,
+  method: string,
+  segments: string[],
+  req: http.IncomingMessage
+): Promise<{ status: number; body: unknown }> {
+  const [resource, eventId, sub, roundParam] = segments;
+
+  if (resource === 'health' && method === 'GET') {
+    return { status: 200, body: { ok: true, events: state.events.size } };
+  }
+
+  if (resource === 'reset' && method === 'POST') {
+    state.events.clear();
+    state.requests.clear();
+    state.faults.clear();
+    return { status: 200, body: { reset: true } };
+  }
+
+  if (resource === 'events' && eventId !== undefined && sub === undefined) {
+    if (method === 'PUT') {
+      const body = await readJson(req);
+      const event = { ...(body as object), eventId } as MockEvent;
+      assertValid(mockEventShape, event);
+      const created = !state.events.has(eventId);
+      state.events.set(eventId, event);
+      state.requests.set(eventId, []);
+      return { status: created ? 201 : 200, body: { event } };
+    }
+    if (method === 'GET') {
+      return {
+        status: 200,
+        body: {
+          event: state.events.get(eventId) ?? null,
+          requests: state.requests.get(eventId) ?? [],
+          faults: state.faults.get(eventId)?.list() ?? [],
+        },
+      };
+    }
+    if (method === 'DELETE') {
+      state.events.delete(eventId);
+      state.requests.delete(eventId);
+      state.faults.delete(eventId);
+      return { status: 200, body: { deleted: eventId } };
+    }
+  }
+
+  if (resource === 'events' && eventId !== undefined && sub === 'faults' && roundParam === undefined) {
+    const queue = faultQueue(state, eventId);
+    if (method === 'DELETE') {
+      queue.clear();
+      return { status: 200, body: { faults: [] } };
+    }
+    if (method === 'PUT' || method === 'POST') {
+      const body = (await readJson(req)) as { faults?: unknown } | null;
+      const issues = checkFaults(body?.faults);
+      if (issues.length > 0) {
+        throw new HttpError(400, 'validation_error', 'Invalid faults', issues);
+      }
+      if (method === 'PUT') {
+        queue.clear();
+      }
+      queue.add(body!.faults as MockFault[]);
+      return { status: 200, body: { faults: queue.list() } };
+    }
+  }
+
+  if (
+    resource === 'events' &&
+    eventId !== undefined &&
+    sub === 'rounds' &&
+    roundParam !== undefined &&
+    method === 'PUT'
+  ) {
+    const event = registeredEvent(state, eventId);
+    const body = await readJson(req);
+    const round = { ...(body as object), roundNumber: Number(roundParam) } as MockRound;
+    assertValid(mockRoundShape, round);
+    state.events.set(eventId, withRound(event, round));
+    return { status: 200, body: { round } };
+  }
+
+  throw new HttpError(404, 'not_found', `No control route for ${method} /__control/${segments.join('/')}`);
+}
+
+function handleBcp(
+  state: MockState,
+  method: string,
+  segments: string[],
+  query: URLSearchParams
+): { endpoint: MockEndpoint; round: number | null; status: number; body: Record<string, unknown> } {
+  const [eventId, resource] = segments;
+  if (method !== 'GET' || eventId === undefined || segments.length > 2) {
+    throw new HttpError(404, 'not_found', 'Unknown BCP endpoint');
+  }
+
+  const event = state.events.get(eventId);
+
+  if (resource === undefined) {
+    return {
+      endpoint: 'event',
+      round: null,
+      status: 200,
+      body: renderEventDetails(event ?? defaultEvent(eventId)) as Record<string, unknown>,
+    };
+  }
+
+  if (resource === 'pairings') {
+    const roundNumber = Number(query.get('round') ?? 1);
+    const round = event
+      ? event.rounds.find((candidate) => candidate.roundNumber === roundNumber) ?? null
+      : defaultRound(roundNumber);
+    return {
+      endpoint: 'pairings',
+      round: roundNumber,
+      status: 200,
+      body: renderPairings(eventId, round) as Record<string, unknown>,
+    };
+  }
+
+  if (resource === 'players') {
+    return {
+      endpoint: 'players',
+      round: null,
+      status: 200,
+      body: renderPlacings(event ? resolveStandings(event) : defaultStandings()) as Record<string, unknown>,
+    };
+  }
+
+  throw new HttpError(404, 'not_found', `Unknown BCP endpoint /${segments.join('/')}`);
+}
+
+/**
+ * Creates the mock server (not yet listening).
+ */
+export function createMockBcpServer(): http.Server {
+  const state: MockState = { events: new Map(), requests: new Map(), faults: new Map() };
+
+  return http.createServer((req, res) => {
+    const method = req.method ?? 'GET';
+    const url = new URL(req.url ?? '/', 'http://mock-bcp');
+
+    const fail = (err: unknown): void => {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.error, message: err.message, issues: err.issues });
+      } else {
+        sendJson(res, 500, { error: 'internal_error', message: String(err) });
+      }
+    };
+
+    let segments: string[];
+    try {
+      segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      // A malformed escape (e.g. %E0%A4) must not take the mock down for every other spec
+      fail(new HttpError(400, 'bad_request', `Malformed request path ${url.pathname}`));
+      return;
+    }
+
+    if (segments[0] === '__control') {
+      handleControl(state, method, segments.slice(1), req).then(
+        ({ status, body }) => sendJson(res, status, body),
+        fail
+      );
+      return;
+    }
+
+    const eventId = segments[0];
+    const recorded: RecordedRequest = {
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      at: new Date().toISOString(),
+    };
+    if (eventId !== undefined) {
+      let log = state.requests.get(eventId);
+      if (!log) {
+        log = [];
+        state.requests.set(eventId, log);
+      }
+      log.push(recorded);
+    }
+
+    let response;
+    try {
+      const { endpoint, round, status, body } = handleBcp(state, method, segments, url.searchParams);
+      const fault = eventId !== undefined ? state.faults.get(eventId)?.take(endpoint, round) ?? null : null;
+      response = applyFault(endpoint, status, body, fault);
+    } catch (err) {
+      recorded.status = err instanceof HttpError ? err.status : 500;
+      fail(err);
+      return;
+    }
+
+    recorded.status = response.status;
+    const { status, headers, text, delayMs } = response;
+    setTimeout(() => {
+      // The client may have given up (timed out) while the response was delayed
+      if (res.destroyed) {
+        return;
+      }
+      res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(text),
+        ...headers,
+      });
+      res.end(text);
+    }, delayMs);
+  });
+}
+
+/**
+ * Starts the mock server and resolves once it is listening.
+ */
+export async function startMockBcpServer(
+  port = DEFAULT_MOCK_BCP_PORT,
+  host = '0.0.0.0'
+): Promise<{ url: string; close(): Promise<void> }> {
+  const server = createMockBcpServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://localhost:${address.port}`,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+if (require.main === module) {
+  const port = Number(process.env.BCP_MOCK_PORT ?? DEFAULT_MOCK_BCP_PORT);
+  startMockBcpServer(port).then(
+    ({ url, close }) => {
+      process.stdout.write(`Mock BCP server listening on ${url}\n`);
+      const shutdown = () => {
+        close().finally(() => process.exit(0));
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    },
+    (err: unknown) => {
+      process.stderr.write(`Failed to start mock BCP server: ${(err as Error).message}\n`);
+      process.exitCode = 1;
+    }
+  );
+}
@@ -0,0 +1,332 @@
+import type { MockEvent, MockPairing, MockPlayer, MockRound, MockStanding } from './scenario';
+
+/**
+ * Seeded Swiss tournament simulator.
+ *
+ * Produces realistic multi-round BCP pairing data for any player count:
+ * round 1 is paired randomly, later rounds pair within score brackets
+ * (top-down, avoiding rematches), an odd player count gives the lowest-ranked
+ * player without a bye a bye, players can drop between rounds, and games end
+ * in a win, loss or draw weighted by a hidden skill rating. Tables are
+ * numbered like BCP does: 1 for the top pairing, byes have no table.
+ *
+ * The same options always produce the same tournament:
+ *
+ *   const sim = simulateSwiss({ seed: 42, players: 96, rounds: 5, drops: { 3: 4 } });
+ *   await mockBcp.registerEvent(toMockEvent(sim, { publishedRounds: 1 }));
+ *   await mockBcp.postRound(eventId, sim.rounds[1]);
+ */
+
+export interface SwissPlayerInput {
+  bcpPlayerId: string;
+  name: string;
+  faction?: string | null;
+}
+
+export interface SwissPoints {
+  win: number;
+  draw: number;
+  loss: number;
+  bye: number;
+}
+
+export interface SwissOptions {
+  seed: number;
+  /** Player count (names and factions generated), or the players themselves. */
+  players: number | SwissPlayerInput[];
+  rounds: number;
+  /** Chance of a game ending in a draw (default 0.05). */
+  drawRate?: number;
+  /** Players dropping before a round, keyed by round number, e.g. { 3: 2 }. */
+  drops?: Record<number, number>;
+  /** Factions assigned to generated players. */
+  factions?: string[];
+  /** Points per result (default win 3, draw 1, loss 0, bye 3). */
+  points?: SwissPoints;
+}
+
+export type SwissOutcome = 'player1' | 'player2' | 'draw' | 'bye';
+
+export interface SwissResult {
+  tableNumber: number | null;
+  player1: string;
+  player2: string | null;
+  outcome: SwissOutcome;
+}
+
+export interface SwissRound extends MockRound {
+  /** How each pairing ended (not sent to the mock server). */
+  results: SwissResult[];
+}
+
+export interface SwissPlayer extends SwissPlayerInput {
+  score: number;
+  /** Round the player dropped before, or null. */
+  droppedBeforeRound: number | null;
+  opponents: string[];
+  byes: number;
+}
+
+export interface SwissTournament {
+  seed: number;
+  players: SwissPlayer[];
+  rounds: SwissRound[];
+  /** Final standings, dropped players included. */
+  standings: MockStanding[];
+}
+
+export const DEFAULT_FACTIONS = [
+  'Corsair Voidscarred',
+  'Nemesis Claw',
+  'Blades of Khaine',
+  'Warpcoven',
+  'Pathfinders',
+  'Legionaries',
+  'Kommandos',
+  'Intercession Squad',
+  'Hearthkyn Salvagers',
+  'Hunter Clade',
+  'Void-Dancer Troupe',
+  'Farstalker Kinband',
+  'Imperial Navy Breachers',
+  'Chaos Cult',
+  'Fellgor Ravagers',
+  'Phobos Strike Team',
+];
+
+const FIRST_NAMES = [
+  'Alice', 'Bob', 'Charlie', 'Diana', 'Eve', 'Frank', 'Grace', 'Henry', 'Ivy', 'Jack',
+  'Kara', 'Liam', 'Maya', 'Noah', 'Olga', 'Pavel', 'Quinn', 'Rosa', 'Sam', 'Tess',
+];
+
+const LAST_NAMES = [
+  'Smith', 'Jones', 'Brown', 'Prince', 'Wilson', 'Miller', 'Lee', 'Ford', 'Novak', 'Kovacs',
+  'Garcia', 'Nagy', 'Ito', 'Berg', 'Costa', 'Dunn', 'Evans', 'Fischer', 'Horvat', 'Young',
+];
+
+const DEFAULT_POINTS: SwissPoints = { win: 3, draw: 1, loss: 0, bye: 3 };
+
+/** Backtracking budget before pairing falls back to allowing rematches. */
+const MAX_PAIRING_STEPS = 100000;
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1).
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function generatePlayers(count: number, factions: string[], random: () => number): SwissPlayerInput[] {
+  const width = String(count).length;
+  const names = new Set<string>();
+
+  return Array.from({ length: count }, (_, index) => {
+    let name = `${FIRST_NAMES[Math.floor(random() * FIRST_NAMES.length)]} ${
+      LAST_NAMES[Math.floor(random() * LAST_NAMES.length)]
+    }`;
+    // Names are only 400 combinations; suffix duplicates like BCP users do
+    for (let suffix = 2; names.has(name); suffix++) {
+      name = `${name.replace(/ \d+$/, '')} ${suffix}`;
+    }
+    names.add(name);
+
+    return {
+      bcpPlayerId: `swiss_p${String(index + 1).padStart(width, '0')}`,
+      name,
+      faction: factions[Math.floor(random() * factions.length)],
+    };
+  });
+}
+
+/**
+ * Pairs a ranked list top-down, avoiding rematches with backtracking.
+ * Returns null when no rematch-free pairing is found within the budget.
+ */
+function pairWithoutRematches(ranked: SwissPlayer[]): Array<[SwissPlayer, SwissPlayer]> | null {
+  let steps = 0;
+
+  const pair = (remaining: SwissPlayer[]): Array<[SwissPlayer, SwissPlayer]> | null => {
+    if (remaining.length === 0) {
+      return [];
+    }
+    const [first, ...rest] = remaining;
+    for (let i = 0; i < rest.length; i++) {
+      if (++steps > MAX_PAIRING_STEPS) {
+        return null;
+      }
+      if (first.opponents.includes(rest[i].bcpPlayerId)) {
+        continue;
+      }
+      const paired = pair([...rest.slice(0, i), ...rest.slice(i + 1)]);
+      if (paired !== null) {
+        return [[first, rest[i]], ...paired];
+      }
+    }
+    return null;
+  };
+
+  return pair(ranked);
+}
+
+function pairAdjacent(ranked: SwissPlayer[]): Array<[SwissPlayer, SwissPlayer]> {
+  const pairs: Array<[SwissPlayer, SwissPlayer]> = [];
+  for (let i = 0; i + 1 < ranked.length; i += 2) {
+    pairs.push([ranked[i], ranked[i + 1]]);
+  }
+  return pairs;
+}
+
+function strengthOfSchedule(player: SwissPlayer, byId: Map<string, SwissPlayer>): number {
+  return player.opponents.reduce((sum, id) => sum + (byId.get(id)?.score ?? 0), 0);
+}
+
+function toMockPlayer(player: SwissPlayer): MockPlayer {
+  return { bcpPlayerId: player.bcpPlayerId, name: player.name, score: player.score, faction: player.faction ?? null };
+}
+
+/**
+ * Simulates a Swiss tournament.
+ */
+export function simulateSwiss(options: SwissOptions): SwissTournament {
+  const random = seededRandom(options.seed);
+  const points = options.points ?? DEFAULT_POINTS;
+  const drawRate = options.drawRate ?? 0.05;
+  const inputs =
+    typeof options.players === 'number'
+      ? generatePlayers(options.players, options.factions ?? DEFAULT_FACTIONS, random)
+      : options.players;
+
+  if (inputs.length < 2) {
+    throw new Error('A Swiss tournament needs at least 2 players');
+  }
+
+  const players: SwissPlayer[] = inputs.map((input) => ({
+    ...input,
+    score: 0,
+    droppedBeforeRound: null,
+    opponents: [],
+    byes: 0,
+  }));
+  const byId = new Map(players.map((player) => [player.bcpPlayerId, player]));
+  const skill = new Map(players.map((player) => [player.bcpPlayerId, random()]));
+  // Fixed random order breaks ties between equal scores, like BCP's random seeding
+  const seedOrder = new Map(shuffle(players, random).map((player, index) => [player.bcpPlayerId, index]));
+
+  const rounds: SwissRound[] = [];
+
+  for (let roundNumber = 1; roundNumber <= options.rounds; roundNumber++) {
+    let active = players.filter((player) => player.droppedBeforeRound === null);
+
+    const dropCount = Math.min(options.drops?.[roundNumber] ?? 0, Math.max(0, active.length - 2));
+    for (const dropped of shuffle(active, random).slice(0, dropCount)) {
+      dropped.droppedBeforeRound = roundNumber;
+    }
+    active = active.filter((player) => player.droppedBeforeRound === null);
+
+    const ranked =
+      roundNumber === 1
+        ? shuffle(active, random)
+        : [...active].sort(
+            (a, b) =>
+              b.score - a.score ||
+              strengthOfSchedule(b, byId) - strengthOfSchedule(a, byId) ||
+              seedOrder.get(a.bcpPlayerId)! - seedOrder.get(b.bcpPlayerId)!
+          );
+
+    // Odd count: lowest-ranked player who has not had a bye yet sits out
+    let byePlayer: SwissPlayer | null = null;
+    if (ranked.length % 2 === 1) {
+      const fewestByes = Math.min(...ranked.map((player) => player.byes));
+      const index = ranked.map((player) => player.byes).lastIndexOf(fewestByes);
+      [byePlayer] = ranked.splice(index, 1);
+    }
+
+    const pairs = pairWithoutRematches(ranked) ?? pairAdjacent(ranked);
+
+    const pairings: MockPairing[] = pairs.map(([player1, player2], index) => ({
+      tableNumber: index + 1,
+      player1: toMockPlayer(player1),
+      player2: toMockPlayer(player2),
+    }));
+    if (byePlayer) {
+      pairings.push({ tableNumber: null, player1: toMockPlayer(byePlayer), player2: null });
+    }
+
+    // Play the games
+    const results: SwissResult[] = pairs.map(([player1, player2], index) => {
+      let outcome: SwissOutcome;
+      if (random() < drawRate) {
+        outcome = 'draw';
+      } else {
+        const p1WinChance = 1 / (1 + Math.exp(-4 * (skill.get(player1.bcpPlayerId)! - skill.get(player2.bcpPlayerId)!)));
+        outcome = random() < p1WinChance ? 'player1' : 'player2';
+      }
+
+      player1.opponents.push(player2.bcpPlayerId);
+      player2.opponents.push(player1.bcpPlayerId);
+      player1.score += outcome === 'player1' ? points.win : outcome === 'draw' ? points.draw : points.loss;
+      player2.score += outcome === 'player2' ? points.win : outcome === 'draw' ? points.draw : points.loss;
+
+      return { tableNumber: index + 1, player1: player1.bcpPlayerId, player2: player2.bcpPlayerId, outcome };
+    });
+    if (byePlayer) {
+      byePlayer.byes++;
+      byePlayer.score += points.bye;
+      results.push({ tableNumber: null, player1: byePlayer.bcpPlayerId, player2: null, outcome: 'bye' });
+    }
+
+    rounds.push({ roundNumber, pairings, results });
+  }
+
+  const standings = [...players]
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        strengthOfSchedule(b, byId) - strengthOfSchedule(a, byId) ||
+        seedOrder.get(a.bcpPlayerId)! - seedOrder.get(b.bcpPlayerId)!
+    )
+    .map((player, index) => ({ bcpPlayerId: player.bcpPlayerId, totalScore: player.score, placing: index + 1 }));
+
+  return { seed: options.seed, players, rounds, standings };
+}
+
+/**
+ * Strips simulator-only fields from a round, leaving the MockRound the server accepts.
+ */
+export function toMockRound(round: SwissRound): MockRound {
+  return { roundNumber: round.roundNumber, pairings: round.pairings };
+}
+
+/**
+ * Mock BCP event for a simulated tournament, with the first `publishedRounds`
+ * rounds posted (default all). Standings are left to the mock server, which
+ * derives them from the latest posted round, so rounds posted later with
+ * postRound() keep standings in step.
+ */
+export function toMockEvent(
+  tournament: SwissTournament,
+  options: { name?: string; publishedRounds?: number } = {}
+): Omit<MockEvent, 'eventId'> {
+  const published = options.publishedRounds ?? tournament.rounds.length;
+  return {
+    name: options.name ?? `Swiss ${tournament.players.length} (seed ${tournament.seed})`,
+    numberOfRounds: tournament.rounds.length,
+    rounds: tournament.rounds.slice(0, published).map(toMockRound),
+  };
+}
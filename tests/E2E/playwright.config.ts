@@ -1,4 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
+import { workerDatabaseHeaders } from './helpers/worker-database';
 
 /**
  * Playwright configuration for Tournament Tables E2E tests.
@@ -12,6 +13,9 @@ export default defineConfig({
   /* Run tests in files in parallel */
   fullyParallel: true,
 
+  /* One database per worker, cloned from the migrated schema (helpers/worker-database.ts) */
+  globalSetup: './global-setup.ts',
+
   /* Fail the build on CI if you accidentally left test.only in the source code. */
   forbidOnly: !!process.env.CI,
 
@@ -33,6 +37,9 @@ export default defineConfig({
     /* Base URL to use in actions like `await page.goto('/')`. */
     baseURL: process.env.BASE_URL || 'http://localhost:8080',
 
+    /* Route app requests to this worker's database (the config is loaded in each worker) */
+    extraHTTPHeaders: workerDatabaseHeaders(),
+
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on',
 
@@ -85,13 +92,22 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
+  /* Run the mock BCP server and your local dev server before starting the tests */
   webServer: process.env.CI
     ? undefined
-    : {
-        command: 'cd ../.. && php -S localhost:8080 -t public',
-        url: 'http://localhost:8080',
-        reuseExistingServer: !process.env.CI,
-        timeout: 120000,
-      },
+    : [
+        {
+          command: 'npm run mock-bcp',
+          url: 'http://localhost:8090/__control/health',
+          reuseExistingServer: !process.env.CI,
+          timeout: 60000,
+        },
+        {
+          command: 'cd ../.. && php -S localhost:8080 -t public',
+          url: 'http://localhost:8080',
+          reuseExistingServer: !process.env.CI,
+          timeout: 120000,
+          env: { APP_ENV: 'testing', BCP_MOCK_BASE_URL: 'http://localhost:8090' },
+        },
+      ],
 });
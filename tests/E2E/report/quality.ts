@@ -0,0 +1,354 @@
+import type {
+  Allocation,
+  ConflictType,
+  RoundDetails,
+  TerrainType,
+  TournamentDetails,
+  TournamentTablesClient,
+} from '../sdk';
+
+/**
+ * Allocation quality analysis for a whole tournament.
+ *
+ * Answers the questions organizers ask after an event, per player and per
+ * round:
+ * - table repeats:   a player sat at a table they had played on before
+ * - terrain repeats: a player played on a terrain type they had seen before
+ * - family repeats:  a player played another variant of a terrain family they
+ *                    had seen before (Volkus, then Volkus+Tyranid)
+ * - score vs table:  how closely table order followed pairing scores
+ * - BCP deviations:  pairings moved away from the table BCP assigned
+ *
+ * Rounds are analyzed in order; a repeat is counted in the round it happens.
+ */
+
+export interface PlayerQuality {
+  playerId: number;
+  name: string;
+  roundsPlayed: number;
+  byes: number;
+  /** Table number per analyzed round (null for byes and rounds not played). */
+  tables: Array<number | null>;
+  terrains: Array<string | null>;
+  tableRepeats: number;
+  terrainRepeats: number;
+  familyRepeats: number;
+  bcpDeviations: number;
+  issues: string[];
+}
+
+export interface RoundQuality {
+  roundNumber: number;
+  isPublished: boolean;
+  pairings: number;
+  byes: number;
+  tableRepeats: number;
+  terrainRepeats: number;
+  familyRepeats: number;
+  bcpDeviations: number;
+  /**
+   * Spearman rank correlation between pairing score and table order:
+   * 1 means the highest scores sit on the lowest tables, null when scores are all equal.
+   */
+  scoreTableCorrelation: number | null;
+  conflicts: Partial<Record<ConflictType, number>>;
+  issues: string[];
+}
+
+export interface QualitySummary {
+  rounds: number;
+  players: number;
+  pairings: number;
+  playersWithTableRepeat: number;
+  tableRepeats: number;
+  playersWithTerrainRepeat: number;
+  terrainRepeats: number;
+  playersWithFamilyRepeat: number;
+  familyRepeats: number;
+  bcpDeviations: number;
+  /** Share of pairings (with a BCP table) placed elsewhere, 0..1. */
+  bcpDeviationRate: number;
+  /** Mean of the per-round correlations that could be computed. */
+  meanScoreTableCorrelation: number | null;
+}
+
+export interface QualityReport {
+  tournament: { id: number; name: string };
+  generatedAt: string;
+  summary: QualitySummary;
+  rounds: RoundQuality[];
+  players: PlayerQuality[];
+  /** Worst cases first; only entries with at least one issue. */
+  worst: { players: PlayerQuality[]; rounds: RoundQuality[] };
+}
+
+export interface AnalyzeOptions {
+  /** Number of worst players and rounds listed (default 5). */
+  worstLimit?: number;
+  /** Rounds correlating below this are flagged (default 0.5). */
+  correlationThreshold?: number;
+  /** Timestamp for the report (default now). */
+  now?: Date;
+  /** Terrain catalog for family repeats; without it every type is a family of its own. */
+  terrainTypes?: TerrainType[];
+}
+
+/**
+ * Fetches every imported round of a tournament, and its terrain catalog.
+ */
+export async function collectTournament(
+  client: TournamentTablesClient,
+  tournamentId: number,
+  adminToken: string
+): Promise<{ details: TournamentDetails; rounds: RoundDetails[]; terrainTypes: TerrainType[] }> {
+  const details = await client.getTournament(tournamentId, adminToken);
+  const rounds: RoundDetails[] = [];
+  for (const round of [...details.rounds].sort((a, b) => a.roundNumber - b.roundNumber)) {
+    rounds.push(await client.getRound(tournamentId, round.roundNumber, adminToken));
+  }
+  const { terrainTypes } = await client.getTournamentTerrainTypes(tournamentId, adminToken);
+  return { details, rounds, terrainTypes };
+}
+
+/**
+ * Spearman rank correlation (average ranks for ties); null without variance.
+ */
+export function rankCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) {
+    return null;
+  }
+
+  const ranks = (values: number[]): number[] => {
+    const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+    const result = new Array<number>(values.length);
+    for (let start = 0; start < order.length; ) {
+      let end = start;
+      while (end + 1 < order.length && order[end + 1].value === order[start].value) {
+        end++;
+      }
+      for (let i = start; i <= end; i++) {
+        result[order[i].index] = (start + end) / 2;
+      }
+      start = end + 1;
+    }
+    return result;
+  };
+
+  const rx = ranks(xs);
+  const ry = ranks(ys);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const mx = mean(rx);
+  const my = mean(ry);
+
+  let covariance = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mx) * (ry[i] - my);
+    vx += (rx[i] - mx) ** 2;
+    vy += (ry[i] - my) ** 2;
+  }
+
+  return vx === 0 || vy === 0 ? null : covariance / Math.sqrt(vx * vy);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function seats(allocation: Allocation) {
+  return allocation.player2 === null ? [allocation.player1] : [allocation.player1, allocation.player2];
+}
+
+/**
+ * Computes the quality report from a tournament's rounds.
+ */
+export function analyzeAllocations(
+  tournament: { id: number; name: string },
+  rounds: RoundDetails[],
+  options: AnalyzeOptions = {}
+): QualityReport {
+  const worstLimit = options.worstLimit ?? 5;
+  const threshold = options.correlationThreshold ?? 0.5;
+  const ordered = [...rounds].sort((a, b) => a.roundNumber - b.roundNumber);
+  // Allocations name their terrain type; unknown names are families of their own
+  const families = new Map((options.terrainTypes ?? []).map((type) => [type.name, type.family ?? type.name]));
+  const familyOf = (terrain: string) => families.get(terrain) ?? terrain;
+
+  const players = new Map<number, PlayerQuality>();
+  const playerFor = (id: number, name: string | null): PlayerQuality => {
+    let player = players.get(id);
+    if (!player) {
+      player = {
+        playerId: id,
+        name: name ?? `Player ${id}`,
+        roundsPlayed: 0,
+        byes: 0,
+        tables: ordered.map(() => null),
+        terrains: ordered.map(() => null),
+        tableRepeats: 0,
+        terrainRepeats: 0,
+        familyRepeats: 0,
+        bcpDeviations: 0,
+        issues: [],
+      };
+      players.set(id, player);
+    }
+    return player;
+  };
+
+  const roundReports = ordered.map((round, roundIndex): RoundQuality => {
+    const report: RoundQuality = {
+      roundNumber: round.roundNumber,
+      isPublished: round.isPublished,
+      pairings: 0,
+      byes: 0,
+      tableRepeats: 0,
+      terrainRepeats: 0,
+      familyRepeats: 0,
+      bcpDeviations: 0,
+      scoreTableCorrelation: null,
+      conflicts: {},
+      issues: [],
+    };
+
+    const scores: number[] = [];
+    const tableNumbers: number[] = [];
+
+    for (const allocation of round.allocations) {
+      for (const conflict of allocation.conflicts) {
+        report.conflicts[conflict.type] = (report.conflicts[conflict.type] ?? 0) + 1;
+      }
+
+      if (allocation.isBye) {
+        report.byes++;
+        if (allocation.player1.id !== null) {
+          playerFor(allocation.player1.id, allocation.player1.name).byes++;
+        }
+        continue;
+      }
+
+      report.pairings++;
+      const deviated =
+        allocation.bcpTableNumber !== null &&
+        allocation.tableNumber !== null &&
+        allocation.tableNumber !== allocation.bcpTableNumber;
+      if (deviated) {
+        report.bcpDeviations++;
+      }
+      if (allocation.tableNumber !== null) {
+        scores.push(allocation.player1.score + (allocation.player2?.score ?? 0));
+        tableNumbers.push(allocation.tableNumber);
+      }
+
+      for (const seat of seats(allocation)) {
+        if (seat.id === null) {
+          continue;
+        }
+        const player = playerFor(seat.id, seat.name);
+        const previousTables = player.tables.slice(0, roundIndex);
+        const previousTerrains = player.terrains.slice(0, roundIndex);
+
+        player.roundsPlayed++;
+        player.tables[roundIndex] = allocation.tableNumber;
+        player.terrains[roundIndex] = allocation.terrainType;
+        if (deviated) {
+          player.bcpDeviations++;
+        }
+
+        if (allocation.tableNumber !== null && previousTables.includes(allocation.tableNumber)) {
+          const first = ordered[previousTables.indexOf(allocation.tableNumber)].roundNumber;
+          player.tableRepeats++;
+          player.issues.push(
+            `Round ${round.roundNumber}: table ${allocation.tableNumber} again (first played in round ${first})`
+          );
+          report.tableRepeats++;
+        }
+        if (allocation.terrainType !== null && previousTerrains.includes(allocation.terrainType)) {
+          player.terrainRepeats++;
+          player.issues.push(`Round ${round.roundNumber}: ${allocation.terrainType} terrain again`);
+          report.terrainRepeats++;
+        } else if (allocation.terrainType !== null) {
+          const family = familyOf(allocation.terrainType);
+          const variant = previousTerrains.find((terrain) => terrain !== null && familyOf(terrain) === family);
+          if (variant) {
+            player.familyRepeats++;
+            player.issues.push(
+              `Round ${round.roundNumber}: ${allocation.terrainType} terrain, a variant of ${variant} played before`
+            );
+            report.familyRepeats++;
+          }
+        }
+      }
+    }
+
+    // Higher scores should sit on lower table numbers
+    const correlation = rankCorrelation(scores, tableNumbers.map((table) => -table));
+    report.scoreTableCorrelation = correlation === null ? null : round2(correlation);
+
+    if (report.tableRepeats > 0) {
+      report.issues.push(`${report.tableRepeats} table ${report.tableRepeats === 1 ? 'repeat' : 'repeats'}`);
+    }
+    if (report.scoreTableCorrelation !== null && report.scoreTableCorrelation < threshold) {
+      report.issues.push(`Table order loosely follows scores (correlation ${report.scoreTableCorrelation})`);
+    }
+    if (round.roundNumber === 1 && report.bcpDeviations > 0) {
+      report.issues.push(`${report.bcpDeviations} round 1 pairings moved off their BCP table`);
+    }
+
+    return report;
+  });
+
+  const playerReports = [...players.values()].sort((a, b) => a.name.localeCompare(b.name));
+  const correlations = roundReports
+    .map((round) => round.scoreTableCorrelation)
+    .filter((value): value is number => value !== null);
+  const pairings = roundReports.reduce((sum, round) => sum + round.pairings, 0);
+  const bcpDeviations = roundReports.reduce((sum, round) => sum + round.bcpDeviations, 0);
+  const withBcpTable = ordered.reduce(
+    (sum, round) => sum + round.allocations.filter((a) => !a.isBye && a.bcpTableNumber !== null).length,
+    0
+  );
+
+  const summary: QualitySummary = {
+    rounds: roundReports.length,
+    players: playerReports.length,
+    pairings,
+    playersWithTableRepeat: playerReports.filter((player) => player.tableRepeats > 0).length,
+    tableRepeats: roundReports.reduce((sum, round) => sum + round.tableRepeats, 0),
+    playersWithTerrainRepeat: playerReports.filter((player) => player.terrainRepeats > 0).length,
+    terrainRepeats: roundReports.reduce((sum, round) => sum + round.terrainRepeats, 0),
+    playersWithFamilyRepeat: playerReports.filter((player) => player.familyRepeats > 0).length,
+    familyRepeats: roundReports.reduce((sum, round) => sum + round.familyRepeats, 0),
+    bcpDeviations,
+    bcpDeviationRate: withBcpTable === 0 ? 0 : round2(bcpDeviations / withBcpTable),
+    meanScoreTableCorrelation:
+      correlations.length === 0
+        ? null
+        : round2(correlations.reduce((sum, value) => sum + value, 0) / correlations.length),
+  };
+
+  // Table repeats weigh more than terrain repeats, which weigh more than family repeats
+  const playerSeverity = (player: PlayerQuality) =>
+    player.tableRepeats * 2 + player.terrainRepeats + player.familyRepeats / 2;
+  const roundSeverity = (round: RoundQuality) =>
+    round.tableRepeats * 2 + round.terrainRepeats + round.familyRepeats / 2 + (1 - (round.scoreTableCorrelation ?? 1));
+
+  return {
+    tournament: { id: tournament.id, name: tournament.name },
+    generatedAt: (options.now ?? new Date()).toISOString(),
+    summary,
+    rounds: roundReports,
+    players: playerReports,
+    worst: {
+      players: playerReports
+        .filter((player) => player.issues.length > 0)
+        .sort((a, b) => playerSeverity(b) - playerSeverity(a) || a.name.localeCompare(b.name))
+        .slice(0, worstLimit),
+      rounds: roundReports
+        .filter((round) => round.issues.length > 0)
+        .sort((a, b) => roundSeverity(b) - roundSeverity(a) || a.roundNumber - b.roundNumber)
+        .slice(0, worstLimit),
+    },
+  };
+}
@@ -0,0 +1,194 @@
+import { renderTable } from '../cli/format';
+import type { PlayerQuality, QualityReport, RoundQuality } from './quality';
+
+/**
+ * Terminal and HTML rendering of a quality report (JSON is the report itself).
+ */
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function correlation(value: number | null): string {
+  return value === null ? '-' : value.toFixed(2);
+}
+
+function conflictCounts(round: RoundQuality): string {
+  return Object.entries(round.conflicts)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+}
+
+function roundRow(round: RoundQuality): string[] {
+  return [
+    String(round.roundNumber),
+    round.isPublished ? 'published' : 'draft',
+    String(round.pairings),
+    String(round.byes),
+    String(round.tableRepeats),
+    String(round.terrainRepeats),
+    String(round.familyRepeats),
+    String(round.bcpDeviations),
+    correlation(round.scoreTableCorrelation),
+    conflictCounts(round),
+  ];
+}
+
+const ROUND_HEADERS = [
+  'Round',
+  'State',
+  'Pairings',
+  'Byes',
+  'Table rep.',
+  'Terrain rep.',
+  'Family rep.',
+  'Moved',
+  'Score/table',
+  'Conflicts',
+];
+
+function tableHistory(player: PlayerQuality): string {
+  return player.tables.map((table) => (table === null ? '-' : String(table))).join(' ');
+}
+
+function summaryLines(report: QualityReport): string[] {
+  const { summary } = report;
+  return [
+    `${plural(summary.rounds, 'round')}, ${plural(summary.players, 'player')}, ${plural(summary.pairings, 'pairing')}`,
+    `Table repeats: ${summary.tableRepeats} (${plural(summary.playersWithTableRepeat, 'player')})`,
+    `Terrain repeats: ${summary.terrainRepeats} (${plural(summary.playersWithTerrainRepeat, 'player')})`,
+    `Terrain family repeats: ${summary.familyRepeats} (${plural(summary.playersWithFamilyRepeat, 'player')})`,
+    `Moved from BCP table: ${summary.bcpDeviations} (${percent(summary.bcpDeviationRate)})`,
+    `Score/table correlation: ${correlation(summary.meanScoreTableCorrelation)} (1.00 = highest scores on the lowest tables)`,
+  ];
+}
+
+/**
+ * Plain-text report for the terminal.
+ */
+export function formatQualityReport(report: QualityReport): string[] {
+  const lines = [`Allocation quality: ${report.tournament.name} (#${report.tournament.id})`, ''];
+  lines.push(...summaryLines(report), '');
+  lines.push(...renderTable(ROUND_HEADERS, report.rounds.map(roundRow)));
+
+  lines.push('');
+  if (report.worst.players.length === 0 && report.worst.rounds.length === 0) {
+    lines.push('No issues found.');
+    return lines;
+  }
+
+  if (report.worst.rounds.length > 0) {
+    lines.push('Worst rounds:');
+    for (const round of report.worst.rounds) {
+      lines.push(`  Round ${round.roundNumber}: ${round.issues.join('; ')}`);
+    }
+  }
+  if (report.worst.players.length > 0) {
+    lines.push('Worst players:');
+    lines.push(
+      ...renderTable(
+        ['Player', 'Tables', 'Table rep.', 'Terrain rep.', 'Family rep.', 'Issues'],
+        report.worst.players.map((player) => [
+          player.name,
+          tableHistory(player),
+          String(player.tableRepeats),
+          String(player.terrainRepeats),
+          String(player.familyRepeats),
+          player.issues.join('; '),
+        ])
+      ).map((line) => `  ${line}`)
+    );
+  }
+
+  return lines;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlTable(headers: string[], rows: string[][], flagged: boolean[] = []): string {
+  const head = headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('');
+  const body = rows
+    .map(
+      (row, index) =>
+        `<tr${flagged[index] ? ' class="flagged"' : ''}>${row
+          .map((cell) => `<td>${escapeHtml(cell)}</td>`)
+          .join('')}</tr>`
+    )
+    .join('\n');
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+/**
+ * Self-contained HTML page organizers can share after the event.
+ */
+export function renderQualityHtml(report: QualityReport): string {
+  const title = `Allocation quality: ${report.tournament.name}`;
+  const worstPlayerIds = new Set(report.worst.players.map((player) => player.playerId));
+  const worstRoundNumbers = new Set(report.worst.rounds.map((round) => round.roundNumber));
+
+  const worstRounds = report.worst.rounds
+    .map((round) => `<li>Round ${round.roundNumber}: ${escapeHtml(round.issues.join('; '))}</li>`)
+    .join('\n');
+  const worstPlayers = report.worst.players
+    .map((player) => `<li><strong>${escapeHtml(player.name)}</strong>: ${escapeHtml(player.issues.join('; '))}</li>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; }
+th { background: #f3f3f3; }
+tr.flagged td { background: #fff1f0; }
+.muted { color: #666; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">Generated ${escapeHtml(report.generatedAt)}</p>
+<h2>Summary</h2>
+<ul id="summary">
+${summaryLines(report).map((line) => `<li>${escapeHtml(line)}</li>`).join('\n')}
+</ul>
+<h2>Worst cases</h2>
+${worstRounds === '' && worstPlayers === '' ? '<p id="worst">No issues found.</p>' : `<ul id="worst">\n${worstRounds}\n${worstPlayers}\n</ul>`}
+<h2>Rounds</h2>
+${htmlTable(
+  ROUND_HEADERS,
+  report.rounds.map(roundRow),
+  report.rounds.map((round) => worstRoundNumbers.has(round.roundNumber))
+)}
+<h2>Players</h2>
+${htmlTable(
+  ['Player', 'Tables', 'Terrain', 'Byes', 'Table rep.', 'Terrain rep.', 'Family rep.', 'Moved'],
+  report.players.map((player) => [
+    player.name,
+    tableHistory(player),
+    player.terrains.map((terrain) => terrain ?? '-').join(', '),
+    String(player.byes),
+    String(player.tableRepeats),
+    String(player.terrainRepeats),
+    String(player.familyRepeats),
+    String(player.bcpDeviations),
+  ]),
+  report.players.map((player) => worstPlayerIds.has(player.playerId))
+)}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,922 @@
+import { ApiError, NetworkError, createApiError } from './errors';
+import {
+  AllocationEditOptions,
+  AllocationEditResult,
+  AllocationPreview,
+  AuthenticateResponse,
+  BatchEditOperation,
+  BatchEditResponse,
+  CreateTableConstraintRequest,
+  CreateTerrainTypeRequest,
+  CreateTournamentRequest,
+  CreateTournamentResponse,
+  ExportOptions,
+  FloorMap,
+  FloorMapTableUpdate,
+  GenerateAllocationsResponse,
+  ImportPairingsOptions,
+  ImportPairingsResponse,
+  PublicPlayer,
+  PublicPlayerSearch,
+  PublicRound,
+  PublicTournament,
+  PublishRoundResponse,
+  RestoreTournamentResponse,
+  RoundDetails,
+  RoundHistory,
+  RoundTerrainConfig,
+  RoundTerrainLayout,
+  SetTableCountResponse,
+  SwapAllocationsResponse,
+  Table,
+  TableConfig,
+  TableConstraint,
+  TableMutationResponse,
+  TerrainType,
+  Tournament,
+  TournamentBackup,
+  TournamentDetails,
+  TournamentExport,
+  UpdateTerrainTypeRequest,
+  UpdateTournamentRequest,
+} from './types';
+import {
+  Shape,
+  allocationEditResultShape,
+  allocationPreviewShape,
+  assertShape,
+  authenticateResponseShape,
+  batchEditResponseShape,
+  createTableConstraintResponseShape,
+  createTournamentResponseShape,
+  deleteTableConstraintResponseShape,
+  deleteTournamentResponseShape,
+  floorMapShape,
+  updateTournamentResponseShape,
+  generateAllocationsResponseShape,
+  importPairingsResponseShape,
+  publicPlayerSearchShape,
+  publicPlayerShape,
+  publicRoundShape,
+  publicTournamentShape,
+  publishRoundResponseShape,
+  restoreTournamentResponseShape,
+  roundDetailsShape,
+  roundHistoryShape,
+  roundTerrainLayoutShape,
+  setTableCountResponseShape,
+  swapAllocationsResponseShape,
+  tableConstraintsResponseShape,
+  tableMutationResponseShape,
+  terrainTypeResponseShape,
+  terrainTypesResponseShape,
+  tournamentBackupShape,
+  tournamentDetailsShape,
+  tournamentExportShape,
+  updateTablesResponseShape,
+} from './validators';
+
+/**
+ * Standalone client for the Tournament Tables API.
+ *
+ * Built on a fetch-compatible transport so it can run in Node scripts,
+ * organizer tooling and (through an adapter) Playwright tests alike.
+ * Failed requests throw ApiError instead of asserting, and response bodies
+ * are checked at runtime against the shapes in validators.ts.
+ *
+ * Reference: docs/routes.md
+ */
+
+/**
+ * Minimal request shape passed to the transport.
+ */
+export interface HttpRequest {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Minimal response shape expected from the transport.
+ */
+export interface HttpResponse {
+  status: number;
+  text(): Promise<string>;
+}
+
+/**
+ * Fetch-compatible transport. The global fetch satisfies this signature.
+ */
+export type FetchLike = (url: string, init: HttpRequest) => Promise<HttpResponse>;
+
+export interface ClientOptions {
+  /** Base URL of the application, e.g. http://localhost:8080 */
+  baseUrl: string;
+  /** Transport to use (defaults to the global fetch). */
+  fetch?: FetchLike;
+  /** Validate response bodies against the shapes in validators.ts (default true). */
+  validate?: boolean;
+}
+
+interface RequestOptions {
+  adminToken?: string;
+  body?: unknown;
+}
+
+export class TournamentTablesClient {
+  private readonly baseUrl: string;
+
+  private readonly fetchImpl: FetchLike;
+
+  private readonly validate: boolean;
+
+  constructor(options: ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = options.fetch ?? ((url, init) => fetch(url, init));
+    this.validate = options.validate ?? true;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tournament management
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Creates a new tournament.
+   * Table count is optional - if not provided, tables will be created from Round 1 pairings.
+   * With templateTournamentId and its admin token, the new tournament starts with
+   * that tournament's tables, terrain and table constraints.
+   */
+  async createTournament(data: CreateTournamentRequest): Promise<CreateTournamentResponse> {
+    return this.send('POST', '/api/tournaments', createTournamentResponseShape, { body: data });
+  }
+
+  /**
+   * Gets tournament details including tables and rounds.
+   */
+  async getTournament(tournamentId: number, adminToken: string): Promise<TournamentDetails> {
+    return this.send(
+      'GET',
+      `/api/tournaments/${tournamentId}`,
+      tournamentDetailsShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Updates tournament settings.
+   */
+  async updateTournament(
+    tournamentId: number,
+    adminToken: string,
+    request: UpdateTournamentRequest
+  ): Promise<{ tournament: Tournament }> {
+    return this.send(
+      'PATCH',
+      `/api/tournaments/${tournamentId}`,
+      updateTournamentResponseShape,
+      { adminToken, body: request }
+    );
+  }
+
+  /**
+   * Deletes a tournament and all related data.
+   */
+  async deleteTournament(tournamentId: number, adminToken: string): Promise<{ message: string }> {
+    return this.send(
+      'DELETE',
+      `/api/tournaments/${tournamentId}`,
+      deleteTournamentResponseShape,
+      { adminToken }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tables
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Updates table terrain types and optional flags.
+   */
+  async updateTables(
+    tournamentId: number,
+    adminToken: string,
+    tables: TableConfig[]
+  ): Promise<{ tables: Table[] }> {
+    return this.send(
+      'PUT',
+      `/api/tournaments/${tournamentId}/tables`,
+      updateTablesResponseShape,
+      {
+        adminToken,
+        body: { tables },
+      }
+    );
+  }
+
+  /**
+   * Adds one table (unhides the lowest hidden table if there is one).
+   */
+  async addTable(tournamentId: number, adminToken: string): Promise<TableMutationResponse> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/tables/add`,
+      tableMutationResponseShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Removes (hides) the highest-numbered visible table.
+   */
+  async removeTable(tournamentId: number, adminToken: string): Promise<TableMutationResponse> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/tables/remove`,
+      tableMutationResponseShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Sets the visible table count to a specific number.
+   */
+  async setTableCount(
+    tournamentId: number,
+    adminToken: string,
+    count: number
+  ): Promise<SetTableCountResponse> {
+    return this.send(
+      'PUT',
+      `/api/tournaments/${tournamentId}/tables/count`,
+      setTableCountResponseShape,
+      {
+        adminToken,
+        body: { count },
+      }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Table constraints
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lists table constraints, every-round constraints first.
+   */
+  async listTableConstraints(
+    tournamentId: number,
+    adminToken: string
+  ): Promise<{ constraints: TableConstraint[] }> {
+    return this.send(
+      'GET',
+      `/api/tournaments/${tournamentId}/constraints`,
+      tableConstraintsResponseShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Adds a table constraint (a pin when type is 'required' and roundNumber is set).
+   */
+  async createTableConstraint(
+    tournamentId: number,
+    request: CreateTableConstraintRequest,
+    adminToken: string
+  ): Promise<{ constraint: TableConstraint }> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/constraints`,
+      createTableConstraintResponseShape,
+      {
+        adminToken,
+        body: request,
+      }
+    );
+  }
+
+  /**
+   * Removes a table constraint.
+   */
+  async deleteTableConstraint(
+    tournamentId: number,
+    constraintId: number,
+    adminToken: string
+  ): Promise<{ message: string }> {
+    return this.send(
+      'DELETE',
+      `/api/tournaments/${tournamentId}/constraints/${constraintId}`,
+      deleteTableConstraintResponseShape,
+      { adminToken }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Terrain types
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lists a tournament's terrain catalog: built-in types plus its own,
+   * archived ones included.
+   */
+  async getTournamentTerrainTypes(
+    tournamentId: number,
+    adminToken: string
+  ): Promise<{ terrainTypes: TerrainType[] }> {
+    return this.send(
+      'GET',
+      `/api/tournaments/${tournamentId}/terrain-types`,
+      terrainTypesResponseShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Adds a terrain type to a tournament's catalog (placed last without sortOrder).
+   */
+  async createTerrainType(
+    tournamentId: number,
+    request: CreateTerrainTypeRequest,
+    adminToken: string
+  ): Promise<{ terrainType: TerrainType }> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/terrain-types`,
+      terrainTypeResponseShape,
+      {
+        adminToken,
+        body: request,
+      }
+    );
+  }
+
+  /**
+   * Renames, re-describes or reorders one of the tournament's own terrain types.
+   */
+  async updateTerrainType(
+    tournamentId: number,
+    terrainTypeId: number,
+    request: UpdateTerrainTypeRequest,
+    adminToken: string
+  ): Promise<{ terrainType: TerrainType }> {
+    return this.send(
+      'PATCH',
+      `/api/tournaments/${tournamentId}/terrain-types/${terrainTypeId}`,
+      terrainTypeResponseShape,
+      {
+        adminToken,
+        body: request,
+      }
+    );
+  }
+
+  /**
+   * Archives a terrain type; tables that have it keep it.
+   */
+  async archiveTerrainType(
+    tournamentId: number,
+    terrainTypeId: number,
+    adminToken: string
+  ): Promise<{ terrainType: TerrainType }> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/terrain-types/${terrainTypeId}/archive`,
+      terrainTypeResponseShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Restores an archived terrain type.
+   */
+  async restoreTerrainType(
+    tournamentId: number,
+    terrainTypeId: number,
+    adminToken: string
+  ): Promise<{ terrainType: TerrainType }> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/terrain-types/${terrainTypeId}/restore`,
+      terrainTypeResponseShape,
+      { adminToken }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Round terrain
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Gets the terrain on each table in a round.
+   */
+  async getRoundTerrain(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string
+  ): Promise<RoundTerrainLayout> {
+    return this.send(
+      'GET',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/terrain`,
+      roundTerrainLayoutShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Sets the terrain on some of a round's tables; the rest keep theirs.
+   */
+  async updateRoundTerrain(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string,
+    tables: RoundTerrainConfig[]
+  ): Promise<RoundTerrainLayout> {
+    return this.send(
+      'PUT',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/terrain`,
+      roundTerrainLayoutShape,
+      {
+        adminToken,
+        body: { tables },
+      }
+    );
+  }
+
+  /**
+   * Copies the previous round's terrain layout onto a round.
+   */
+  async copyPreviousRoundTerrain(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string
+  ): Promise<RoundTerrainLayout> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/terrain/copy-previous`,
+      roundTerrainLayoutShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Resets a round to the tables' own terrain.
+   */
+  async clearRoundTerrain(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string
+  ): Promise<RoundTerrainLayout> {
+    return this.send(
+      'DELETE',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/terrain`,
+      roundTerrainLayoutShape,
+      { adminToken }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Floor map
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Gets where each table stands on the venue floor map. Without an admin
+   * token, the public endpoint is used; the map is the same.
+   */
+  async getFloorMap(tournamentId: number, adminToken?: string): Promise<FloorMap> {
+    const path =
+      adminToken !== undefined
+        ? `/api/tournaments/${tournamentId}/floor-map`
+        : `/api/public/tournaments/${tournamentId}/floor-map`;
+    return this.send('GET', path, floorMapShape, { adminToken });
+  }
+
+  /**
+   * Places some of the tables on the floor map; the rest keep their place.
+   */
+  async saveFloorMap(
+    tournamentId: number,
+    adminToken: string,
+    tables: FloorMapTableUpdate[]
+  ): Promise<FloorMap> {
+    return this.send(
+      'PUT',
+      `/api/tournaments/${tournamentId}/floor-map`,
+      floorMapShape,
+      {
+        adminToken,
+        body: { tables },
+      }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Reference data & authentication
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Gets the built-in terrain types.
+   */
+  async getTerrainTypes(): Promise<{ terrainTypes: TerrainType[] }> {
+    return this.send('GET', '/api/terrain-types', terrainTypesResponseShape);
+  }
+
+  /**
+   * Authenticates with admin token.
+   */
+  async authenticate(token: string): Promise<AuthenticateResponse> {
+    return this.send('POST', '/api/auth', authenticateResponseShape, { body: { token } });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rounds
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Imports pairings from BCP for a round.
+   */
+  async importPairings(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string,
+    options: ImportPairingsOptions = {}
+  ): Promise<ImportPairingsResponse> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/import`,
+      importPairingsResponseShape,
+      {
+        adminToken,
+        body: options.generateAllocations === undefined
+          ? undefined
+          : { generateAllocations: options.generateAllocations },
+      }
+    );
+  }
+
+  /**
+   * Generates allocations for a round.
+   */
+  async generateAllocations(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string
+  ): Promise<GenerateAllocationsResponse> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/generate`,
+      generateAllocationsResponseShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Previews the allocations generateAllocations() would save, with each
+   * pairing's cost next to the current allocations. Nothing is saved.
+   */
+  async previewAllocations(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string
+  ): Promise<AllocationPreview> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/generate`,
+      allocationPreviewShape,
+      { adminToken, body: { dryRun: true } }
+    );
+  }
+
+  /**
+   * Gets round allocations (admin view).
+   */
+  async getRound(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string
+  ): Promise<RoundDetails> {
+    return this.send(
+      'GET',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}`,
+      roundDetailsShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Publishes a round.
+   */
+  async publishRound(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string
+  ): Promise<PublishRoundResponse> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/publish`,
+      publishRoundResponseShape,
+      { adminToken }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Allocations
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Moves an allocation to another table.
+   */
+  async updateAllocation(
+    allocationId: number,
+    tableId: number,
+    adminToken: string,
+    options: AllocationEditOptions = {}
+  ): Promise<AllocationEditResult> {
+    return this.send('PATCH', `/api/allocations/${allocationId}`, allocationEditResultShape, {
+      adminToken,
+      body: { tableId, editedBy: options.editedBy },
+    });
+  }
+
+  /**
+   * Swaps tables between two allocations.
+   */
+  async swapAllocations(
+    allocationId1: number,
+    allocationId2: number,
+    adminToken: string,
+    options: AllocationEditOptions = {}
+  ): Promise<SwapAllocationsResponse> {
+    return this.send('POST', '/api/allocations/swap', swapAllocationsResponseShape, {
+      adminToken,
+      body: { allocationId1, allocationId2, editedBy: options.editedBy },
+    });
+  }
+
+  /**
+   * Applies several moves and swaps to a round in one transaction.
+   *
+   * Only the final state is validated, so intermediate steps may share a
+   * table (e.g. rotating three pairings).
+   */
+  async batchEditAllocations(
+    tournamentId: number,
+    roundNumber: number,
+    operations: BatchEditOperation[],
+    adminToken: string,
+    options: AllocationEditOptions = {}
+  ): Promise<BatchEditResponse> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/allocations/batch`,
+      batchEditResponseShape,
+      { adminToken, body: { operations, editedBy: options.editedBy } }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Edit history
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Gets the edit history of a round (newest first).
+   */
+  async getRoundHistory(tournamentId: number, roundNumber: number, adminToken: string): Promise<RoundHistory> {
+    return this.send(
+      'GET',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/history`,
+      roundHistoryShape,
+      { adminToken }
+    );
+  }
+
+  /**
+   * Undoes the latest edit of a round.
+   */
+  async undoEdit(tournamentId: number, roundNumber: number, adminToken: string): Promise<RoundHistory> {
+    return this.changeHistory(tournamentId, roundNumber, 'undo', adminToken);
+  }
+
+  /**
+   * Redoes the latest undone edit of a round.
+   */
+  async redoEdit(tournamentId: number, roundNumber: number, adminToken: string): Promise<RoundHistory> {
+    return this.changeHistory(tournamentId, roundNumber, 'redo', adminToken);
+  }
+
+  /**
+   * Puts every pairing of a round back on its generated table.
+   *
+   * Recorded as an edit of its own, so it can be undone.
+   */
+  async revertToGenerated(
+    tournamentId: number,
+    roundNumber: number,
+    adminToken: string,
+    options: AllocationEditOptions = {}
+  ): Promise<RoundHistory> {
+    return this.changeHistory(tournamentId, roundNumber, 'revert', adminToken, options);
+  }
+
+  private async changeHistory(
+    tournamentId: number,
+    roundNumber: number,
+    action: 'undo' | 'redo' | 'revert',
+    adminToken: string,
+    options: AllocationEditOptions = {}
+  ): Promise<RoundHistory> {
+    return this.send(
+      'POST',
+      `/api/tournaments/${tournamentId}/rounds/${roundNumber}/history/${action}`,
+      roundHistoryShape,
+      { adminToken, body: { editedBy: options.editedBy } }
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Public
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Gets public tournament info.
+   */
+  async getPublicTournament(tournamentId: number): Promise<PublicTournament> {
+    return this.send('GET', `/api/public/tournaments/${tournamentId}`, publicTournamentShape);
+  }
+
+  /**
+   * Gets public round allocations.
+   */
+  async getPublicRound(tournamentId: number, roundNumber: number): Promise<PublicRound> {
+    return this.send(
+      'GET',
+      `/api/public/tournaments/${tournamentId}/rounds/${roundNumber}`,
+      publicRoundShape
+    );
+  }
+
+  /**
+   * Finds players by part of their name or their BCP player ID.
+   */
+  async searchPublicPlayers(tournamentId: number, query: string): Promise<PublicPlayerSearch> {
+    return this.send(
+      'GET',
+      `/api/public/tournaments/${tournamentId}/players?q=${encodeURIComponent(query)}`,
+      publicPlayerSearchShape
+    );
+  }
+
+  /**
+   * Gets a player's table in the current round and their earlier rounds.
+   */
+  async getPublicPlayer(tournamentId: number, playerId: number): Promise<PublicPlayer> {
+    return this.send(
+      'GET',
+      `/api/public/tournaments/${tournamentId}/players/${playerId}`,
+      publicPlayerShape
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Export
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Downloads a tournament export: every round with an admin token, published
+   * rounds only without. CSV comes back as the raw file text.
+   */
+  async downloadExport(tournamentId: number, options: ExportOptions & { format: 'csv' }): Promise<string>;
+  async downloadExport(tournamentId: number, options?: ExportOptions & { format?: 'json' }): Promise<TournamentExport>;
+  async downloadExport(tournamentId: number, options: ExportOptions = {}): Promise<string | TournamentExport> {
+    const query = new URLSearchParams({ format: options.format ?? 'json' });
+    if (options.columns !== undefined) {
+      query.set('columns', options.columns.join(','));
+    }
+    const path =
+      options.adminToken !== undefined
+        ? `/api/tournaments/${tournamentId}/export?${query}`
+        : `/api/public/tournaments/${tournamentId}/export?${query}`;
+
+    if (options.format === 'csv') {
+      return this.sendText('GET', path, 'text/csv', { adminToken: options.adminToken });
+    }
+    return this.send('GET', path, tournamentExportShape, { adminToken: options.adminToken });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Backup
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Backs up the complete tournament state, for restoring on another instance.
+   */
+  async backupTournament(tournamentId: number, adminToken: string): Promise<TournamentBackup> {
+    return this.send('GET', `/api/tournaments/${tournamentId}/backup`, tournamentBackupShape, { adminToken });
+  }
+
+  /**
+   * Restores a backup as a new tournament, with new IDs and a new admin token.
+   *
+   * @throws ConflictError when a tournament already exists for the backup's BCP event
+   * @throws ValidationError when the document is not a valid backup
+   */
+  async restoreTournament(backup: TournamentBackup): Promise<RestoreTournamentResponse> {
+    return this.send('POST', '/api/tournaments/restore', restoreTournamentResponseShape, { body: backup });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transport
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Sends a request, decodes the JSON response and validates it against the shape.
+   *
+   * @throws NetworkError when no response was received
+   * @throws ApiError (a subclass from createApiError) on non-2xx status or an undecodable body
+   * @throws ResponseValidationError when the body does not match the shape
+   */
+  private async send<T>(
+    method: string,
+    path: string,
+    shape: Shape<T>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const { status, payload, isJson } = await this.exchange(method, path, 'application/json', options);
+
+    if (!isJson) {
+      throw new ApiError(status, 'invalid_response', `${method} ${path} returned a non-JSON body`, {
+        code: 'INVALID_RESPONSE',
+        body: payload,
+      });
+    }
+
+    if (!this.validate) {
+      return payload as T;
+    }
+
+    return assertShape(shape, payload, `${method} ${path}`, status);
+  }
+
+  /**
+   * Sends a request and returns the raw response body (e.g. a CSV download).
+   *
+   * @throws NetworkError when no response was received
+   * @throws ApiError (a subclass from createApiError) on non-2xx status
+   */
+  private async sendText(
+    method: string,
+    path: string,
+    accept: string,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const { text } = await this.exchange(method, path, accept, options);
+    return text;
+  }
+
+  /**
+   * Performs the request and decodes JSON bodies, throwing on transport errors and non-2xx statuses.
+   */
+  private async exchange(
+    method: string,
+    path: string,
+    accept: string,
+    options: RequestOptions
+  ): Promise<{ status: number; text: string; payload: unknown; isJson: boolean }> {
+    const headers: Record<string, string> = { Accept: accept };
+    if (options.adminToken !== undefined) {
+      headers['X-Admin-Token'] = options.adminToken;
+    }
+
+    let body: string | undefined;
+    if (options.body !== undefined) {
+      // The JSON content type also tells POST /api/tournaments to answer with JSON
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.body);
+    }
+
+    let response: HttpResponse;
+    let text: string;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, { method, headers, body });
+      text = await response.text();
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new NetworkError(`${method} ${path} failed: ${reason}`);
+    }
+
+    let payload: unknown = text;
+    let isJson = false;
+    if (text !== '') {
+      try {
+        payload = JSON.parse(text);
+        isJson = true;
+      } catch {
+        // Leave payload as raw text
+      }
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw createApiError(response.status, payload, `${method} ${path} failed with HTTP ${response.status}`);
+    }
+
+    return { status: response.status, text, payload, isJson };
+  }
+}
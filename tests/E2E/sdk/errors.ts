@@ -0,0 +1,233 @@
+/**
+ * Errors thrown by the Tournament Tables API client.
+ *
+ * Error responses from the API have the shape
+ * { "error": category, "code": CODE, "message": string,
+ *   "fields"?: { [field]: string[] }, "details"?: { ... } }
+ * (see BaseController::error() and src/Controllers/ErrorCode.php).
+ *
+ * createApiError() maps a response to the most specific class below, so
+ * callers can branch with instanceof (or on `code`) instead of parsing text:
+ *
+ *   ApiError
+ *   ├── NetworkError             no response (status 0)
+ *   ├── ResponseValidationError  2xx body did not match the expected shape
+ *   ├── ValidationError          400 invalid input
+ *   ├── UnauthorizedError        401 missing/invalid token or wrong tournament
+ *   ├── NotFoundError            404
+ *   ├── RoundNotImportedError    round missing or without pairings
+ *   ├── ConflictError            409
+ *   │   └── TableCollisionError  publish blocked by a table collision
+ *   ├── BcpUnavailableError      502 BCP could not be reached
+ *   └── ServerError              other 5xx
+ */
+
+/**
+ * Machine-readable error codes returned by the API.
+ * Keep in sync with src/Controllers/ErrorCode.php.
+ */
+export type ErrorCode =
+  | 'MISSING_TOKEN'
+  | 'INVALID_TOKEN'
+  | 'TOKEN_TOURNAMENT_MISMATCH'
+  | 'ROUTE_NOT_FOUND'
+  | 'TOURNAMENT_NOT_FOUND'
+  | 'ROUND_NOT_FOUND'
+  | 'ROUND_NOT_PUBLISHED'
+  | 'ALLOCATION_NOT_FOUND'
+  | 'TABLE_NOT_FOUND'
+  | 'CONSTRAINT_NOT_FOUND'
+  | 'TERRAIN_TYPE_NOT_FOUND'
+  | 'PLAYER_NOT_FOUND'
+  | 'VALIDATION_ERROR'
+  | 'INVALID_JSON'
+  | 'INVALID_BCP_URL'
+  | 'TABLE_NOT_IN_TOURNAMENT'
+  | 'INVALID_SWAP'
+  | 'ROUND_NOT_IMPORTED'
+  | 'NO_PAIRINGS'
+  | 'TABLE_COLLISION'
+  | 'TOURNAMENT_EXISTS'
+  | 'TABLE_COUNT_CONFLICT'
+  | 'EDIT_REJECTED'
+  | 'TERRAIN_TYPE_READ_ONLY'
+  | 'BCP_UNAVAILABLE'
+  | 'GENERATION_FAILED'
+  | 'INTERNAL_ERROR'
+  // Client-side codes (never sent by the server)
+  | 'NETWORK_ERROR'
+  | 'INVALID_RESPONSE';
+
+/**
+ * Field-level validation errors keyed by field name.
+ */
+export type FieldErrors = Record<string, string[]>;
+
+/**
+ * Machine-readable context attached to an error (IDs, table numbers, ...).
+ */
+export type ErrorDetails = Record<string, unknown>;
+
+export interface ApiErrorOptions {
+  /** Specific error code; defaults to the upper-cased category. */
+  code?: string;
+  fields?: FieldErrors;
+  details?: ErrorDetails;
+  /** Raw response body (parsed JSON when possible, otherwise text). */
+  body?: unknown;
+}
+
+/**
+ * Base class for all client errors.
+ */
+export class ApiError extends Error {
+  /** HTTP status code (0 when no response was received). */
+  readonly status: number;
+
+  /** Error category from the response body (e.g. "not_found"). */
+  readonly error: string;
+
+  /**
+   * Specific error code (e.g. "ROUND_NOT_IMPORTED"). Widened to string so
+   * codes added on the server do not break older clients.
+   */
+  readonly code: ErrorCode | (string & {});
+
+  /** Field-level validation errors, if any. */
+  readonly fields: FieldErrors;
+
+  /** Machine-readable context, if any. */
+  readonly details: ErrorDetails;
+
+  /** Raw response body (parsed JSON when possible, otherwise text). */
+  readonly body: unknown;
+
+  constructor(status: number, error: string, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.error = error;
+    this.code = options.code ?? error.toUpperCase();
+    this.fields = options.fields ?? {};
+    this.details = options.details ?? {};
+    this.body = options.body ?? null;
+  }
+}
+
+/**
+ * The request could not be completed (connection refused, DNS, timeout...).
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(0, 'network_error', message, { code: 'NETWORK_ERROR' });
+  }
+}
+
+/**
+ * Thrown when a response body does not match the expected shape.
+ * Each issue is prefixed with the JSON path of the offending value.
+ */
+export class ResponseValidationError extends ApiError {
+  /** Path-based validation issues, e.g. "$.tables[0].isHidden: expected boolean, got number (0)". */
+  readonly issues: string[];
+
+  constructor(status: number, label: string, issues: string[], body: unknown) {
+    super(
+      status,
+      'invalid_response',
+      `${label} returned an unexpected response:\n  ${issues.join('\n  ')}`,
+      { code: 'INVALID_RESPONSE', body }
+    );
+    this.issues = issues;
+  }
+}
+
+/** 400 - the request was rejected as invalid; see `fields`. */
+export class ValidationError extends ApiError {}
+
+/** 401 - missing or invalid admin token, or a token for another tournament. */
+export class UnauthorizedError extends ApiError {}
+
+/** 404 - the tournament, round, allocation, table or route does not exist. */
+export class NotFoundError extends ApiError {}
+
+/** The round has not been imported from BCP yet (or has no pairings). */
+export class RoundNotImportedError extends ApiError {}
+
+/** 409 - the request conflicts with the current state. */
+export class ConflictError extends ApiError {}
+
+/** 409 - publishing is blocked because tables are assigned twice; see `collisions`. */
+export class TableCollisionError extends ConflictError {
+  get collisions(): Array<{ tableId: number; tableNumber: number; allocationIds: number[] }> {
+    const collisions = this.details.collisions;
+    return Array.isArray(collisions) ? collisions : [];
+  }
+}
+
+/** 502 - Best Coast Pairings could not be reached or returned bad data. */
+export class BcpUnavailableError extends ApiError {}
+
+/** 5xx - unexpected server failure. */
+export class ServerError extends ApiError {}
+
+type ApiErrorClass = new (
+  status: number,
+  error: string,
+  message: string,
+  options?: ApiErrorOptions
+) => ApiError;
+
+const CLASS_BY_CODE: Record<string, ApiErrorClass> = {
+  ROUND_NOT_IMPORTED: RoundNotImportedError,
+  NO_PAIRINGS: RoundNotImportedError,
+  TABLE_COLLISION: TableCollisionError,
+  BCP_UNAVAILABLE: BcpUnavailableError,
+};
+
+function classForStatus(status: number): ApiErrorClass {
+  if (status === 400) {
+    return ValidationError;
+  }
+  if (status === 401 || status === 403) {
+    return UnauthorizedError;
+  }
+  if (status === 404) {
+    return NotFoundError;
+  }
+  if (status === 409) {
+    return ConflictError;
+  }
+  if (status === 502) {
+    return BcpUnavailableError;
+  }
+  if (status >= 500) {
+    return ServerError;
+  }
+  return ApiError;
+}
+
+/**
+ * Builds the most specific error for an error response.
+ *
+ * @param status HTTP status code
+ * @param payload Parsed JSON body (or raw text when the body was not JSON)
+ * @param fallbackMessage Message to use when the body carries none
+ */
+export function createApiError(status: number, payload: unknown, fallbackMessage: string): ApiError {
+  const body: { error?: unknown; code?: unknown; message?: unknown; fields?: unknown; details?: unknown } =
+    isRecord(payload) ? payload : {};
+
+  const error = typeof body.error === 'string' ? body.error : 'http_error';
+  const code = typeof body.code === 'string' ? body.code : undefined;
+  const message = typeof body.message === 'string' ? body.message : fallbackMessage;
+  const fields = isRecord(body.fields) ? (body.fields as FieldErrors) : undefined;
+  const details = isRecord(body.details) ? body.details : undefined;
+
+  const ErrorClass = (code !== undefined && CLASS_BY_CODE[code]) || classForStatus(status);
+  return new ErrorClass(status, error, message, { code, fields, details, body: payload });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
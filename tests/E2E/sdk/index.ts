@@ -0,0 +1,12 @@
+/**
+ * Tournament Tables API SDK.
+ *
+ * Usage:
+ *   const client = new TournamentTablesClient({ baseUrl: 'http://localhost:8080' });
+ *   const { tournament, adminToken } = await client.createTournament({ bcpUrl });
+ */
+
+export * from './client';
+export * from './errors';
+export * from './types';
+export * from './validators';
@@ -0,0 +1,673 @@
+/**
+ * Response and request types for the Tournament Tables API.
+ *
+ * These mirror the toArray() shapes produced by the PHP models and the
+ * payloads assembled in the controllers.
+ *
+ * Reference: docs/routes.md
+ */
+
+/**
+ * Tournament data returned from the API.
+ */
+export interface Tournament {
+  id: number;
+  name: string;
+  bcpEventId: string;
+  bcpUrl: string;
+  photoUrl: string | null;
+  locationName: string | null;
+  eventDate: string | null;
+  eventEndDate: string | null;
+  tableCount: number;
+  lastUpdated: string | null;
+  /** Percentage of the terrain reuse cost charged for a same-family variant (0-100). */
+  terrainFamilyWeight: number;
+}
+
+/**
+ * Terrain type data.
+ */
+export interface TerrainType {
+  id: number;
+  name: string;
+  /** Terrain family; null when the type is a family of its own. */
+  family: string | null;
+  description: string | null;
+  emoji: string | null;
+  sortOrder: number;
+  /** Owning tournament, null for built-in types. */
+  tournamentId: number | null;
+  /** Archived types stay on their tables but can't be assigned to others. */
+  isArchived: boolean;
+}
+
+/**
+ * Table data returned from the API.
+ *
+ * Note: tables expose the full terrain type object, while allocations
+ * only expose the terrain type name.
+ */
+export interface Table {
+  id: number;
+  tableNumber: number;
+  terrainType: TerrainType | null;
+  isHidden: boolean;
+  isOptional: boolean;
+}
+
+/**
+ * Round summary as listed on the tournament.
+ */
+export interface Round {
+  roundNumber: number;
+  isPublished: boolean;
+  allocationCount: number;
+}
+
+/**
+ * Conflict types reported by allocation generation and editing.
+ */
+export type ConflictType =
+  | 'TABLE_REUSE'
+  | 'TERRAIN_REUSE'
+  | 'TERRAIN_FAMILY_REUSE'
+  | 'TABLE_COLLISION'
+  | 'NO_TABLE_AVAILABLE'
+  | 'TABLE_CONSTRAINT';
+
+/**
+ * Conflict attached to an allocation.
+ */
+export interface Conflict {
+  type: ConflictType;
+  message: string;
+  playerId?: number;
+  otherAllocationId?: number;
+}
+
+/**
+ * Player as embedded in an allocation.
+ */
+export interface AllocationPlayer {
+  id: number | null;
+  name: string | null;
+  score: number;
+}
+
+/**
+ * Allocation data (admin view).
+ */
+export interface Allocation {
+  id: number;
+  tableNumber: number | null;
+  /** Table BCP assigned; differs from tableNumber when the allocation moved the pairing. */
+  bcpTableNumber: number | null;
+  terrainType: string | null;
+  isBye: boolean;
+  player1: AllocationPlayer;
+  player2: AllocationPlayer | null;
+  conflicts: Conflict[];
+}
+
+/**
+ * Allocation data (public view, no conflict details).
+ */
+export interface PublicAllocation {
+  tableNumber: number | null;
+  terrainType: string | null;
+  isBye: boolean;
+  player1Name: string | null;
+  player1Score: number;
+  player2Name: string | null;
+  player2Score: number;
+}
+
+/**
+ * Table configuration accepted by PUT /api/tournaments/{id}/tables.
+ */
+export interface TableConfig {
+  tableNumber: number;
+  terrainTypeId: number | null;
+  optional?: boolean;
+}
+
+/**
+ * Table entry accepted by PUT /api/tournaments/{id}/rounds/{n}/terrain.
+ */
+export interface RoundTerrainConfig {
+  tableNumber: number;
+  /** Null leaves the table without terrain this round. */
+  terrainTypeId: number | null;
+}
+
+/**
+ * A table's terrain in one round.
+ */
+export interface RoundTerrainTable {
+  tableNumber: number;
+  terrainType: TerrainType | null;
+  /** True when the round overrides the table's own terrain. */
+  isOverride: boolean;
+}
+
+export interface RoundTerrainLayout {
+  roundNumber: number;
+  tables: RoundTerrainTable[];
+}
+
+/**
+ * A table's place on the venue floor map. The position is the table's
+ * centre, in percent across (x) and down (y) the plan of its zone.
+ */
+export interface FloorMapTable {
+  tableNumber: number;
+  /** Room or zone, null for the main floor. */
+  zone: string | null;
+  /** Null while the table is not on the map. */
+  x: number | null;
+  y: number | null;
+}
+
+export interface FloorMap {
+  /** Named zones with tables in them, in natural order. */
+  zones: string[];
+  /** Every visible table, placed or not. */
+  tables: FloorMapTable[];
+}
+
+export interface FloorMapTableUpdate {
+  tableNumber: number;
+  /** Omitted, null or empty for the main floor. */
+  zone?: string | null;
+  /** From 0 to 100; null for both takes the table off the map. */
+  x: number | null;
+  y: number | null;
+}
+
+export interface CreateTournamentRequest {
+  bcpUrl: string;
+  name?: string;
+  /** Ignored with a template, whose tables are copied. */
+  tableCount?: number;
+  /** Tournament whose tables, terrain and table constraints the new one starts with. */
+  templateTournamentId?: number;
+  /** Admin token of the template tournament. */
+  templateAdminToken?: string;
+}
+
+/**
+ * What was copied from the template tournament.
+ */
+export interface TournamentTemplateResult {
+  tournamentId: number;
+  name: string;
+  tables: number;
+  /** The template's own terrain types; built-in types are shared. */
+  terrainTypes: number;
+  /** Table constraints for every round, copied for players in Round 1. */
+  constraints: number;
+  /** Template players with table constraints who are not (yet) in the tournament. */
+  skippedPlayers: string[];
+}
+
+export interface CreateTournamentResponse {
+  tournament: Tournament;
+  adminToken: string;
+  autoImport?: {
+    success: boolean;
+    tableCount?: number;
+    pairingsImported?: number;
+    error?: string;
+  };
+  /** Present when created from a template. */
+  template?: TournamentTemplateResult;
+}
+
+export interface UpdateTournamentRequest {
+  terrainFamilyWeight?: number;
+}
+
+export type TournamentDetails = Tournament & { tables: Table[]; rounds: Round[] };
+
+export interface TableMutationResponse {
+  table: Table;
+  visibleCount: number;
+  minimumCount: number;
+}
+
+export interface SetTableCountResponse {
+  added: number;
+  removed: number;
+  visibleCount: number;
+  minimumCount: number;
+  tables: Table[];
+}
+
+/**
+ * How a table constraint restricts a player's tables.
+ */
+export type TableConstraintType = 'required' | 'allowed' | 'forbidden';
+
+/**
+ * Table constraint enforced by allocation generation.
+ */
+export interface TableConstraint {
+  id: number;
+  playerId: number;
+  playerName: string | null;
+  /** Round the constraint applies to, null for every round. */
+  roundNumber: number | null;
+  type: TableConstraintType;
+  tableIds: number[];
+  tableNumbers: number[];
+  note: string | null;
+}
+
+export interface CreateTableConstraintRequest {
+  playerId: number;
+  type: TableConstraintType;
+  tableIds: number[];
+  roundNumber?: number | null;
+  note?: string | null;
+}
+
+export interface CreateTerrainTypeRequest {
+  name: string;
+  family?: string | null;
+  description?: string | null;
+  emoji?: string | null;
+  sortOrder?: number;
+}
+
+export type UpdateTerrainTypeRequest = Partial<CreateTerrainTypeRequest>;
+
+export interface AuthenticateResponse {
+  tournamentId: number;
+  tournamentName: string;
+  message: string;
+}
+
+export interface ImportPairingsOptions {
+  /** Set to false to refresh pairings while preserving existing table assignments. */
+  generateAllocations?: boolean;
+}
+
+export interface ImportPairingsResponse {
+  roundNumber: number;
+  pairingsImported: number;
+  playersImported: number;
+  message: string;
+  /** Present when round 2+ was imported with allocation generation. */
+  allocations?: Allocation[];
+  conflicts?: Conflict[];
+  summary?: string;
+  scoreRefresh?: string[];
+}
+
+export interface GenerateAllocationsResponse {
+  roundNumber: number;
+  allocations: Allocation[];
+  conflicts: Conflict[];
+  summary: string;
+}
+
+export interface AllocationCost {
+  tableReuse: number;
+  terrainReuse: number;
+  bcpTableMismatch: number;
+  /** Places the pairing's table is out of score order; reported, not part of total. */
+  scoreOrder: number;
+  /** Weighted cost the allocation algorithm minimizes. */
+  total: number;
+}
+
+export interface AllocationPreviewPlayer {
+  name: string;
+  totalScore: number;
+}
+
+export interface AllocationPreviewItem {
+  tableNumber: number | null;
+  terrainType: string | null;
+  bcpTableNumber: number | null;
+  isBye: boolean;
+  player1: AllocationPreviewPlayer;
+  player2: AllocationPreviewPlayer | null;
+  cost: AllocationCost;
+  reasons: string[];
+}
+
+export interface AllocationPreviewSide {
+  /** In table order, byes and unplaced pairings last. */
+  allocations: AllocationPreviewItem[];
+  totals: AllocationCost;
+}
+
+export interface AllocationPreview {
+  roundNumber: number;
+  proposed: AllocationPreviewSide & { conflicts: Conflict[]; summary: string };
+  current: AllocationPreviewSide;
+  /** Lower total cost, or equal cost with fewer places out of score order. */
+  isBetter: boolean;
+  /** Pairings the proposal would move to another table. */
+  changedPairings: number;
+}
+
+export interface RoundDetails {
+  roundNumber: number;
+  isPublished: boolean;
+  allocations: Allocation[];
+  conflicts: Conflict[];
+}
+
+export interface PublishRoundResponse {
+  roundNumber: number;
+  message: string;
+}
+
+export interface AllocationEditResult {
+  id: number;
+  tableId: number | null;
+  conflicts: Conflict[];
+}
+
+export interface SwapAllocationsResponse {
+  allocation1: AllocationEditResult;
+  allocation2: AllocationEditResult;
+}
+
+/** One step of a batch edit; steps are applied in order. */
+export type BatchEditOperation =
+  | { type: 'move'; allocationId: number; tableId: number }
+  | { type: 'swap'; allocationId1: number; allocationId2: number };
+
+export interface BatchEditResponse extends RoundDetails {
+  /** Allocations whose table differs from before the batch. */
+  changedAllocationIds: number[];
+}
+
+export interface AllocationEditOptions {
+  /** Organizer name recorded in the round's edit history. */
+  editedBy?: string;
+}
+
+export type AllocationEditAction = 'move' | 'swap' | 'batch' | 'revert';
+
+export interface AllocationEditChange {
+  allocationId: number;
+  /** "Player 1 vs Player 2", or null if the pairing no longer exists. */
+  pairing: string | null;
+  fromTable: number | null;
+  toTable: number | null;
+}
+
+export interface AllocationEditEntry {
+  id: number;
+  action: AllocationEditAction;
+  description: string;
+  editedBy: string | null;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+  undone: boolean;
+  changes: AllocationEditChange[];
+}
+
+export interface RoundHistory {
+  roundNumber: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  canRevert: boolean;
+  /** Newest first. */
+  entries: AllocationEditEntry[];
+}
+
+export interface PublicTournament {
+  id: number;
+  name: string;
+  tableCount: number;
+  publishedRounds: number[];
+}
+
+export interface PublicRound {
+  tournamentName: string;
+  roundNumber: number;
+  allocations: PublicAllocation[];
+}
+
+export interface PublicPlayerSummary {
+  id: number;
+  name: string;
+  faction: string | null;
+}
+
+/**
+ * A player's game in a published round, from their side of the table.
+ */
+export interface PublicPlayerRound {
+  roundNumber: number;
+  /** Null for a bye. */
+  tableNumber: number | null;
+  terrainType: string | null;
+  terrainEmoji: string | null;
+  isBye: boolean;
+  score: number;
+  opponent: PublicPlayerSummary | null;
+  opponentScore: number | null;
+}
+
+export interface PublicPlayerSearchResult extends PublicPlayerSummary {
+  /** Null when the player is not in the latest published round. */
+  currentRound: PublicPlayerRound | null;
+}
+
+export interface PublicPlayerSearch {
+  players: PublicPlayerSearchResult[];
+}
+
+export interface PublicPlayer {
+  player: PublicPlayerSummary & { totalScore: number };
+  /** The latest published round; null when the player is not in it. */
+  currentRound: PublicPlayerRound | null;
+  /** Earlier published rounds the player was in, oldest first. */
+  history: PublicPlayerRound[];
+}
+
+export type ExportFormat = 'json' | 'csv';
+
+/**
+ * Export columns, in export order. `conflicts` and `edits` are organizer-only.
+ */
+export type ExportColumn =
+  | 'roundNumber'
+  | 'isPublished'
+  | 'tableNumber'
+  | 'bcpTableNumber'
+  | 'terrainType'
+  | 'isBye'
+  | 'player1Name'
+  | 'player1BcpId'
+  | 'player1Faction'
+  | 'player1Score'
+  | 'player2Name'
+  | 'player2BcpId'
+  | 'player2Faction'
+  | 'player2Score'
+  | 'conflicts'
+  | 'edits';
+
+/**
+ * A manual edit that moved a pairing, as exported.
+ */
+export interface ExportEdit {
+  action: AllocationEditAction;
+  description: string;
+  editedBy: string | null;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+  fromTable: number | null;
+  toTable: number | null;
+}
+
+/**
+ * One pairing; only the selected columns are present.
+ */
+export interface ExportRow {
+  roundNumber?: number;
+  isPublished?: boolean;
+  tableNumber?: number | null;
+  bcpTableNumber?: number | null;
+  terrainType?: string | null;
+  isBye?: boolean;
+  player1Name?: string | null;
+  player1BcpId?: string | null;
+  player1Faction?: string | null;
+  player1Score?: number;
+  player2Name?: string | null;
+  player2BcpId?: string | null;
+  player2Faction?: string | null;
+  /** Null for a bye. */
+  player2Score?: number | null;
+  conflicts?: Array<Pick<Conflict, 'type' | 'message'>>;
+  /** Applied edits that moved this pairing, oldest first. */
+  edits?: ExportEdit[];
+}
+
+export interface ExportRound {
+  roundNumber: number;
+  isPublished: boolean;
+  /** In table order, byes last. */
+  rows: ExportRow[];
+}
+
+export interface TournamentExport {
+  tournament: { id: number; name: string; bcpEventId: string };
+  /** ISO 8601 timestamp. */
+  exportedAt: string;
+  /** 'admin': every round; 'public': published rounds only. */
+  scope: 'admin' | 'public';
+  columns: ExportColumn[];
+  rounds: ExportRound[];
+}
+
+export interface ExportOptions {
+  /** Defaults to json. */
+  format?: ExportFormat;
+  /** Defaults to every column available. */
+  columns?: ExportColumn[];
+  /** Exports every round as the organizer; without it, the public export. */
+  adminToken?: string;
+}
+
+/**
+ * Full tournament backup, for restoring on another instance. Entities carry
+ * their IDs on the source instance, which the other entries refer to;
+ * restore gives them new IDs.
+ */
+export interface TournamentBackup {
+  format: 'tournament-tables-backup';
+  version: 1;
+  /** ISO 8601 timestamp. */
+  exportedAt: string;
+  tournament: {
+    name: string;
+    bcpEventId: string;
+    bcpUrl: string;
+    photoUrl: string | null;
+    locationName: string | null;
+    eventDate: string | null;
+    eventEndDate: string | null;
+    tableCount: number;
+    lastUpdated: string | null;
+    terrainFamilyWeight: number;
+  };
+  /** The tournament's own types and the built-in types its tables use. Built-ins are matched by name on restore. */
+  terrainTypes: BackupTerrainType[];
+  tables: BackupTable[];
+  roundTerrain: BackupRoundTerrain[];
+  players: BackupPlayer[];
+  tableConstraints: BackupTableConstraint[];
+  rounds: BackupRound[];
+}
+
+export interface BackupTerrainType {
+  id: number;
+  builtIn: boolean;
+  name: string;
+  family: string | null;
+  description: string | null;
+  emoji: string | null;
+  sortOrder: number;
+  isArchived: boolean;
+}
+
+export interface BackupTable {
+  id: number;
+  tableNumber: number;
+  terrainTypeId: number | null;
+  optional: boolean;
+  isHidden: boolean;
+  /** Floor map position (see FloorMapTable), null when the table is not on the map. */
+  mapZone: string | null;
+  mapX: number | null;
+  mapY: number | null;
+}
+
+export interface BackupRoundTerrain {
+  tableId: number;
+  roundNumber: number;
+  terrainTypeId: number | null;
+}
+
+export interface BackupPlayer {
+  id: number;
+  bcpPlayerId: string;
+  name: string;
+  faction: string | null;
+  totalScore: number;
+  placing: number | null;
+}
+
+export interface BackupTableConstraint {
+  playerId: number;
+  roundNumber: number | null;
+  type: TableConstraintType;
+  tableIds: number[];
+  note: string | null;
+}
+
+export interface BackupRound {
+  roundNumber: number;
+  isPublished: boolean;
+  allocations: BackupAllocation[];
+  /** Edit history, oldest first. */
+  edits: BackupAllocationEdit[];
+}
+
+export interface BackupAllocation {
+  id: number;
+  /** Null for a bye. */
+  tableId: number | null;
+  player1Id: number;
+  player2Id: number | null;
+  player1Score: number;
+  player2Score: number;
+  bcpTableNumber: number | null;
+  /** The stored allocation reason, with its conflicts. */
+  reason: Record<string, unknown> | null;
+}
+
+export interface BackupAllocationEdit {
+  action: AllocationEditAction;
+  changes: Array<{ allocationId: number; fromTableId: number | null; toTableId: number | null }>;
+  editedBy: string | null;
+  /** Database timestamp (Y-m-d H:i:s). */
+  createdAt: string;
+  isUndone: boolean;
+}
+
+export interface RestoreTournamentResponse {
+  tournament: Tournament;
+  /** Admin token of the restored tournament; the source tournament's token does not carry over. */
+  adminToken: string;
+}
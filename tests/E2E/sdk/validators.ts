@@ -0,0 +1,862 @@
+import { ResponseValidationError } from './errors';
+import {
+  Allocation,
+  AllocationCost,
+  AllocationEditAction,
+  AllocationEditChange,
+  AllocationEditEntry,
+  AllocationEditResult,
+  AllocationPlayer,
+  AllocationPreview,
+  AllocationPreviewItem,
+  AllocationPreviewPlayer,
+  AllocationPreviewSide,
+  AuthenticateResponse,
+  BackupAllocation,
+  BackupAllocationEdit,
+  BackupPlayer,
+  BackupRound,
+  BackupRoundTerrain,
+  BackupTable,
+  BackupTableConstraint,
+  BackupTerrainType,
+  BatchEditResponse,
+  Conflict,
+  ConflictType,
+  CreateTournamentResponse,
+  ExportColumn,
+  ExportEdit,
+  ExportRound,
+  ExportRow,
+  FloorMap,
+  FloorMapTable,
+  GenerateAllocationsResponse,
+  ImportPairingsResponse,
+  PublicAllocation,
+  PublicPlayer,
+  PublicPlayerRound,
+  PublicPlayerSearch,
+  PublicPlayerSearchResult,
+  PublicPlayerSummary,
+  PublicRound,
+  PublicTournament,
+  PublishRoundResponse,
+  RestoreTournamentResponse,
+  RoundHistory,
+  Round,
+  RoundDetails,
+  RoundTerrainLayout,
+  RoundTerrainTable,
+  SetTableCountResponse,
+  SwapAllocationsResponse,
+  Table,
+  TableConstraint,
+  TableConstraintType,
+  TableMutationResponse,
+  TerrainType,
+  Tournament,
+  TournamentBackup,
+  TournamentDetails,
+  TournamentExport,
+  TournamentTemplateResult,
+} from './types';
+
+/**
+ * Runtime validators for API responses.
+ *
+ * Each response type in types.ts has a matching shape here. Shapes are plain
+ * descriptors, so the same definition drives runtime checks (with path-based
+ * messages such as "$.tables[2].terrainType: expected object or null, got
+ * string") and the drift check against tests/Contract/schemas/api.
+ *
+ * Reference: docs/routes.md
+ */
+
+/**
+ * Structural description of a JSON value.
+ */
+export type ShapeNode =
+  | { kind: 'string' }
+  | { kind: 'integer' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'nullable'; inner: ShapeNode }
+  | { kind: 'optional'; inner: ShapeNode }
+  | { kind: 'array'; items: ShapeNode }
+  | { kind: 'object'; properties: Record<string, ShapeNode>; schema?: string };
+
+/**
+ * Shape that validates to T. The type parameter is compile-time only.
+ */
+export type Shape<T> = ShapeNode & { readonly __type?: T };
+
+type PropertyShapes<T> = { [K in keyof Required<T>]: Shape<T[K]> };
+
+export const string = (): Shape<string> => ({ kind: 'string' });
+export const integer = (): Shape<number> => ({ kind: 'integer' });
+export const number = (): Shape<number> => ({ kind: 'number' });
+export const boolean = (): Shape<boolean> => ({ kind: 'boolean' });
+
+export function oneOf<T extends string>(...values: T[]): Shape<T> {
+  return { kind: 'enum', values };
+}
+
+export function nullable<T>(inner: Shape<T>): Shape<T | null> {
+  return { kind: 'nullable', inner };
+}
+
+/**
+ * Marks an object property that may be absent.
+ */
+export function optional<T>(inner: Shape<T>): Shape<T | undefined> {
+  return { kind: 'optional', inner };
+}
+
+export function arrayOf<T>(items: Shape<T>): Shape<T[]> {
+  return { kind: 'array', items };
+}
+
+/**
+ * Object shape. Every property of T must be described; optional properties
+ * must use optional(). Pass the schema filename when the shape has a
+ * counterpart in tests/Contract/schemas/api.
+ */
+export function object<T>(properties: PropertyShapes<T>, schema?: string): Shape<T> {
+  return { kind: 'object', properties: properties as Record<string, ShapeNode>, schema };
+}
+
+/**
+ * Collects validation issues for a value, each prefixed with its JSON path.
+ * Unknown object properties are ignored at runtime.
+ */
+export function checkShape(shape: ShapeNode, value: unknown, path = '$'): string[] {
+  const issues: string[] = [];
+  collectIssues(shape, value, path, issues);
+  return issues;
+}
+
+/**
+ * Validates a value and returns it typed, or throws ResponseValidationError.
+ */
+export function assertShape<T>(shape: Shape<T>, value: unknown, label: string, status = 200): T {
+  const issues = checkShape(shape, value);
+  if (issues.length > 0) {
+    throw new ResponseValidationError(status, label, issues, value);
+  }
+  return value as T;
+}
+
+/**
+ * Human-readable description of what a shape accepts.
+ */
+export function describeShape(shape: ShapeNode): string {
+  switch (shape.kind) {
+    case 'enum':
+      return `one of ${shape.values.map((v) => JSON.stringify(v)).join(', ')}`;
+    case 'nullable':
+      return `${describeShape(shape.inner)} or null`;
+    case 'optional':
+      return describeShape(shape.inner);
+    case 'array':
+      return 'array';
+    default:
+      return shape.kind;
+  }
+}
+
+function collectIssues(shape: ShapeNode, value: unknown, path: string, issues: string[]): void {
+  switch (shape.kind) {
+    case 'string':
+    case 'boolean':
+      if (typeof value !== shape.kind) {
+        issues.push(mismatch(shape, value, path));
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(mismatch(shape, value, path));
+      }
+      return;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        issues.push(mismatch(shape, value, path));
+      }
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !shape.values.includes(value)) {
+        issues.push(mismatch(shape, value, path));
+      }
+      return;
+    case 'nullable':
+      if (value !== null) {
+        const innerIssues = checkShape(shape.inner, value, path);
+        // Report a single top-level mismatch rather than "expected object" noise
+        if (innerIssues.length > 0 && !isContainerMatch(shape.inner, value)) {
+          issues.push(mismatch(shape, value, path));
+        } else {
+          issues.push(...innerIssues);
+        }
+      }
+      return;
+    case 'optional':
+      if (value !== undefined) {
+        collectIssues(shape.inner, value, path, issues);
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push(mismatch(shape, value, path));
+        return;
+      }
+      value.forEach((item, index) => collectIssues(shape.items, item, `${path}[${index}]`, issues));
+      return;
+    case 'object': {
+      if (!isPlainObject(value)) {
+        issues.push(mismatch(shape, value, path));
+        return;
+      }
+      for (const [key, propertyShape] of Object.entries(shape.properties)) {
+        const propertyPath = `${path}.${key}`;
+        if (!(key in value)) {
+          if (propertyShape.kind !== 'optional') {
+            issues.push(`${propertyPath}: missing required property`);
+          }
+          continue;
+        }
+        collectIssues(propertyShape, value[key], propertyPath, issues);
+      }
+      return;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isContainerMatch(shape: ShapeNode, value: unknown): boolean {
+  return (
+    (shape.kind === 'object' && isPlainObject(value)) ||
+    (shape.kind === 'array' && Array.isArray(value))
+  );
+}
+
+function mismatch(shape: ShapeNode, value: unknown, path: string): string {
+  return `${path}: expected ${describeShape(shape)}, got ${describeValue(value)}`;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'object') {
+    return 'object';
+  }
+  if (value === undefined) {
+    return 'undefined';
+  }
+  const preview = JSON.stringify(value);
+  return `${typeof value} (${preview.length > 40 ? `${preview.slice(0, 37)}...` : preview})`;
+}
+
+// -----------------------------------------------------------------------------
+// Entity shapes (mirrored by tests/Contract/schemas/api)
+// -----------------------------------------------------------------------------
+
+export const terrainTypeShape = object<TerrainType>(
+  {
+    id: integer(),
+    name: string(),
+    family: nullable(string()),
+    description: nullable(string()),
+    emoji: nullable(string()),
+    sortOrder: integer(),
+    tournamentId: nullable(integer()),
+    isArchived: boolean(),
+  },
+  'terrain-type.json'
+);
+
+const tournamentProperties: PropertyShapes<Tournament> = {
+  id: integer(),
+  name: string(),
+  bcpEventId: string(),
+  bcpUrl: string(),
+  photoUrl: nullable(string()),
+  locationName: nullable(string()),
+  eventDate: nullable(string()),
+  eventEndDate: nullable(string()),
+  tableCount: integer(),
+  lastUpdated: nullable(string()),
+  terrainFamilyWeight: integer(),
+};
+
+export const tournamentShape = object<Tournament>(tournamentProperties, 'tournament.json');
+
+export const tableShape = object<Table>(
+  {
+    id: integer(),
+    tableNumber: integer(),
+    terrainType: nullable(terrainTypeShape),
+    isHidden: boolean(),
+    isOptional: boolean(),
+  },
+  'table.json'
+);
+
+export const roundShape = object<Round>(
+  {
+    roundNumber: integer(),
+    isPublished: boolean(),
+    allocationCount: integer(),
+  },
+  'round.json'
+);
+
+const conflictTypeShape = oneOf<ConflictType>(
+  'TABLE_REUSE',
+  'TERRAIN_REUSE',
+  'TERRAIN_FAMILY_REUSE',
+  'TABLE_COLLISION',
+  'NO_TABLE_AVAILABLE',
+  'TABLE_CONSTRAINT'
+);
+
+export const conflictShape = object<Conflict>(
+  {
+    type: conflictTypeShape,
+    message: string(),
+    playerId: optional(integer()),
+    otherAllocationId: optional(integer()),
+  },
+  'conflict.json'
+);
+
+const allocationPlayerShape = object<AllocationPlayer>({
+  id: nullable(integer()),
+  name: nullable(string()),
+  score: integer(),
+});
+
+export const allocationShape = object<Allocation>(
+  {
+    id: integer(),
+    tableNumber: nullable(integer()),
+    bcpTableNumber: nullable(integer()),
+    terrainType: nullable(string()),
+    isBye: boolean(),
+    player1: allocationPlayerShape,
+    player2: nullable(allocationPlayerShape),
+    conflicts: arrayOf(conflictShape),
+  },
+  'allocation.json'
+);
+
+export const publicAllocationShape = object<PublicAllocation>(
+  {
+    tableNumber: nullable(integer()),
+    terrainType: nullable(string()),
+    isBye: boolean(),
+    player1Name: nullable(string()),
+    player1Score: integer(),
+    player2Name: nullable(string()),
+    player2Score: integer(),
+  },
+  'public-allocation.json'
+);
+
+// -----------------------------------------------------------------------------
+// Response shapes, one per client method
+// -----------------------------------------------------------------------------
+
+export const createTournamentResponseShape = object<CreateTournamentResponse>({
+  tournament: tournamentShape,
+  adminToken: string(),
+  autoImport: optional(
+    object<NonNullable<CreateTournamentResponse['autoImport']>>({
+      success: boolean(),
+      tableCount: optional(integer()),
+      pairingsImported: optional(integer()),
+      error: optional(string()),
+    })
+  ),
+  template: optional(
+    object<TournamentTemplateResult>({
+      tournamentId: integer(),
+      name: string(),
+      tables: integer(),
+      terrainTypes: integer(),
+      constraints: integer(),
+      skippedPlayers: arrayOf(string()),
+    })
+  ),
+});
+
+export const tournamentDetailsShape = object<TournamentDetails>({
+  ...tournamentProperties,
+  tables: arrayOf(tableShape),
+  rounds: arrayOf(roundShape),
+});
+
+export const updateTournamentResponseShape = object<{ tournament: Tournament }>({
+  tournament: tournamentShape,
+});
+
+export const deleteTournamentResponseShape = object<{ message: string }>({
+  message: string(),
+});
+
+export const updateTablesResponseShape = object<{ tables: Table[] }>({
+  tables: arrayOf(tableShape),
+});
+
+export const tableMutationResponseShape = object<TableMutationResponse>({
+  table: tableShape,
+  visibleCount: integer(),
+  minimumCount: integer(),
+});
+
+export const setTableCountResponseShape = object<SetTableCountResponse>({
+  added: integer(),
+  removed: integer(),
+  visibleCount: integer(),
+  minimumCount: integer(),
+  tables: arrayOf(tableShape),
+});
+
+export const tableConstraintShape = object<TableConstraint>({
+  id: integer(),
+  playerId: integer(),
+  playerName: nullable(string()),
+  roundNumber: nullable(integer()),
+  type: oneOf<TableConstraintType>('required', 'allowed', 'forbidden'),
+  tableIds: arrayOf(integer()),
+  tableNumbers: arrayOf(integer()),
+  note: nullable(string()),
+});
+
+export const tableConstraintsResponseShape = object<{ constraints: TableConstraint[] }>({
+  constraints: arrayOf(tableConstraintShape),
+});
+
+export const createTableConstraintResponseShape = object<{ constraint: TableConstraint }>({
+  constraint: tableConstraintShape,
+});
+
+export const deleteTableConstraintResponseShape = object<{ message: string }>({
+  message: string(),
+});
+
+export const terrainTypesResponseShape = object<{ terrainTypes: TerrainType[] }>({
+  terrainTypes: arrayOf(terrainTypeShape),
+});
+
+export const terrainTypeResponseShape = object<{ terrainType: TerrainType }>({
+  terrainType: terrainTypeShape,
+});
+
+export const roundTerrainTableShape = object<RoundTerrainTable>({
+  tableNumber: integer(),
+  terrainType: nullable(terrainTypeShape),
+  isOverride: boolean(),
+});
+
+export const roundTerrainLayoutShape = object<RoundTerrainLayout>({
+  roundNumber: integer(),
+  tables: arrayOf(roundTerrainTableShape),
+});
+
+const floorMapTableShape = object<FloorMapTable>({
+  tableNumber: integer(),
+  zone: nullable(string()),
+  x: nullable(number()),
+  y: nullable(number()),
+});
+
+export const floorMapShape = object<FloorMap>({
+  zones: arrayOf(string()),
+  tables: arrayOf(floorMapTableShape),
+});
+
+export const authenticateResponseShape = object<AuthenticateResponse>({
+  tournamentId: integer(),
+  tournamentName: string(),
+  message: string(),
+});
+
+export const importPairingsResponseShape = object<ImportPairingsResponse>({
+  roundNumber: integer(),
+  pairingsImported: integer(),
+  playersImported: integer(),
+  message: string(),
+  allocations: optional(arrayOf(allocationShape)),
+  conflicts: optional(arrayOf(conflictShape)),
+  summary: optional(string()),
+  scoreRefresh: optional(arrayOf(string())),
+});
+
+export const generateAllocationsResponseShape = object<GenerateAllocationsResponse>({
+  roundNumber: integer(),
+  allocations: arrayOf(allocationShape),
+  conflicts: arrayOf(conflictShape),
+  summary: string(),
+});
+
+const allocationCostShape = object<AllocationCost>({
+  tableReuse: integer(),
+  terrainReuse: integer(),
+  bcpTableMismatch: integer(),
+  scoreOrder: integer(),
+  total: integer(),
+});
+
+const allocationPreviewPlayerShape = object<AllocationPreviewPlayer>({
+  name: string(),
+  totalScore: integer(),
+});
+
+const allocationPreviewItemShape = object<AllocationPreviewItem>({
+  tableNumber: nullable(integer()),
+  terrainType: nullable(string()),
+  bcpTableNumber: nullable(integer()),
+  isBye: boolean(),
+  player1: allocationPreviewPlayerShape,
+  player2: nullable(allocationPreviewPlayerShape),
+  cost: allocationCostShape,
+  reasons: arrayOf(string()),
+});
+
+export const allocationPreviewShape = object<AllocationPreview>({
+  roundNumber: integer(),
+  proposed: object<AllocationPreview['proposed']>({
+    allocations: arrayOf(allocationPreviewItemShape),
+    totals: allocationCostShape,
+    conflicts: arrayOf(conflictShape),
+    summary: string(),
+  }),
+  current: object<AllocationPreviewSide>({
+    allocations: arrayOf(allocationPreviewItemShape),
+    totals: allocationCostShape,
+  }),
+  isBetter: boolean(),
+  changedPairings: integer(),
+});
+
+export const roundDetailsShape = object<RoundDetails>(
+  {
+    roundNumber: integer(),
+    isPublished: boolean(),
+    allocations: arrayOf(allocationShape),
+    conflicts: arrayOf(conflictShape),
+  },
+  'round-details.json'
+);
+
+export const publishRoundResponseShape = object<PublishRoundResponse>({
+  roundNumber: integer(),
+  message: string(),
+});
+
+export const allocationEditResultShape = object<AllocationEditResult>({
+  id: integer(),
+  tableId: nullable(integer()),
+  conflicts: arrayOf(conflictShape),
+});
+
+export const swapAllocationsResponseShape = object<SwapAllocationsResponse>({
+  allocation1: allocationEditResultShape,
+  allocation2: allocationEditResultShape,
+});
+
+export const batchEditResponseShape = object<BatchEditResponse>({
+  roundNumber: integer(),
+  isPublished: boolean(),
+  allocations: arrayOf(allocationShape),
+  conflicts: arrayOf(conflictShape),
+  changedAllocationIds: arrayOf(integer()),
+});
+
+const allocationEditChangeShape = object<AllocationEditChange>({
+  allocationId: integer(),
+  pairing: nullable(string()),
+  fromTable: nullable(integer()),
+  toTable: nullable(integer()),
+});
+
+export const allocationEditEntryShape = object<AllocationEditEntry>({
+  id: integer(),
+  action: oneOf<AllocationEditAction>('move', 'swap', 'batch', 'revert'),
+  description: string(),
+  editedBy: nullable(string()),
+  createdAt: string(),
+  undone: boolean(),
+  changes: arrayOf(allocationEditChangeShape),
+});
+
+export const roundHistoryShape = object<RoundHistory>({
+  roundNumber: integer(),
+  canUndo: boolean(),
+  canRedo: boolean(),
+  canRevert: boolean(),
+  entries: arrayOf(allocationEditEntryShape),
+});
+
+export const publicTournamentShape = object<PublicTournament>(
+  {
+    id: integer(),
+    name: string(),
+    tableCount: integer(),
+    publishedRounds: arrayOf(integer()),
+  },
+  'public-tournament.json'
+);
+
+export const publicRoundShape = object<PublicRound>(
+  {
+    tournamentName: string(),
+    roundNumber: integer(),
+    allocations: arrayOf(publicAllocationShape),
+  },
+  'public-round.json'
+);
+
+const publicPlayerSummaryShape = object<PublicPlayerSummary>({
+  id: integer(),
+  name: string(),
+  faction: nullable(string()),
+});
+
+const publicPlayerRoundShape = object<PublicPlayerRound>({
+  roundNumber: integer(),
+  tableNumber: nullable(integer()),
+  terrainType: nullable(string()),
+  terrainEmoji: nullable(string()),
+  isBye: boolean(),
+  score: integer(),
+  opponent: nullable(publicPlayerSummaryShape),
+  opponentScore: nullable(integer()),
+});
+
+export const publicPlayerSearchShape = object<PublicPlayerSearch>({
+  players: arrayOf(
+    object<PublicPlayerSearchResult>({
+      id: integer(),
+      name: string(),
+      faction: nullable(string()),
+      currentRound: nullable(publicPlayerRoundShape),
+    })
+  ),
+});
+
+export const publicPlayerShape = object<PublicPlayer>({
+  player: object<PublicPlayer['player']>({
+    id: integer(),
+    name: string(),
+    faction: nullable(string()),
+    totalScore: integer(),
+  }),
+  currentRound: nullable(publicPlayerRoundShape),
+  history: arrayOf(publicPlayerRoundShape),
+});
+
+const exportColumnShape = oneOf<ExportColumn>(
+  'roundNumber',
+  'isPublished',
+  'tableNumber',
+  'bcpTableNumber',
+  'terrainType',
+  'isBye',
+  'player1Name',
+  'player1BcpId',
+  'player1Faction',
+  'player1Score',
+  'player2Name',
+  'player2BcpId',
+  'player2Faction',
+  'player2Score',
+  'conflicts',
+  'edits'
+);
+
+const exportRowShape = object<ExportRow>({
+  roundNumber: optional(integer()),
+  isPublished: optional(boolean()),
+  tableNumber: optional(nullable(integer())),
+  bcpTableNumber: optional(nullable(integer())),
+  terrainType: optional(nullable(string())),
+  isBye: optional(boolean()),
+  player1Name: optional(nullable(string())),
+  player1BcpId: optional(nullable(string())),
+  player1Faction: optional(nullable(string())),
+  player1Score: optional(integer()),
+  player2Name: optional(nullable(string())),
+  player2BcpId: optional(nullable(string())),
+  player2Faction: optional(nullable(string())),
+  player2Score: optional(nullable(integer())),
+  conflicts: optional(
+    arrayOf(
+      object<Pick<Conflict, 'type' | 'message'>>({
+        type: conflictTypeShape,
+        message: string(),
+      })
+    )
+  ),
+  edits: optional(
+    arrayOf(
+      object<ExportEdit>({
+        action: oneOf<AllocationEditAction>('move', 'swap', 'batch', 'revert'),
+        description: string(),
+        editedBy: nullable(string()),
+        createdAt: string(),
+        fromTable: nullable(integer()),
+        toTable: nullable(integer()),
+      })
+    )
+  ),
+});
+
+export const tournamentExportShape = object<TournamentExport>({
+  tournament: object<TournamentExport['tournament']>({
+    id: integer(),
+    name: string(),
+    bcpEventId: string(),
+  }),
+  exportedAt: string(),
+  scope: oneOf<TournamentExport['scope']>('admin', 'public'),
+  columns: arrayOf(exportColumnShape),
+  rounds: arrayOf(
+    object<ExportRound>({
+      roundNumber: integer(),
+      isPublished: boolean(),
+      rows: arrayOf(exportRowShape),
+    })
+  ),
+});
+
+export const tournamentBackupShape = object<TournamentBackup>({
+  format: oneOf<TournamentBackup['format']>('tournament-tables-backup'),
+  version: integer() as Shape<TournamentBackup['version']>,
+  exportedAt: string(),
+  tournament: object<TournamentBackup['tournament']>({
+    name: string(),
+    bcpEventId: string(),
+    bcpUrl: string(),
+    photoUrl: nullable(string()),
+    locationName: nullable(string()),
+    eventDate: nullable(string()),
+    eventEndDate: nullable(string()),
+    tableCount: integer(),
+    lastUpdated: nullable(string()),
+    terrainFamilyWeight: integer(),
+  }),
+  terrainTypes: arrayOf(
+    object<BackupTerrainType>({
+      id: integer(),
+      builtIn: boolean(),
+      name: string(),
+      family: nullable(string()),
+      description: nullable(string()),
+      emoji: nullable(string()),
+      sortOrder: integer(),
+      isArchived: boolean(),
+    })
+  ),
+  tables: arrayOf(
+    object<BackupTable>({
+      id: integer(),
+      tableNumber: integer(),
+      terrainTypeId: nullable(integer()),
+      optional: boolean(),
+      isHidden: boolean(),
+      mapZone: nullable(string()),
+      mapX: nullable(number()),
+      mapY: nullable(number()),
+    })
+  ),
+  roundTerrain: arrayOf(
+    object<BackupRoundTerrain>({
+      tableId: integer(),
+      roundNumber: integer(),
+      terrainTypeId: nullable(integer()),
+    })
+  ),
+  players: arrayOf(
+    object<BackupPlayer>({
+      id: integer(),
+      bcpPlayerId: string(),
+      name: string(),
+      faction: nullable(string()),
+      totalScore: integer(),
+      placing: nullable(integer()),
+    })
+  ),
+  tableConstraints: arrayOf(
+    object<BackupTableConstraint>({
+      playerId: integer(),
+      roundNumber: nullable(integer()),
+      type: oneOf<TableConstraintType>('required', 'allowed', 'forbidden'),
+      tableIds: arrayOf(integer()),
+      note: nullable(string()),
+    })
+  ),
+  rounds: arrayOf(
+    object<BackupRound>({
+      roundNumber: integer(),
+      isPublished: boolean(),
+      allocations: arrayOf(
+        object<BackupAllocation>({
+          id: integer(),
+          tableId: nullable(integer()),
+          player1Id: integer(),
+          player2Id: nullable(integer()),
+          player1Score: integer(),
+          player2Score: integer(),
+          bcpTableNumber: nullable(integer()),
+          reason: nullable(object<Record<string, unknown>>({})),
+        })
+      ),
+      edits: arrayOf(
+        object<BackupAllocationEdit>({
+          action: oneOf<AllocationEditAction>('move', 'swap', 'batch', 'revert'),
+          changes: arrayOf(
+            object<BackupAllocationEdit['changes'][number]>({
+              allocationId: integer(),
+              fromTableId: nullable(integer()),
+              toTableId: nullable(integer()),
+            })
+          ),
+          editedBy: nullable(string()),
+          createdAt: string(),
+          isUndone: boolean(),
+        })
+      ),
+    })
+  ),
+});
+
+export const restoreTournamentResponseShape = object<RestoreTournamentResponse>({
+  tournament: tournamentShape,
+  adminToken: string(),
+});
+
+/**
+ * All shapes that have a JSON schema counterpart, keyed by schema filename.
+ */
+export const schemaShapes: Record<string, ShapeNode> = Object.fromEntries(
+  [
+    terrainTypeShape,
+    tournamentShape,
+    tableShape,
+    roundShape,
+    conflictShape,
+    allocationShape,
+    publicAllocationShape,
+    roundDetailsShape,
+    publicTournamentShape,
+    publicRoundShape,
+  ].map((shape) => [(shape as { schema: string }).schema, shape])
+);
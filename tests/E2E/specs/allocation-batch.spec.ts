@@ -0,0 +1,141 @@
+import { test, expect } from '@playwright/test';
+import { ConflictError, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament } from '../fixtures/allocation-editing';
+
+/**
+ * Batch allocation edit tests.
+ *
+ * POST /api/tournaments/{id}/rounds/{n}/allocations/batch applies a list of
+ * moves and swaps in order and validates only the final state, so a
+ * rotation may pass through collisions that single edits would create.
+ * Everything is applied in one transaction: a rejected batch changes nothing.
+ *
+ * Round 2 of fixtures/allocation-editing.ts: allocation index i sits on
+ * table i + 1.
+ */
+
+test.describe('Batch Allocation Edits', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should rotate pairings through transient collisions in one batch', async ({
+    request,
+    baseURL,
+  }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Batch Rotate Test' });
+    const [, , onTable3, onTable4, onTable5, , onTable7, onTable8] = seeded.allocations[2];
+
+    // Table 3 → 7 → 5 → 3; each move collides until the next one lands
+    const result = await api.batchEditAllocations(
+      seeded.id,
+      2,
+      [
+        { type: 'move', allocationId: onTable3, tableId: seeded.tables[7] },
+        { type: 'move', allocationId: onTable7, tableId: seeded.tables[5] },
+        { type: 'move', allocationId: onTable5, tableId: seeded.tables[3] },
+        { type: 'swap', allocationId1: onTable4, allocationId2: onTable8 },
+      ],
+      seeded.adminToken
+    );
+
+    const tableOf = (id: number) => result.allocations.find((a) => a.id === id)?.tableNumber;
+    expect(tableOf(onTable3)).toBe(7);
+    expect(tableOf(onTable7)).toBe(5);
+    expect(tableOf(onTable5)).toBe(3);
+    expect(tableOf(onTable4)).toBe(8);
+    expect(tableOf(onTable8)).toBe(4);
+    expect([...result.changedAllocationIds].sort((a, b) => a - b)).toEqual(
+      [onTable3, onTable4, onTable5, onTable7, onTable8].sort((a, b) => a - b)
+    );
+    expect(result.conflicts.filter((c) => c.type === 'TABLE_COLLISION')).toHaveLength(0);
+    expect(result.conflicts.filter((c) => c.type === 'TABLE_REUSE')).toHaveLength(0);
+
+    // The stored round matches the response
+    const round = await api.getRound(seeded.id, 2, seeded.adminToken);
+    expect(round.allocations.map((a) => [a.id, a.tableNumber])).toEqual(
+      result.allocations.map((a) => [a.id, a.tableNumber])
+    );
+  });
+
+  test('should reject a batch that ends in a collision and leave the round unchanged', async ({
+    request,
+    baseURL,
+  }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Batch Reject Test' });
+    const [onTable1, onTable2, onTable3] = seeded.allocations[2];
+    const before = await api.getRound(seeded.id, 2, seeded.adminToken);
+
+    const rejected = await expectApiError(
+      api.batchEditAllocations(
+        seeded.id,
+        2,
+        [
+          { type: 'swap', allocationId1: onTable1, allocationId2: onTable2 },
+          { type: 'move', allocationId: onTable3, tableId: seeded.tables[1] },
+        ],
+        seeded.adminToken
+      )
+    );
+    expect(rejected).toBeInstanceOf(ConflictError);
+    expect(rejected.status).toBe(409);
+    expect(rejected.code).toBe('EDIT_REJECTED');
+    expect(rejected.message).toContain('table(s) 1');
+
+    // The valid swap before the collision was not applied either
+    const after = await api.getRound(seeded.id, 2, seeded.adminToken);
+    expect(after.allocations.map((a) => [a.id, a.tableNumber])).toEqual(
+      before.allocations.map((a) => [a.id, a.tableNumber])
+    );
+  });
+
+  test('should report which operation is invalid', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Batch Validation Test' });
+    const [onTable1] = seeded.allocations[2];
+    const [round1Allocation] = seeded.allocations[1];
+
+    const empty = await expectApiError(api.batchEditAllocations(seeded.id, 2, [], seeded.adminToken));
+    expect(empty).toBeInstanceOf(ValidationError);
+    expect(empty.fields.operations).toBeDefined();
+
+    // An allocation from another round
+    const otherRound = await expectApiError(
+      api.batchEditAllocations(
+        seeded.id,
+        2,
+        [
+          { type: 'move', allocationId: onTable1, tableId: seeded.tables[8] },
+          { type: 'move', allocationId: round1Allocation, tableId: seeded.tables[1] },
+        ],
+        seeded.adminToken
+      )
+    );
+    expect(otherRound).toBeInstanceOf(ValidationError);
+    expect(otherRound.fields.operations[0]).toContain('Operation 2');
+
+    // A table that does not belong to the tournament
+    const unknownTable = await expectApiError(
+      api.batchEditAllocations(
+        seeded.id,
+        2,
+        [{ type: 'move', allocationId: onTable1, tableId: 999999999 }],
+        seeded.adminToken
+      )
+    );
+    expect(unknownTable).toBeInstanceOf(ValidationError);
+    expect(unknownTable.fields.operations[0]).toContain('Operation 1');
+
+    // Wrong token
+    const unauthorized = await expectApiError(
+      api.batchEditAllocations(
+        seeded.id,
+        2,
+        [{ type: 'swap', allocationId1: onTable1, allocationId2: onTable1 }],
+        'WrongToken123456'
+      )
+    );
+    expect(unauthorized.status).toBe(401);
+  });
+});
@@ -1,6 +1,7 @@
 import { test, expect } from '@playwright/test';
-import { seedTestData, cleanupTestData } from '../helpers/database';
+import { SeededTournament, useFixtureBuilder } from '../helpers/fixture-builder';
 import { setAdminTokenCookie } from '../helpers/auth';
+import { allocationEditingTournament } from '../fixtures/allocation-editing';
 
 /**
  * E2E Tests for Table Allocation Editing
@@ -12,19 +13,15 @@ import { setAdminTokenCookie } from '../helpers/auth';
  * - Creating TABLE_REUSE conflicts via swap
  * - Regenerating allocations to resolve conflicts
  *
- * Uses direct MySQL data import for deterministic test data.
+ * Seeds deterministic data directly into MySQL (fixtures/allocation-editing.ts).
  */
 
-const TEST_TOURNAMENT_ID = 1000;
-const ADMIN_TOKEN = 'testEditToken123';
-
 test.describe('Allocation Editing', () => {
-  test.beforeAll(async () => {
-    await seedTestData('allocation-editing');
-  });
+  const fixtures = useFixtureBuilder();
+  let seeded: SeededTournament;
 
-  test.afterAll(async () => {
-    await cleanupTestData(TEST_TOURNAMENT_ID);
+  test.beforeAll(async () => {
+    seeded = await fixtures.tournament(allocationEditingTournament);
   });
 
   test('Edit allocations, create conflicts, and regenerate to resolve', async ({
@@ -34,14 +31,14 @@ test.describe('Allocation Editing', () => {
     // Set up authentication via cookie
     await setAdminTokenCookie(
       page.context(),
-      ADMIN_TOKEN,
+      seeded.adminToken,
       baseURL!,
-      TEST_TOURNAMENT_ID,
+      seeded.id,
       'Allocation Edit Test'
     );
 
     // Navigate directly to round 2 management page
-    await page.goto(`/admin/tournament/${TEST_TOURNAMENT_ID}/round/2`);
+    await page.goto(`/admin/tournament/${seeded.id}/round/2`);
     await page.waitForLoadState('networkidle');
 
     // STEP 1: Verify initial state - 8 tables, no conflicts, terrain warnings exist
@@ -72,14 +69,14 @@ test.describe('Allocation Editing', () => {
     const table2Row = allocationRows.filter({ hasText: 'Table 2' }).first();
     const table2Dropdown = table2Row.locator('select.change-table-dropdown');
 
-    // Select Table 1 (value=1001) - this creates a collision with the existing Table 1 allocation
+    // Select Table 1 (value is its table ID) - this creates a collision with the existing Table 1 allocation
     // The onchange handler makes a PATCH request and then reloads the page
     const [response] = await Promise.all([
       page.waitForResponse(
         (resp) =>
           resp.url().includes('/api/allocations/') && resp.request().method() === 'PATCH'
       ),
-      table2Dropdown.selectOption('1001'),
+      table2Dropdown.selectOption(String(seeded.tables[1])),
     ]);
 
     // Verify the PATCH succeeded
@@ -113,7 +110,7 @@ test.describe('Allocation Editing', () => {
         (resp) =>
           resp.url().includes('/api/allocations/') && resp.request().method() === 'PATCH'
       ),
-      collisionDropdown.selectOption('1002'), // Table 2
+      collisionDropdown.selectOption(String(seeded.tables[2])),
     ]);
     await page.waitForLoadState('load');
     await page.waitForLoadState('networkidle');
@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+import { ConflictError, createApiClient, expectApiError } from '../helpers/api';
+import { setAdminTokenCookie } from '../helpers/auth';
+import { tablesOf, useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament } from '../fixtures/allocation-editing';
+
+/**
+ * Allocation edit history tests.
+ *
+ * Manual edits (moves, swaps, batches) are logged per round. The log can be
+ * listed, undone and redone, and the round reverted to its generated tables;
+ * the revert is itself an edit that can be undone.
+ *
+ * Round 2 of fixtures/allocation-editing.ts: allocation index i sits on
+ * table i + 1.
+ */
+
+test.describe('Allocation Edit History', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should log edits and undo, redo and revert them', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'History API Test' });
+    const [onTable1, onTable2, onTable3, , onTable5, , onTable7] = seeded.allocations[2];
+    const generated = tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken));
+
+    await api.swapAllocations(onTable1, onTable2, seeded.adminToken, { editedBy: 'Alice' });
+    await api.batchEditAllocations(
+      seeded.id,
+      2,
+      [
+        { type: 'move', allocationId: onTable3, tableId: seeded.tables[7] },
+        { type: 'move', allocationId: onTable7, tableId: seeded.tables[5] },
+        { type: 'move', allocationId: onTable5, tableId: seeded.tables[3] },
+      ],
+      seeded.adminToken,
+      { editedBy: 'Bob' }
+    );
+    const edited = tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken));
+
+    let history = await api.getRoundHistory(seeded.id, 2, seeded.adminToken);
+    expect(history.entries.map((e) => [e.action, e.editedBy])).toEqual([
+      ['batch', 'Bob'],
+      ['swap', 'Alice'],
+    ]);
+    expect(history.entries[1].description).toBe('Swapped tables 1 and 2');
+    expect(history.entries[0].changes).toContainEqual(
+      expect.objectContaining({ allocationId: onTable3, fromTable: 3, toTable: 7 })
+    );
+    expect(history).toMatchObject({ canUndo: true, canRedo: false, canRevert: true });
+
+    // Undo the batch: the rotation is rolled back, the swap stays
+    history = await api.undoEdit(seeded.id, 2, seeded.adminToken);
+    expect(history.entries[0].undone).toBe(true);
+    expect(history.canRedo).toBe(true);
+    let round = tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken));
+    expect(round[onTable3]).toBe(3);
+    expect(round[onTable1]).toBe(2);
+
+    // Redo it
+    await api.redoEdit(seeded.id, 2, seeded.adminToken);
+    expect(tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken))).toEqual(edited);
+
+    // Revert everything, then undo the revert
+    history = await api.revertToGenerated(seeded.id, 2, seeded.adminToken, { editedBy: 'Carol' });
+    expect(history.entries[0]).toMatchObject({ action: 'revert', editedBy: 'Carol' });
+    expect(history.entries[0].changes).toHaveLength(5);
+    expect(tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken))).toEqual(generated);
+
+    await api.undoEdit(seeded.id, 2, seeded.adminToken);
+    round = tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken));
+    expect(round).toEqual(edited);
+  });
+
+  test('should reject undo, redo and revert with nothing to apply', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'History Empty Test' });
+
+    const history = await api.getRoundHistory(seeded.id, 2, seeded.adminToken);
+    expect(history).toEqual({ roundNumber: 2, canUndo: false, canRedo: false, canRevert: false, entries: [] });
+
+    for (const call of [
+      () => api.undoEdit(seeded.id, 2, seeded.adminToken),
+      () => api.redoEdit(seeded.id, 2, seeded.adminToken),
+      () => api.revertToGenerated(seeded.id, 2, seeded.adminToken),
+    ]) {
+      const error = await expectApiError(call());
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.code).toBe('EDIT_REJECTED');
+    }
+  });
+
+  test('should show the history and undo from the round page', async ({ page, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'History Page Test' });
+    const [onTable1, onTable2] = seeded.allocations[2];
+    await api.swapAllocations(onTable1, onTable2, seeded.adminToken, { editedBy: 'Alice' });
+
+    await setAdminTokenCookie(page.context(), seeded.adminToken, baseURL!, seeded.id, 'History Page Test');
+    await page.goto(`/admin/tournament/${seeded.id}/round/2`);
+
+    const entries = page.locator('.edit-history-entry');
+    await expect(entries).toHaveCount(1);
+    await expect(entries.first()).toContainText('Swapped tables 1 and 2');
+    await expect(entries.first()).toContainText('Alice');
+    await expect(page.getByRole('button', { name: 'Redo' })).toBeDisabled();
+
+    // Charlie Brown (table 1 in the fixture) was swapped to table 2
+    const table1Row = page.locator('table.allocation-table tbody tr').filter({ hasText: 'Table 1' }).first();
+    await expect(table1Row).not.toContainText('Charlie Brown');
+
+    await Promise.all([
+      page.waitForResponse((resp) => resp.url().includes('/history/undo') && resp.request().method() === 'POST'),
+      page.getByRole('button', { name: 'Undo' }).click(),
+    ]);
+    await page.waitForLoadState('load');
+
+    await expect(page.locator('.edit-history-entry.undone')).toHaveCount(1);
+    await expect(table1Row).toContainText('Charlie Brown');
+    await expect(page.getByRole('button', { name: 'Redo' })).toBeEnabled();
+  });
+});
@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import { createApiClient } from '../helpers/api';
+import { setAdminTokenCookie } from '../helpers/auth';
+import { tablesOf, useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament } from '../fixtures/allocation-editing';
+
+/**
+ * Allocation preview tests.
+ *
+ * POST /api/tournaments/{id}/rounds/{n}/generate with {"dryRun": true}
+ * returns the allocations generation would save, each pairing costed next to
+ * the current allocations, and saves nothing.
+ *
+ * Round 2 of fixtures/allocation-editing.ts puts four pairings back on the
+ * terrain they played in round 1, so a fresh generation is strictly better.
+ */
+
+test.describe('Allocation Preview', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should cost the proposal against the current allocations without saving', async ({
+    request,
+    baseURL,
+  }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Preview API Test' });
+    const before = tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken));
+
+    const preview = await api.previewAllocations(seeded.id, 2, seeded.adminToken);
+
+    expect(preview.roundNumber).toBe(2);
+    expect(preview.current.allocations).toHaveLength(8);
+    expect(preview.proposed.allocations).toHaveLength(8);
+
+    // Four pairings repeat their round 1 terrain: two players each
+    expect(preview.current.totals.terrainReuse).toBe(8 * 10000);
+    const charlie = preview.current.allocations.find((a) => a.player1.name === 'Charlie Brown');
+    expect(charlie).toMatchObject({ tableNumber: 1, terrainType: 'Volkus', bcpTableNumber: 1 });
+    expect(charlie?.cost.terrainReuse).toBe(20000);
+    expect(charlie?.reasons).toContain('Charlie Brown previously experienced Volkus');
+
+    expect(preview.proposed.totals).toMatchObject({ tableReuse: 0, terrainReuse: 0 });
+    expect(preview.proposed.totals.total).toBeLessThan(preview.current.totals.total);
+    expect(preview.isBetter).toBe(true);
+    expect(preview.changedPairings).toBeGreaterThan(0);
+
+    // Nothing was saved
+    expect(tablesOf(await api.getRound(seeded.id, 2, seeded.adminToken))).toEqual(before);
+  });
+
+  test('should preview on the round page and apply the proposal', async ({ page, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Preview Page Test' });
+
+    await setAdminTokenCookie(page.context(), seeded.adminToken, baseURL!, seeded.id, 'Preview Page Test');
+    await page.goto(`/admin/tournament/${seeded.id}/round/2`);
+
+    await Promise.all([
+      page.waitForResponse((resp) => resp.url().includes('/generate') && resp.request().method() === 'POST'),
+      page.getByRole('button', { name: 'Preview Allocations' }).click(),
+    ]);
+
+    const preview = page.locator('#allocation-preview');
+    await expect(preview).toBeVisible();
+    await expect(preview.locator('#preview-verdict')).toContainText('The proposal is better');
+    await expect(preview.locator('#preview-current tbody tr')).toHaveCount(8);
+    await expect(preview.locator('#preview-proposed tbody tr')).toHaveCount(8);
+
+    // Previewing saved nothing: Charlie Brown is still on table 1
+    const table1Row = page.locator('table.allocation-table tbody tr').filter({ hasText: 'Table 1' }).first();
+    await expect(table1Row).toContainText('Charlie Brown');
+
+    await Promise.all([
+      page.waitForResponse((resp) => resp.url().includes('/generate') && resp.request().method() === 'POST'),
+      page.getByRole('button', { name: 'Apply Proposal' }).click(),
+    ]);
+    await page.waitForLoadState('load');
+
+    const round = await api.getRound(seeded.id, 2, seeded.adminToken);
+    expect(round.conflicts.filter((c) => c.type === 'TERRAIN_REUSE')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,313 @@
+import { test, expect } from '@playwright/test';
+import { Allocation, Table, createApiClient } from '../helpers/api';
+import { MockBcpClient, createMockBcp, seededRandom, simulateSwiss, toMockEvent } from '../helpers/bcp-mock';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+import { Arbitrary, checkProperty, describeFailure, propertyOptionsFromEnv } from '../helpers/property';
+
+/**
+ * Property-based allocation tests.
+ *
+ * Generates random tournaments (player count, rounds, drops, extra and
+ * optional tables, terrain layout), runs every round through import and
+ * allocation generation, and checks after each round that:
+ * - no two pairings share a table and no TABLE_COLLISION is reported
+ * - byes never get a table
+ * - round 1 keeps the tables BCP assigned
+ * - no player repeats a table when a reuse-free assignment exists
+ *
+ * Failures are shrunk to a minimal case; see helpers/property.ts for replay.
+ */
+
+type TerrainLayout = 'none' | 'cycled' | 'random' | 'single';
+
+interface TournamentCase {
+  seed: number;
+  players: number;
+  rounds: number;
+  drops: Record<number, number>;
+  /** Tables added on top of the round 1 pairing count. */
+  extraTables: number;
+  /** Table numbers marked optional (never auto-assigned). */
+  optionalTables: number[];
+  terrain: TerrainLayout;
+}
+
+const TERRAIN_LAYOUTS: TerrainLayout[] = ['none', 'cycled', 'random', 'single'];
+
+function pick<T>(random: () => number, values: T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+const tournamentCases: Arbitrary<TournamentCase> = {
+  generate(random, seed) {
+    const players = between(random, 4, 32);
+    const rounds = between(random, 2, 4);
+    const extraTables = between(random, 0, 3);
+
+    // Optional tables never outnumber the extras, so every pairing still fits
+    const tableCount = Math.floor(players / 2) + extraTables;
+    const optionalTables: number[] = [];
+    for (let count = between(random, 0, extraTables); optionalTables.length < count; ) {
+      const tableNumber = between(random, 1, tableCount);
+      if (!optionalTables.includes(tableNumber)) {
+        optionalTables.push(tableNumber);
+      }
+    }
+
+    const drops: Record<number, number> = {};
+    if (players > 6 && random() < 0.3) {
+      drops[between(random, 2, rounds)] = between(random, 1, 2);
+    }
+
+    return {
+      seed,
+      players,
+      rounds,
+      drops,
+      extraTables,
+      optionalTables: optionalTables.sort((a, b) => a - b),
+      terrain: pick(random, TERRAIN_LAYOUTS),
+    };
+  },
+
+  shrink(value) {
+    const candidates: TournamentCase[] = [];
+    if (value.rounds > 2) {
+      candidates.push({ ...value, rounds: 2, drops: dropsWithin(value.drops, 2) });
+      candidates.push({ ...value, rounds: value.rounds - 1, drops: dropsWithin(value.drops, value.rounds - 1) });
+    }
+    if (Object.keys(value.drops).length > 0) {
+      candidates.push({ ...value, drops: {} });
+    }
+    for (const players of [4, Math.floor(value.players / 2), value.players - 2, value.players - 1]) {
+      if (players >= 4 && players < value.players && !candidates.some((c) => c.players === players)) {
+        candidates.push({ ...value, players, drops: players > 6 ? value.drops : {} });
+      }
+    }
+    if (value.optionalTables.length > 0) {
+      candidates.push({ ...value, optionalTables: [] });
+      for (const tableNumber of value.optionalTables) {
+        candidates.push({ ...value, optionalTables: value.optionalTables.filter((n) => n !== tableNumber) });
+      }
+    }
+    if (value.extraTables > 0) {
+      const extraTables = value.extraTables - 1;
+      candidates.push({ ...value, extraTables, optionalTables: value.optionalTables.slice(0, extraTables) });
+    }
+    if (value.terrain !== 'none') {
+      candidates.push({ ...value, terrain: 'none' });
+    }
+    return candidates;
+  },
+};
+
+function dropsWithin(drops: Record<number, number>, rounds: number): Record<number, number> {
+  return Object.fromEntries(Object.entries(drops).filter(([round]) => Number(round) <= rounds));
+}
+
+function seatedPlayers(allocation: Allocation): number[] {
+  return [allocation.player1.id, allocation.player2?.id ?? null].filter((id): id is number => id !== null);
+}
+
+/**
+ * Whether every pairing can get its own table that neither player has used.
+ * Bipartite matching (augmenting paths) of pairings to auto-assignable tables.
+ */
+function reuseFreeAssignmentExists(
+  pairings: Allocation[],
+  tableNumbers: number[],
+  history: Map<number, Set<number>>
+): boolean {
+  const candidates = pairings.map((allocation) => {
+    const used = seatedPlayers(allocation).flatMap((id) => [...(history.get(id) ?? [])]);
+    return tableNumbers.filter((tableNumber) => !used.includes(tableNumber));
+  });
+  const pairingAt = new Map<number, number>();
+
+  const augment = (index: number, visited: Set<number>): boolean => {
+    for (const tableNumber of candidates[index]) {
+      if (visited.has(tableNumber)) {
+        continue;
+      }
+      visited.add(tableNumber);
+      const holder = pairingAt.get(tableNumber);
+      if (holder === undefined || augment(holder, visited)) {
+        pairingAt.set(tableNumber, index);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  return candidates.every((_, index) => augment(index, new Set()));
+}
+
+/**
+ * Checks one round's allocations against the invariants.
+ */
+function roundViolations(
+  roundNumber: number,
+  allocations: Allocation[],
+  tables: Table[],
+  history: Map<number, Set<number>>
+): string[] {
+  const violations: string[] = [];
+  const prefix = `Round ${roundNumber}`;
+  const pairings = allocations.filter((allocation) => !allocation.isBye);
+
+  for (const bye of allocations.filter((allocation) => allocation.isBye)) {
+    if (bye.tableNumber !== null) {
+      violations.push(`${prefix}: bye for player ${bye.player1.id} got table ${bye.tableNumber}`);
+    }
+  }
+
+  const seen = new Set<number>();
+  for (const allocation of pairings) {
+    if (allocation.tableNumber === null) {
+      violations.push(`${prefix}: allocation ${allocation.id} has no table`);
+    } else if (seen.has(allocation.tableNumber)) {
+      violations.push(`${prefix}: table ${allocation.tableNumber} assigned twice`);
+    } else {
+      seen.add(allocation.tableNumber);
+    }
+    if (allocation.conflicts.some((conflict) => conflict.type === 'TABLE_COLLISION')) {
+      violations.push(`${prefix}: TABLE_COLLISION reported for allocation ${allocation.id}`);
+    }
+  }
+
+  if (roundNumber === 1) {
+    for (const allocation of pairings) {
+      if (allocation.tableNumber !== allocation.bcpTableNumber) {
+        violations.push(
+          `${prefix}: moved from BCP table ${allocation.bcpTableNumber} to table ${allocation.tableNumber}`
+        );
+      }
+    }
+    return violations;
+  }
+
+  const autoAssignable = tables
+    .filter((table) => !table.isHidden && !table.isOptional)
+    .map((table) => table.tableNumber);
+  if (reuseFreeAssignmentExists(pairings, autoAssignable, history)) {
+    for (const allocation of pairings) {
+      const repeated = seatedPlayers(allocation).filter(
+        (id) => allocation.tableNumber !== null && history.get(id)?.has(allocation.tableNumber)
+      );
+      const flagged = allocation.conflicts.some((conflict) => conflict.type === 'TABLE_REUSE');
+      if (repeated.length > 0 || flagged) {
+        violations.push(
+          `${prefix}: table ${allocation.tableNumber} reused by player(s) ${repeated.join(', ') || '?'} ` +
+            'although a reuse-free assignment exists'
+        );
+      }
+    }
+  }
+
+  return violations;
+}
+
+function recordTables(history: Map<number, Set<number>>, allocations: Allocation[]): void {
+  for (const allocation of allocations) {
+    if (allocation.tableNumber === null) {
+      continue;
+    }
+    for (const id of seatedPlayers(allocation)) {
+      const tables = history.get(id) ?? new Set<number>();
+      tables.add(allocation.tableNumber);
+      history.set(id, tables);
+    }
+  }
+}
+
+test.describe('Allocation Properties', () => {
+  const cleanupContext = createCleanupContext();
+  const registeredEvents: string[] = [];
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+
+    const mockBcp = createMockBcp(request);
+    for (const eventId of registeredEvents.splice(0)) {
+      await mockBcp.deleteEvent(eventId);
+    }
+  });
+
+  test('should hold allocation invariants across random tournaments', async ({ request, baseURL }) => {
+    test.setTimeout(10 * 60 * 1000);
+    const api = createApiClient(request, baseURL!);
+    const mockBcp: MockBcpClient = createMockBcp(request);
+    const { terrainTypes } = await api.getTerrainTypes();
+
+    /**
+     * Runs a case end to end and returns the violations found.
+     * API errors count as violations so they shrink like any other failure.
+     */
+    async function runCase(tournamentCase: TournamentCase): Promise<string[]> {
+      try {
+        const sim = simulateSwiss({
+          seed: tournamentCase.seed,
+          players: tournamentCase.players,
+          rounds: tournamentCase.rounds,
+          drops: tournamentCase.drops,
+        });
+        const { eventId, bcpUrl } = await mockBcp.registerEvent(toMockEvent(sim, { publishedRounds: 1 }));
+        registeredEvents.push(eventId);
+
+        const { tournament, adminToken, autoImport } = await api.createTournament({ bcpUrl });
+        registerTournament(cleanupContext, tournament.id, adminToken);
+
+        // Round 1 is imported on creation; lay out the tables for later rounds
+        const tableCount = (autoImport?.tableCount ?? 0) + tournamentCase.extraTables;
+        if (tournamentCase.extraTables > 0) {
+          await api.setTableCount(tournament.id, adminToken, tableCount);
+        }
+        const terrainRandom = seededRandom(tournamentCase.seed);
+        const terrainFor = (tableNumber: number): number | null => {
+          switch (tournamentCase.terrain) {
+            case 'none':
+              return null;
+            case 'single':
+              return terrainTypes[0].id;
+            case 'cycled':
+              return terrainTypes[(tableNumber - 1) % terrainTypes.length].id;
+            case 'random':
+              return pick(terrainRandom, terrainTypes).id;
+          }
+        };
+        const { tables } = await api.updateTables(
+          tournament.id,
+          adminToken,
+          Array.from({ length: tableCount }, (_, index) => ({
+            tableNumber: index + 1,
+            terrainTypeId: terrainFor(index + 1),
+            optional: tournamentCase.optionalTables.includes(index + 1),
+          }))
+        );
+
+        const history = new Map<number, Set<number>>();
+        const violations: string[] = [];
+        for (const round of sim.rounds) {
+          if (round.roundNumber > 1) {
+            await mockBcp.postRound(eventId, round);
+            await api.importPairings(tournament.id, round.roundNumber, adminToken, { generateAllocations: false });
+            await api.generateAllocations(tournament.id, round.roundNumber, adminToken);
+          }
+          const { allocations } = await api.getRound(tournament.id, round.roundNumber, adminToken);
+          violations.push(...roundViolations(round.roundNumber, allocations, tables, history));
+          recordTables(history, allocations);
+        }
+        return violations;
+      } catch (error) {
+        return [`Error: ${error instanceof Error ? error.message : String(error)}`];
+      }
+    }
+
+    const failure = await checkProperty(tournamentCases, runCase, propertyOptionsFromEnv({ runs: 8 }));
+    expect(failure, failure ? describeFailure(failure) : undefined).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from '../cli';
+import { Allocation, RoundDetails, TerrainType, createApiClient, playwrightFetch } from '../helpers/api';
+import { createMockBcp, simulateSwiss, toMockEvent } from '../helpers/bcp-mock';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+import { QualityReport, analyzeAllocations } from '../report/quality';
+
+/**
+ * Allocation quality report tests.
+ *
+ * Checks the metrics on a hand-built tournament, then runs the CLI report
+ * over a simulated event imported through the API.
+ */
+
+function allocation(
+  id: number,
+  tableNumber: number | null,
+  bcpTableNumber: number | null,
+  terrainType: string | null,
+  player1: [number, string, number],
+  player2: [number, string, number] | null
+): Allocation {
+  return {
+    id,
+    tableNumber,
+    bcpTableNumber,
+    terrainType,
+    isBye: player2 === null,
+    player1: { id: player1[0], name: player1[1], score: player1[2] },
+    player2: player2 && { id: player2[0], name: player2[1], score: player2[2] },
+    conflicts: [],
+  };
+}
+
+test.describe('Allocation Quality Report', () => {
+  const cleanupContext = createCleanupContext();
+  const registeredEvents: string[] = [];
+  let outputDir: string;
+
+  test.beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tt-report-'));
+  });
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+    fs.rmSync(outputDir, { recursive: true, force: true });
+
+    const mockBcp = createMockBcp(request);
+    for (const eventId of registeredEvents.splice(0)) {
+      await mockBcp.deleteEvent(eventId);
+    }
+  });
+
+  test('should count repeats, BCP moves and score order per round and player', () => {
+    const rounds: RoundDetails[] = [
+      {
+        roundNumber: 1,
+        isPublished: true,
+        conflicts: [],
+        allocations: [
+          allocation(1, 1, 1, 'Urban', [1, 'Ann', 0], [2, 'Ben', 0]),
+          allocation(2, 2, 2, 'Forest', [3, 'Cat', 0], [4, 'Dan', 0]),
+          allocation(3, null, null, null, [5, 'Eve', 0], null),
+        ],
+      },
+      {
+        roundNumber: 2,
+        isPublished: false,
+        conflicts: [],
+        allocations: [
+          // Ann repeats table 1 and Urban; Eve/Ben moved off BCP table 2
+          allocation(4, 1, 1, 'Urban', [1, 'Ann', 3], [3, 'Cat', 3]),
+          allocation(5, 3, 2, 'Forest', [5, 'Eve', 3], [2, 'Ben', 0]),
+          allocation(6, null, null, null, [4, 'Dan', 0], null),
+        ],
+      },
+    ];
+
+    const report = analyzeAllocations({ id: 1, name: 'Hand-built' }, rounds);
+
+    expect(report.summary).toMatchObject({
+      rounds: 2,
+      players: 5,
+      pairings: 4,
+      tableRepeats: 1,
+      playersWithTableRepeat: 1,
+      terrainRepeats: 1,
+      bcpDeviations: 1,
+      bcpDeviationRate: 0.25,
+    });
+    expect(report.rounds.map((round) => round.scoreTableCorrelation)).toEqual([null, 1]);
+
+    const ann = report.players.find((player) => player.name === 'Ann')!;
+    expect(ann.tables).toEqual([1, 1]);
+    expect(ann.issues).toContain('Round 2: table 1 again (first played in round 1)');
+    expect(report.players.find((player) => player.name === 'Eve')).toMatchObject({ byes: 1, bcpDeviations: 1 });
+
+    expect(report.worst.players.map((player) => player.name)).toEqual(['Ann']);
+    expect(report.worst.rounds.map((round) => round.roundNumber)).toEqual([2]);
+  });
+
+  test('should count variants of a terrain family as family repeats', () => {
+    // Ann and Ben play Volkus, then its Tyranid variant, then Volkus again
+    const rounds: RoundDetails[] = ['Volkus', 'Volkus+Tyranid', 'Volkus'].map((terrain, index) => ({
+      roundNumber: index + 1,
+      isPublished: true,
+      conflicts: [],
+      allocations: [allocation(index + 1, 1, 1, terrain, [1, 'Ann', 0], [2, 'Ben', 0])],
+    }));
+    const terrainTypes: TerrainType[] = ['Volkus', 'Volkus+Tyranid'].map((name, index) => ({
+      id: index + 1,
+      name,
+      family: 'Volkus',
+      description: null,
+      emoji: null,
+      sortOrder: index + 1,
+      tournamentId: null,
+      isArchived: false,
+    }));
+
+    const report = analyzeAllocations({ id: 1, name: 'Families' }, rounds, { terrainTypes });
+
+    expect(report.rounds.map((round) => [round.terrainRepeats, round.familyRepeats])).toEqual([[0, 0], [0, 2], [2, 0]]);
+    expect(report.summary).toMatchObject({ familyRepeats: 2, playersWithFamilyRepeat: 2 });
+    const ann = report.players.find((player) => player.name === 'Ann')!;
+    expect(ann.issues).toContain('Round 2: Volkus+Tyranid terrain, a variant of Volkus played before');
+
+    // Without the catalog every terrain type is a family of its own
+    expect(analyzeAllocations({ id: 1, name: 'Families' }, rounds).summary.familyRepeats).toBe(0);
+  });
+
+  test('should report on a simulated event from the CLI', async ({ request, baseURL }) => {
+    test.slow();
+    const api = createApiClient(request, baseURL!);
+    const mockBcp = createMockBcp(request);
+    const sim = simulateSwiss({ seed: 8, players: 16, rounds: 4 });
+
+    const { eventId, bcpUrl } = await mockBcp.registerEvent(toMockEvent(sim));
+    registeredEvents.push(eventId);
+
+    const { tournament, adminToken } = await api.createTournament({ bcpUrl });
+    registerTournament(cleanupContext, tournament.id, adminToken);
+    for (const round of sim.rounds.slice(1)) {
+      await api.importPairings(tournament.id, round.roundNumber, adminToken);
+    }
+
+    const htmlPath = path.join(outputDir, 'report.html');
+    const stdout: string[] = [];
+    const code = await runCli(
+      ['report', String(tournament.id), '--json', '--html', htmlPath, '--url', baseURL!, '--token', adminToken],
+      {
+        stdout: (line) => stdout.push(line),
+        stderr: () => undefined,
+        env: {},
+        fetch: playwrightFetch(request),
+      }
+    );
+    expect(code).toBe(0);
+
+    const report = JSON.parse(stdout.join('\n')) as QualityReport;
+    expect(report.tournament.id).toBe(tournament.id);
+    expect(report.summary.rounds).toBe(4);
+    expect(report.summary.players).toBe(16);
+    expect(report.summary.pairings).toBe(32);
+    // Round 1 keeps BCP's tables
+    expect(report.rounds[0].bcpDeviations).toBe(0);
+    for (const player of report.players) {
+      expect(player.tables).toHaveLength(4);
+    }
+
+    const html = fs.readFileSync(htmlPath, 'utf8');
+    expect(html).toContain(`<title>Allocation quality: ${tournament.name}</title>`);
+    expect(html).toContain('Worst cases');
+  });
+});
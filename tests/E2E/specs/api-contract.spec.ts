@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+import { createApiClient } from '../helpers/api';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+import { compareShapeWithSchema, listApiSchemas } from '../helpers/schema-drift';
+import { generateUniqueTournament } from '../fixtures/test-data';
+import { schemaShapes } from '../sdk/validators';
+
+/**
+ * API response contract tests.
+ *
+ * The SDK validates every response at runtime against the shapes in
+ * sdk/validators.ts. These tests make sure those shapes agree with the JSON
+ * schemas in tests/Contract/schemas/api (which the PHP suite checks against
+ * real model output), and that a full organizer flow passes validation.
+ */
+
+test.describe('API Response Contract', () => {
+  const cleanupContext = createCleanupContext();
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+  });
+
+  test('TypeScript validators should match the API JSON schemas', () => {
+    expect(Object.keys(schemaShapes).sort()).toEqual(listApiSchemas());
+
+    const drift = Object.entries(schemaShapes).flatMap(([file, shape]) =>
+      compareShapeWithSchema(shape, file)
+    );
+
+    expect(drift, drift.join('\n')).toEqual([]);
+  });
+
+  test('responses across the organizer flow should pass runtime validation', async ({
+    request,
+    baseURL,
+  }) => {
+    const api = createApiClient(request, baseURL!);
+    const { bcpUrl } = generateUniqueTournament('CONTRACT');
+
+    // Each call below throws ResponseValidationError on any shape mismatch
+    const created = await api.createTournament({ bcpUrl, tableCount: 4 });
+    registerTournament(cleanupContext, created.tournament.id, created.adminToken);
+    const tournamentId = created.tournament.id;
+    const adminToken = created.adminToken;
+
+    const { terrainTypes } = await api.getTerrainTypes();
+    await api.updateTables(tournamentId, adminToken, [
+      { tableNumber: 1, terrainTypeId: terrainTypes[0].id },
+    ]);
+
+    const tournament = await api.getTournament(tournamentId, adminToken);
+    expect(tournament.tables[0].terrainType?.id).toBe(terrainTypes[0].id);
+
+    await api.importPairings(tournamentId, 1, adminToken);
+    const round = await api.getRound(tournamentId, 1, adminToken);
+    expect(round.allocations.length).toBeGreaterThan(0);
+
+    await api.publishRound(tournamentId, 1, adminToken);
+    const publicTournament = await api.getPublicTournament(tournamentId);
+    expect(publicTournament.publishedRounds).toContain(1);
+
+    const publicRound = await api.getPublicRound(tournamentId, 1);
+    expect(publicRound.allocations).toHaveLength(round.allocations.length);
+  });
+});
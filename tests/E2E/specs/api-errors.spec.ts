@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test';
+import {
+  NotFoundError,
+  RoundNotImportedError,
+  UnauthorizedError,
+  createApiClient,
+  expectApiError,
+} from '../helpers/api';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+import { generateUniqueTournament } from '../fixtures/test-data';
+
+/**
+ * API error model tests.
+ *
+ * Error responses carry a machine-readable code, and the SDK maps them to
+ * typed error classes so callers can tell "not authorized" from "round not
+ * imported yet" without parsing messages.
+ */
+
+test.describe('API Error Codes', () => {
+  const cleanupContext = createCleanupContext();
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+  });
+
+  test('should report distinct typed errors for auth, missing rounds and unpublished rounds', async ({
+    request,
+    baseURL,
+  }) => {
+    const api = createApiClient(request, baseURL!);
+    const { bcpUrl } = generateUniqueTournament('ERRORS');
+    const { tournament, adminToken } = await api.createTournament({ bcpUrl, tableCount: 4 });
+    registerTournament(cleanupContext, tournament.id, adminToken);
+
+    // Bad token → 401 INVALID_TOKEN
+    const unauthorized = await expectApiError(api.getTournament(tournament.id, 'WrongToken123456'));
+    expect(unauthorized).toBeInstanceOf(UnauthorizedError);
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.code).toBe('INVALID_TOKEN');
+
+    // Round that was never imported → ROUND_NOT_IMPORTED with round details
+    const notImported = await expectApiError(api.getRound(tournament.id, 5, adminToken));
+    expect(notImported).toBeInstanceOf(RoundNotImportedError);
+    expect(notImported.status).toBe(404);
+    expect(notImported.details).toMatchObject({ tournamentId: tournament.id, roundNumber: 5 });
+
+    const generateBeforeImport = await expectApiError(
+      api.generateAllocations(tournament.id, 5, adminToken)
+    );
+    expect(generateBeforeImport).toBeInstanceOf(RoundNotImportedError);
+    expect(generateBeforeImport.code).toBe('ROUND_NOT_IMPORTED');
+
+    // Round 1 is auto-imported on creation but not published yet → ROUND_NOT_PUBLISHED
+    const unpublished = await expectApiError(api.getPublicRound(tournament.id, 1));
+    expect(unpublished).toBeInstanceOf(NotFoundError);
+    expect(unpublished.code).toBe('ROUND_NOT_PUBLISHED');
+
+    // Unknown allocation → ALLOCATION_NOT_FOUND
+    const missingAllocation = await expectApiError(api.updateAllocation(999999999, 1, adminToken));
+    expect(missingAllocation).toBeInstanceOf(NotFoundError);
+    expect(missingAllocation.code).toBe('ALLOCATION_NOT_FOUND');
+  });
+});
@@ -0,0 +1,160 @@
+import { test, expect, Page } from '@playwright/test';
+import { createMockBcp } from '../helpers/bcp-mock';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+import { generateUniqueTournament } from '../fixtures/test-data';
+
+/**
+ * BCP failures during tournament creation, as seen by the organizer.
+ *
+ * Each test scripts faults on the mock BCP server for a fresh (unregistered)
+ * event, submits the creation form and checks what the page shows. BCP
+ * requests are retried 3 times with backoff, so persistent faults take a few
+ * seconds to surface.
+ */
+
+const NAME_FETCH_ERROR = 'Unable to fetch tournament name from BCP';
+
+async function submitCreateForm(page: Page, bcpUrl: string): Promise<void> {
+  await page.goto('/admin/tournament/create');
+  await page.locator('input[name="bcpUrl"]').fill(bcpUrl);
+  await page.locator('button[type="submit"]').click();
+}
+
+test.describe('BCP Faults: Tournament Creation', () => {
+  const cleanupContext = createCleanupContext();
+  const faultedEvents: string[] = [];
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+
+    const mockBcp = createMockBcp(request);
+    for (const eventId of faultedEvents.splice(0)) {
+      await mockBcp.deleteEvent(eventId);
+    }
+  });
+
+  /**
+   * Registers the tournament the page just created (read from the admin cookie).
+   */
+  async function registerCreatedTournament(page: Page): Promise<number> {
+    await page.waitForURL(/\/admin\/tournament\/\d+/, { timeout: 15000 });
+    const tournamentId = parseInt(page.url().match(/\/admin\/tournament\/(\d+)/)![1], 10);
+
+    const adminCookie = (await page.context().cookies()).find((c) => c.name === 'admin_token');
+    expect(adminCookie).toBeTruthy();
+    const cookieData = JSON.parse(decodeURIComponent(adminCookie!.value));
+    registerTournament(cleanupContext, tournamentId, cookieData.tournaments[tournamentId].token);
+
+    return tournamentId;
+  }
+
+  test('should show an error when BCP keeps failing', async ({ page, request }) => {
+    const mockBcp = createMockBcp(request);
+    const { bcpUrl, eventId } = generateUniqueTournament('FaultDown');
+    faultedEvents.push(eventId);
+    await mockBcp.injectFaults(eventId, [{ endpoint: 'event', status: 500, times: 'always' }]);
+
+    await submitCreateForm(page, bcpUrl);
+
+    const error = page.locator('#result article.alert-error');
+    await expect(error).toBeVisible({ timeout: 15000 });
+    await expect(error).toContainText('Tournament Creation Failed');
+    await expect(error).toContainText(NAME_FETCH_ERROR);
+    await expect(page).toHaveURL(/\/admin\/tournament\/create/);
+
+    // Every attempt reached the mock before giving up
+    const requests = await mockBcp.getRequests(eventId);
+    expect(requests.filter((recorded) => recorded.path === `/${eventId}`).map((r) => r.status)).toEqual([
+      500, 500, 500,
+    ]);
+  });
+
+  test('should recover from a transient BCP error', async ({ page, request }) => {
+    const mockBcp = createMockBcp(request);
+    const { bcpUrl, eventId, expectedName } = generateUniqueTournament('FaultBlip');
+    faultedEvents.push(eventId);
+    await mockBcp.injectFaults(eventId, [{ endpoint: 'event', status: 503 }]);
+
+    await submitCreateForm(page, bcpUrl);
+
+    await registerCreatedTournament(page);
+    await expect(page.locator('body')).toContainText(expectedName);
+  });
+
+  test('should show an error when BCP returns a truncated response', async ({ page, request }) => {
+    const mockBcp = createMockBcp(request);
+    const { bcpUrl, eventId } = generateUniqueTournament('FaultTrunc');
+    faultedEvents.push(eventId);
+    await mockBcp.injectFaults(eventId, [{ endpoint: 'event', truncate: true, times: 'always' }]);
+
+    await submitCreateForm(page, bcpUrl);
+
+    const error = page.locator('#result article.alert-error');
+    await expect(error).toBeVisible({ timeout: 15000 });
+    await expect(error).toContainText(NAME_FETCH_ERROR);
+  });
+
+  for (const change of ['missing-name', 'renamed-fields'] as const) {
+    test(`should show an error when the event details have ${change}`, async ({ page, request }) => {
+      const mockBcp = createMockBcp(request);
+      const { bcpUrl, eventId } = generateUniqueTournament('FaultSchema');
+      faultedEvents.push(eventId);
+      await mockBcp.injectFaults(eventId, [{ endpoint: 'event', schema: [change], times: 'always' }]);
+
+      await submitCreateForm(page, bcpUrl);
+
+      const error = page.locator('#result article.alert-error');
+      await expect(error).toBeVisible({ timeout: 15000 });
+      await expect(error).toContainText(NAME_FETCH_ERROR);
+    });
+  }
+
+  test('should show the loading state while BCP is slow', async ({ page, request }) => {
+    const mockBcp = createMockBcp(request);
+    const { bcpUrl, eventId } = generateUniqueTournament('FaultSlow');
+    faultedEvents.push(eventId);
+    await mockBcp.injectFaults(eventId, [{ endpoint: 'event', delayMs: 2000 }]);
+
+    await submitCreateForm(page, bcpUrl);
+
+    await expect(page.locator('#submit-indicator')).toBeVisible();
+    await expect(page.locator('#submit-indicator')).toContainText('Creating...');
+
+    await registerCreatedTournament(page);
+  });
+
+  test('should show an error when BCP never answers', async ({ page, request }) => {
+    // 3 attempts × 10s request timeout plus backoff
+    test.slow();
+
+    const mockBcp = createMockBcp(request);
+    const { bcpUrl, eventId } = generateUniqueTournament('FaultHang');
+    faultedEvents.push(eventId);
+    await mockBcp.injectFaults(eventId, [{ endpoint: 'event', delayMs: 15000, times: 'always' }]);
+
+    await submitCreateForm(page, bcpUrl);
+
+    const error = page.locator('#result article.alert-error');
+    await expect(error).toBeVisible({ timeout: 60000 });
+    await expect(error).toContainText(NAME_FETCH_ERROR);
+  });
+
+  test('should create the tournament without round 1 when pairings are unavailable', async ({
+    page,
+    request,
+  }) => {
+    const mockBcp = createMockBcp(request);
+    const { bcpUrl, eventId, expectedName } = generateUniqueTournament('FaultNoR1');
+    faultedEvents.push(eventId);
+    await mockBcp.injectFaults(eventId, [{ endpoint: 'pairings', round: 1, status: 500, times: 'always' }]);
+
+    await submitCreateForm(page, bcpUrl);
+
+    // Creation still succeeds; the organizer imports round 1 from the dashboard
+    await registerCreatedTournament(page);
+    await expect(page.locator('body')).toContainText(expectedName);
+    const importButton = page.locator('#import-round-button');
+    await expect(importButton).toBeVisible();
+    await expect(importButton).toContainText('Import Round 1');
+  });
+});
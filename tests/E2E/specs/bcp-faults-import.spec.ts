@@ -0,0 +1,145 @@
+import { test, expect, Page } from '@playwright/test';
+import { setAdminTokenCookie, goToTournamentDashboard } from '../helpers/auth';
+import { MockFault, createMockBcp } from '../helpers/bcp-mock';
+import { createCleanupContext, cleanupTournaments, createAndRegisterTournament } from '../helpers/cleanup';
+import { generateUniqueTournament } from '../fixtures/test-data';
+
+/**
+ * BCP failures when importing a round from the dashboard, as seen by the organizer.
+ *
+ * Each test creates a tournament on a fresh (unregistered) mock BCP event,
+ * scripts faults for the round 2 requests, clicks "Import Round 2" and checks
+ * the error message or the imported round page.
+ */
+
+test.describe('BCP Faults: Round Import', () => {
+  const cleanupContext = createCleanupContext();
+  const faultedEvents: string[] = [];
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+
+    const mockBcp = createMockBcp(request);
+    for (const eventId of faultedEvents.splice(0)) {
+      await mockBcp.deleteEvent(eventId);
+    }
+  });
+
+  /**
+   * Creates a tournament (round 1 imported), queues faults and clicks "Import Round 2".
+   */
+  async function importRound2WithFaults(
+    page: Page,
+    baseURL: string,
+    faults: MockFault[]
+  ): Promise<{ eventId: string }> {
+    const mockBcp = createMockBcp(page.request);
+    const { bcpUrl, eventId } = generateUniqueTournament('FaultImport');
+    faultedEvents.push(eventId);
+
+    const { tournamentId, adminToken } = await createAndRegisterTournament(
+      page.request,
+      cleanupContext,
+      baseURL,
+      { bcpUrl }
+    );
+    await mockBcp.injectFaults(eventId, faults);
+
+    await setAdminTokenCookie(page.context(), adminToken, baseURL, tournamentId);
+    await goToTournamentDashboard(page, tournamentId);
+
+    const importButton = page.locator('#import-round-button');
+    await expect(importButton).toContainText('Import Round 2');
+    await importButton.click();
+
+    return { eventId };
+  }
+
+  test('should show the BCP error after retries are exhausted', async ({ page, baseURL }) => {
+    const { eventId } = await importRound2WithFaults(page, baseURL!, [
+      { endpoint: 'pairings', round: 2, status: 500, times: 'always' },
+    ]);
+
+    const result = page.locator('#import-result');
+    await expect(result).toContainText('Error: Failed to fetch BCP data after 3 attempts', { timeout: 15000 });
+    await expect(page).toHaveURL(/\/admin\/tournament\/\d+$/);
+
+    const requests = await createMockBcp(page.request).getRequests(eventId);
+    const round2 = requests.filter((recorded) => recorded.path.endsWith('/pairings') && recorded.query.round === '2');
+    expect(round2.map((recorded) => recorded.status)).toEqual([500, 500, 500]);
+  });
+
+  test('should import after rate limiting clears', async ({ page, baseURL }) => {
+    const { eventId } = await importRound2WithFaults(page, baseURL!, [
+      { endpoint: 'pairings', round: 2, status: 429, headers: { 'Retry-After': '1' }, times: 2 },
+    ]);
+
+    await page.waitForURL(/\/admin\/tournament\/\d+\/round\/2\?imported=1/, { timeout: 15000 });
+    await expect(page.locator('#import-success-message')).toContainText('Round 2 imported successfully');
+
+    const requests = await createMockBcp(page.request).getRequests(eventId);
+    const round2 = requests.filter((recorded) => recorded.path.endsWith('/pairings') && recorded.query.round === '2');
+    expect(round2.map((recorded) => recorded.status)).toEqual([429, 429, 200]);
+  });
+
+  test('should show an error for a truncated pairings response', async ({ page, baseURL }) => {
+    await importRound2WithFaults(page, baseURL!, [
+      { endpoint: 'pairings', round: 2, truncate: true, times: 'always' },
+    ]);
+
+    await expect(page.locator('#import-result')).toContainText('Invalid JSON response', { timeout: 15000 });
+  });
+
+  test('should show an error for an HTML error page instead of JSON', async ({ page, baseURL }) => {
+    await importRound2WithFaults(page, baseURL!, [
+      {
+        endpoint: 'pairings',
+        round: 2,
+        headers: { 'Content-Type': 'text/html' },
+        body: '<html><body>Service maintenance</body></html>',
+        times: 'always',
+      },
+    ]);
+
+    await expect(page.locator('#import-result')).toContainText('Invalid JSON response', { timeout: 15000 });
+  });
+
+  test('should report no pairings when the response format changes', async ({ page, baseURL }) => {
+    await importRound2WithFaults(page, baseURL!, [
+      { endpoint: 'pairings', round: 2, schema: ['renamed-fields'] },
+    ]);
+
+    await expect(page.locator('#import-result')).toContainText('Error: No pairings found for this round');
+  });
+
+  test('should import pairings without factions', async ({ page, baseURL }) => {
+    await importRound2WithFaults(page, baseURL!, [
+      { endpoint: 'pairings', round: 2, schema: ['missing-factions'] },
+    ]);
+
+    await page.waitForURL(/\/admin\/tournament\/\d+\/round\/2\?imported=1/);
+    await expect(page.locator('#import-success-message')).toContainText('Round 2 imported successfully');
+    await expect(page.locator('span.player-faction')).toHaveCount(0);
+  });
+
+  test('should import a pairing with a null opponent as a bye', async ({ page, baseURL }) => {
+    await importRound2WithFaults(page, baseURL!, [
+      { endpoint: 'pairings', round: 2, schema: ['null-opponent'] },
+    ]);
+
+    await page.waitForURL(/\/admin\/tournament\/\d+\/round\/2\?imported=1/);
+    await expect(page.locator('#import-success-message')).toContainText('Round 2 imported successfully');
+    await expect(page.locator('.bye-row')).toHaveCount(1);
+    await expect(page.locator('.bye-indicator')).toContainText('BYE');
+  });
+
+  test('should import even when standings are unavailable', async ({ page, baseURL }) => {
+    await importRound2WithFaults(page, baseURL!, [
+      { endpoint: 'players', status: 500, times: 'always' },
+    ]);
+
+    // Standings are best-effort; pairings still import
+    await page.waitForURL(/\/admin\/tournament\/\d+\/round\/2\?imported=1/, { timeout: 15000 });
+    await expect(page.locator('#import-success-message')).toContainText('Round 2 imported successfully');
+  });
+});
@@ -0,0 +1,114 @@
+import { test, expect } from '@playwright/test';
+import { ApiError, RoundNotImportedError, ValidationError, createApiClient } from '../helpers/api';
+import { createMockBcp, MockRound, MOCK_BCP_URL } from '../helpers/bcp-mock';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+import { round1Pairings, round2Pairings } from '../fixtures/bcp-mock';
+
+/**
+ * Mock BCP scenario tests.
+ *
+ * Each test registers its own BCP event with the standalone mock server and
+ * drives the import flow against it.
+ */
+
+/**
+ * Pairings as "player1 vs player2" keyed by BCP table number.
+ */
+function pairingsByTable(round: MockRound): Record<number, string> {
+  return Object.fromEntries(
+    round.pairings.map((pairing) => [
+      pairing.tableNumber,
+      `${pairing.player1.name} vs ${pairing.player2?.name}`,
+    ])
+  );
+}
+
+/**
+ * Order-independent matchup label, e.g. "Alice Smith vs Charlie Brown".
+ */
+function matchup(name1: string | null | undefined, name2: string | null | undefined): string {
+  return [name1, name2].sort().join(' vs ');
+}
+
+test.describe('Mock BCP Scenarios', () => {
+  const cleanupContext = createCleanupContext();
+  const registeredEvents: string[] = [];
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+
+    const mockBcp = createMockBcp(request);
+    for (const eventId of registeredEvents.splice(0)) {
+      await mockBcp.deleteEvent(eventId);
+    }
+  });
+
+  test('should import the pairings registered for each round', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const mockBcp = createMockBcp(request);
+
+    const { eventId, bcpUrl } = await mockBcp.registerEvent({
+      name: 'Mock Scenario Open',
+      rounds: [round1Pairings],
+    });
+    registeredEvents.push(eventId);
+
+    // Tournament name and round 1 come from the registered event
+    const { tournament, adminToken, autoImport } = await api.createTournament({ bcpUrl });
+    registerTournament(cleanupContext, tournament.id, adminToken);
+    expect(tournament.name).toBe('Mock Scenario Open');
+    expect(autoImport?.pairingsImported).toBe(round1Pairings.pairings.length);
+
+    const round1 = await api.getRound(tournament.id, 1, adminToken);
+    const imported1 = Object.fromEntries(
+      round1.allocations.map((allocation) => [
+        allocation.tableNumber,
+        `${allocation.player1.name} vs ${allocation.player2?.name}`,
+      ])
+    );
+    expect(imported1).toEqual(pairingsByTable(round1Pairings));
+
+    // Round 2 is not posted yet
+    const notPosted = await api.importPairings(tournament.id, 2, adminToken).catch((err: ApiError) => err);
+    expect(notPosted).toBeInstanceOf(RoundNotImportedError);
+    expect((notPosted as ApiError).code).toBe('NO_PAIRINGS');
+
+    // Post round 2 and import it
+    await mockBcp.postRound(eventId, round2Pairings);
+    const imported2 = await api.importPairings(tournament.id, 2, adminToken);
+    expect(imported2.pairingsImported).toBe(round2Pairings.pairings.length);
+
+    const round2 = await api.getRound(tournament.id, 2, adminToken);
+    const matchups = round2.allocations.map((allocation) =>
+      matchup(allocation.player1.name, allocation.player2?.name)
+    );
+    expect(matchups.sort()).toEqual(
+      round2Pairings.pairings.map((pairing) => matchup(pairing.player1.name, pairing.player2?.name)).sort()
+    );
+
+    // The app called the mock for both rounds
+    const requests = await mockBcp.getRequests(eventId);
+    const pairingRounds = requests
+      .filter((recorded) => recorded.path.endsWith('/pairings'))
+      .map((recorded) => recorded.query.round);
+    expect(pairingRounds).toEqual(expect.arrayContaining(['1', '2']));
+  });
+
+  test('should reject invalid scenarios', async ({ request }) => {
+    const mockBcp = createMockBcp(request);
+
+    const error = await mockBcp
+      .registerEvent({ rounds: [{ roundNumber: 1, pairings: [{ tableNumber: 1 }] }] } as never)
+      .catch((err: ApiError) => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(JSON.stringify((error as ApiError).body)).toContain('player1');
+  });
+
+  test('should answer 400 for a malformed request path', async ({ request }) => {
+    const response = await request.get(`${MOCK_BCP_URL}/event/%E0%A4`);
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('bad_request');
+  });
+});
@@ -0,0 +1,115 @@
+import { test, expect, APIRequestContext } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from '../cli';
+import { playwrightFetch, RoundDetails, SwapAllocationsResponse } from '../helpers/api';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+import { generateUniqueTournament } from '../fixtures/test-data';
+
+/**
+ * Organizer CLI tests.
+ *
+ * Runs the CLI in-process against the test server, with the admin token
+ * saved to a temporary config file by `create`.
+ */
+
+interface CliRun {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+function cliRunner(request: APIRequestContext, baseURL: string, configPath: string) {
+  return async (...argv: string[]): Promise<CliRun> => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const code = await runCli([...argv, '--url', baseURL, '--config', configPath], {
+      stdout: (line) => stdout.push(line),
+      stderr: (line) => stderr.push(line),
+      env: {},
+      fetch: playwrightFetch(request),
+    });
+    return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+  };
+}
+
+test.describe('Organizer CLI', () => {
+  const cleanupContext = createCleanupContext();
+  let configDir: string;
+
+  test.beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tt-cli-'));
+  });
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  test('should run the round lifecycle from create to publish', async ({ request, baseURL }) => {
+    const configPath = path.join(configDir, 'config.json');
+    const cli = cliRunner(request, baseURL!, configPath);
+    const { bcpUrl } = generateUniqueTournament('CLI');
+
+    // Create saves the admin token to the config file
+    const created = await cli('create', bcpUrl, '--tables', '4', '--json');
+    expect(created.code).toBe(0);
+    const { tournament, adminToken } = JSON.parse(created.stdout);
+    registerTournament(cleanupContext, tournament.id, adminToken);
+
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    expect(config.tokens[String(tournament.id)]).toBe(adminToken);
+
+    // Text output: summary, allocation table and conflict list
+    const shown = await cli('round', String(tournament.id), '1');
+    expect(shown.code).toBe(0);
+    expect(shown.stdout).toContain('Round 1 [draft]');
+    expect(shown.stdout).toMatch(/Table\s+Terrain\s+Player 1/);
+    expect(shown.stdout).toContain('No conflicts.');
+
+    // JSON output matches the API response
+    const roundJson = await cli('round', String(tournament.id), '1', '--json');
+    const round: RoundDetails = JSON.parse(roundJson.stdout);
+    const [first, second] = round.allocations.filter((allocation) => allocation.tableNumber !== null);
+    expect(second).toBeDefined();
+
+    // Swap exchanges the two tables
+    const swapped = await cli('swap', String(tournament.id), String(first.id), String(second.id), '--json');
+    expect(swapped.code).toBe(0);
+    const swap: SwapAllocationsResponse = JSON.parse(swapped.stdout);
+    expect(swap.allocation1.id).toBe(first.id);
+    expect(swap.allocation2.id).toBe(second.id);
+
+    const afterSwap: RoundDetails = JSON.parse(
+      (await cli('round', String(tournament.id), '1', '--json')).stdout
+    );
+    expect(afterSwap.allocations.find((allocation) => allocation.id === first.id)?.tableNumber).toBe(
+      second.tableNumber
+    );
+
+    // Move back to the original table by number
+    const moved = await cli('move', String(tournament.id), String(first.id), String(first.tableNumber));
+    expect(moved.code).toBe(0);
+    expect(moved.stdout).toContain(`Allocation ${first.id} is now on table ${first.tableNumber}`);
+
+    // Publish
+    const published = await cli('publish', String(tournament.id), '1');
+    expect(published.code).toBe(0);
+    expect((await cli('round', String(tournament.id), '1')).stdout).toContain('Round 1 [published]');
+  });
+
+  test('should report usage and API errors with exit codes', async ({ request, baseURL }) => {
+    const cli = cliRunner(request, baseURL!, path.join(configDir, 'empty.json'));
+
+    // No token available for this tournament
+    const noToken = await cli('round', '1', '1');
+    expect(noToken.code).toBe(2);
+    expect(noToken.stderr).toContain('No admin token for tournament 1');
+
+    // API errors carry the machine-readable code
+    const badToken = await cli('round', '1', '1', '--token', 'WrongToken123456', '--json');
+    expect(badToken.code).toBe(1);
+    expect(JSON.parse(badToken.stderr).error.code).toBe('INVALID_TOKEN');
+  });
+});
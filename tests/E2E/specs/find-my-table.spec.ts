@@ -0,0 +1,140 @@
+import { test, expect } from '@playwright/test';
+import { NotFoundError, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament, editingRound1, editingRound2 } from '../fixtures/allocation-editing';
+
+/**
+ * Find my table tests.
+ *
+ * Players look themselves up on the public site by part of their name or
+ * their BCP player ID, and see their table, terrain and opponent for the
+ * latest published round plus the rounds before it. The pinned player is
+ * remembered per tournament in the browser.
+ *
+ * Round 1 puts Alice Smith (p1) against Bob Jones on table 1 (Volkus),
+ * round 2 on table 5 (Tomb World).
+ */
+
+test.describe('Find My Table', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should find players by partial name or BCP player ID', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Find Table Search Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: true, allocations: editingRound2 },
+      ],
+    });
+
+    const { players } = await api.searchPublicPlayers(seeded.id, 'ali');
+    expect(players).toHaveLength(1);
+    expect(players[0]).toMatchObject({
+      id: seeded.players.p1,
+      name: 'Alice Smith',
+      faction: 'Corsair Voidscarred',
+      currentRound: {
+        roundNumber: 2,
+        tableNumber: 5,
+        terrainType: 'Tomb World',
+        isBye: false,
+        opponent: { id: seeded.players.p2, name: 'Bob Jones', faction: 'Nemesis Claw' },
+      },
+    });
+
+    const byBcpId = await api.searchPublicPlayers(seeded.id, 'p3');
+    expect(byBcpId.players.map((p) => p.name)).toEqual(['Charlie Brown']);
+
+    const several = await api.searchPublicPlayers(seeded.id, 'AN');
+    expect(several.players.map((p) => p.name)).toEqual([
+      'Diana Prince',
+      'Hannah Black',
+      'Ivan Red',
+      'Mike Orange',
+      'Nancy Pink',
+    ]);
+
+    const none = await api.searchPublicPlayers(seeded.id, 'zzz');
+    expect(none.players).toEqual([]);
+
+    const tooShort = await expectApiError(api.searchPublicPlayers(seeded.id, 'a'));
+    expect(tooShort).toBeInstanceOf(ValidationError);
+    expect(tooShort.fields.q).toEqual(['Search needs at least 2 characters']);
+  });
+
+  test('should return a player\'s current table and history from published rounds only', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Find Table Player Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: false, allocations: editingRound2 },
+      ],
+    });
+
+    const charlie = await api.getPublicPlayer(seeded.id, seeded.players.p3);
+    expect(charlie.player).toMatchObject({ name: 'Charlie Brown', faction: 'Blades of Khaine', totalScore: 16 });
+    // Round 2 is not published yet, so round 1 is current
+    expect(charlie.currentRound).toMatchObject({ roundNumber: 1, tableNumber: 2, terrainType: 'Volkus' });
+    expect(charlie.currentRound?.opponent?.name).toBe('Diana Prince');
+    expect(charlie.history).toEqual([]);
+
+    await api.publishRound(seeded.id, 2, seeded.adminToken);
+
+    const published = await api.getPublicPlayer(seeded.id, seeded.players.p3);
+    expect(published.currentRound).toMatchObject({ roundNumber: 2, tableNumber: 1, terrainType: 'Volkus' });
+    expect(published.history).toHaveLength(1);
+    expect(published.history[0]).toMatchObject({ roundNumber: 1, tableNumber: 2 });
+
+    const missing = await expectApiError(api.getPublicPlayer(seeded.id, 999999));
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect(missing.code).toBe('PLAYER_NOT_FOUND');
+
+    // Players of another tournament are not found through this one
+    const other = await fixtures.tournament({ ...allocationEditingTournament, name: 'Find Table Other Test' });
+    const foreign = await expectApiError(api.getPublicPlayer(other.id, seeded.players.p3));
+    expect(foreign.code).toBe('PLAYER_NOT_FOUND');
+  });
+
+  test('should keep the pinned player across rounds', async ({ page }) => {
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Find Table Pin Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: true, allocations: editingRound2 },
+      ],
+    });
+
+    await page.goto(`/${seeded.id}?round=1`);
+    await page.locator('#find-table-query').fill('alice');
+    const result = page.locator('[data-pin-player]');
+    await expect(result).toHaveCount(1);
+    await expect(result).toContainText('Table 5');
+    await result.click();
+
+    const card = page.getByTestId('pinned-player');
+    await expect(card).toBeVisible();
+    await expect(page.getByTestId('pinned-player-current')).toContainText('Round 2');
+    await expect(page.getByTestId('pinned-player-current')).toContainText('Table 5');
+    await expect(page.getByTestId('pinned-player-current')).toContainText('vs Bob Jones (Nemesis Claw)');
+    await expect(page.getByTestId('pinned-player-history')).toHaveText(['Round 1: Table 1 · Volkus, vs Bob Jones (Nemesis Claw) 20–18']);
+    // Round 1 row of the pinned player is marked
+    await expect(page.locator('.tc-match-row-pinned .tc-table-number')).toHaveText('1');
+
+    await page.getByTestId('sidebar-round-link-2').click();
+    await expect(page.getByTestId('pinned-player-current')).toContainText('Table 5');
+    await expect(page.locator('.tc-match-row-pinned .tc-table-number')).toHaveText('5');
+
+    await card.getByRole('button', { name: 'Unpin' }).click();
+    await expect(card).toBeHidden();
+    await expect(page.locator('.tc-match-row-pinned')).toHaveCount(0);
+
+    await page.reload();
+    await expect(page.locator('.tc-match-row')).toHaveCount(8);
+    await expect(card).toBeHidden();
+  });
+});
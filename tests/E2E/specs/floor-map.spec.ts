@@ -0,0 +1,173 @@
+import { test, expect, Locator, Page } from '@playwright/test';
+import { ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { setAdminTokenCookie } from '../helpers/auth';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament, editingRound1, editingTables } from '../fixtures/allocation-editing';
+
+/**
+ * Venue floor map tests.
+ *
+ * The organizer places tables on a plan of the venue, optionally in named
+ * rooms or zones; positions are the table's centre in percent of the plan.
+ * The public round view shows the placed tables, and find my table
+ * highlights the pinned player's table on it.
+ *
+ * Round 1 puts Alice Smith (p1) against Bob Jones on table 1.
+ */
+
+/**
+ * Drags a table token so its centre lands at a point of the target, given in percent.
+ */
+async function dragTo(page: Page, token: Locator, target: Locator, x: number, y: number): Promise<void> {
+  const from = (await token.boundingBox())!;
+  const to = (await target.boundingBox())!;
+  await page.mouse.move(from.x + from.width / 2, from.y + from.height / 2);
+  await page.mouse.down();
+  await page.mouse.move(to.x + (to.width * x) / 100, to.y + (to.height * y) / 100, { steps: 5 });
+  await page.mouse.up();
+}
+
+test.describe('Floor Map', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should save and load table positions by zone', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      name: 'Floor Map API Test',
+      tables: [{ terrain: 'Volkus' }, { terrain: 'Volkus' }, { terrain: 'Tomb World' }, { terrain: null }, { terrain: null, hidden: true }],
+    });
+    const token = seeded.adminToken;
+
+    const empty = await api.getFloorMap(seeded.id, token);
+    expect(empty.zones).toEqual([]);
+    expect(empty.tables.map((t) => [t.tableNumber, t.x])).toEqual([
+      [1, null],
+      [2, null],
+      [3, null],
+      [4, null],
+    ]);
+
+    const saved = await api.saveFloorMap(seeded.id, token, [
+      { tableNumber: 1, zone: 'Main Hall', x: 10, y: 20 },
+      { tableNumber: 2, zone: 'Main Hall', x: 33.3333, y: 20 },
+      { tableNumber: 3, zone: 'Annex 2', x: 50, y: 75 },
+      { tableNumber: 4, zone: '  ', x: 0, y: 100 },
+    ]);
+    expect(saved).toEqual({
+      zones: ['Annex 2', 'Main Hall'],
+      tables: [
+        { tableNumber: 1, zone: 'Main Hall', x: 10, y: 20 },
+        { tableNumber: 2, zone: 'Main Hall', x: 33.33, y: 20 },
+        { tableNumber: 3, zone: 'Annex 2', x: 50, y: 75 },
+        { tableNumber: 4, zone: null, x: 0, y: 100 },
+      ],
+    });
+    // Players see the same map
+    expect(await api.getFloorMap(seeded.id)).toEqual(saved);
+
+    // Tables left out keep their place; null x and y take a table off the map, zone and all
+    const moved = await api.saveFloorMap(seeded.id, token, [
+      { tableNumber: 2, zone: 'Main Hall', x: null, y: null },
+      { tableNumber: 3, x: 60, y: 75 },
+    ]);
+    expect(moved.zones).toEqual(['Main Hall']);
+    expect(moved.tables).toEqual([
+      { tableNumber: 1, zone: 'Main Hall', x: 10, y: 20 },
+      { tableNumber: 2, zone: null, x: null, y: null },
+      { tableNumber: 3, zone: null, x: 60, y: 75 },
+      { tableNumber: 4, zone: null, x: 0, y: 100 },
+    ]);
+
+    const invalid = await expectApiError(
+      api.saveFloorMap(seeded.id, token, [
+        { tableNumber: 1, x: 101, y: 20 },
+        { tableNumber: 3, x: 40, y: null },
+        { tableNumber: 4, zone: 'Z'.repeat(51), x: 5, y: 5 },
+        { tableNumber: 5, x: 5, y: 5 },
+      ])
+    );
+    expect(invalid).toBeInstanceOf(ValidationError);
+    expect(invalid.fields).toEqual({
+      'tables.1': ['Position needs x and y from 0 to 100, or both null to take the table off the map'],
+      'tables.3': ['Position needs x and y from 0 to 100, or both null to take the table off the map'],
+      'tables.4': ['Zone must be text of at most 50 characters'],
+      'tables.5': ['Table 5 does not exist'],
+    });
+
+    // Nothing is saved from an invalid update
+    expect(await api.getFloorMap(seeded.id, token)).toEqual(moved);
+  });
+
+  test('should place tables by dragging them in the editor', async ({ page, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ name: 'Floor Map Editor Test', tables: editingTables });
+    await setAdminTokenCookie(page.context(), seeded.adminToken, baseURL!, seeded.id, 'Floor Map Editor Test');
+
+    await page.goto(`/admin/tournament/${seeded.id}`);
+    await page.locator('#tab-tables').click();
+    await page.locator('#floor-map-link').click();
+    await page.waitForURL(`**/admin/tournament/${seeded.id}/floor-map`);
+    await expect(page.locator('#floor-tray .floor-table')).toHaveCount(8);
+
+    const mainFloor = page.locator('.floor-zone[data-zone=""] .floor-plan');
+    await dragTo(page, page.locator('.floor-table[data-table-number="1"]'), mainFloor, 50, 50);
+    await page.locator('#new-zone-name').fill('Annex');
+    await page.locator('#add-zone-button').click();
+    const annex = page.locator('.floor-zone[data-zone="Annex"] .floor-plan');
+    await dragTo(page, page.locator('.floor-table[data-table-number="2"]'), annex, 25, 75);
+    await expect(page.locator('#floor-tray .floor-table')).toHaveCount(6);
+
+    await page.locator('#save-floor-map-button').click();
+    await expect(page.locator('#floor-map-result')).toContainText('Floor map saved');
+
+    const { zones, tables } = await api.getFloorMap(seeded.id, seeded.adminToken);
+    expect(zones).toEqual(['Annex']);
+    expect(tables[0]).toMatchObject({ tableNumber: 1, zone: null });
+    expect(tables[0].x).toBeCloseTo(50, 0);
+    expect(tables[0].y).toBeCloseTo(50, 0);
+    expect(tables[1]).toMatchObject({ tableNumber: 2, zone: 'Annex' });
+    expect(tables[1].x).toBeCloseTo(25, 0);
+    expect(tables[1].y).toBeCloseTo(75, 0);
+    expect(tables.filter((t) => t.x === null)).toHaveLength(6);
+
+    // Placed tables come back on their plan
+    await page.reload();
+    await expect(annex.locator('.floor-table')).toHaveAttribute('data-table-number', '2');
+  });
+
+  test('should highlight the pinned player\'s table on the public map', async ({ page, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Floor Map Public Test',
+      rounds: [{ published: true, allocations: editingRound1 }],
+    });
+
+    // No map until a table is placed
+    await page.goto(`/${seeded.id}?round=1`);
+    await expect(page.getByTestId('floor-map')).toHaveCount(0);
+
+    await api.saveFloorMap(seeded.id, seeded.adminToken, [
+      { tableNumber: 1, zone: 'Hall', x: 20, y: 20 },
+      { tableNumber: 2, zone: 'Hall', x: 40, y: 20 },
+      { tableNumber: 5, zone: 'Cellar', x: 50, y: 50 },
+    ]);
+
+    await page.reload();
+    const map = page.getByTestId('floor-map');
+    await expect(map.locator('.tc-floor-zone-name')).toHaveText(['Cellar', 'Hall']);
+    await expect(map.locator('.tc-floor-table')).toHaveCount(3);
+    await expect(map.locator('.tc-floor-table-pinned')).toHaveCount(0);
+
+    await page.locator('#find-table-query').fill('bob');
+    await page.locator('[data-pin-player]').click();
+    await expect(map.locator('.tc-floor-table-pinned')).toHaveAttribute('data-table-number', '1');
+
+    // The pin, and so the highlight, is remembered
+    await page.reload();
+    await expect(page.locator('.tc-floor-table-pinned')).toHaveAttribute('data-table-number', '1');
+
+    await page.getByTestId('pinned-player').getByRole('button', { name: 'Unpin' }).click();
+    await expect(page.locator('.tc-floor-table-pinned')).toHaveCount(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect, Browser, Page } from '@playwright/test';
+import { createApiClient } from '../helpers/api';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { workerDatabaseHeaders } from '../helpers/worker-database';
+import { allocationEditingTournament, editingRound1, editingRound2 } from '../fixtures/allocation-editing';
+
+/**
+ * Live update tests.
+ *
+ * The public round view subscribes to /api/public/tournaments/{id}/events and
+ * swaps in the re-rendered page when a round is published or the allocations
+ * on screen change. The organizer acts through the API while a player's
+ * browser, in its own context, watches the page update without reloading.
+ */
+
+async function openPlayerPage(browser: Browser, path: string): Promise<Page> {
+  const context = await browser.newContext({ extraHTTPHeaders: workerDatabaseHeaders() });
+  const page = await context.newPage();
+  await page.goto(path);
+  // Cleared by any reload or navigation
+  await page.evaluate(() => {
+    (window as unknown as { livePageMarker: boolean }).livePageMarker = true;
+  });
+  return page;
+}
+
+async function expectNotReloaded(page: Page): Promise<void> {
+  expect(await page.evaluate(() => (window as unknown as { livePageMarker?: boolean }).livePageMarker)).toBe(true);
+}
+
+test.describe('Live Updates', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should show a newly published round without reloading', async ({ browser, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Live Publish Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: false, allocations: editingRound2 },
+      ],
+    });
+
+    const page = await openPlayerPage(browser, `/${seeded.id}`);
+    await expect(page.locator('#hero-round-title')).toContainText('Round 1');
+    await expect(page.getByTestId('sidebar-round-link-2')).toHaveCount(0);
+
+    await api.publishRound(seeded.id, 2, seeded.adminToken);
+
+    await expect(page.locator('#hero-round-title')).toContainText('Round 2', { timeout: 10000 });
+    await expect(page.getByTestId('sidebar-round-link-2')).toBeVisible();
+    await expect(page.locator('#live-notice')).toHaveText('Round 2 is published');
+    // Round 2 puts Alice Smith and Bob Jones on table 5
+    await expect(page.locator('.tc-match-row').filter({ hasText: 'Alice Smith' }).locator('.tc-table-number')).toHaveText('5');
+    await expectNotReloaded(page);
+
+    await page.context().close();
+  });
+
+  test('should highlight the rows an edit changed on a published round', async ({ browser, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Live Edit Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: true, allocations: editingRound2 },
+      ],
+    });
+    const round = await api.getRound(seeded.id, 2, seeded.adminToken);
+    const onTable = (tableNumber: number) => round.allocations.find((a) => a.tableNumber === tableNumber)!;
+
+    const page = await openPlayerPage(browser, `/${seeded.id}?round=2`);
+    await expect(page.locator('.tc-match-row')).toHaveCount(8);
+
+    // Swap tables 1 and 2
+    await api.swapAllocations(onTable(1).id, onTable(2).id, seeded.adminToken);
+
+    const changed = page.locator('.tc-match-row-changed');
+    await expect(changed).toHaveCount(2, { timeout: 10000 });
+    await expect(changed.filter({ hasText: 'Charlie Brown' }).locator('.tc-table-number')).toHaveText('2');
+    await expect(changed.filter({ hasText: 'Edward Stone' }).locator('.tc-table-number')).toHaveText('1');
+    await expect(page.locator('#live-notice')).toHaveText('Round 2 tables updated');
+    await expectNotReloaded(page);
+
+    await page.context().close();
+  });
+});
@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test';
+import { Allocation, createApiClient } from '../helpers/api';
+import { setAdminTokenCookie } from '../helpers/auth';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament, editingPlayers, editingRound1, editingRound2 } from '../fixtures/allocation-editing';
+
+/**
+ * Printable round sheet tests.
+ *
+ * /admin/tournament/{id}/round/{n}/print renders a published round for the
+ * venue: a wall sheet by player name, a sheet by table and a placard per
+ * table. The sheets are checked against the round as the API reports it.
+ */
+
+function factionOf(name: string | null): string {
+  return editingPlayers.find((player) => player.name === name)?.faction ?? '';
+}
+
+function byTable(allocations: Allocation[]): Allocation[] {
+  return [...allocations].sort((a, b) => (a.tableNumber ?? Infinity) - (b.tableNumber ?? Infinity));
+}
+
+test.describe('Print Sheets', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should print the wall sheets and placards of a published round', async ({ page, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Print Sheets Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: true, allocations: editingRound2 },
+      ],
+    });
+    const round = await api.getRound(seeded.id, 2, seeded.adminToken);
+    const allocations = byTable(round.allocations);
+
+    await setAdminTokenCookie(page.context(), seeded.adminToken, baseURL!, seeded.id, 'Print Sheets Test');
+    await page.goto(`/admin/tournament/${seeded.id}/round/2/print`);
+
+    // By table: one row per pairing, in table order
+    const tableRows = page.locator('#sheet-tables tbody tr');
+    await expect(tableRows).toHaveCount(allocations.length);
+    for (const [index, allocation] of allocations.entries()) {
+      const cells = tableRows.nth(index).locator('td');
+      await expect(cells.nth(0)).toHaveText(String(allocation.tableNumber));
+      await expect(cells.nth(1)).toHaveText(allocation.terrainType ?? '—');
+      await expect(cells.nth(2)).toContainText(allocation.player1.name!);
+      await expect(cells.nth(2)).toContainText(factionOf(allocation.player1.name));
+      await expect(cells.nth(3)).toContainText(allocation.player2!.name!);
+    }
+
+    // By player: every player once, sorted by name, with their table and opponent
+    const lines = allocations.flatMap((allocation) => [
+      { name: allocation.player1.name!, table: allocation.tableNumber, opponent: allocation.player2!.name! },
+      { name: allocation.player2!.name!, table: allocation.tableNumber, opponent: allocation.player1.name! },
+    ]);
+    lines.sort((a, b) => a.name.localeCompare(b.name));
+    const playerRows = page.locator('#sheet-players tbody tr');
+    await expect(playerRows).toHaveCount(lines.length);
+    for (const [index, line] of lines.entries()) {
+      const cells = playerRows.nth(index).locator('td');
+      await expect(cells.nth(0)).toContainText(line.name);
+      await expect(cells.nth(1)).toHaveText(String(line.table));
+      await expect(cells.nth(3)).toHaveText(line.opponent);
+    }
+
+    // Placards: one per table with terrain, players and factions
+    const placards = page.locator('.print-placard');
+    await expect(placards).toHaveCount(allocations.length);
+    for (const allocation of allocations) {
+      const placard = page.locator(`.print-placard[data-table-number="${allocation.tableNumber}"]`);
+      await expect(placard.locator('.print-placard-table')).toHaveText(`Table ${allocation.tableNumber}`);
+      await expect(placard.locator('.print-placard-terrain')).toContainText(allocation.terrainType!);
+      for (const player of [allocation.player1, allocation.player2!]) {
+        await expect(placard).toContainText(player.name!);
+        await expect(placard).toContainText(factionOf(player.name));
+      }
+    }
+
+    // The toolbar is left off the printout, which saves as PDF
+    await page.emulateMedia({ media: 'print' });
+    await expect(page.locator('.print-toolbar')).toBeHidden();
+    const pdf = await page.pdf({ format: 'A4' });
+    expect(pdf.subarray(0, 4).toString()).toBe('%PDF');
+  });
+
+  test('should print one sheet at a time and only published rounds', async ({ page, request, baseURL }) => {
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Print Sheet Choice Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: false, allocations: editingRound2 },
+      ],
+    });
+    await setAdminTokenCookie(page.context(), seeded.adminToken, baseURL!, seeded.id, 'Print Sheet Choice Test');
+
+    await page.goto(`/admin/tournament/${seeded.id}/round/1`);
+    await expect(page.locator('#print-sheets-link')).toHaveAttribute('href', `/admin/tournament/${seeded.id}/round/1/print`);
+    await page.goto(`/admin/tournament/${seeded.id}/round/2`);
+    await expect(page.locator('#print-sheets-link')).toHaveCount(0);
+
+    await page.goto(`/admin/tournament/${seeded.id}/round/1/print?sheet=placards`);
+    await expect(page.locator('.print-placard')).toHaveCount(8);
+    await expect(page.locator('#sheet-players')).toHaveCount(0);
+    await expect(page.locator('#sheet-tables')).toHaveCount(0);
+    await expect(page.locator('.print-toolbar a[aria-current="page"]')).toHaveText('Table placards');
+
+    const unpublished = await request.get(`/admin/tournament/${seeded.id}/round/2/print`, {
+      headers: { 'X-Admin-Token': seeded.adminToken },
+    });
+    expect(unpublished.status()).toBe(404);
+    expect(await unpublished.text()).toContain('Round 2 is not published yet');
+  });
+});
@@ -1,17 +1,17 @@
 import { test, expect } from '@playwright/test';
-import { seedTestData, cleanupTestData } from '../helpers/database';
-
-const TEST_TOURNAMENT_IDS = [1001, 1002, 1003, 1004];
+import { SeededTournament, useFixtureBuilder } from '../helpers/fixture-builder';
+import { publicPagesTournaments } from '../fixtures/public-pages';
 
 test.describe('Public Pages', () => {
-  test.beforeAll(async () => {
-    await seedTestData('public-pages');
-  });
+  const fixtures = useFixtureBuilder();
+  let live: SeededTournament;
+  let finished: SeededTournament;
 
-  test.afterAll(async () => {
-    for (const tournamentId of TEST_TOURNAMENT_IDS) {
-      await cleanupTestData(tournamentId);
-    }
+  test.beforeAll(async () => {
+    live = await fixtures.tournament(publicPagesTournaments.live);
+    await fixtures.tournament(publicPagesTournaments.upcoming);
+    finished = await fixtures.tournament(publicPagesTournaments.finished);
+    await fixtures.tournament(publicPagesTournaments.fallback);
   });
 
   test('Public list page renders all tournament cards with tactical metadata', async ({ page }) => {
@@ -62,7 +62,7 @@ test.describe('Public Pages', () => {
 
     await tournamentLink.click();
     await page.waitForLoadState('networkidle');
-    await expect(page).toHaveURL(/\/1001$/);
+    await expect(page).toHaveURL(new RegExp(`/${live.id}$`));
 
     await expect(page.locator('.tc-tournament-name')).toContainText('Public Page Test');
     await expect(page.locator('#hero-round-title')).toContainText('Round 1');
@@ -76,7 +76,7 @@ test.describe('Public Pages', () => {
 
     await page.locator('#sidebar-leaderboard-link').click();
     await page.waitForLoadState('networkidle');
-    await expect(page).toHaveURL(/\/1001\?view=leaderboard$/);
+    await expect(page).toHaveURL(new RegExp(`/${live.id}\\?view=leaderboard$`));
     await expect(page.locator('body')).toHaveClass(/leaderboard-active/);
     await expect(page.getByTestId('leaderboard-section')).toBeVisible();
     await expect(page.getByTestId('leaderboard-row').first().locator('.tc-lb-rank')).toHaveText('1');
@@ -88,14 +88,14 @@ test.describe('Public Pages', () => {
       'Alice Test'
     );
 
-    await page.goto('/1001?round=1&view=leaderboard');
+    await page.goto(`/${live.id}?round=1&view=leaderboard`);
     await page.waitForLoadState('networkidle');
     await expect(page.locator('body')).toHaveClass(/leaderboard-active/);
     await expect(page.getByTestId('leaderboard-section')).toBeVisible();
 
     await page.getByTestId('sidebar-round-link-1').click();
     await page.waitForLoadState('networkidle');
-    await expect(page).toHaveURL(/\/1001\?round=1$/);
+    await expect(page).toHaveURL(new RegExp(`/${live.id}\\?round=1$`));
     await expect(page.locator('body')).not.toHaveClass(/leaderboard-active/);
 
     await page.getByTestId('back-to-list').click();
@@ -104,7 +104,7 @@ test.describe('Public Pages', () => {
   });
 
   test('Finished tournament defaults to leaderboard view', async ({ page }) => {
-    await page.goto('/1003');
+    await page.goto(`/${finished.id}`);
     await page.waitForLoadState('networkidle');
 
     await expect(page.locator('body')).toHaveClass(/leaderboard-active/);
@@ -115,7 +115,7 @@ test.describe('Public Pages', () => {
   });
 
   test('Old public round route returns 404', async ({ page }) => {
-    await page.goto('/1001/round/1');
+    await page.goto(`/${live.id}/round/1`);
     await page.waitForLoadState('networkidle');
 
     await expect(page.locator('h1')).toHaveText('404 Not Found');
@@ -0,0 +1,97 @@
+import { test, expect } from '@playwright/test';
+import { ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { setAdminTokenCookie } from '../helpers/auth';
+import { allocationOf, useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament } from '../fixtures/allocation-editing';
+
+/**
+ * Round terrain tests.
+ *
+ * /api/tournaments/{id}/rounds/{n}/terrain overrides the tables' own terrain
+ * for one round. Generation and terrain reuse detection use the terrain each
+ * table had in each round.
+ *
+ * fixtures/allocation-editing.ts has tables 1-4 Volkus and 5-8 Tomb World;
+ * round 1 puts Alice Smith and Bob Jones on table 1.
+ */
+
+test.describe('Round Terrain', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should use the terrain a table had in each round for terrain reuse', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Round Terrain History Test' });
+    const { terrainTypes } = await api.getTerrainTypes();
+    const tombWorld = terrainTypes.find((t) => t.name === 'Tomb World')!;
+
+    // Table 1 was Tomb World in round 1 only
+    const layout = await api.updateRoundTerrain(seeded.id, 1, seeded.adminToken, [
+      { tableNumber: 1, terrainTypeId: tombWorld.id },
+    ]);
+    expect(layout.tables[0]).toMatchObject({ tableNumber: 1, isOverride: true, terrainType: { name: 'Tomb World' } });
+    expect(layout.tables[1]).toMatchObject({ tableNumber: 2, isOverride: false, terrainType: { name: 'Volkus' } });
+
+    const round1 = await api.getRound(seeded.id, 1, seeded.adminToken);
+    expect(allocationOf(round1.allocations, 'Alice Smith')?.terrainType).toBe('Tomb World');
+    const tournament = await api.getTournament(seeded.id, seeded.adminToken);
+    expect(tournament.tables[0].terrainType?.name).toBe('Volkus');
+
+    // Alice played on Tomb World, so round 2 puts her on Volkus
+    const result = await api.generateAllocations(seeded.id, 2, seeded.adminToken);
+    const alice = allocationOf(result.allocations, 'Alice Smith');
+    expect(alice?.terrainType).toBe('Volkus');
+    expect(alice?.conflicts).toEqual([]);
+  });
+
+  test('should copy the previous round and reset to the tables\' own terrain', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Round Terrain Copy Test' });
+
+    await api.updateRoundTerrain(seeded.id, 1, seeded.adminToken, [{ tableNumber: 2, terrainTypeId: null }]);
+
+    const copied = await api.copyPreviousRoundTerrain(seeded.id, 2, seeded.adminToken);
+    expect(copied.tables.every((t) => t.isOverride)).toBe(true);
+    expect(copied.tables.map((t) => t.terrainType?.name ?? null)).toEqual([
+      'Volkus', null, 'Volkus', 'Volkus', 'Tomb World', 'Tomb World', 'Tomb World', 'Tomb World',
+    ]);
+
+    const cleared = await api.clearRoundTerrain(seeded.id, 2, seeded.adminToken);
+    expect(cleared.tables.some((t) => t.isOverride)).toBe(false);
+    expect(cleared.tables[1].terrainType?.name).toBe('Volkus');
+    // Round 1 keeps its own layout
+    expect((await api.getRoundTerrain(seeded.id, 1, seeded.adminToken)).tables[1].terrainType).toBeNull();
+
+    const noPrevious = await expectApiError(api.copyPreviousRoundTerrain(seeded.id, 1, seeded.adminToken));
+    expect(noPrevious).toBeInstanceOf(ValidationError);
+    expect(noPrevious.fields.roundNumber).toEqual(['Round 1 has no previous round to copy from']);
+
+    const unknownTable = await expectApiError(
+      api.updateRoundTerrain(seeded.id, 2, seeded.adminToken, [{ tableNumber: 99, terrainTypeId: null }])
+    );
+    expect(unknownTable).toBeInstanceOf(ValidationError);
+    expect(unknownTable.fields['tables.99']).toEqual(['Table 99 does not exist']);
+  });
+
+  test('should edit the round terrain from the round page', async ({ page, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Round Terrain Page Test' });
+    const { terrainTypes } = await api.getTerrainTypes();
+    const tombWorld = terrainTypes.find((t) => t.name === 'Tomb World')!;
+
+    await setAdminTokenCookie(page.context(), seeded.adminToken, baseURL!, seeded.id, 'Round Terrain Page Test');
+    await page.goto(`/admin/tournament/${seeded.id}/round/2`);
+
+    await page.locator('#round-terrain-1').selectOption(String(tombWorld.id));
+    await Promise.all([
+      page.waitForResponse((resp) => resp.url().endsWith('/rounds/2/terrain') && resp.request().method() === 'PUT'),
+      page.getByRole('button', { name: 'Save Terrain' }).click(),
+    ]);
+
+    // The page reloads with the override marked and shown on the allocation
+    await expect(page.locator('#round-terrain tbody tr').first()).toContainText('(this round)');
+    await expect(page.locator('#round-terrain-1')).toHaveValue(String(tombWorld.id));
+
+    const layout = await api.getRoundTerrain(seeded.id, 2, seeded.adminToken);
+    expect(layout.tables[0]).toMatchObject({ isOverride: true, terrainType: { name: 'Tomb World' } });
+  });
+});
@@ -0,0 +1,128 @@
+import { test, expect } from '@playwright/test';
+import { createApiClient } from '../helpers/api';
+import { createMockBcp, simulateSwiss, toMockEvent, SwissTournament } from '../helpers/bcp-mock';
+import { createCleanupContext, cleanupTournaments, registerTournament } from '../helpers/cleanup';
+
+/**
+ * Swiss simulator tests.
+ *
+ * Checks that simulated tournaments are valid Swiss events, then runs a
+ * large simulated event through import and allocation generation.
+ */
+
+function pairingKey(a: string, b: string): string {
+  return [a, b].sort().join('|');
+}
+
+/**
+ * Every active player is paired exactly once per round, with no rematches and
+ * at most one bye, and byes have no table.
+ */
+function expectValidSwiss(sim: SwissTournament): void {
+  const played = new Set<string>();
+  const hadBye = new Set<string>();
+
+  for (const round of sim.rounds) {
+    const active = sim.players
+      .filter((player) => player.droppedBeforeRound === null || player.droppedBeforeRound > round.roundNumber)
+      .map((player) => player.bcpPlayerId);
+
+    const seated = round.pairings.flatMap((pairing) =>
+      pairing.player2 ? [pairing.player1.bcpPlayerId, pairing.player2.bcpPlayerId] : [pairing.player1.bcpPlayerId]
+    );
+    expect(seated.sort()).toEqual([...active].sort());
+
+    const byes = round.pairings.filter((pairing) => pairing.player2 === null);
+    expect(byes.length).toBe(active.length % 2);
+    for (const bye of byes) {
+      expect(bye.tableNumber).toBeNull();
+      expect(hadBye.has(bye.player1.bcpPlayerId)).toBe(false);
+      hadBye.add(bye.player1.bcpPlayerId);
+    }
+
+    const tables = round.pairings.filter((pairing) => pairing.player2 !== null).map((pairing) => pairing.tableNumber);
+    expect(tables).toEqual(tables.map((_, index) => index + 1));
+
+    for (const pairing of round.pairings) {
+      if (pairing.player2) {
+        const key = pairingKey(pairing.player1.bcpPlayerId, pairing.player2.bcpPlayerId);
+        expect(played.has(key)).toBe(false);
+        played.add(key);
+      }
+    }
+  }
+}
+
+test.describe('Swiss Simulator', () => {
+  const cleanupContext = createCleanupContext();
+  const registeredEvents: string[] = [];
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+
+    const mockBcp = createMockBcp(request);
+    for (const eventId of registeredEvents.splice(0)) {
+      await mockBcp.deleteEvent(eventId);
+    }
+  });
+
+  test('should simulate valid, deterministic Swiss rounds', () => {
+    const cases: Array<{ players: number; drops: Record<number, number>; dropped: number }> = [
+      { players: 8, drops: {}, dropped: 0 },
+      { players: 41, drops: { 3: 3, 5: 2 }, dropped: 5 },
+      { players: 150, drops: { 2: 4, 4: 7 }, dropped: 11 },
+    ];
+
+    for (const { players, drops, dropped } of cases) {
+      const options = { seed: players, players, rounds: 5, drops };
+      const sim = simulateSwiss(options);
+
+      expect(simulateSwiss(options)).toEqual(sim);
+      expect(sim.rounds).toHaveLength(5);
+      expect(sim.players.filter((player) => player.droppedBeforeRound !== null)).toHaveLength(dropped);
+      expectValidSwiss(sim);
+
+      // Later rounds pair within score brackets: table 1 has the leaders
+      const lastRound = sim.rounds[4];
+      const topScore = Math.max(...lastRound.pairings.map((pairing) => pairing.player1.score));
+      expect(lastRound.pairings[0].player1.score).toBe(topScore);
+
+      expect(sim.standings).toHaveLength(players);
+      expect(sim.standings.map((standing) => standing.placing)).toEqual(
+        sim.standings.map((_, index) => index + 1)
+      );
+    }
+
+    expect(simulateSwiss({ seed: 1, players: 20, rounds: 3 })).not.toEqual(
+      simulateSwiss({ seed: 2, players: 20, rounds: 3 })
+    );
+  });
+
+  test('should import and allocate a simulated 64-player event', async ({ request, baseURL }) => {
+    test.slow();
+    const api = createApiClient(request, baseURL!);
+    const mockBcp = createMockBcp(request);
+    const sim = simulateSwiss({ seed: 64, players: 64, rounds: 4, drops: { 2: 1 } });
+
+    const { eventId, bcpUrl } = await mockBcp.registerEvent(toMockEvent(sim, { publishedRounds: 1 }));
+    registeredEvents.push(eventId);
+
+    const { tournament, adminToken, autoImport } = await api.createTournament({ bcpUrl });
+    registerTournament(cleanupContext, tournament.id, adminToken);
+    expect(autoImport?.pairingsImported).toBe(32);
+    expect(autoImport?.tableCount).toBe(32);
+
+    for (const round of sim.rounds.slice(1)) {
+      await mockBcp.postRound(eventId, round);
+      await api.importPairings(tournament.id, round.roundNumber, adminToken, { generateAllocations: false });
+      const generated = await api.generateAllocations(tournament.id, round.roundNumber, adminToken);
+
+      expect(generated.allocations).toHaveLength(round.pairings.length);
+      expect(generated.conflicts.filter((conflict) => conflict.type === 'TABLE_COLLISION')).toEqual([]);
+
+      const byes = generated.allocations.filter((allocation) => allocation.isBye);
+      expect(byes).toHaveLength(round.pairings.filter((pairing) => pairing.player2 === null).length);
+      expect(byes.every((allocation) => allocation.tableNumber === null)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import { NotFoundError, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { allocationOf, useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament } from '../fixtures/allocation-editing';
+
+/**
+ * Table constraint tests.
+ *
+ * /api/tournaments/{id}/constraints stores pins and per-player table
+ * constraints (required, allowed or forbidden tables). Generation treats them
+ * as hard constraints and reports a TABLE_CONSTRAINT conflict only when one
+ * cannot be met.
+ *
+ * Round 2 of fixtures/allocation-editing.ts pairs Alice Smith with Bob Jones
+ * and Charlie Brown with Diana Prince; tables 1-4 are Volkus, 5-8 Tomb World.
+ */
+
+test.describe('Table Constraints', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should generate allocations that respect pins and forbidden tables', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Constraints Generate Test' });
+
+    const { constraint: pin } = await api.createTableConstraint(
+      seeded.id,
+      { playerId: seeded.players.p3, type: 'required', tableIds: [seeded.tables[8]], roundNumber: 2, note: 'Streaming table' },
+      seeded.adminToken
+    );
+    expect(pin).toMatchObject({ playerName: 'Charlie Brown', roundNumber: 2, tableNumbers: [8] });
+
+    // Alice has played on Volkus, but Tomb World tables are off limits
+    await api.createTableConstraint(
+      seeded.id,
+      {
+        playerId: seeded.players.p1,
+        type: 'forbidden',
+        tableIds: [5, 6, 7, 8].map((n) => seeded.tables[n]),
+      },
+      seeded.adminToken
+    );
+
+    const { constraints } = await api.listTableConstraints(seeded.id, seeded.adminToken);
+    expect(constraints.map((c) => [c.playerName, c.type, c.roundNumber])).toEqual([
+      ['Alice Smith', 'forbidden', null],
+      ['Charlie Brown', 'required', 2],
+    ]);
+
+    const result = await api.generateAllocations(seeded.id, 2, seeded.adminToken);
+
+    expect(allocationOf(result.allocations, 'Charlie Brown')?.tableNumber).toBe(8);
+    const alice = allocationOf(result.allocations, 'Alice Smith');
+    expect(alice?.terrainType).toBe('Volkus');
+    // Table 1 was Alice's round 1 table
+    expect(alice?.tableNumber).toBeGreaterThanOrEqual(2);
+    expect(result.conflicts.filter((c) => c.type === 'TABLE_CONSTRAINT')).toHaveLength(0);
+
+    await api.deleteTableConstraint(seeded.id, pin.id, seeded.adminToken);
+    expect((await api.listTableConstraints(seeded.id, seeded.adminToken)).constraints).toHaveLength(1);
+  });
+
+  test('should report a conflict when two players are pinned to one table', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Constraints Conflict Test' });
+
+    for (const player of ['p1', 'p3']) {
+      await api.createTableConstraint(
+        seeded.id,
+        { playerId: seeded.players[player], type: 'required', tableIds: [seeded.tables[8]], roundNumber: 2 },
+        seeded.adminToken
+      );
+    }
+
+    const result = await api.generateAllocations(seeded.id, 2, seeded.adminToken);
+
+    // The higher-scoring pairing is placed first and gets the table
+    expect(allocationOf(result.allocations, 'Alice Smith')?.tableNumber).toBe(8);
+    const charlie = allocationOf(result.allocations, 'Charlie Brown');
+    expect(charlie?.conflicts).toContainEqual({
+      type: 'TABLE_CONSTRAINT',
+      message: `Charlie Brown must play on table 8, but is on table ${charlie?.tableNumber}`,
+    });
+
+    const round = await api.getRound(seeded.id, 2, seeded.adminToken);
+    expect(round.conflicts.filter((c) => c.type === 'TABLE_CONSTRAINT')).toHaveLength(1);
+  });
+
+  test('should reject invalid constraints', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ ...allocationEditingTournament, name: 'Constraints Validation Test' });
+
+    const rejected = await expectApiError(
+      api.createTableConstraint(
+        seeded.id,
+        { playerId: seeded.players.p1, type: 'required', tableIds: [seeded.tables[1], seeded.tables[2]] },
+        seeded.adminToken
+      )
+    );
+    expect(rejected).toBeInstanceOf(ValidationError);
+    expect(rejected.fields.tableIds).toEqual(['A required table constraint takes exactly one table']);
+
+    const missing = await expectApiError(api.deleteTableConstraint(seeded.id, 999999, seeded.adminToken));
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect(missing.code).toBe('CONSTRAINT_NOT_FOUND');
+    expect((await api.listTableConstraints(seeded.id, seeded.adminToken)).constraints).toEqual([]);
+  });
+});
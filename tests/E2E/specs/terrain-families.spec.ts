@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { Allocation, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { TournamentSpec, useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament } from '../fixtures/allocation-editing';
+
+/**
+ * Terrain family tests.
+ *
+ * Terrain types in the same family are variants of one terrain. Getting
+ * another variant of terrain a player already played costs the tournament's
+ * terrainFamilyWeight percent of an exact terrain repeat, and is reported as
+ * a TERRAIN_FAMILY_REUSE conflict.
+ *
+ * Every table here is in the Volkus family: tables 1-4 Volkus, 5-8 Volkus+Tyranid.
+ */
+
+function volkusFamilyTournament(name: string): TournamentSpec {
+  return {
+    ...allocationEditingTournament,
+    name,
+    tables: [
+      ...Array.from({ length: 4 }, () => ({ terrain: 'Volkus' })),
+      ...Array.from({ length: 4 }, () => ({ terrain: 'Volkus+Tyranid' })),
+    ],
+  };
+}
+
+function conflictTypes(allocations: Allocation[]): string[] {
+  return allocations.flatMap((a) => a.conflicts.map((c) => c.type));
+}
+
+test.describe('Terrain Families', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should prefer another variant over the same terrain and report the family repeat', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament(volkusFamilyTournament('Terrain Family Repeat Test'));
+
+    const tournament = await api.getTournament(seeded.id, seeded.adminToken);
+    expect(tournament.terrainFamilyWeight).toBe(50);
+    expect(tournament.tables[4].terrainType).toMatchObject({ name: 'Volkus+Tyranid', family: 'Volkus' });
+
+    // Everyone played Volkus or Volkus+Tyranid in round 1, so round 2 gives them the other variant
+    const result = await api.generateAllocations(seeded.id, 2, seeded.adminToken);
+    const types = conflictTypes(result.allocations);
+    expect(types).not.toContain('TERRAIN_REUSE');
+    expect(types.filter((type) => type === 'TERRAIN_FAMILY_REUSE')).toHaveLength(16);
+
+    const alice = result.allocations.find((a) => a.player1.name === 'Alice Smith' || a.player2?.name === 'Alice Smith');
+    expect(alice?.terrainType).toBe('Volkus+Tyranid');
+    expect(alice?.conflicts.map((c) => c.message)).toContain(
+      'Alice Smith previously experienced Volkus, in the same terrain family as Volkus+Tyranid'
+    );
+  });
+
+  test('should ignore terrain families when the weight is zero', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament(volkusFamilyTournament('Terrain Family Weight Test'));
+
+    const { tournament } = await api.updateTournament(seeded.id, seeded.adminToken, { terrainFamilyWeight: 0 });
+    expect(tournament.terrainFamilyWeight).toBe(0);
+
+    const result = await api.generateAllocations(seeded.id, 2, seeded.adminToken);
+    const types = conflictTypes(result.allocations);
+    expect(types).not.toContain('TERRAIN_FAMILY_REUSE');
+    expect(types).not.toContain('TERRAIN_REUSE');
+
+    const invalid = await expectApiError(
+      api.updateTournament(seeded.id, seeded.adminToken, { terrainFamilyWeight: 150 })
+    );
+    expect(invalid).toBeInstanceOf(ValidationError);
+    expect(invalid.fields.terrainFamilyWeight).toEqual(['Terrain family weight must be an integer from 0 to 100']);
+  });
+
+  test('should put a tournament terrain type in a family', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({ name: 'Terrain Family Catalog Test', tables: [{}, {}] });
+
+    const { terrainType } = await api.createTerrainType(
+      seeded.id,
+      { name: 'Volkus Night', family: 'Volkus' },
+      seeded.adminToken
+    );
+    expect(terrainType.family).toBe('Volkus');
+
+    const { terrainType: standalone } = await api.updateTerrainType(
+      seeded.id,
+      terrainType.id,
+      { family: null },
+      seeded.adminToken
+    );
+    expect(standalone.family).toBeNull();
+
+    const tooLong = await expectApiError(
+      api.createTerrainType(seeded.id, { name: 'Long Family', family: 'x'.repeat(101) }, seeded.adminToken)
+    );
+    expect(tooLong).toBeInstanceOf(ValidationError);
+    expect(tooLong.fields.family).toEqual(['Family must be text of at most 100 characters']);
+  });
+});
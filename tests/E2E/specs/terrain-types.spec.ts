@@ -0,0 +1,134 @@
+import { test, expect } from '@playwright/test';
+import { ConflictError, NotFoundError, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { setAdminTokenCookie } from '../helpers/auth';
+import { TournamentSpec, useFixtureBuilder } from '../helpers/fixture-builder';
+
+/**
+ * Terrain type catalog tests.
+ *
+ * /api/tournaments/{id}/terrain-types lists the built-in types plus the
+ * tournament's own, which it can add, rename, reorder and archive. Archived
+ * types stay on the tables that have them but can't be assigned to others.
+ */
+
+function catalogTournament(name: string): TournamentSpec {
+  return { name, tables: [{ terrain: 'Volkus' }, {}, {}] };
+}
+
+test.describe('Terrain Types', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should add, rename and reorder a terrain type in the tournament catalog', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament(catalogTournament('Terrain Catalog Test'));
+    const { terrainTypes: builtIn } = await api.getTerrainTypes();
+
+    const { terrainType: created } = await api.createTerrainType(
+      seeded.id,
+      { name: 'Gallowdark Kit', emoji: '🧱', description: 'Our own Gallowdark boards' },
+      seeded.adminToken
+    );
+    expect(created).toMatchObject({ name: 'Gallowdark Kit', tournamentId: seeded.id, isArchived: false });
+    // Placed after every built-in type
+    expect(created.sortOrder).toBeGreaterThan(Math.max(...builtIn.map((t) => t.sortOrder)));
+
+    // Only this tournament's catalog has it
+    const { terrainTypes: catalog } = await api.getTournamentTerrainTypes(seeded.id, seeded.adminToken);
+    expect(catalog.map((t) => t.name)).toEqual([...builtIn.map((t) => t.name), 'Gallowdark Kit']);
+    expect((await api.getTerrainTypes()).terrainTypes.map((t) => t.id)).not.toContain(created.id);
+
+    const { terrainType: renamed } = await api.updateTerrainType(
+      seeded.id,
+      created.id,
+      { name: 'Gallowdark Mk II', sortOrder: 0 },
+      seeded.adminToken
+    );
+    expect(renamed).toMatchObject({ name: 'Gallowdark Mk II', sortOrder: 0, emoji: '🧱' });
+    const reordered = await api.getTournamentTerrainTypes(seeded.id, seeded.adminToken);
+    expect(reordered.terrainTypes[0].id).toBe(created.id);
+
+    // Names are unique within the catalog, ignoring case
+    const duplicate = await expectApiError(
+      api.createTerrainType(seeded.id, { name: 'volkus' }, seeded.adminToken)
+    );
+    expect(duplicate).toBeInstanceOf(ValidationError);
+    expect(duplicate.fields.name).toEqual(['A terrain type named "Volkus" already exists']);
+  });
+
+  test('should keep archived terrain on its tables but not offer it to others', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament(catalogTournament('Terrain Archive Test'));
+    const { terrainType } = await api.createTerrainType(seeded.id, { name: 'Killzone Bheta' }, seeded.adminToken);
+
+    await api.updateTables(seeded.id, seeded.adminToken, [{ tableNumber: 2, terrainTypeId: terrainType.id }]);
+    const { terrainType: archived } = await api.archiveTerrainType(seeded.id, terrainType.id, seeded.adminToken);
+    expect(archived.isArchived).toBe(true);
+
+    const tournament = await api.getTournament(seeded.id, seeded.adminToken);
+    expect(tournament.tables[1].terrainType).toMatchObject({ id: terrainType.id, isArchived: true });
+
+    // Re-saving the unchanged assignment is fine; a new one is not
+    await api.updateTables(seeded.id, seeded.adminToken, [{ tableNumber: 2, terrainTypeId: terrainType.id }]);
+    const rejected = await expectApiError(
+      api.updateTables(seeded.id, seeded.adminToken, [{ tableNumber: 3, terrainTypeId: terrainType.id }])
+    );
+    expect(rejected).toBeInstanceOf(ValidationError);
+    expect(rejected.fields['tables.3']).toEqual(['Terrain type "Killzone Bheta" is archived']);
+
+    await api.restoreTerrainType(seeded.id, terrainType.id, seeded.adminToken);
+    const { tables } = await api.updateTables(seeded.id, seeded.adminToken, [
+      { tableNumber: 3, terrainTypeId: terrainType.id },
+    ]);
+    expect(tables[2].terrainType?.id).toBe(terrainType.id);
+  });
+
+  test('should not let a tournament change built-in or other tournaments\' types', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament(catalogTournament('Terrain Scope Test'));
+    const other = await fixtures.tournament(catalogTournament('Terrain Scope Other'));
+    const { terrainType: foreign } = await api.createTerrainType(other.id, { name: 'Their Kit' }, other.adminToken);
+    const { terrainTypes: builtIn } = await api.getTerrainTypes();
+
+    const readOnly = await expectApiError(
+      api.updateTerrainType(seeded.id, builtIn[0].id, { name: 'Renamed' }, seeded.adminToken)
+    );
+    expect(readOnly).toBeInstanceOf(ConflictError);
+    expect(readOnly.code).toBe('TERRAIN_TYPE_READ_ONLY');
+
+    const missing = await expectApiError(api.archiveTerrainType(seeded.id, foreign.id, seeded.adminToken));
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect(missing.code).toBe('TERRAIN_TYPE_NOT_FOUND');
+
+    const unavailable = await expectApiError(
+      api.updateTables(seeded.id, seeded.adminToken, [{ tableNumber: 1, terrainTypeId: foreign.id }])
+    );
+    expect(unavailable).toBeInstanceOf(ValidationError);
+    expect(unavailable.fields['tables.1']).toEqual(['Terrain type is not available to this tournament']);
+  });
+
+  test('should manage terrain types from the Tables tab', async ({ page, baseURL }) => {
+    const seeded = await fixtures.tournament(catalogTournament('Terrain Page Test'));
+
+    await setAdminTokenCookie(page.context(), seeded.adminToken, baseURL!, seeded.id, 'Terrain Page Test');
+    await page.goto(`/admin/tournament/${seeded.id}#tables`);
+
+    await page.locator('#terrain-type-name').fill('Garage Scatter');
+    await Promise.all([
+      page.waitForResponse((resp) => resp.url().includes('/terrain-types') && resp.request().method() === 'POST'),
+      page.getByRole('button', { name: 'Add Terrain Type' }).click(),
+    ]);
+
+    // The page reloads with the new type in every table's terrain select
+    await expect(page.locator('#table-3 option', { hasText: 'Garage Scatter' })).toHaveCount(1);
+
+    const row = page.locator('#terrain-types-table tbody tr');
+    await expect(row).toHaveCount(1);
+    await Promise.all([
+      page.waitForResponse((resp) => resp.url().endsWith('/archive')),
+      row.getByRole('button', { name: 'Archive' }).click(),
+    ]);
+
+    await expect(page.locator('#table-3 option', { hasText: 'Garage Scatter' })).toHaveCount(0);
+    await expect(page.locator('#terrain-types-table tbody tr').getByRole('button', { name: 'Restore' })).toBeVisible();
+  });
+});
@@ -0,0 +1,211 @@
+import { test, expect } from '@playwright/test';
+import { ConflictError, TournamentBackup, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { cleanupTournaments, createCleanupContext, registerTournament } from '../helpers/cleanup';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament, editingRound1, editingRound2 } from '../fixtures/allocation-editing';
+
+/**
+ * Tournament backup and restore tests.
+ *
+ * GET /api/tournaments/{id}/backup returns the complete tournament state as
+ * one versioned document; POST /api/tournaments/restore recreates it as a
+ * new tournament with new IDs and a new admin token, as it would on another
+ * instance. The source tournament is deleted before restoring, since a BCP
+ * event can only be set up once per instance.
+ */
+
+/**
+ * Replaces instance-specific IDs with what identifies each entity across
+ * instances: table numbers, BCP player IDs, terrain names and allocation
+ * positions. Two backups of the same state then compare equal.
+ */
+function normalize(backup: TournamentBackup): unknown {
+  const table = new Map(backup.tables.map((t) => [t.id, `table ${t.tableNumber}`]));
+  const player = new Map(backup.players.map((p) => [p.id, p.bcpPlayerId]));
+  const terrain = new Map(backup.terrainTypes.map((t) => [t.id, t.name]));
+  const allocation = new Map(
+    backup.rounds.flatMap((r) => r.allocations.map((a, index) => [a.id, `round ${r.roundNumber} #${index}`] as const))
+  );
+  const key = <T>(map: Map<number, T>, id: number | null) => (id === null ? null : map.get(id));
+
+  return {
+    ...backup,
+    exportedAt: undefined,
+    terrainTypes: backup.terrainTypes.map((t) => ({ ...t, id: undefined })),
+    tables: backup.tables.map((t) => ({ ...t, id: undefined, terrainTypeId: key(terrain, t.terrainTypeId) })),
+    roundTerrain: backup.roundTerrain.map((rt) => ({
+      ...rt,
+      tableId: key(table, rt.tableId),
+      terrainTypeId: key(terrain, rt.terrainTypeId),
+    })),
+    players: backup.players.map((p) => ({ ...p, id: undefined })),
+    tableConstraints: backup.tableConstraints.map((c) => ({
+      ...c,
+      playerId: key(player, c.playerId),
+      tableIds: c.tableIds.map((id) => key(table, id)),
+    })),
+    rounds: backup.rounds.map((r) => ({
+      ...r,
+      allocations: r.allocations.map((a) => ({
+        ...a,
+        id: key(allocation, a.id),
+        tableId: key(table, a.tableId),
+        player1Id: key(player, a.player1Id),
+        player2Id: key(player, a.player2Id),
+        reason: JSON.parse(JSON.stringify(a.reason), (name, value) => {
+          if (name === 'playerId') return key(player, value);
+          if (name === 'otherAllocationId') return key(allocation, value);
+          return value;
+        }),
+      })),
+      edits: r.edits.map((e) => ({
+        ...e,
+        changes: e.changes.map((c) => ({
+          allocationId: key(allocation, c.allocationId),
+          fromTableId: key(table, c.fromTableId),
+          toTableId: key(table, c.toTableId),
+        })),
+      })),
+    })),
+  };
+}
+
+test.describe('Tournament Backup', () => {
+  const fixtures = useFixtureBuilder();
+  const cleanupContext = createCleanupContext();
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+  });
+
+  test('should restore a backup as an identical tournament with new IDs and token', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Backup Round Trip Test',
+      locationName: 'Warehouse 40',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: false, allocations: editingRound2 },
+      ],
+    });
+    const token = seeded.adminToken;
+
+    // Everything a tournament accumulates: own terrain, round terrain, constraints and edit history
+    const { terrainType } = await api.createTerrainType(seeded.id, { name: 'Backup Bunker', emoji: '🏚️' }, token);
+    await api.updateRoundTerrain(seeded.id, 2, token, [{ tableNumber: 8, terrainTypeId: terrainType.id }]);
+    await api.createTableConstraint(
+      seeded.id,
+      { playerId: seeded.players.p1, type: 'required', tableIds: [seeded.tables[1]], roundNumber: 2, note: 'Wheelchair' },
+      token
+    );
+    const [onTable1, onTable2] = seeded.allocations[2];
+    await api.swapAllocations(onTable1, onTable2, token, { editedBy: 'Alice' });
+    const [, , onTable3] = seeded.allocations[2];
+    await api.updateAllocation(onTable3, seeded.tables[8], token);
+    await api.undoEdit(seeded.id, 2, token);
+
+    const backup = await api.backupTournament(seeded.id, token);
+    expect(backup).toMatchObject({ format: 'tournament-tables-backup', version: 1 });
+    expect(backup.terrainTypes.find((t) => t.name === 'Backup Bunker')).toMatchObject({ builtIn: false });
+    expect(backup.rounds.map((r) => [r.roundNumber, r.isPublished, r.edits.length])).toEqual([
+      [1, true, 0],
+      [2, false, 2],
+    ]);
+
+    const source = await api.getTournament(seeded.id, token);
+    const sourceRound = await api.getRound(seeded.id, 2, token);
+    const sourceHistory = await api.getRoundHistory(seeded.id, 2, token);
+    const sourceConstraints = await api.listTableConstraints(seeded.id, token);
+
+    // Move it: the source instance no longer has the tournament
+    await api.deleteTournament(seeded.id, token);
+    const result = await api.restoreTournament(backup);
+    registerTournament(cleanupContext, result.tournament.id, result.adminToken);
+
+    expect(result.tournament.id).not.toBe(seeded.id);
+    expect(result.adminToken).not.toBe(token);
+    const { id: _sourceId, ...metadata } = source;
+    const { id: _restoredId, ...restoredMetadata } = await api.getTournament(result.tournament.id, result.adminToken);
+    expect({ ...restoredMetadata, tables: undefined, rounds: undefined }).toEqual({
+      ...metadata,
+      tables: undefined,
+      rounds: undefined,
+    });
+    await expectApiError(api.getTournament(result.tournament.id, token));
+
+    // A backup of the restored tournament matches the original, IDs aside
+    const again = await api.backupTournament(result.tournament.id, result.adminToken);
+    expect(normalize(again)).toEqual(normalize(backup));
+
+    // And the API reports the same rounds, history and constraints
+    const round = await api.getRound(result.tournament.id, 2, result.adminToken);
+    const strip = (r: typeof round) =>
+      r.allocations.map(({ id: _id, player1, player2, conflicts, ...rest }) => ({
+        ...rest,
+        player1: { ...player1, id: undefined },
+        player2: player2 && { ...player2, id: undefined },
+        conflicts: conflicts.map(({ type, message }) => ({ type, message })),
+      }));
+    expect(round.isPublished).toBe(false);
+    expect(strip(round)).toEqual(strip(sourceRound));
+    expect(round.allocations.find((a) => a.tableNumber === 8)?.terrainType).toBe('Backup Bunker');
+
+    const history = await api.getRoundHistory(result.tournament.id, 2, result.adminToken);
+    expect(history.entries.map((e) => [e.action, e.description, e.editedBy, e.undone])).toEqual(
+      sourceHistory.entries.map((e) => [e.action, e.description, e.editedBy, e.undone])
+    );
+    expect(history.canRedo).toBe(true);
+
+    const { constraints } = await api.listTableConstraints(result.tournament.id, result.adminToken);
+    expect(constraints.map((c) => [c.playerName, c.type, c.roundNumber, c.note, c.tableNumbers])).toEqual(
+      sourceConstraints.constraints.map((c) => [c.playerName, c.type, c.roundNumber, c.note, c.tableNumbers])
+    );
+  });
+
+  test('should not restore over an existing tournament or from an unsupported backup', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Backup Conflict Test',
+      rounds: [{ published: true, allocations: editingRound1 }],
+    });
+    const backup = await api.backupTournament(seeded.id, seeded.adminToken);
+
+    const exists = await expectApiError(api.restoreTournament(backup));
+    expect(exists).toBeInstanceOf(ConflictError);
+    expect(exists.code).toBe('TOURNAMENT_EXISTS');
+
+    const future = await expectApiError(
+      api.restoreTournament({ ...backup, version: 2 } as unknown as TournamentBackup)
+    );
+    expect(future).toBeInstanceOf(ValidationError);
+    expect(future.fields.backup).toEqual(['Unsupported backup version: 2 (expected 1)']);
+
+    const broken = structuredClone(backup);
+    broken.rounds[0].allocations[0].player2Id = -1;
+    const dangling = await expectApiError(api.restoreTournament(broken));
+    expect(dangling.fields.backup).toEqual(['rounds[0].allocations[0].player2Id refers to an unknown ID: -1']);
+
+    // Restored tables get the same checks as the floor map editor
+    const offMap = structuredClone(backup);
+    offMap.tables[0].mapX = 150;
+    offMap.tables[0].mapY = 20;
+    const invalid = await expectApiError(api.restoreTournament(offMap));
+    expect(invalid).toBeInstanceOf(ValidationError);
+    expect(invalid.fields.backup).toEqual([
+      'tables[0]: Position needs x and y from 0 to 100, or both null to take the table off the map',
+    ]);
+
+    // A table has at most one terrain override per round
+    const repeated = structuredClone(backup);
+    const override = { tableId: backup.tables[0].id, roundNumber: 1, terrainTypeId: null };
+    repeated.roundTerrain = [override, { ...override }];
+    const duplicate = await expectApiError(api.restoreTournament(repeated));
+    expect(duplicate).toBeInstanceOf(ValidationError);
+    expect(duplicate.fields.backup).toEqual([`roundTerrain[1] repeats table/round ${backup.tables[0].id}/1`]);
+
+    // The existing tournament is left as it was
+    expect(await api.backupTournament(seeded.id, seeded.adminToken)).toMatchObject({ ...backup, exportedAt: expect.any(String) });
+  });
+});
@@ -17,9 +17,9 @@ import { generateUniqueTournament } from '../fixtures/test-data';
  * - Tournament displayed on dashboard
  * - Admin token cookie set for authentication
  *
- * Note: In the test environment, BCP requests are redirected to a mock endpoint
- * via the BCP_MOCK_BASE_URL environment variable. The mock returns HTML with
- * the tournament name "Test Tournament {eventId}".
+ * Note: In the test environment, BCP_MOCK_BASE_URL points the app at the
+ * standalone mock BCP server (tests/E2E/mock-bcp/server.ts). Event IDs no test
+ * registered get its default JSON event, named "Test Tournament {eventId}".
  *
  * Reference: specs/001-table-allocation/tasks.md T108
  * Spec: specs/001-table-allocation/spec.md - User Story 2
@@ -0,0 +1,134 @@
+import { test, expect } from '@playwright/test';
+import { ExportColumn, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { allocationEditingTournament, editingRound1, editingRound2 } from '../fixtures/allocation-editing';
+
+/**
+ * Tournament export tests.
+ *
+ * GET /api/tournaments/{id}/export gives the organizer every round with
+ * conflicts and manual edits; GET /api/public/tournaments/{id}/export gives
+ * anyone the published rounds. Both come as structured JSON or CSV, with
+ * column selection.
+ *
+ * Round 1 is published, round 2 is not and has tables 1 and 2 swapped by hand.
+ */
+
+test.describe('Tournament Export', () => {
+  const fixtures = useFixtureBuilder();
+
+  test('should export every round with conflicts and edits to the organizer', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Export Admin Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: false, allocations: editingRound2 },
+      ],
+    });
+    const [onTable1, onTable2] = seeded.allocations[2];
+    await api.swapAllocations(onTable1, onTable2, seeded.adminToken, { editedBy: 'Alice' });
+
+    const exported = await api.downloadExport(seeded.id, { adminToken: seeded.adminToken });
+    expect(exported.scope).toBe('admin');
+    expect(exported.tournament).toMatchObject({ id: seeded.id, name: 'Export Admin Test' });
+    expect(exported.columns).toContain('conflicts');
+    expect(exported.rounds.map((r) => [r.roundNumber, r.isPublished])).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+
+    // Every row matches the round as the API reports it
+    const round = await api.getRound(seeded.id, 2, seeded.adminToken);
+    const rows = exported.rounds[1].rows;
+    expect(rows).toHaveLength(round.allocations.length);
+    for (const allocation of round.allocations) {
+      const row = rows.find((r) => r.tableNumber === allocation.tableNumber);
+      expect(row).toMatchObject({
+        roundNumber: 2,
+        terrainType: allocation.terrainType,
+        isBye: false,
+        player1Name: allocation.player1.name,
+        player1Score: allocation.player1.score,
+        player2Name: allocation.player2?.name,
+      });
+      expect(row?.conflicts?.map((c) => c.type)).toEqual(allocation.conflicts.map((c) => c.type));
+    }
+
+    // Factions and BCP IDs come along
+    expect(exported.rounds[0].rows[0]).toMatchObject({
+      tableNumber: 1,
+      player1Name: 'Alice Smith',
+      player1BcpId: 'p1',
+      player1Faction: 'Corsair Voidscarred',
+      player2Faction: 'Nemesis Claw',
+    });
+
+    // The swap shows on both pairings it moved
+    const swapped = rows.filter((r) => (r.edits ?? []).length > 0);
+    expect(swapped.map((r) => r.tableNumber).sort()).toEqual([1, 2]);
+    expect(swapped[0].edits![0]).toMatchObject({ action: 'swap', description: 'Swapped tables 1 and 2', editedBy: 'Alice' });
+    expect(rows.find((r) => r.tableNumber === 1)?.edits![0]).toMatchObject({ fromTable: 2, toTable: 1 });
+  });
+
+  test('should export published rounds only to the public', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Export Public Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: false, allocations: editingRound2 },
+      ],
+    });
+
+    const exported = await api.downloadExport(seeded.id);
+    expect(exported.scope).toBe('public');
+    expect(exported.rounds.map((r) => r.roundNumber)).toEqual([1]);
+    expect(exported.columns).not.toContain('conflicts');
+    expect(exported.columns).not.toContain('edits');
+    expect(exported.rounds[0].rows[0]).not.toHaveProperty('conflicts');
+
+    const organizerOnly = await expectApiError(api.downloadExport(seeded.id, { columns: ['roundNumber', 'edits'] }));
+    expect(organizerOnly).toBeInstanceOf(ValidationError);
+    expect(organizerOnly.fields.columns).toEqual(['Column edits is only available to the organizer']);
+
+    const unknown = await expectApiError(
+      api.downloadExport(seeded.id, { columns: ['table' as ExportColumn], adminToken: seeded.adminToken })
+    );
+    expect(unknown.fields.columns).toEqual(['Unknown column: table']);
+  });
+
+  test('should export selected columns as CSV', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const seeded = await fixtures.tournament({
+      ...allocationEditingTournament,
+      name: 'Export CSV Test',
+      rounds: [
+        { published: true, allocations: editingRound1 },
+        { published: true, allocations: editingRound2 },
+      ],
+    });
+
+    const csv = await api.downloadExport(seeded.id, {
+      format: 'csv',
+      columns: ['player1Name', 'roundNumber', 'tableNumber', 'player1Faction', 'player2Name', 'isBye'],
+    });
+    const lines = csv.trim().split('\n');
+
+    // Columns come in export order, whatever order they were asked in
+    expect(lines[0]).toBe('roundNumber,tableNumber,isBye,player1Name,player1Faction,player2Name');
+    expect(lines).toHaveLength(1 + editingRound1.length + editingRound2.length);
+    expect(lines[1]).toBe('1,1,FALSE,"Alice Smith","Corsair Voidscarred","Bob Jones"');
+    expect(lines[9]).toBe('2,1,FALSE,"Charlie Brown","Blades of Khaine","Diana Prince"');
+
+    const response = await request.get(`/api/public/tournaments/${seeded.id}/export?format=csv`);
+    expect(response.headers()['content-type']).toContain('text/csv');
+    expect(response.headers()['content-disposition']).toBe(`attachment; filename="tournament-${seeded.id}-public.csv"`);
+
+    const badFormat = await request.get(`/api/public/tournaments/${seeded.id}/export?format=xlsx`);
+    expect(badFormat.status()).toBe(400);
+    expect((await badFormat.json()).fields.format).toEqual(['Format must be json or csv']);
+  });
+});
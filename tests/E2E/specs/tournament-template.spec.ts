@@ -0,0 +1,158 @@
+import { test, expect } from '@playwright/test';
+import { Table, ValidationError, createApiClient, expectApiError } from '../helpers/api';
+import { setAdminTokenCookie } from '../helpers/auth';
+import { cleanupTournaments, createCleanupContext, registerTournament } from '../helpers/cleanup';
+import { useFixtureBuilder } from '../helpers/fixture-builder';
+import { generateUniqueTournament } from '../fixtures/test-data';
+
+/**
+ * Create-from-template tests.
+ *
+ * A new tournament can start from the table setup of an existing one the
+ * organizer holds a token for: tables with their terrain, optional and hidden
+ * flags, custom terrain types and table constraints for every round.
+ *
+ * The new events use the default mock BCP event, whose Round 1 pairs
+ * mock_player_1 to mock_player_8 on tables 1-4; the template's players use
+ * the same BCP IDs so their constraints can carry over.
+ */
+
+function setup(tables: Table[]): Array<[number, string | null, boolean, boolean]> {
+  return tables
+    .map((table): [number, string | null, boolean, boolean] => [
+      table.tableNumber,
+      table.terrainType?.name ?? null,
+      table.isOptional,
+      table.isHidden,
+    ])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+test.describe('Tournament Templates', () => {
+  const fixtures = useFixtureBuilder();
+  const cleanupContext = createCleanupContext();
+
+  test.afterEach(async ({ request, baseURL }) => {
+    await cleanupTournaments(request, cleanupContext, baseURL!);
+  });
+
+  async function seedTemplate(name: string) {
+    return fixtures.tournament({
+      name,
+      tables: [
+        { terrain: 'Volkus' },
+        { terrain: 'Tomb World' },
+        { terrain: 'Volkus' },
+        { terrain: 'Tomb World' },
+        { terrain: 'Volkus', optional: true },
+        { terrain: null, hidden: true },
+      ],
+      players: [
+        { key: 'mock_player_1', name: 'Alice Smith' },
+        { key: 'mock_player_2', name: 'Bob Jones' },
+        { key: 'regular_away', name: 'Zoe Absent' },
+      ],
+    });
+  }
+
+  test('should copy tables, terrain and constraints from the template', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const template = await seedTemplate('Template Source Test');
+    const token = template.adminToken;
+
+    const { terrainType } = await api.createTerrainType(template.id, { name: 'Template Hab Block', emoji: '🏢' }, token);
+    await api.updateTables(template.id, token, [{ tableNumber: 4, terrainTypeId: terrainType.id }]);
+    // Copied: an every-round constraint for a player in the new event
+    await api.createTableConstraint(
+      template.id,
+      { playerId: template.players.mock_player_1, type: 'required', tableIds: [template.tables[3]], note: 'Wheelchair' },
+      token
+    );
+    // Not copied: a round pin, and a player who is not in the new event
+    await api.createTableConstraint(
+      template.id,
+      { playerId: template.players.mock_player_2, type: 'required', tableIds: [template.tables[2]], roundNumber: 1 },
+      token
+    );
+    await api.createTableConstraint(
+      template.id,
+      { playerId: template.players.regular_away, type: 'forbidden', tableIds: [template.tables[1]] },
+      token
+    );
+
+    const { bcpUrl } = generateUniqueTournament('TEMPLATE');
+    const created = await api.createTournament({
+      bcpUrl,
+      tableCount: 12,
+      templateTournamentId: template.id,
+      templateAdminToken: token,
+    });
+    registerTournament(cleanupContext, created.tournament.id, created.adminToken);
+
+    expect(created.autoImport?.success).toBe(true);
+    expect(created.template).toEqual({
+      tournamentId: template.id,
+      name: 'Template Source Test',
+      tables: 6,
+      terrainTypes: 1,
+      constraints: 1,
+      skippedPlayers: ['Zoe Absent'],
+    });
+
+    // Same tables, with the template's terrain (the custom type is the new tournament's own copy)
+    const source = await api.getTournament(template.id, token);
+    const tournament = await api.getTournament(created.tournament.id, created.adminToken);
+    expect(setup(tournament.tables)).toEqual(setup(source.tables));
+    const copiedType = tournament.tables.find((t) => t.tableNumber === 4)?.terrainType;
+    expect(copiedType).toMatchObject({ name: 'Template Hab Block', emoji: '🏢' });
+    expect(copiedType?.id).not.toBe(terrainType.id);
+
+    const { constraints } = await api.listTableConstraints(created.tournament.id, created.adminToken);
+    expect(constraints.map((c) => [c.playerName, c.type, c.roundNumber, c.tableNumbers, c.note])).toEqual([
+      ['Alice Smith', 'required', null, [3], 'Wheelchair'],
+    ]);
+
+    // The template itself is untouched
+    expect((await api.listTableConstraints(template.id, token)).constraints).toHaveLength(3);
+  });
+
+  test('should require the template admin token', async ({ request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const template = await seedTemplate('Template Token Test');
+
+    for (const templateAdminToken of [undefined, 'WrongToken123456']) {
+      const { bcpUrl } = generateUniqueTournament('TEMPLATE');
+      const error = await expectApiError(
+        api.createTournament({ bcpUrl, templateTournamentId: template.id, templateAdminToken })
+      );
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.fields.templateTournamentId).toEqual([
+        'Template tournament not found or its admin token does not match',
+      ]);
+    }
+  });
+
+  test('should offer tournaments held in the browser as templates on the create page', async ({ page, request, baseURL }) => {
+    const api = createApiClient(request, baseURL!);
+    const template = await seedTemplate('Template Form Test');
+    await setAdminTokenCookie(page.context(), template.adminToken, baseURL!, template.id, 'Template Form Test');
+
+    await page.goto('/admin/tournament/create');
+    await page.locator('#bcpUrl').fill(generateUniqueTournament('TEMPLATE').bcpUrl);
+    await page.locator('#templateTournamentId').selectOption({ label: 'Template Form Test' });
+    await page.locator('#submit-btn').click();
+
+    await page.waitForURL(/\/admin\/tournament\/\d+$/);
+    const createdId = Number(page.url().split('/').pop());
+    const loginLink = (await page.locator('#admin-token-display').textContent())!.trim();
+    const createdToken = new URL(loginLink, baseURL).searchParams.get('token')!;
+    registerTournament(cleanupContext, createdId, createdToken);
+
+    expect(createdId).not.toBe(template.id);
+    await expect(page.locator('#template-result')).toContainText('Set up from Template Form Test: copied 6 tables');
+
+    const tournament = await api.getTournament(createdId, createdToken);
+    const source = await api.getTournament(template.id, template.adminToken);
+    expect(setup(tournament.tables)).toEqual(setup(source.tables));
+  });
+});
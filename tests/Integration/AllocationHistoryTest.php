@@ -0,0 +1,251 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Integration;
+
+use TournamentTables\Tests\DatabaseTestCase;
+use TournamentTables\Database\Connection;
+use TournamentTables\Models\Tournament;
+use TournamentTables\Models\Round;
+use TournamentTables\Models\Table;
+use TournamentTables\Models\Player;
+use TournamentTables\Models\Allocation;
+use TournamentTables\Services\AllocationEditService;
+use TournamentTables\Services\AllocationHistoryService;
+use TournamentTables\Services\CostCalculator;
+
+/**
+ * Integration tests for the allocation edit history.
+ *
+ * Tests recording, undo/redo and revert to the generated allocation.
+ */
+class AllocationHistoryTest extends DatabaseTestCase
+{
+    /**
+     * @var Tournament
+     */
+    private $tournament;
+
+    /**
+     * @var AllocationEditService
+     */
+    private $editService;
+
+    /**
+     * @var AllocationHistoryService
+     */
+    private $historyService;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->tournament = $this->createTestTournament();
+
+        $db = Connection::getInstance();
+        $this->editService = new AllocationEditService($db, new CostCalculator());
+        $this->historyService = new AllocationHistoryService($db, $this->editService);
+    }
+
+    /**
+     * Test undo and redo restore the tables of a logged swap.
+     */
+    public function testUndoAndRedoSwap(): void
+    {
+        $round = $this->createRoundWithAllocations();
+        [$a, $b] = Allocation::findByRound($round->id);
+
+        $this->swap($round, $a, $b, 'Alice');
+
+        $history = $this->historyService->getHistory($round->id);
+        $this->assertCount(1, $history['entries']);
+        $this->assertSame('swap', $history['entries'][0]['action']);
+        $this->assertSame('Alice', $history['entries'][0]['editedBy']);
+        $this->assertSame('Swapped tables 1 and 2', $history['entries'][0]['description']);
+        $this->assertTrue($history['canUndo']);
+        $this->assertFalse($history['canRedo']);
+
+        $this->historyService->undo($round->id);
+        $this->assertSame($a->tableId, Allocation::find($a->id)->tableId);
+        $this->assertSame($b->tableId, Allocation::find($b->id)->tableId);
+
+        $history = $this->historyService->getHistory($round->id);
+        $this->assertTrue($history['entries'][0]['undone']);
+        $this->assertFalse($history['canUndo']);
+        $this->assertTrue($history['canRedo']);
+
+        $this->historyService->redo($round->id);
+        $this->assertSame($b->tableId, Allocation::find($a->id)->tableId);
+        $this->assertSame($a->tableId, Allocation::find($b->id)->tableId);
+    }
+
+    /**
+     * Test a new edit discards undone entries.
+     */
+    public function testNewEditClearsRedo(): void
+    {
+        $round = $this->createRoundWithAllocations();
+        [$a, $b, $c] = Allocation::findByRound($round->id);
+
+        $this->swap($round, $a, $b);
+        $this->historyService->undo($round->id);
+        $this->swap($round, $a, $c);
+
+        $history = $this->historyService->getHistory($round->id);
+        $this->assertCount(1, $history['entries']);
+        $this->assertFalse($history['canRedo']);
+
+        $this->expectException(\RuntimeException::class);
+        $this->expectExceptionMessage('Nothing to redo');
+
+        $this->historyService->redo($round->id);
+    }
+
+    /**
+     * Test revert puts every pairing back on its generated table and can be undone.
+     */
+    public function testRevertToGenerated(): void
+    {
+        $round = $this->createRoundWithAllocations();
+        $generated = $this->tableIds($round);
+        [$a, $b, $c] = Allocation::findByRound($round->id);
+        $freeTable = Table::findByTournament($this->tournament->id)[7];
+
+        $this->swap($round, $a, $b);
+        $this->move($round, Allocation::find($c->id), $freeTable->id);
+        $edited = $this->tableIds($round);
+
+        $this->historyService->revertToGenerated($round->id, 'Bob');
+        $this->assertSame($generated, $this->tableIds($round));
+
+        $history = $this->historyService->getHistory($round->id);
+        $this->assertSame('revert', $history['entries'][0]['action']);
+        $this->assertCount(3, $history['entries'][0]['changes']);
+
+        // Revert is an edit of its own
+        $this->historyService->undo($round->id);
+        $this->assertSame($edited, $this->tableIds($round));
+    }
+
+    /**
+     * Test undo restores a collision as a conflict instead of rejecting it.
+     */
+    public function testUndoRestoresCollisionConflicts(): void
+    {
+        $round = $this->createRoundWithAllocations();
+        [$a, $b] = Allocation::findByRound($round->id);
+
+        // Put a on b's table (collision), then move it to a free table
+        $this->move($round, $a, $b->tableId);
+        $this->move($round, Allocation::find($a->id), Table::findByTournament($this->tournament->id)[7]->id);
+
+        $this->historyService->undo($round->id);
+
+        $types = array_column(Allocation::find($b->id)->getConflicts(), 'type');
+        $this->assertContains('TABLE_COLLISION', $types);
+    }
+
+    /**
+     * Test regenerating a round's allocations clears its history.
+     */
+    public function testClearAllocationsClearsHistory(): void
+    {
+        $round = $this->createRoundWithAllocations();
+        [$a, $b] = Allocation::findByRound($round->id);
+        $this->swap($round, $a, $b);
+
+        $round->clearAllocations();
+
+        $this->assertSame([], $this->historyService->getHistory($round->id)['entries']);
+    }
+
+    // Helper methods
+
+    private function swap(Round $round, Allocation $a, Allocation $b, ?string $editedBy = null): void
+    {
+        $this->editService->swapTables($a->id, $b->id);
+        $this->historyService->record($round->id, AllocationHistoryService::ACTION_SWAP, [
+            ['allocationId' => $a->id, 'fromTableId' => $a->tableId, 'toTableId' => $b->tableId],
+            ['allocationId' => $b->id, 'fromTableId' => $b->tableId, 'toTableId' => $a->tableId],
+        ], $editedBy);
+    }
+
+    private function move(Round $round, Allocation $allocation, int $tableId): void
+    {
+        $this->editService->editTableAssignment($allocation->id, $tableId);
+        $this->historyService->record($round->id, AllocationHistoryService::ACTION_MOVE, [
+            ['allocationId' => $allocation->id, 'fromTableId' => $allocation->tableId, 'toTableId' => $tableId],
+        ]);
+    }
+
+    /**
+     * @return array<int, int|null> Table ID by allocation ID
+     */
+    private function tableIds(Round $round): array
+    {
+        $tables = [];
+        foreach (Allocation::findByRound($round->id) as $allocation) {
+            $tables[$allocation->id] = $allocation->tableId;
+        }
+        ksort($tables);
+        return $tables;
+    }
+
+    private function createTestTournament(): Tournament
+    {
+        $tournament = new Tournament();
+        $tournament->name = 'History Test Tournament';
+        $tournament->bcpEventId = 'TEST_' . uniqid();
+        $tournament->bcpUrl = 'https://www.bestcoastpairings.com/event/TEST';
+        $tournament->tableCount = 8;
+        $tournament->adminToken = bin2hex(random_bytes(8));
+        $tournament->save();
+
+        for ($i = 1; $i <= 8; $i++) {
+            $table = new Table();
+            $table->tournamentId = $tournament->id;
+            $table->tableNumber = $i;
+            $table->terrainTypeId = null;
+            $table->save();
+        }
+
+        for ($i = 1; $i <= 8; $i++) {
+            $player = new Player();
+            $player->tournamentId = $tournament->id;
+            $player->bcpPlayerId = 'bcp_p' . $i;
+            $player->name = 'Player ' . $i;
+            $player->save();
+        }
+
+        return $tournament;
+    }
+
+    /**
+     * Round 1 with 4 pairings on tables 1-4.
+     */
+    private function createRoundWithAllocations(): Round
+    {
+        $round = new Round();
+        $round->tournamentId = $this->tournament->id;
+        $round->roundNumber = 1;
+        $round->isPublished = false;
+        $round->save();
+
+        $tables = Table::findByTournament($this->tournament->id);
+        $players = Player::findByTournament($this->tournament->id);
+
+        for ($i = 0; $i < 4; $i++) {
+            $allocation = new Allocation();
+            $allocation->roundId = $round->id;
+            $allocation->tableId = $tables[$i]->id;
+            $allocation->player1Id = $players[$i * 2]->id;
+            $allocation->player2Id = $players[$i * 2 + 1]->id;
+            $allocation->player1Score = 0;
+            $allocation->player2Score = 0;
+            $allocation->save();
+        }
+
+        return $round;
+    }
+}
@@ -0,0 +1,186 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Integration;
+
+use TournamentTables\Controllers\AllocationController;
+use TournamentTables\Controllers\ErrorCode;
+use TournamentTables\Controllers\PublicController;
+use TournamentTables\Controllers\RoundController;
+use TournamentTables\Middleware\AdminAuthMiddleware;
+use TournamentTables\Models\Allocation;
+use TournamentTables\Models\Player;
+use TournamentTables\Models\Round;
+use TournamentTables\Models\Table;
+use TournamentTables\Models\Tournament;
+use TournamentTables\Tests\DatabaseTestCase;
+
+/**
+ * Integration tests for machine-readable API error codes.
+ *
+ * Every error response carries a category ("error"), a specific "code"
+ * and, where useful, "details" so clients can branch without parsing messages.
+ */
+class ApiErrorResponseTest extends DatabaseTestCase
+{
+    /**
+     * @var Tournament
+     */
+    private $tournament;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->tournament = new Tournament(
+            null,
+            'Error Code Test Tournament',
+            'TEST_ERR_' . uniqid(),
+            'https://www.bestcoastpairings.com/event/TEST',
+            4,
+            bin2hex(random_bytes(8))
+        );
+        $this->tournament->save();
+
+        for ($i = 1; $i <= 4; $i++) {
+            (new Table(null, $this->tournament->id, $i))->save();
+        }
+
+        $_SERVER['HTTP_X_ADMIN_TOKEN'] = $this->tournament->adminToken;
+        $this->assertTrue(AdminAuthMiddleware::check());
+    }
+
+    protected function tearDown(): void
+    {
+        unset($_SERVER['HTTP_X_ADMIN_TOKEN']);
+        global $authenticatedTournament;
+        $authenticatedTournament = null;
+
+        parent::tearDown();
+    }
+
+    public function testMissingRoundReportsRoundNotImported(): void
+    {
+        $response = $this->capture(function () {
+            (new RoundController())->show(['id' => $this->tournament->id, 'n' => 3], null);
+        });
+
+        $this->assertEquals('not_found', $response['error']);
+        $this->assertEquals(ErrorCode::ROUND_NOT_IMPORTED, $response['code']);
+        $this->assertEquals(['tournamentId' => $this->tournament->id, 'roundNumber' => 3], $response['details']);
+    }
+
+    public function testGenerateBeforeImportReportsRoundNotImported(): void
+    {
+        $response = $this->capture(function () {
+            (new RoundController())->generate(['id' => $this->tournament->id, 'n' => 2], null);
+        });
+
+        $this->assertEquals('no_round', $response['error']);
+        $this->assertEquals(ErrorCode::ROUND_NOT_IMPORTED, $response['code']);
+    }
+
+    public function testTokenForAnotherTournamentReportsMismatch(): void
+    {
+        $response = $this->capture(function () {
+            (new RoundController())->show(['id' => $this->tournament->id + 1, 'n' => 1], null);
+        });
+
+        $this->assertEquals('unauthorized', $response['error']);
+        $this->assertEquals(ErrorCode::TOKEN_TOURNAMENT_MISMATCH, $response['code']);
+    }
+
+    public function testPublishWithCollisionReportsTableCollisionDetails(): void
+    {
+        $round = $this->createRoundWithCollision();
+
+        $response = $this->capture(function () {
+            (new RoundController())->publish(['id' => $this->tournament->id, 'n' => 1], null);
+        });
+
+        $this->assertEquals('table_collision', $response['error']);
+        $this->assertEquals(ErrorCode::TABLE_COLLISION, $response['code']);
+        $this->assertCount(1, $response['details']['collisions']);
+        $this->assertEquals(1, $response['details']['collisions'][0]['tableNumber']);
+        $this->assertFalse(Round::find($round->id)->isPublished);
+    }
+
+    public function testUnpublishedPublicRoundReportsRoundNotPublished(): void
+    {
+        $this->createRoundWithCollision();
+
+        $response = $this->capture(function () {
+            (new PublicController())->showRound(['id' => $this->tournament->id, 'n' => 1], null);
+        });
+
+        $this->assertEquals('not_found', $response['error']);
+        $this->assertEquals(ErrorCode::ROUND_NOT_PUBLISHED, $response['code']);
+    }
+
+    public function testSwapWithItselfReportsInvalidSwap(): void
+    {
+        $response = $this->capture(function () {
+            (new AllocationController())->swap([], ['allocationId1' => 5, 'allocationId2' => 5]);
+        });
+
+        $this->assertEquals('validation_error', $response['error']);
+        $this->assertEquals(ErrorCode::INVALID_SWAP, $response['code']);
+    }
+
+    public function testValidationErrorDefaultsCodeFromCategory(): void
+    {
+        $response = $this->capture(function () {
+            (new AllocationController())->swap([], ['allocationId1' => 5]);
+        });
+
+        $this->assertEquals(ErrorCode::VALIDATION_ERROR, $response['code']);
+        $this->assertArrayHasKey('allocationId2', $response['fields']);
+        $this->assertArrayNotHasKey('details', $response);
+    }
+
+    /**
+     * Run a controller action and decode its JSON output.
+     */
+    private function capture(callable $action): array
+    {
+        ob_start();
+        $action();
+        $output = ob_get_clean();
+
+        $response = json_decode($output, true);
+        $this->assertIsArray($response, "Expected JSON output, got: $output");
+
+        return $response;
+    }
+
+    /**
+     * Round 1 with two pairings assigned to table 1.
+     */
+    private function createRoundWithCollision(): Round
+    {
+        $round = new Round(null, $this->tournament->id, 1, false);
+        $round->save();
+
+        $tables = Table::findByTournament($this->tournament->id);
+        $players = [];
+        for ($i = 1; $i <= 4; $i++) {
+            $player = new Player(null, $this->tournament->id, 'bcp_err_p' . $i, 'Player ' . $i);
+            $player->save();
+            $players[] = $player;
+        }
+
+        for ($i = 0; $i < 2; $i++) {
+            $allocation = new Allocation(
+                null,
+                $round->id,
+                $tables[0]->id,
+                $players[$i * 2]->id,
+                $players[$i * 2 + 1]->id
+            );
+            $allocation->save();
+        }
+
+        return $round;
+    }
+}
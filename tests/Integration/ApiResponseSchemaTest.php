@@ -0,0 +1,254 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Integration;
+
+use JsonSchema\Validator;
+use TournamentTables\Controllers\PublicController;
+use TournamentTables\Controllers\RoundController;
+use TournamentTables\Controllers\TerrainTypeController;
+use TournamentTables\Controllers\TournamentController;
+use TournamentTables\Middleware\AdminAuthMiddleware;
+use TournamentTables\Models\Allocation;
+use TournamentTables\Models\Player;
+use TournamentTables\Models\Round;
+use TournamentTables\Models\Table;
+use TournamentTables\Models\TerrainType;
+use TournamentTables\Models\Tournament;
+use TournamentTables\Tests\DatabaseTestCase;
+
+/**
+ * Validates API response payloads against tests/Contract/schemas/api.
+ *
+ * The same schemas are compared with the TypeScript SDK validators
+ * (tests/E2E/specs/api-contract.spec.ts), so a field changing shape on the
+ * server fails here before it silently breaks API clients.
+ */
+class ApiResponseSchemaTest extends DatabaseTestCase
+{
+    private const SCHEMA_DIR = __DIR__ . '/../Contract/schemas/api';
+
+    /**
+     * @var Tournament
+     */
+    private $tournament;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->tournament = $this->createTestTournament();
+
+        // Authenticate admin controllers as the test tournament
+        $_SERVER['HTTP_X_ADMIN_TOKEN'] = $this->tournament->adminToken;
+        $this->assertTrue(AdminAuthMiddleware::check());
+    }
+
+    protected function tearDown(): void
+    {
+        unset($_SERVER['HTTP_X_ADMIN_TOKEN']);
+        global $authenticatedTournament;
+        $authenticatedTournament = null;
+
+        parent::tearDown();
+    }
+
+    /**
+     * GET /api/tournaments/{id}: tournament fields, tables (with and without terrain) and rounds.
+     */
+    public function testTournamentDetailsMatchSchemas(): void
+    {
+        $this->createRoundWithAllocations(1);
+
+        $response = $this->captureJson(function () {
+            (new TournamentController())->show(['id' => $this->tournament->id], null);
+        });
+
+        $this->assertNotEmpty($response->tables);
+        foreach ($response->tables as $index => $table) {
+            $this->assertMatchesSchema('table.json', $table, "tables[$index]");
+        }
+        foreach ($response->rounds as $index => $round) {
+            $this->assertMatchesSchema('round.json', $round, "rounds[$index]");
+        }
+
+        unset($response->tables, $response->rounds);
+        $this->assertMatchesSchema('tournament.json', $response);
+    }
+
+    /**
+     * GET /api/terrain-types
+     */
+    public function testTerrainTypesMatchSchema(): void
+    {
+        $response = $this->captureJson(function () {
+            (new TerrainTypeController())->index([], null);
+        });
+
+        foreach ($response->terrainTypes as $index => $terrainType) {
+            $this->assertMatchesSchema('terrain-type.json', $terrainType, "terrainTypes[$index]");
+        }
+    }
+
+    /**
+     * GET /api/tournaments/{id}/rounds/{n}: regular, conflicted and bye allocations.
+     */
+    public function testRoundDetailsMatchSchema(): void
+    {
+        $this->createRoundWithAllocations(1);
+
+        $response = $this->captureJson(function () {
+            (new RoundController())->show(['id' => $this->tournament->id, 'n' => 1], null);
+        });
+
+        $this->assertCount(4, $response->allocations);
+        $this->assertNotEmpty($response->conflicts);
+        $this->assertMatchesSchema('round-details.json', $response);
+    }
+
+    /**
+     * GET /api/public/tournaments/{id} and GET /api/public/tournaments/{id}/rounds/{n}
+     */
+    public function testPublicPayloadsMatchSchemas(): void
+    {
+        $round = $this->createRoundWithAllocations(1);
+        $round->publish();
+
+        $controller = new PublicController();
+
+        $tournament = $this->captureJson(function () use ($controller) {
+            $controller->showTournament(['id' => $this->tournament->id], null);
+        });
+        $this->assertMatchesSchema('public-tournament.json', $tournament);
+
+        $publicRound = $this->captureJson(function () use ($controller) {
+            $controller->showRound(['id' => $this->tournament->id, 'n' => 1], null);
+        });
+        $this->assertMatchesSchema('public-round.json', $publicRound);
+    }
+
+    /**
+     * Run a controller action and decode its JSON output as objects (as the validator expects).
+     */
+    private function captureJson(callable $action): \stdClass
+    {
+        ob_start();
+        $action();
+        $output = ob_get_clean();
+
+        $data = json_decode($output);
+        $this->assertInstanceOf(\stdClass::class, $data, "Expected a JSON object, got: $output");
+
+        return $data;
+    }
+
+    /**
+     * Assert that data matches a schema in the API schema directory.
+     */
+    private function assertMatchesSchema(string $schemaFile, $data, string $label = '$'): void
+    {
+        $path = realpath(self::SCHEMA_DIR . '/' . $schemaFile);
+        $this->assertNotFalse($path, "Schema not found: $schemaFile");
+
+        $validator = new Validator();
+        $validator->validate($data, (object) ['$ref' => 'file://' . $path]);
+
+        $messages = array_map(function ($error) {
+            return sprintf('[%s] %s', $error['property'] ?: '(root)', $error['message']);
+        }, $validator->getErrors());
+
+        $this->assertTrue(
+            $validator->isValid(),
+            "$label does not match $schemaFile:\n" . implode("\n", $messages)
+        );
+    }
+
+    private function createTestTournament(): Tournament
+    {
+        $tournament = new Tournament(
+            null,
+            'Schema Test Tournament',
+            'TEST_SCHEMA_' . uniqid(),
+            'https://www.bestcoastpairings.com/event/TEST',
+            6,
+            bin2hex(random_bytes(8))
+        );
+        $tournament->save();
+
+        // First table gets a terrain type so both table variants are covered
+        $terrainType = TerrainType::all()[0] ?? null;
+        for ($i = 1; $i <= 6; $i++) {
+            $table = new Table(
+                null,
+                $tournament->id,
+                $i,
+                $i === 1 && $terrainType !== null ? $terrainType->id : null
+            );
+            $table->save();
+        }
+
+        for ($i = 1; $i <= 7; $i++) {
+            $player = new Player(
+                null,
+                $tournament->id,
+                'bcp_schema_p' . $i,
+                'Player ' . $i,
+                0,
+                'Faction ' . $i
+            );
+            $player->save();
+        }
+
+        return $tournament;
+    }
+
+    /**
+     * Three pairings (the first with a table reuse conflict) plus one bye.
+     */
+    private function createRoundWithAllocations(int $roundNumber): Round
+    {
+        $round = new Round(null, $this->tournament->id, $roundNumber, false);
+        $round->save();
+
+        $tables = Table::findByTournament($this->tournament->id);
+        $players = Player::findByTournament($this->tournament->id);
+
+        for ($i = 0; $i < 3; $i++) {
+            $conflicts = $i === 0
+                ? [[
+                    'type' => 'TABLE_REUSE',
+                    'message' => $players[0]->name . ' previously played on table 1',
+                    'playerId' => $players[0]->id,
+                ]]
+                : [];
+
+            $allocation = new Allocation(
+                null,
+                $round->id,
+                $tables[$i]->id,
+                $players[$i * 2]->id,
+                $players[$i * 2 + 1]->id,
+                1,
+                0,
+                ['timestamp' => date('c'), 'reasons' => [], 'conflicts' => $conflicts],
+                $i + 1
+            );
+            $allocation->save();
+        }
+
+        $bye = new Allocation(
+            null,
+            $round->id,
+            null,
+            $players[6]->id,
+            null,
+            0,
+            0,
+            ['timestamp' => date('c'), 'reasons' => ['Bye - no opponent this round'], 'isBye' => true, 'conflicts' => []]
+        );
+        $bye->save();
+
+        return $round;
+    }
+}
@@ -26,21 +26,31 @@ class BCPApiServiceTest extends TestCase
      */
     private $originalMockUrl;
 
+    /**
+     * @var string|false
+     */
+    private $originalMockBaseUrl;
+
     protected function setUp(): void
     {
         $this->fixturesPath = __DIR__ . '/../fixtures';
 
-        // Save and clear mock URL to test actual URL building
+        // Save and clear mock URLs to test actual URL building
         $this->originalMockUrl = getenv('BCP_MOCK_API_URL');
+        $this->originalMockBaseUrl = getenv('BCP_MOCK_BASE_URL');
         putenv('BCP_MOCK_API_URL');
+        putenv('BCP_MOCK_BASE_URL');
     }
 
     protected function tearDown(): void
     {
-        // Restore original mock URL
+        // Restore original mock URLs
         if ($this->originalMockUrl !== false) {
             putenv('BCP_MOCK_API_URL=' . $this->originalMockUrl);
         }
+        if ($this->originalMockBaseUrl !== false) {
+            putenv('BCP_MOCK_BASE_URL=' . $this->originalMockBaseUrl);
+        }
     }
 
     /**
@@ -0,0 +1,55 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Unit\Database;
+
+use PHPUnit\Framework\Attributes\DataProvider;
+use PHPUnit\Framework\TestCase;
+use TournamentTables\Database\Connection;
+
+/**
+ * Tests for per-worker E2E test database selection.
+ */
+class ConnectionTest extends TestCase
+{
+    protected function setUp(): void
+    {
+        Connection::setConfig([
+            'host' => 'localhost',
+            'database' => 'tournament_tables',
+            'username' => 'root',
+            'password' => 'root',
+            'charset' => 'utf8mb4',
+        ]);
+    }
+
+    protected function tearDown(): void
+    {
+        Connection::resetConfig();
+    }
+
+    public function testUseTestDatabaseSwitchesToWorkerDatabase(): void
+    {
+        $this->assertTrue(Connection::useTestDatabase('tournament_tables_w3'));
+        $this->assertEquals('tournament_tables_w3', Connection::getDatabaseName());
+    }
+
+    #[DataProvider('rejectedDatabaseProvider')]
+    public function testUseTestDatabaseRejectsOtherNames(string $database): void
+    {
+        $this->assertFalse(Connection::useTestDatabase($database));
+        $this->assertEquals('tournament_tables', Connection::getDatabaseName());
+    }
+
+    public static function rejectedDatabaseProvider(): array
+    {
+        return [
+            'base database' => ['tournament_tables'],
+            'unrelated schema' => ['mysql'],
+            'other prefix' => ['other_tables_w1'],
+            'missing worker index' => ['tournament_tables_w'],
+            'injection attempt' => ['tournament_tables_w1; DROP DATABASE tournament_tables'],
+        ];
+    }
+}
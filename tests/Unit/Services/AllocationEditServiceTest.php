@@ -301,4 +301,91 @@ class AllocationEditServiceTest extends TestCase
 
         $this->service->swapTables($allocationId, $allocationId);
     }
+
+    /**
+     * Stub the queries applyBatch() runs before validating: the round, its
+     * allocations (10 on table 1, 11 on table 2, 12 a bye) and the tables.
+     */
+    private function stubBatchRound(): void
+    {
+        $stmt = $this->createStub(PDOStatement::class);
+        $stmt->method('fetch')->willReturn([
+            'id' => 1,
+            'tournament_id' => 1,
+            'round_number' => 2,
+        ]);
+        $stmt->method('fetchAll')->willReturnOnConsecutiveCalls(
+            [
+                ['id' => 10, 'table_id' => 1, 'player1_id' => 1, 'player2_id' => 2],
+                ['id' => 11, 'table_id' => 2, 'player1_id' => 3, 'player2_id' => 4],
+                ['id' => 12, 'table_id' => null, 'player1_id' => 5, 'player2_id' => null],
+            ],
+            [
+                ['id' => 1, 'table_number' => 1, 'is_hidden' => 0],
+                ['id' => 2, 'table_number' => 2, 'is_hidden' => 0],
+                ['id' => 3, 'table_number' => 3, 'is_hidden' => 1],
+            ]
+        );
+        $stmt->method('execute')->willReturn(true);
+        $this->mockDb->method('prepare')->willReturn($stmt);
+    }
+
+    /**
+     * Test a batch is rejected when its final state has a collision,
+     * even though each step on its own is valid.
+     */
+    public function testApplyBatchRejectsFinalCollision(): void
+    {
+        $this->stubBatchRound();
+
+        $this->expectException(\RuntimeException::class);
+        $this->expectExceptionMessage('Edits would leave more than one pairing on table(s) 2');
+
+        $this->service->applyBatch(1, [
+            ['type' => 'swap', 'allocationId1' => 10, 'allocationId2' => 11],
+            ['type' => 'move', 'allocationId' => 11, 'tableId' => 2],
+        ]);
+    }
+
+    /**
+     * Test batch operations must refer to pairings of the round.
+     */
+    public function testApplyBatchRejectsUnknownAllocation(): void
+    {
+        $this->stubBatchRound();
+
+        $this->expectException(\InvalidArgumentException::class);
+        $this->expectExceptionMessage('Operation 2: allocation 99 is not in this round');
+
+        $this->service->applyBatch(1, [
+            ['type' => 'move', 'allocationId' => 10, 'tableId' => 2],
+            ['type' => 'move', 'allocationId' => 99, 'tableId' => 1],
+        ]);
+    }
+
+    /**
+     * Test byes cannot be given a table in a batch.
+     */
+    public function testApplyBatchRejectsBye(): void
+    {
+        $this->stubBatchRound();
+
+        $this->expectException(\InvalidArgumentException::class);
+        $this->expectExceptionMessage('Operation 1: allocation 12 is a bye and has no table');
+
+        $this->service->applyBatch(1, [['type' => 'move', 'allocationId' => 12, 'tableId' => 1]]);
+    }
+
+    /**
+     * Test removed (hidden) tables cannot be used in a batch.
+     */
+    public function testApplyBatchRejectsRemovedTable(): void
+    {
+        $this->stubBatchRound();
+
+        $this->expectException(\InvalidArgumentException::class);
+        $this->expectExceptionMessage('Operation 1: table 3 has been removed');
+
+        $this->service->applyBatch(1, [['type' => 'move', 'allocationId' => 10, 'tableId' => 3]]);
+    }
 }
@@ -10,6 +10,7 @@ use TournamentTables\Services\CostCalculator;
 use TournamentTables\Services\TournamentHistory;
 use TournamentTables\Services\Pairing;
 use TournamentTables\Services\AllocationResult;
+use TournamentTables\Services\TableConstraints;
 
 /**
  * Unit tests for AllocationService.
@@ -236,6 +237,145 @@ class AllocationServiceTest extends TestCase
         $this->assertContains('TABLE_REUSE', array_column($result->allocations[0]['reason']['conflicts'], 'type'));
     }
 
+    /**
+     * Greedy picks table 1 for the top pairing, leaving table 2 for a player who
+     * used it; a reuse-free assignment exists, so pairings are reassigned.
+     */
+    public function testReassignsTablesWhenGreedyChoiceForcesAvoidableReuse(): void
+    {
+        $pairings = [
+            $this->createPairing('p1', 'p2', 4, 4, null),
+            $this->createPairing('p3', 'p4', 2, 2, null),
+        ];
+
+        $tables = $this->createTables(2);
+
+        $history = $this->createStub(TournamentHistory::class);
+        $history->method('hasPlayerUsedTable')
+            ->willReturnCallback(function ($playerId, $tableNumber) {
+                return $playerId === 'p3' && $tableNumber === 2;
+            });
+        $history->method('hasPlayerExperiencedTerrain')
+            ->willReturn(false);
+
+        $result = $this->service->generateAllocations($pairings, $tables, 2, $history);
+
+        $this->assertEquals(2, $this->findAllocationByPlayer($result->allocations, 'p1')['tableNumber']);
+        $this->assertEquals(1, $this->findAllocationByPlayer($result->allocations, 'p3')['tableNumber']);
+        $this->assertEmpty($result->conflicts);
+        $this->assertContains(
+            'Reassigned to avoid table reuse',
+            $this->findAllocationByPlayer($result->allocations, 'p1')['reason']['reasons']
+        );
+    }
+
+    /**
+     * A pinned pairing gets its table even though a higher-scoring pairing
+     * would otherwise take it.
+     */
+    public function testPinnedPairingGetsRequiredTable(): void
+    {
+        $pairings = [
+            $this->createPairing('p1', 'p2', 4, 4, null),
+            $this->createPairing('p3', 'p4', 2, 2, null),
+        ];
+        $constraints = new TableConstraints([$this->createRule('p4', 'required', [1])]);
+
+        $result = $this->service->generateAllocations(
+            $pairings,
+            $this->createTables(3),
+            2,
+            $this->createMockHistoryEmpty(),
+            $constraints
+        );
+
+        $this->assertEquals(1, $this->findAllocationByPlayer($result->allocations, 'p3')['tableNumber']);
+        $this->assertEquals(2, $this->findAllocationByPlayer($result->allocations, 'p1')['tableNumber']);
+        $this->assertEmpty($result->conflicts);
+    }
+
+    /**
+     * Forbidden tables are never chosen while an allowed table is free.
+     */
+    public function testAvoidsForbiddenTables(): void
+    {
+        $pairings = [
+            $this->createPairing('p1', 'p2', 2, 2, null),
+        ];
+        $constraints = new TableConstraints([$this->createRule('p1', 'forbidden', [1, 2])]);
+
+        $result = $this->service->generateAllocations(
+            $pairings,
+            $this->createTables(3),
+            2,
+            $this->createMockHistoryEmpty(),
+            $constraints
+        );
+
+        $this->assertEquals(3, $result->allocations[0]['tableNumber']);
+        $this->assertEmpty($result->conflicts);
+    }
+
+    /**
+     * Two players pinned to the same table: the second takes the best table
+     * left and the violation is reported.
+     */
+    public function testConflictDetectionForTableConstraint(): void
+    {
+        $pairings = [
+            $this->createPairing('p1', 'p2', 4, 4, null),
+            $this->createPairing('p3', 'p4', 2, 2, null),
+        ];
+        $constraints = new TableConstraints([
+            $this->createRule('p1', 'required', [1]),
+            $this->createRule('p3', 'required', [1], 'Streaming table'),
+        ]);
+
+        $result = $this->service->generateAllocations(
+            $pairings,
+            $this->createTables(2),
+            2,
+            $this->createMockHistoryEmpty(),
+            $constraints
+        );
+
+        $this->assertEquals(1, $this->findAllocationByPlayer($result->allocations, 'p1')['tableNumber']);
+        $p3Allocation = $this->findAllocationByPlayer($result->allocations, 'p3');
+        $this->assertEquals(2, $p3Allocation['tableNumber']);
+        $this->assertEquals(
+            [[
+                'type' => 'TABLE_CONSTRAINT',
+                'message' => 'Player p3 must play on table 1 (Streaming table), but is on table 2',
+            ]],
+            $p3Allocation['reason']['conflicts']
+        );
+        $this->assertCount(1, $result->conflicts);
+    }
+
+    /**
+     * Round 1 keeps BCP tables unless a constraint rules them out.
+     */
+    public function testRound1ReassignsBcpTableBreakingConstraint(): void
+    {
+        $pairings = [
+            $this->createPairing('p1', 'p2', 0, 0, 1),
+            $this->createPairing('p3', 'p4', 0, 0, 2),
+        ];
+        $constraints = new TableConstraints([$this->createRule('p2', 'allowed', [3, 4])]);
+
+        $result = $this->service->generateAllocations(
+            $pairings,
+            $this->createTables(4),
+            1,
+            $this->createMockHistoryEmpty(),
+            $constraints
+        );
+
+        $this->assertEquals(3, $this->findAllocationByPlayer($result->allocations, 'p1')['tableNumber']);
+        $this->assertEquals(2, $this->findAllocationByPlayer($result->allocations, 'p3')['tableNumber']);
+        $this->assertEmpty($result->conflicts);
+    }
+
     /**
      * Test allocation reason audit trail structure.
      */
@@ -402,6 +542,21 @@ class AllocationServiceTest extends TestCase
         return $mock;
     }
 
+    /**
+     * Create a table constraint rule as loaded by TableConstraints::load().
+     */
+    private function createRule(string $bcpId, string $type, array $tableNumbers, ?string $note = null): array
+    {
+        return [
+            'playerId' => (int) substr($bcpId, 1),
+            'bcpPlayerId' => $bcpId,
+            'playerName' => "Player {$bcpId}",
+            'type' => $type,
+            'tableNumbers' => $tableNumbers,
+            'note' => $note,
+        ];
+    }
+
     /**
      * Find allocation by player BCP ID.
      */
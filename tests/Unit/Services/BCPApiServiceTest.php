@@ -21,21 +21,29 @@ class BCPApiServiceTest extends TestCase
     /** @var string|false */
     private $originalMockUrl;
 
+    /** @var string|false */
+    private $originalMockBaseUrl;
+
     protected function setUp(): void
     {
-        // Save and clear mock URL to test actual URL building
+        // Save and clear mock URLs to test actual URL building
         $this->originalMockUrl = getenv('BCP_MOCK_API_URL');
+        $this->originalMockBaseUrl = getenv('BCP_MOCK_BASE_URL');
         putenv('BCP_MOCK_API_URL');
+        putenv('BCP_MOCK_BASE_URL');
 
         $this->apiService = new BCPApiService();
     }
 
     protected function tearDown(): void
     {
-        // Restore original mock URL
+        // Restore original mock URLs
         if ($this->originalMockUrl !== false) {
             putenv('BCP_MOCK_API_URL=' . $this->originalMockUrl);
         }
+        if ($this->originalMockBaseUrl !== false) {
+            putenv('BCP_MOCK_BASE_URL=' . $this->originalMockBaseUrl);
+        }
     }
 
     // -------------------------------------------------------------------------
@@ -103,6 +111,30 @@ class BCPApiServiceTest extends TestCase
         $this->assertStringContainsString('round=5', $url5);
     }
 
+    /**
+     * Test mock base URL (standalone mock server) takes precedence over the built-in mock.
+     */
+    public function testMockBaseUrlTakesPrecedenceOverMockApiUrl(): void
+    {
+        putenv('BCP_MOCK_API_URL=http://localhost/mock-bcp-api');
+        putenv('BCP_MOCK_BASE_URL=http://bcp-mock:8090/');
+
+        $apiService = new BCPApiService();
+
+        $this->assertEquals('http://bcp-mock:8090/event123', $apiService->buildEventUrl('event123'));
+        $this->assertEquals(
+            'http://bcp-mock:8090/event123/pairings?round=2',
+            $apiService->buildPairingsUrl('event123', 2)
+        );
+        $this->assertEquals(
+            'http://bcp-mock:8090/event123/players?placings=true',
+            $apiService->buildPlacingsUrl('event123')
+        );
+
+        putenv('BCP_MOCK_API_URL');
+        putenv('BCP_MOCK_BASE_URL');
+    }
+
     // -------------------------------------------------------------------------
     // Event ID Extraction Tests
     // -------------------------------------------------------------------------
@@ -7,6 +7,7 @@ namespace TournamentTables\Tests\Unit\Services;
 use PHPUnit\Framework\TestCase;
 use TournamentTables\Services\CostCalculator;
 use TournamentTables\Services\CostResult;
+use TournamentTables\Services\Pairing;
 use TournamentTables\Services\TournamentHistory;
 
 /**
@@ -203,6 +204,40 @@ class CostCalculatorTest extends TestCase
         $this->assertEquals(0, $result->costBreakdown['bcpTableMismatch']);
     }
 
+    /**
+     * Test another variant of the terrain's family adds the weighted terrain cost.
+     */
+    public function testTerrainFamilyReuseCost(): void
+    {
+        $history = $this->createMockHistory(false, false);
+        $history->method('findExperiencedTerrainVariant')
+            ->willReturn('Volkus');
+
+        // Table 3 with BCP original = 3 (match), default weight 50%
+        $result = $this->calculator->calculate(1, 3, 2, 'Volkus + Tyranid', $history, null, 3, null, null, 'Volkus');
+
+        $this->assertEquals(5000, $result->totalCost);
+        $this->assertEquals(5000, $result->costBreakdown['terrainReuse']);
+        $this->assertCount(1, $result->reasons);
+        $this->assertStringContainsString('in the same terrain family as Volkus + Tyranid', $result->reasons[0]);
+    }
+
+    /**
+     * Test a zero terrain family weight ignores terrain families.
+     */
+    public function testTerrainFamilyWeightZeroNoCost(): void
+    {
+        $history = $this->createMockHistory(false, false);
+        $history->method('findExperiencedTerrainVariant')
+            ->willReturn('Volkus');
+
+        $calculator = $this->calculator->withTerrainFamilyWeight(0);
+        $result = $calculator->calculate(1, 3, 2, 'Volkus + Tyranid', $history, null, 3, null, null, 'Volkus');
+
+        $this->assertEquals(0, $result->totalCost);
+        $this->assertEmpty($result->reasons);
+    }
+
     /**
      * Test combined costs.
      */
@@ -275,6 +310,68 @@ class CostCalculatorTest extends TestCase
         $this->assertTrue(is_array($result->reasons));
     }
 
+    /**
+     * Test score order is 0 when higher scores sit on lower tables.
+     */
+    public function testScoreOrderInOrder(): void
+    {
+        $result = $this->calculator->calculateScoreOrder([
+            ['pairing' => $this->createPairing('a', 30), 'tableNumber' => 2],
+            ['pairing' => $this->createPairing('b', 20), 'tableNumber' => 5],
+            ['pairing' => $this->createPairing('c', 10), 'tableNumber' => 7],
+        ]);
+
+        $this->assertSame([0, 0, 0], $result);
+    }
+
+    /**
+     * Test score order counts the ranks a pairing's table is out of place.
+     */
+    public function testScoreOrderDisplacement(): void
+    {
+        // The top pairing is on the last of three tables
+        $result = $this->calculator->calculateScoreOrder([
+            ['pairing' => $this->createPairing('a', 30), 'tableNumber' => 3],
+            ['pairing' => $this->createPairing('b', 20), 'tableNumber' => 1],
+            ['pairing' => $this->createPairing('c', 10), 'tableNumber' => 2],
+        ]);
+
+        $this->assertSame([2, 1, 1], $result);
+    }
+
+    /**
+     * Test tied scores may sit in any order, and byes are not ranked.
+     */
+    public function testScoreOrderTiesAndByes(): void
+    {
+        $result = $this->calculator->calculateScoreOrder([
+            'bye' => ['pairing' => $this->createPairing('a', 40, true), 'tableNumber' => null],
+            'x' => ['pairing' => $this->createPairing('b', 20), 'tableNumber' => 2],
+            'y' => ['pairing' => $this->createPairing('c', 20), 'tableNumber' => 1],
+            'unplaced' => ['pairing' => $this->createPairing('d', 50), 'tableNumber' => null],
+        ]);
+
+        $this->assertSame(['bye' => 0, 'x' => 0, 'y' => 0, 'unplaced' => 0], $result);
+    }
+
+    /**
+     * Create a pairing with the given combined total score.
+     */
+    private function createPairing(string $id, int $totalScore, bool $isBye = false): Pairing
+    {
+        return new Pairing(
+            $id . '1',
+            'Player ' . $id . '1',
+            0,
+            $isBye ? null : $id . '2',
+            $isBye ? null : 'Player ' . $id . '2',
+            0,
+            null,
+            $isBye ? $totalScore : intdiv($totalScore, 2),
+            $isBye ? 0 : $totalScore - intdiv($totalScore, 2)
+        );
+    }
+
     /**
      * Create a mock TournamentHistory.
      */
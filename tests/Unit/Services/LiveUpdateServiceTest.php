@@ -0,0 +1,118 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Unit\Services;
+
+use PHPUnit\Framework\TestCase;
+use TournamentTables\Services\LiveUpdateService;
+
+/**
+ * Tests for LiveUpdateService state digests, tokens and diffs.
+ */
+class LiveUpdateServiceTest extends TestCase
+{
+    /** @var LiveUpdateService */
+    private $service;
+
+    protected function setUp(): void
+    {
+        $this->service = new LiveUpdateService();
+    }
+
+    /**
+     * Test getState digests each published round, including rounds without allocations.
+     */
+    public function testGetStateDigestsEachPublishedRound(): void
+    {
+        $rows = [
+            $this->row(1, 10, 1, 'Alice', 'Bob'),
+            $this->row(1, 11, 2, 'Carol', 'Dave'),
+            ['round_number' => 2, 'allocation_id' => null],
+        ];
+
+        $state = $this->serviceReturning($rows)->getState(1);
+
+        $this->assertEquals([1, 2], array_keys($state));
+        $this->assertMatchesRegularExpression('/^[0-9a-f]{12}$/', $state[1]);
+        $this->assertNotEquals($state[1], $state[2]);
+    }
+
+    /**
+     * Test a moved pairing changes its round's digest only.
+     */
+    public function testGetStateChangesWhenAllocationsChange(): void
+    {
+        $before = $this->serviceReturning([
+            $this->row(1, 10, 1, 'Alice', 'Bob'),
+            $this->row(2, 20, 1, 'Alice', 'Carol'),
+        ])->getState(1);
+        $after = $this->serviceReturning([
+            $this->row(1, 10, 1, 'Alice', 'Bob'),
+            $this->row(2, 20, 3, 'Alice', 'Carol'),
+        ])->getState(1);
+
+        $this->assertEquals($before[1], $after[1]);
+        $this->assertNotEquals($before[2], $after[2]);
+    }
+
+    /**
+     * Test tokens round-trip and malformed tokens are rejected.
+     */
+    public function testEncodeAndDecodeState(): void
+    {
+        $state = [1 => 'ab12cd34ef56', 2 => '0a1b2c3d4e5f'];
+
+        $token = $this->service->encodeState($state);
+
+        $this->assertEquals('1.ab12cd34ef56-2.0a1b2c3d4e5f', $token);
+        $this->assertEquals($state, $this->service->decodeState($token));
+        $this->assertEquals([], $this->service->decodeState(''));
+        $this->assertNull($this->service->decodeState('1.ab12'));
+        $this->assertNull($this->service->decodeState('0.ab12cd34ef56'));
+        $this->assertNull($this->service->decodeState('garbage'));
+    }
+
+    /**
+     * Test diff reports new rounds as published and changed rounds as edited.
+     */
+    public function testDiff(): void
+    {
+        $before = [1 => 'aaaaaaaaaaaa', 2 => 'bbbbbbbbbbbb'];
+        $after = [1 => 'aaaaaaaaaaaa', 2 => 'cccccccccccc', 3 => 'dddddddddddd'];
+
+        $this->assertEquals([
+            ['event' => LiveUpdateService::EVENT_ALLOCATIONS_CHANGED, 'roundNumber' => 2],
+            ['event' => LiveUpdateService::EVENT_ROUND_PUBLISHED, 'roundNumber' => 3],
+        ], $this->service->diff($before, $after));
+
+        $this->assertEquals([], $this->service->diff($after, $after));
+        // Rounds that disappear are not reported
+        $this->assertEquals([], $this->service->diff($after, [1 => 'aaaaaaaaaaaa']));
+    }
+
+    private function serviceReturning(array $rows): LiveUpdateService
+    {
+        $service = $this->getMockBuilder(LiveUpdateService::class)
+            ->onlyMethods(['queryPublishedRows'])
+            ->getMock();
+        $service->method('queryPublishedRows')->willReturn($rows);
+
+        return $service;
+    }
+
+    private function row(int $roundNumber, int $allocationId, int $tableNumber, string $player1, string $player2): array
+    {
+        return [
+            'round_number' => $roundNumber,
+            'allocation_id' => $allocationId,
+            'table_number' => $tableNumber,
+            'terrain_name' => 'Volkus',
+            'terrain_emoji' => null,
+            'player1_name' => $player1,
+            'player1_score' => 0,
+            'player2_name' => $player2,
+            'player2_score' => 0,
+        ];
+    }
+}
@@ -0,0 +1,100 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Unit\Services;
+
+use PHPUnit\Framework\TestCase;
+use TournamentTables\Services\Pairing;
+use TournamentTables\Services\TableConstraints;
+
+/**
+ * Unit tests for TableConstraints.
+ */
+class TableConstraintsTest extends TestCase
+{
+    public function testRequiredTableAllowsOnlyThatTable(): void
+    {
+        $constraints = new TableConstraints([$this->rule(1, 'required', [3])]);
+
+        $this->assertTrue($constraints->allows(3));
+        $this->assertFalse($constraints->allows(1));
+    }
+
+    public function testAllowedAndForbiddenTables(): void
+    {
+        $allowed = new TableConstraints([$this->rule(1, 'allowed', [1, 2])]);
+        $this->assertTrue($allowed->allows(2));
+        $this->assertFalse($allowed->allows(3));
+
+        $forbidden = new TableConstraints([$this->rule(1, 'forbidden', [1, 2])]);
+        $this->assertFalse($forbidden->allows(2));
+        $this->assertTrue($forbidden->allows(3));
+    }
+
+    public function testEveryConstraintMustHold(): void
+    {
+        $constraints = new TableConstraints([
+            $this->rule(1, 'allowed', [1, 2, 3]),
+            $this->rule(2, 'forbidden', [1]),
+        ]);
+
+        $this->assertFalse($constraints->allows(1));
+        $this->assertTrue($constraints->allows(2));
+        $this->assertCount(1, $constraints->conflicts(1));
+    }
+
+    public function testConflictMessages(): void
+    {
+        $constraints = new TableConstraints([
+            $this->rule(1, 'required', [1], 'Streaming table'),
+            $this->rule(2, 'forbidden', [4, 5]),
+        ]);
+
+        $this->assertEquals(
+            [
+                ['type' => 'TABLE_CONSTRAINT', 'message' => 'Player 1 must play on table 1 (Streaming table), but is on table 4'],
+                ['type' => 'TABLE_CONSTRAINT', 'message' => 'Player 2 must not play on tables 4, 5, but is on table 4'],
+            ],
+            $constraints->conflicts(4)
+        );
+    }
+
+    public function testForPairingMatchesEitherPlayer(): void
+    {
+        $constraints = new TableConstraints([
+            $this->rule(1, 'required', [1]),
+            $this->rule(2, 'forbidden', [2]),
+            $this->rule(3, 'forbidden', [3]),
+        ]);
+        $pairing = new Pairing('p1', 'Player 1', 0, 'p2', 'Player 2', 0, null);
+
+        $forPairing = $constraints->forPairing($pairing);
+
+        $this->assertCount(0, $forPairing->conflicts(1));
+        $this->assertTrue($forPairing->allows(3));
+        $this->assertTrue($constraints->forPlayers([3])->allows(1));
+    }
+
+    public function testPriority(): void
+    {
+        $this->assertEquals(2, (new TableConstraints())->priority());
+        $this->assertEquals(1, (new TableConstraints([$this->rule(1, 'forbidden', [1])]))->priority());
+        $this->assertEquals(0, (new TableConstraints([
+            $this->rule(1, 'forbidden', [1]),
+            $this->rule(2, 'required', [2]),
+        ]))->priority());
+    }
+
+    private function rule(int $playerId, string $type, array $tableNumbers, ?string $note = null): array
+    {
+        return [
+            'playerId' => $playerId,
+            'bcpPlayerId' => "p{$playerId}",
+            'playerName' => "Player {$playerId}",
+            'type' => $type,
+            'tableNumbers' => $tableNumbers,
+            'note' => $note,
+        ];
+    }
+}
@@ -0,0 +1,221 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Unit\Services;
+
+use InvalidArgumentException;
+use PHPUnit\Framework\TestCase;
+use TournamentTables\Services\TournamentBackupService;
+
+/**
+ * Tests for TournamentBackupService backup document validation.
+ */
+class TournamentBackupServiceTest extends TestCase
+{
+    /** @var TournamentBackupService */
+    private $service;
+
+    protected function setUp(): void
+    {
+        $this->service = new TournamentBackupService();
+    }
+
+    private function document(): array
+    {
+        return [
+            'format' => TournamentBackupService::FORMAT,
+            'version' => TournamentBackupService::VERSION,
+            'exportedAt' => '2026-03-01T10:00:00+00:00',
+            'tournament' => [
+                'name' => 'Backup Test',
+                'bcpEventId' => 'event1',
+                'bcpUrl' => 'https://www.bestcoastpairings.com/event/event1',
+                'photoUrl' => null,
+                'locationName' => null,
+                'eventDate' => null,
+                'eventEndDate' => null,
+                'tableCount' => 2,
+                'lastUpdated' => null,
+                'terrainFamilyWeight' => 50,
+            ],
+            'terrainTypes' => [
+                ['id' => 7, 'builtIn' => true, 'name' => 'Volkus', 'family' => null, 'description' => null,
+                 'emoji' => null, 'sortOrder' => 1, 'isArchived' => false],
+            ],
+            'tables' => [
+                ['id' => 11, 'tableNumber' => 1, 'terrainTypeId' => 7, 'optional' => false, 'isHidden' => false],
+                ['id' => 12, 'tableNumber' => 2, 'terrainTypeId' => null, 'optional' => false, 'isHidden' => false],
+            ],
+            'roundTerrain' => [
+                ['tableId' => 12, 'roundNumber' => 1, 'terrainTypeId' => 7],
+            ],
+            'players' => [
+                ['id' => 21, 'bcpPlayerId' => 'p1', 'name' => 'Alice', 'faction' => null, 'totalScore' => 0, 'placing' => null],
+                ['id' => 22, 'bcpPlayerId' => 'p2', 'name' => 'Bob', 'faction' => null, 'totalScore' => 0, 'placing' => null],
+                ['id' => 23, 'bcpPlayerId' => 'p3', 'name' => 'Carol', 'faction' => null, 'totalScore' => 0, 'placing' => null],
+            ],
+            'tableConstraints' => [
+                ['playerId' => 21, 'roundNumber' => null, 'type' => 'required', 'tableIds' => [11], 'note' => null],
+            ],
+            'rounds' => [
+                [
+                    'roundNumber' => 1,
+                    'isPublished' => true,
+                    'allocations' => [
+                        ['id' => 31, 'tableId' => 11, 'player1Id' => 21, 'player2Id' => 22,
+                         'player1Score' => 0, 'player2Score' => 0, 'bcpTableNumber' => 1, 'reason' => null],
+                        ['id' => 32, 'tableId' => null, 'player1Id' => 23, 'player2Id' => null,
+                         'player1Score' => 0, 'player2Score' => 0, 'bcpTableNumber' => null, 'reason' => null],
+                    ],
+                    'edits' => [
+                        ['action' => 'move', 'changes' => [['allocationId' => 31, 'fromTableId' => 12, 'toTableId' => 11]],
+                         'editedBy' => null, 'isUndone' => false, 'createdAt' => '2026-03-01 10:00:00'],
+                    ],
+                ],
+            ],
+        ];
+    }
+
+    /**
+     * Test a complete, consistent backup passes.
+     */
+    public function testValidDocumentPasses(): void
+    {
+        $this->service->validateDocument($this->document());
+
+        $this->addToAssertionCount(1);
+    }
+
+    /**
+     * Test documents of another format or version are rejected.
+     */
+    public function testRejectsUnsupportedVersion(): void
+    {
+        $document = $this->document();
+        $document['version'] = 2;
+
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Unsupported backup version: 2 (expected 1)');
+
+        $this->service->validateDocument($document);
+    }
+
+    /**
+     * Test anything that is not a backup is rejected.
+     */
+    public function testRejectsOtherDocuments(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Not a tournament backup');
+
+        $this->service->validateDocument(['tournament' => ['name' => 'Export']]);
+    }
+
+    /**
+     * Test references to entities missing from the backup are rejected.
+     */
+    public function testRejectsUnknownReference(): void
+    {
+        $document = $this->document();
+        $document['rounds'][0]['allocations'][0]['player2Id'] = 99;
+
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('rounds[0].allocations[0].player2Id refers to an unknown ID: 99');
+
+        $this->service->validateDocument($document);
+    }
+
+    /**
+     * Test edits may only move allocations of their own round.
+     */
+    public function testRejectsEditOfAnotherRoundsAllocation(): void
+    {
+        $document = $this->document();
+        $document['rounds'][] = [
+            'roundNumber' => 2,
+            'isPublished' => false,
+            'allocations' => [],
+            'edits' => [
+                ['action' => 'move', 'changes' => [['allocationId' => 31, 'fromTableId' => 11, 'toTableId' => 12]],
+                 'editedBy' => null, 'isUndone' => false, 'createdAt' => '2026-03-01 11:00:00'],
+            ],
+        ];
+
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('rounds[1].edits[0].changes.allocationId refers to an unknown ID: 31');
+
+        $this->service->validateDocument($document);
+    }
+
+    /**
+     * Test repeated table numbers are rejected.
+     */
+    public function testRejectsRepeatedTableNumber(): void
+    {
+        $document = $this->document();
+        $document['tables'][1]['tableNumber'] = 1;
+
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('tables must have unique tableNumber values');
+
+        $this->service->validateDocument($document);
+    }
+
+    /**
+     * Test a table can't have two terrain overrides for one round.
+     */
+    public function testRejectsRepeatedRoundTerrain(): void
+    {
+        $document = $this->document();
+        $document['roundTerrain'][] = ['tableId' => 12, 'roundNumber' => 1, 'terrainTypeId' => null];
+
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('roundTerrain[1] repeats table/round 12/1');
+
+        $this->service->validateDocument($document);
+    }
+
+    /**
+     * Test restored terrain types must pass the terrain type rules.
+     */
+    public function testRejectsInvalidTerrainType(): void
+    {
+        $document = $this->document();
+        $document['terrainTypes'][] = ['id' => 8, 'builtIn' => false, 'name' => 'Custom', 'family' => null,
+            'description' => null, 'emoji' => '<script>alert(1)</script>', 'sortOrder' => 2, 'isArchived' => false];
+
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('terrainTypes[1].emoji: Emoji must be text of at most 10 bytes');
+
+        $this->service->validateDocument($document);
+    }
+
+    /**
+     * Test field types are checked, not just references.
+     */
+    public function testRejectsMistypedFields(): void
+    {
+        $document = $this->document();
+        $document['tables'][0]['mapX'] = 150;
+        $document['tables'][0]['mapY'] = 20;
+
+        try {
+            $this->service->validateDocument($document);
+            $this->fail('Expected an off-map position to be rejected');
+        } catch (InvalidArgumentException $e) {
+            $this->assertSame(
+                'tables[0]: Position needs x and y from 0 to 100, or both null to take the table off the map',
+                $e->getMessage()
+            );
+        }
+
+        $document = $this->document();
+        $document['players'][0]['totalScore'] = '12';
+
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('players[0].totalScore must be an integer');
+
+        $this->service->validateDocument($document);
+    }
+}
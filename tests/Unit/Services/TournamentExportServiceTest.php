@@ -0,0 +1,126 @@
+<?php
+
+declare(strict_types=1);
+
+namespace TournamentTables\Tests\Unit\Services;
+
+use InvalidArgumentException;
+use PHPUnit\Framework\TestCase;
+use TournamentTables\Services\TournamentExportService;
+
+/**
+ * Tests for TournamentExportService column selection and CSV output.
+ */
+class TournamentExportServiceTest extends TestCase
+{
+    /** @var TournamentExportService */
+    private $service;
+
+    protected function setUp(): void
+    {
+        $this->service = new TournamentExportService();
+    }
+
+    /**
+     * Test every column is exported by default, organizer-only columns only to the organizer.
+     */
+    public function testResolveColumnsDefaultsToAll(): void
+    {
+        $admin = $this->service->resolveColumns(null, false);
+        $public = $this->service->resolveColumns('', true);
+
+        $this->assertEquals(array_keys(TournamentExportService::COLUMNS), $admin);
+        $this->assertContains('conflicts', $admin);
+        $this->assertNotContains('conflicts', $public);
+        $this->assertNotContains('edits', $public);
+        $this->assertContains('player1Faction', $public);
+    }
+
+    /**
+     * Test requested columns keep export order and drop duplicates.
+     */
+    public function testResolveColumnsKeepsExportOrder(): void
+    {
+        $this->assertEquals(
+            ['roundNumber', 'tableNumber', 'player1Name'],
+            $this->service->resolveColumns('player1Name, tableNumber,roundNumber,tableNumber,', true)
+        );
+    }
+
+    /**
+     * Test unknown columns are rejected.
+     */
+    public function testResolveColumnsRejectsUnknownColumn(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Unknown column: table');
+
+        $this->service->resolveColumns('roundNumber,table', false);
+    }
+
+    /**
+     * Test organizer-only columns are rejected in the public export.
+     */
+    public function testResolveColumnsRejectsOrganizerColumnPublicly(): void
+    {
+        $this->expectException(InvalidArgumentException::class);
+        $this->expectExceptionMessage('Column conflicts is only available to the organizer');
+
+        $this->service->resolveColumns('roundNumber,conflicts', true);
+    }
+
+    /**
+     * Test CSV flattens rounds, booleans, nulls, conflicts and edits, and defuses formulas.
+     */
+    public function testToCsv(): void
+    {
+        $export = [
+            'columns' => ['roundNumber', 'isBye', 'player1Name', 'player2Name', 'conflicts', 'edits'],
+            'rounds' => [
+                [
+                    'roundNumber' => 1,
+                    'isPublished' => true,
+                    'rows' => [
+                        [
+                            'roundNumber' => 1,
+                            'isBye' => false,
+                            'player1Name' => 'Alice, "Ace" Smith',
+                            'player2Name' => '=HYPERLINK("x")',
+                            'conflicts' => [
+                                ['type' => 'TABLE_REUSE', 'message' => 'Alice played on table 1'],
+                                ['type' => 'TERRAIN_REUSE', 'message' => 'Alice already played on Volkus terrain'],
+                            ],
+                            'edits' => [
+                                ['description' => 'Moved to table 2', 'editedBy' => 'Bob'],
+                                ['description' => 'Swapped tables 2 and 3', 'editedBy' => null],
+                            ],
+                        ],
+                    ],
+                ],
+                [
+                    'roundNumber' => 2,
+                    'isPublished' => false,
+                    'rows' => [
+                        [
+                            'roundNumber' => 2,
+                            'isBye' => true,
+                            'player1Name' => 'Carol',
+                            'player2Name' => null,
+                            'conflicts' => [],
+                            'edits' => [],
+                        ],
+                    ],
+                ],
+            ],
+        ];
+
+        $this->assertEquals(
+            "roundNumber,isBye,player1Name,player2Name,conflicts,edits\n"
+            . '1,FALSE,"Alice, ""Ace"" Smith","\'=HYPERLINK(""x"")",'
+            . '"TABLE_REUSE: Alice played on table 1; TERRAIN_REUSE: Alice already played on Volkus terrain",'
+            . '"Moved to table 2 (Bob); Swapped tables 2 and 3"' . "\n"
+            . "2,TRUE,Carol,,,\n",
+            $this->service->toCsv($export)
+        );
+    }
+}
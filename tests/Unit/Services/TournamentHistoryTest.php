@@ -156,6 +156,33 @@ class TournamentHistoryTest extends TestCase
         $this->assertFalse($history->hasPlayerExperiencedTerrain('player123', 2));
     }
 
+    /**
+     * Test findExperiencedTerrainVariant finds another type of the same family.
+     */
+    public function testFindExperiencedTerrainVariant(): void
+    {
+        $history = $this->getMockBuilder(TournamentHistory::class)
+            ->setConstructorArgs([1, 3])
+            ->onlyMethods(['queryPlayerTerrainHistory'])
+            ->getMock();
+
+        $history->expects($this->once())
+            ->method('queryPlayerTerrainHistory')
+            ->willReturn([
+                ['id' => 1, 'name' => 'Volkus', 'family' => 'Volkus'],
+                ['id' => 3, 'name' => 'Octarius', 'family' => 'Octarius'],
+            ]);
+
+        // Volkus + Tyranid (type 2) is a variant of the Volkus family
+        $this->assertEquals('Volkus', $history->findExperiencedTerrainVariant('player123', 2, 'Volkus'));
+
+        // The experienced type itself is not a variant of its own family
+        $this->assertNull($history->findExperiencedTerrainVariant('player123', 1, 'Volkus'));
+
+        // No experienced type in the Tomb World family
+        $this->assertNull($history->findExperiencedTerrainVariant('player123', 4, 'Tomb World'));
+    }
+
     /**
      * Test null terrain type always returns false.
      */